@@ -18,6 +18,9 @@ import { GamificationProvider } from './contexts/GamificationContext';
 import { GamificationEngine } from './components/gamification/GamificationEngine';
 import { useAnalytics } from './hooks/useAnalytics';
 import { usePulseInit } from './hooks/usePulseInit';
+import { useOutboxSync } from './hooks/useOutboxSync';
+import { useSavedSearchAlerts } from './hooks/useSavedSearchAlerts';
+import { useDigestDelivery } from './hooks/useDigestDelivery';
 import { PulseDashboard } from './components/pulse/PulseDashboard';
 import { Sidebar } from './components/layout/Sidebar';
 import { LOPHubPage, LOPSessionDetail, LOPArchivePage, LOPLearningPath, LOPAnalyticsPage } from './features/lop';
@@ -57,12 +60,21 @@ function AppContent() {
   const isMobile = useIsMobile();
   const { showToast } = useToast();
   const { user } = useAuth();
-  const { trackPageView, trackSearch } = useAnalytics();
+  const { trackPageView } = useAnalytics();
   const { toggleDock, setPageContext } = useDock();
 
   // 🚀 PULSE: Auto-fetch live healthcare news on app load
   usePulseInit();
 
+  // Replay offline mutations once connectivity returns
+  useOutboxSync();
+
+  // Alert on new matches for saved searches as the index changes
+  useSavedSearchAlerts();
+
+  // Deliver the scheduled Pulse digest when its slot comes due
+  useDigestDelivery();
+
   // Track page views and update dock context
   useEffect(() => {
     trackPageView(activePage);
@@ -74,13 +86,13 @@ function AppContent() {
   const handleNavigate = useCallback((pageId: string, params?: Record<string, string>) => {
     setActivePage(pageId as ActivePage);
     if (params?.slug) setLopParams({ slug: params.slug });
+    if (params?.query) setSearchQuery(params.query);
   }, []);
 
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
     setActivePage('search');
-    trackSearch(query, 0); // Count will be updated when results load
-  }, [trackSearch]);
+  }, []);
 
   // Global keyboard shortcuts
   useEffect(() => {
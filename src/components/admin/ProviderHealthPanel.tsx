@@ -0,0 +1,214 @@
+/**
+ * ProviderHealthPanel - API budget and health for Pulse data providers
+ *
+ * Features:
+ * - Today's quota burn per provider, with conserve and circuit state
+ * - Daily request history (failures and throttled calls highlighted)
+ * - Uptime over the last 30 days
+ * - Reset a provider's usage and failure state
+ */
+
+import React, { useState } from 'react';
+import { Activity, Gauge, RefreshCw, RotateCcw, AlertTriangle } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import {
+    getProviderHealth,
+    resetProviderUsage,
+    PROVIDER_HISTORY_DAYS,
+    type ProviderHealth,
+} from '../../lib/pulse/providerRegistry';
+// Importing the services registers their providers
+import '../../lib/pulse/newsService';
+import '../../lib/pulse/googleSearchService';
+
+interface ProviderHealthPanelProps {
+    className?: string;
+}
+
+const statusStyles: Record<ProviderHealth['status'], { label: string; className: string }> = {
+    healthy: { label: 'Healthy', className: 'bg-emerald-100 text-emerald-700' },
+    degraded: { label: 'Degraded', className: 'bg-amber-100 text-amber-700' },
+    down: { label: 'Circuit open', className: 'bg-red-100 text-red-700' },
+    exhausted: { label: 'Quota used', className: 'bg-gray-200 text-gray-700' },
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatWait = (ms: number) =>
+    ms >= 60 * 60 * 1000
+        ? `${Math.floor(ms / (60 * 60 * 1000))}h ${Math.floor((ms % (60 * 60 * 1000)) / 60000)}m`
+        : ms >= 60000 ? `${Math.ceil(ms / 60000)}m` : `${Math.ceil(ms / 1000)}s`;
+
+/** Last N calendar days, oldest first, filled with zeros where a provider was idle */
+const lastDays = (health: ProviderHealth, days: number) => {
+    const today = new Date();
+    return Array.from({ length: days }, (_, i) => {
+        const d = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1 - i));
+        const date = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+        return health.history.find(h => h.date === date) ?? { date, requests: 0, failures: 0, throttled: 0 };
+    });
+};
+
+const BurnChart: React.FC<{ health: ProviderHealth }> = ({ health }) => {
+    const days = lastDays(health, 14);
+    const peak = Math.max(health.dailyQuota, ...days.map(d => d.requests));
+    const barWidth = 100 / days.length;
+
+    return (
+        <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-16" role="img" aria-label={`${health.name} daily requests`}>
+            {/* Daily quota line */}
+            <line x1="0" x2="100" y1={40 - (health.dailyQuota / peak) * 40} y2={40 - (health.dailyQuota / peak) * 40} stroke="#e5e7eb" strokeDasharray="2 1" strokeWidth="0.5" />
+            {days.map((d, i) => {
+                const total = (d.requests / peak) * 40;
+                const failed = (d.failures / peak) * 40;
+                return (
+                    <g key={d.date}>
+                        <title>{`${d.date}: ${d.requests} requests, ${d.failures} failed, ${d.throttled} throttled`}</title>
+                        <rect x={i * barWidth + 0.5} y={40 - total} width={barWidth - 1} height={total - failed} fill="#3b82f6" />
+                        <rect x={i * barWidth + 0.5} y={40 - failed} width={barWidth - 1} height={failed} fill="#ef4444" />
+                        {d.throttled > 0 && (
+                            <circle cx={i * barWidth + barWidth / 2} cy={2} r={0.9} fill="#f59e0b" />
+                        )}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+const UptimeStrip: React.FC<{ health: ProviderHealth }> = ({ health }) => (
+    <div className="flex gap-0.5">
+        {lastDays(health, PROVIDER_HISTORY_DAYS).map(d => {
+            const uptime = d.requests > 0 ? (d.requests - d.failures) / d.requests : null;
+            return (
+                <div
+                    key={d.date}
+                    title={uptime === null ? `${d.date}: no requests` : `${d.date}: ${formatPercent(uptime)} up`}
+                    className={cn(
+                        'flex-1 h-4 rounded-sm',
+                        uptime === null ? 'bg-gray-100'
+                            : uptime >= 0.99 ? 'bg-emerald-400'
+                                : uptime >= 0.9 ? 'bg-amber-400'
+                                    : 'bg-red-400'
+                    )}
+                />
+            );
+        })}
+    </div>
+);
+
+export const ProviderHealthPanel: React.FC<ProviderHealthPanelProps> = ({ className }) => {
+    const [providers, setProviders] = useState(() => getProviderHealth());
+
+    const refresh = () => setProviders(getProviderHealth());
+
+    const handleReset = (health: ProviderHealth) => {
+        if (window.confirm(`Reset usage and failure history for ${health.name}?`)) {
+            resetProviderUsage(health.id);
+            refresh();
+        }
+    };
+
+    return (
+        <div className={cn(
+            'bg-white rounded-xl border border-gray-200 shadow-sm p-5',
+            className
+        )}>
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <Gauge className="w-5 h-5 text-cafe-600" />
+                    Pulse API Providers
+                </h3>
+                <button
+                    onClick={refresh}
+                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-700 transition-colors"
+                >
+                    <RefreshCw className="w-3.5 h-3.5" />
+                    Refresh
+                </button>
+            </div>
+
+            {providers.length === 0 ? (
+                <p className="text-sm text-gray-400 py-6 text-center">No providers registered.</p>
+            ) : (
+                <div className="grid grid-cols-3 gap-4">
+                    {providers.map(health => {
+                        const burn = health.dailyQuota > 0 ? health.used / health.dailyQuota : 0;
+                        const status = statusStyles[health.status];
+                        return (
+                            <div key={health.id} className="p-4 bg-gray-50 rounded-lg space-y-3">
+                                <div className="flex items-start justify-between gap-2">
+                                    <div>
+                                        <p className="font-medium text-gray-900">{health.name}</p>
+                                        <p className="text-xs text-gray-500 capitalize">{health.kind}</p>
+                                    </div>
+                                    <span className={cn('px-2 py-0.5 rounded-full text-[10px] font-semibold', status.className)}>
+                                        {status.label}
+                                    </span>
+                                </div>
+
+                                {/* Quota burn */}
+                                <div>
+                                    <div className="flex justify-between text-xs text-gray-600 mb-0.5">
+                                        <span>Quota today</span>
+                                        <span>{health.used} / {health.dailyQuota}</span>
+                                    </div>
+                                    <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                                        <div
+                                            className={cn(
+                                                'h-full rounded-full',
+                                                burn >= 1 ? 'bg-red-500' : health.conserveMode ? 'bg-amber-500' : 'bg-blue-500'
+                                            )}
+                                            style={{ width: formatPercent(Math.min(burn, 1)) }}
+                                        />
+                                    </div>
+                                    {health.conserveMode && burn < 1 && (
+                                        <p className="text-[10px] text-amber-600 mt-0.5">Conserve mode — serving cached results first</p>
+                                    )}
+                                </div>
+
+                                <div>
+                                    <p className="text-xs text-gray-500 mb-1">Requests, last 14 days</p>
+                                    <BurnChart health={health} />
+                                </div>
+
+                                <div>
+                                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                                        <span className="flex items-center gap-1">
+                                            <Activity className="w-3 h-3" />
+                                            Uptime ({PROVIDER_HISTORY_DAYS}d)
+                                        </span>
+                                        <span className="font-medium">{health.uptime === null ? '—' : formatPercent(health.uptime)}</span>
+                                    </div>
+                                    <UptimeStrip health={health} />
+                                </div>
+
+                                {(health.lastError || health.retryInMs > 0) && (
+                                    <div className="text-xs text-gray-600 space-y-0.5">
+                                        {health.retryInMs > 0 && (
+                                            <p>Available again in {formatWait(health.retryInMs)}</p>
+                                        )}
+                                        {health.lastError && (
+                                            <p className="flex items-start gap-1 text-red-600">
+                                                <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                                                <span className="truncate" title={health.lastError}>{health.lastError}</span>
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+
+                                <button
+                                    onClick={() => handleReset(health)}
+                                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-500 transition-colors"
+                                >
+                                    <RotateCcw className="w-3 h-3" />
+                                    Reset
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
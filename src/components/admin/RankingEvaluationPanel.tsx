@@ -0,0 +1,227 @@
+/**
+ * RankingEvaluationPanel - Tune and verify search ranking weights
+ *
+ * Features:
+ * - Edit candidate ranking weights
+ * - Compare candidate vs current weights on labeled queries (NDCG@10, MRR)
+ * - Apply the candidate only after seeing the result
+ * - Overview of the click/vote feedback behind the ranking
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Scale, Play, Check, RotateCcw, Trash2, TrendingUp, TrendingDown } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import {
+    cafeFinder,
+    compareRankings,
+    useRankingFeedback,
+    DEFAULT_SEARCH_CONFIG,
+    type RankingWeights,
+    type WeightComparison,
+} from '../../lib/search';
+import { searchJudgments } from '../../data/searchJudgments';
+
+interface RankingEvaluationPanelProps {
+    className?: string;
+}
+
+const weightLabels: Record<keyof RankingWeights, string> = {
+    intentMatch: 'Intent match',
+    semanticScore: 'Semantic',
+    keywordScore: 'Keyword',
+    freshness: 'Freshness',
+    popularity: 'Popularity',
+    contextBoost: 'Context',
+    queryAffinity: 'Query clicks',
+};
+
+const formatMetric = (value: number) => value.toFixed(3);
+
+const formatDelta = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+
+export const RankingEvaluationPanel: React.FC<RankingEvaluationPanelProps> = ({ className }) => {
+    const { weights, documents, queries, setWeights, clearFeedback } = useRankingFeedback();
+    const currentWeights = weights ?? DEFAULT_SEARCH_CONFIG.weights;
+
+    const [candidate, setCandidate] = useState<RankingWeights>(currentWeights);
+    const [comparison, setComparison] = useState<WeightComparison | null>(null);
+
+    const feedbackStats = useMemo(() => {
+        const docs = Object.values(documents);
+        return {
+            documents: docs.length,
+            clicks: Math.round(docs.reduce((sum, d) => sum + d.clicks, 0)),
+            votes: docs.reduce((sum, d) => sum + d.helpful + d.notHelpful, 0),
+            queries: Object.keys(queries).length,
+        };
+    }, [documents, queries]);
+
+    const handleWeightChange = (key: keyof RankingWeights, value: string) => {
+        const parsed = Number(value);
+        setCandidate(prev => ({ ...prev, [key]: Number.isFinite(parsed) ? Math.max(0, parsed) : 0 }));
+        setComparison(null);
+    };
+
+    const handleRun = () => {
+        cafeFinder.initialize();
+        setComparison(compareRankings(
+            q => cafeFinder.search(q, undefined, { weights: currentWeights }),
+            q => cafeFinder.search(q, undefined, { weights: candidate }),
+            searchJudgments
+        ));
+    };
+
+    const handleApply = () => {
+        setWeights(candidate);
+        setComparison(null);
+    };
+
+    const handleReset = () => {
+        setWeights(null);
+        setCandidate(DEFAULT_SEARCH_CONFIG.weights);
+        setComparison(null);
+    };
+
+    const handleClearFeedback = () => {
+        if (window.confirm('Clear all click, dwell and vote feedback used for ranking?')) {
+            clearFeedback();
+        }
+    };
+
+    const isCandidateDifferent = (Object.keys(candidate) as Array<keyof RankingWeights>)
+        .some(key => candidate[key] !== currentWeights[key]);
+
+    return (
+        <div className={cn(
+            'bg-white rounded-xl border border-gray-200 shadow-sm p-5',
+            className
+        )}>
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <Scale className="w-5 h-5 text-indigo-500" />
+                    Search Ranking
+                    {weights && (
+                        <span className="px-2 py-0.5 text-[10px] font-medium rounded-full bg-amber-100 text-amber-700">
+                            Tuned
+                        </span>
+                    )}
+                </h3>
+                <button
+                    onClick={handleReset}
+                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600 transition-colors"
+                >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                    Default weights
+                </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-5">
+                {/* Weights */}
+                <div>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Candidate Weights</h4>
+                    <div className="space-y-2">
+                        {(Object.keys(weightLabels) as Array<keyof RankingWeights>).map(key => (
+                            <label key={key} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+                                <span>
+                                    {weightLabels[key]}
+                                    {candidate[key] !== currentWeights[key] && (
+                                        <span className="ml-1 text-gray-400">(now {currentWeights[key]})</span>
+                                    )}
+                                </span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.05}
+                                    value={candidate[key]}
+                                    onChange={e => handleWeightChange(key, e.target.value)}
+                                    className="w-20 px-2 py-1 border border-gray-200 rounded-md text-right focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <button
+                        onClick={handleRun}
+                        className="mt-3 w-full flex items-center justify-center gap-1.5 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors"
+                    >
+                        <Play className="w-4 h-4" />
+                        Evaluate ({searchJudgments.length} queries)
+                    </button>
+                </div>
+
+                {/* Evaluation */}
+                <div className="col-span-2">
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Offline Evaluation</h4>
+                    {!comparison ? (
+                        <p className="text-sm text-gray-400 py-6 text-center">
+                            Adjust weights and run an evaluation to compare them with the current ranking.
+                        </p>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-2 gap-3 mb-3">
+                                {[
+                                    { label: `NDCG@${comparison.baseline.k}`, base: comparison.baseline.ndcg, next: comparison.candidate.ndcg, delta: comparison.ndcgDelta },
+                                    { label: 'MRR', base: comparison.baseline.mrr, next: comparison.candidate.mrr, delta: comparison.mrrDelta },
+                                ].map(metric => (
+                                    <div key={metric.label} className="p-3 bg-gray-50 rounded-lg">
+                                        <p className="text-xs text-gray-500">{metric.label}</p>
+                                        <p className="text-lg font-bold text-gray-900">
+                                            {formatMetric(metric.base)} → {formatMetric(metric.next)}
+                                        </p>
+                                        <p className={cn(
+                                            'text-xs font-medium flex items-center gap-1',
+                                            metric.delta > 0 ? 'text-emerald-600' : metric.delta < 0 ? 'text-red-600' : 'text-gray-400'
+                                        )}>
+                                            {metric.delta > 0 ? <TrendingUp className="w-3 h-3" /> : metric.delta < 0 ? <TrendingDown className="w-3 h-3" /> : null}
+                                            {formatDelta(metric.delta)}
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {comparison.changed.length === 0 ? (
+                                <p className="text-xs text-gray-400 mb-3">No query changed its NDCG.</p>
+                            ) : (
+                                <ul className="space-y-1 mb-3 max-h-32 overflow-y-auto">
+                                    {comparison.changed.map(q => (
+                                        <li key={q.query} className="flex justify-between text-xs text-gray-600">
+                                            <span className="truncate">{q.query}</span>
+                                            <span className={q.candidate > q.baseline ? 'text-emerald-600' : 'text-red-600'}>
+                                                {formatMetric(q.baseline)} → {formatMetric(q.candidate)}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            <button
+                                onClick={handleApply}
+                                disabled={!isCandidateDifferent}
+                                className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-300 rounded-lg transition-colors"
+                            >
+                                <Check className="w-4 h-4" />
+                                Apply candidate weights
+                            </button>
+                        </>
+                    )}
+
+                    {/* Feedback overview */}
+                    <div className="mt-4 pt-4 border-t border-gray-100 flex items-center justify-between text-xs text-gray-500">
+                        <span>
+                            Feedback: {feedbackStats.clicks} clicks, {feedbackStats.votes} votes on{' '}
+                            {feedbackStats.documents} documents across {feedbackStats.queries} queries
+                        </span>
+                        {feedbackStats.documents > 0 && (
+                            <button
+                                onClick={handleClearFeedback}
+                                className="flex items-center gap-1 text-gray-400 hover:text-red-500 transition-colors"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                                Clear
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
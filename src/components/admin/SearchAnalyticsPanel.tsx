@@ -0,0 +1,201 @@
+/**
+ * SearchAnalyticsPanel - Search analytics for content owners
+ *
+ * Features:
+ * - Headline search stats (volume, zero-result rate, CTR, time-to-click)
+ * - Top, zero-result and low-CTR queries
+ * - Intent distribution and common query rephrasings
+ */
+
+import React, { useMemo, useState } from 'react';
+import { BarChart3, SearchX, MousePointerClick, Repeat, Timer, Trash2 } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { summarizeSearchLog } from '../../lib/search/searchAnalytics';
+import type { QueryStats } from '../../lib/search/types';
+import { useSearchAnalyticsStore } from '../../stores/searchAnalyticsStore';
+
+interface SearchAnalyticsPanelProps {
+    className?: string;
+}
+
+type QueryView = 'top' | 'zero' | 'low-ctr';
+
+const views: { id: QueryView; label: string; empty: string }[] = [
+    { id: 'top', label: 'Top Queries', empty: 'No searches recorded yet.' },
+    { id: 'zero', label: 'Zero Results', empty: 'Every query found something.' },
+    { id: 'low-ctr', label: 'Low CTR', empty: 'No repeated queries with low click-through.' },
+];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatSeconds = (ms: number | null) =>
+    ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`;
+
+const formatIntent = (intent: string) =>
+    intent.toLowerCase().split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+export const SearchAnalyticsPanel: React.FC<SearchAnalyticsPanelProps> = ({ className }) => {
+    const { log, clearLog } = useSearchAnalyticsStore();
+    const [view, setView] = useState<QueryView>('zero');
+
+    const summary = useMemo(() => summarizeSearchLog(log), [log]);
+
+    const rows: QueryStats[] = view === 'top'
+        ? summary.topQueries
+        : view === 'zero'
+            ? summary.zeroResultQueries
+            : summary.lowCtrQueries;
+
+    const handleClear = () => {
+        if (window.confirm('Clear all recorded search analytics?')) {
+            clearLog();
+        }
+    };
+
+    const stats = [
+        { label: 'Searches', value: summary.totalSearches.toLocaleString(), icon: BarChart3, color: 'bg-blue-100 text-blue-600' },
+        { label: 'Zero-Result Rate', value: formatPercent(summary.zeroResultRate), icon: SearchX, color: 'bg-red-100 text-red-600' },
+        { label: 'Click-Through', value: formatPercent(summary.ctr), icon: MousePointerClick, color: 'bg-emerald-100 text-emerald-600' },
+        { label: 'Avg Time to Click', value: formatSeconds(summary.avgTimeToClickMs), icon: Timer, color: 'bg-amber-100 text-amber-600' },
+        { label: 'Rephrased', value: formatPercent(summary.reformulationRate), icon: Repeat, color: 'bg-purple-100 text-purple-600' },
+    ];
+
+    return (
+        <div className={cn(
+            'bg-white rounded-xl border border-gray-200 shadow-sm p-5',
+            className
+        )}>
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <BarChart3 className="w-5 h-5 text-blue-500" />
+                    Search Analytics
+                </h3>
+                {log.length > 0 && (
+                    <button
+                        onClick={handleClear}
+                        className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-500 transition-colors"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                        Clear
+                    </button>
+                )}
+            </div>
+
+            {/* Headline Stats */}
+            <div className="grid grid-cols-5 gap-3 mb-5">
+                {stats.map(stat => (
+                    <div key={stat.label} className="p-3 bg-gray-50 rounded-lg">
+                        <div className={cn('w-7 h-7 rounded-md flex items-center justify-center mb-2', stat.color)}>
+                            <stat.icon className="w-4 h-4" />
+                        </div>
+                        <p className="text-lg font-bold text-gray-900">{stat.value}</p>
+                        <p className="text-xs text-gray-500">{stat.label}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-5">
+                {/* Query Tables */}
+                <div className="col-span-2">
+                    <div className="flex gap-1 mb-3">
+                        {views.map(v => (
+                            <button
+                                key={v.id}
+                                onClick={() => setView(v.id)}
+                                className={cn(
+                                    'px-3 py-1 text-xs font-medium rounded-full transition-colors',
+                                    view === v.id
+                                        ? 'bg-gray-900 text-white'
+                                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                )}
+                            >
+                                {v.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {rows.length === 0 ? (
+                        <p className="text-sm text-gray-400 py-6 text-center">
+                            {views.find(v => v.id === view)?.empty}
+                        </p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+                                    <th className="py-2 font-medium">Query</th>
+                                    <th className="py-2 font-medium text-right">Searches</th>
+                                    <th className="py-2 font-medium text-right">Results</th>
+                                    <th className="py-2 font-medium text-right">CTR</th>
+                                    <th className="py-2 font-medium text-right">Avg Pos.</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.query} className="border-b border-gray-50 last:border-0">
+                                        <td className="py-2 text-gray-800 truncate max-w-[220px]">{row.query}</td>
+                                        <td className="py-2 text-right text-gray-600">{row.searches}</td>
+                                        <td className={cn(
+                                            'py-2 text-right',
+                                            row.avgResultCount === 0 ? 'text-red-600 font-medium' : 'text-gray-600'
+                                        )}>
+                                            {Math.round(row.avgResultCount)}
+                                        </td>
+                                        <td className="py-2 text-right text-gray-600">{formatPercent(row.ctr)}</td>
+                                        <td className="py-2 text-right text-gray-600">
+                                            {row.avgClickPosition === null ? '—' : row.avgClickPosition.toFixed(1)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {/* Intent Distribution + Rephrasings */}
+                <div className="space-y-5">
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">Intent Distribution</h4>
+                        {summary.intentDistribution.length === 0 ? (
+                            <p className="text-xs text-gray-400">No data yet.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {summary.intentDistribution.slice(0, 6).map(({ intent, count, share }) => (
+                                    <div key={intent}>
+                                        <div className="flex justify-between text-xs text-gray-600 mb-0.5">
+                                            <span>{formatIntent(intent)}</span>
+                                            <span>{count}</span>
+                                        </div>
+                                        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                                            <div
+                                                className="h-full bg-blue-500 rounded-full"
+                                                style={{ width: formatPercent(share) }}
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">Common Rephrasings</h4>
+                        {summary.reformulations.length === 0 ? (
+                            <p className="text-xs text-gray-400">No rephrased searches yet.</p>
+                        ) : (
+                            <ul className="space-y-1.5">
+                                {summary.reformulations.slice(0, 5).map(pair => (
+                                    <li key={`${pair.from}→${pair.to}`} className="text-xs text-gray-600">
+                                        <span className="text-gray-400 line-through">{pair.from}</span>
+                                        {' → '}
+                                        <span className="font-medium text-gray-800">{pair.to}</span>
+                                        {pair.count > 1 && <span className="text-gray-400"> ×{pair.count}</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,398 @@
+/**
+ * SynonymManagerPanel - Admin editor for the search dictionary
+ *
+ * Features:
+ * - Add/remove terms and synonyms per category
+ * - Add/remove custom intent patterns
+ * - Test a sample query against the live dictionary
+ * - Import/export the dictionary as JSON
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { BookA, Download, Upload, RotateCcw, Plus, X, FlaskConical } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import {
+    INTENT_TYPES,
+    SYNONYM_CATEGORIES,
+    classifyIntent,
+    extractEntities,
+    getDefaultSynonymDictionary,
+    processQuery,
+    useSynonymRegistry,
+    type IntentType,
+    type SynonymCategory,
+} from '../../lib/search';
+
+interface SynonymManagerPanelProps {
+    className?: string;
+}
+
+const categoryLabels: Record<SynonymCategory, string> = {
+    tool: 'Tools',
+    topic: 'Topics',
+    action: 'Actions',
+    resourceType: 'Resource Types',
+    team: 'Teams',
+};
+
+// The fallback intent is never matched by a pattern
+const INTENTS = INTENT_TYPES.filter(intent => intent !== 'GENERAL_SEARCH');
+
+const inputClass = 'px-3 py-1.5 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-cafe-300';
+
+export const SynonymManagerPanel: React.FC<SynonymManagerPanelProps> = ({ className }) => {
+    const {
+        synonyms,
+        intentPatterns,
+        addTerm,
+        removeTerm,
+        addSynonym,
+        removeSynonym,
+        addIntentPattern,
+        removeIntentPattern,
+        exportDictionary,
+        importDictionary,
+        resetToDefaults,
+    } = useSynonymRegistry();
+
+    const [category, setCategory] = useState<SynonymCategory>('tool');
+    const [termFilter, setTermFilter] = useState('');
+    const [newTerm, setNewTerm] = useState('');
+    const [synonymDrafts, setSynonymDrafts] = useState<Record<string, string>>({});
+    const [patternDraft, setPatternDraft] = useState({ intent: 'FIND_TOOL' as IntentType, pattern: '', keywords: '' });
+    const [sampleQuery, setSampleQuery] = useState('');
+    const [message, setMessage] = useState<{ type: 'error' | 'warning' | 'success'; text: string } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const dictionary = useMemo(() => synonyms ?? getDefaultSynonymDictionary(), [synonyms]);
+
+    const terms = Object.keys(dictionary[category])
+        .filter(term => {
+            const needle = termFilter.trim().toLowerCase();
+            return !needle || term.includes(needle) || dictionary[category][term].some(s => s.includes(needle));
+        })
+        .sort();
+
+    // Run the sample through the same steps the search engine uses. The
+    // registry pushes edits into those lookups before this panel re-renders.
+    const sampleResult = (() => {
+        if (!sampleQuery.trim()) return null;
+        const processed = processQuery(sampleQuery);
+        return {
+            tokens: processed.tokens,
+            expandedTokens: processed.expandedTokens,
+            entities: extractEntities(processed.raw, processed.tokens),
+            intent: classifyIntent(processed.raw, processed.tokens),
+        };
+    })();
+
+    const report = (result: { ok: true; warning?: string } | { ok: false; error: string }, success?: string) => {
+        if (result.ok && result.warning) {
+            setMessage({ type: 'warning', text: result.warning });
+        } else if (result.ok) {
+            setMessage(success ? { type: 'success', text: success } : null);
+        } else {
+            setMessage({ type: 'error', text: result.error });
+        }
+        return result.ok;
+    };
+
+    const handleAddTerm = () => {
+        if (report(addTerm(category, newTerm))) setNewTerm('');
+    };
+
+    const handleAddSynonym = (term: string) => {
+        if (report(addSynonym(category, term, synonymDrafts[term] ?? ''))) {
+            setSynonymDrafts(prev => ({ ...prev, [term]: '' }));
+        }
+    };
+
+    const handleAddPattern = () => {
+        const keywords = patternDraft.keywords.split(',').map(k => k.trim()).filter(Boolean);
+        if (report(addIntentPattern(patternDraft.intent, patternDraft.pattern, keywords))) {
+            setPatternDraft(prev => ({ ...prev, pattern: '', keywords: '' }));
+        }
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify(exportDictionary(), null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `cafe-search-dictionary-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        report(importDictionary(await file.text()), `Imported ${file.name}`);
+    };
+
+    const handleReset = () => {
+        if (window.confirm('Discard all dictionary edits and restore the built-in synonyms?')) {
+            resetToDefaults();
+            setMessage({ type: 'success', text: 'Restored built-in dictionary' });
+        }
+    };
+
+    return (
+        <div className={cn(
+            'bg-white rounded-xl border border-gray-200 shadow-sm p-5',
+            className
+        )}>
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <BookA className="w-5 h-5 text-cafe-500" />
+                    Search Dictionary
+                    {(synonyms || intentPatterns.length > 0) && (
+                        <span className="px-2 py-0.5 text-[10px] font-medium rounded-full bg-amber-100 text-amber-700">
+                            Edited
+                        </span>
+                    )}
+                </h3>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-1 px-2.5 py-1 text-xs text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <Upload className="w-3.5 h-3.5" />
+                        Import
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        className="flex items-center gap-1 px-2.5 py-1 text-xs text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <Download className="w-3.5 h-3.5" />
+                        Export
+                    </button>
+                    <button
+                        onClick={handleReset}
+                        className="flex items-center gap-1 px-2.5 py-1 text-xs text-gray-400 hover:text-red-500 transition-colors"
+                    >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        Reset
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleImport}
+                        className="hidden"
+                    />
+                </div>
+            </div>
+
+            {message && (
+                <div className={cn(
+                    'mb-4 px-3 py-2 rounded-lg text-xs flex items-center justify-between',
+                    message.type === 'error' && 'bg-red-50 text-red-700',
+                    message.type === 'warning' && 'bg-amber-50 text-amber-700',
+                    message.type === 'success' && 'bg-emerald-50 text-emerald-700'
+                )}>
+                    {message.text}
+                    <button onClick={() => setMessage(null)} aria-label="Dismiss">
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-5">
+                {/* Synonyms */}
+                <div className="col-span-2">
+                    <div className="flex gap-1 mb-3 flex-wrap">
+                        {SYNONYM_CATEGORIES.map(c => (
+                            <button
+                                key={c}
+                                onClick={() => setCategory(c)}
+                                className={cn(
+                                    'px-3 py-1 text-xs font-medium rounded-full transition-colors',
+                                    category === c
+                                        ? 'bg-gray-900 text-white'
+                                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                )}
+                            >
+                                {categoryLabels[c]} ({Object.keys(dictionary[c]).length})
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex gap-2 mb-3">
+                        <input
+                            type="text"
+                            placeholder="Filter terms..."
+                            value={termFilter}
+                            onChange={e => setTermFilter(e.target.value)}
+                            className={cn(inputClass, 'flex-1')}
+                        />
+                        <input
+                            type="text"
+                            placeholder="New term (e.g. snowflake)"
+                            value={newTerm}
+                            onChange={e => setNewTerm(e.target.value)}
+                            onKeyDown={e => e.key === 'Enter' && handleAddTerm()}
+                            className={cn(inputClass, 'flex-1')}
+                        />
+                        <button
+                            onClick={handleAddTerm}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-cafe-600 hover:bg-cafe-700 rounded-lg transition-colors"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add
+                        </button>
+                    </div>
+
+                    <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+                        {terms.length === 0 && (
+                            <p className="text-sm text-gray-400 py-4 text-center">No matching terms.</p>
+                        )}
+                        {terms.map(term => (
+                            <div key={term} className="p-3 bg-gray-50 rounded-lg">
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-sm font-semibold text-gray-800">{term}</span>
+                                    <button
+                                        onClick={() => removeTerm(category, term)}
+                                        className="text-gray-300 hover:text-red-500 transition-colors"
+                                        aria-label={`Remove ${term}`}
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                <div className="flex flex-wrap items-center gap-1.5">
+                                    {dictionary[category][term].map(synonym => (
+                                        <span
+                                            key={synonym}
+                                            className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 text-xs rounded-full bg-white border border-gray-200 text-gray-700"
+                                        >
+                                            {synonym}
+                                            <button
+                                                onClick={() => removeSynonym(category, term, synonym)}
+                                                className="p-0.5 rounded-full hover:bg-gray-100"
+                                                aria-label={`Remove synonym ${synonym}`}
+                                            >
+                                                <X className="w-3 h-3" />
+                                            </button>
+                                        </span>
+                                    ))}
+                                    <input
+                                        type="text"
+                                        placeholder="+ synonym"
+                                        value={synonymDrafts[term] ?? ''}
+                                        onChange={e => setSynonymDrafts(prev => ({ ...prev, [term]: e.target.value }))}
+                                        onKeyDown={e => e.key === 'Enter' && handleAddSynonym(term)}
+                                        className="w-28 px-2 py-0.5 text-xs bg-transparent border-b border-dashed border-gray-300 focus:outline-none focus:border-cafe-400"
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Tester + Intent Patterns */}
+                <div className="space-y-5">
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1.5">
+                            <FlaskConical className="w-4 h-4 text-gray-400" />
+                            Test a Query
+                        </h4>
+                        <input
+                            type="text"
+                            placeholder="e.g. who owns the ado pipelines"
+                            value={sampleQuery}
+                            onChange={e => setSampleQuery(e.target.value)}
+                            className={cn(inputClass, 'w-full')}
+                        />
+                        {sampleResult && (
+                            <dl className="mt-3 space-y-2 text-xs">
+                                <div>
+                                    <dt className="text-gray-500">Intent</dt>
+                                    <dd className="font-medium text-gray-800">
+                                        {sampleResult.intent.primary}{' '}
+                                        <span className="text-gray-400">
+                                            ({Math.round(sampleResult.intent.confidence * 100)}%)
+                                        </span>
+                                    </dd>
+                                </div>
+                                <div>
+                                    <dt className="text-gray-500">Entities</dt>
+                                    <dd className="text-gray-800">
+                                        {sampleResult.entities.length === 0
+                                            ? '—'
+                                            : sampleResult.entities.map(e => `${e.type}: ${e.normalizedValue}`).join(', ')}
+                                    </dd>
+                                </div>
+                                <div>
+                                    <dt className="text-gray-500">Expanded terms</dt>
+                                    <dd className="text-gray-800 break-words">
+                                        {sampleResult.expandedTokens.join(', ') || '—'}
+                                    </dd>
+                                </div>
+                            </dl>
+                        )}
+                    </div>
+
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">Custom Intent Patterns</h4>
+                        <div className="space-y-2 mb-3">
+                            {intentPatterns.length === 0 && (
+                                <p className="text-xs text-gray-400">Only built-in patterns are active.</p>
+                            )}
+                            {intentPatterns.map(p => (
+                                <div key={p.id} className="flex items-start justify-between gap-2 p-2 bg-gray-50 rounded-lg">
+                                    <div className="min-w-0">
+                                        <p className="text-[10px] font-medium text-cafe-700">{p.intent}</p>
+                                        <code className="text-xs text-gray-700 break-all">/{p.pattern}/i</code>
+                                        {p.keywords.length > 0 && (
+                                            <p className="text-[10px] text-gray-400">{p.keywords.join(', ')}</p>
+                                        )}
+                                    </div>
+                                    <button
+                                        onClick={() => removeIntentPattern(p.id)}
+                                        className="text-gray-300 hover:text-red-500 transition-colors shrink-0"
+                                        aria-label="Remove pattern"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="space-y-2">
+                            <select
+                                value={patternDraft.intent}
+                                onChange={e => setPatternDraft(prev => ({ ...prev, intent: e.target.value as IntentType }))}
+                                className={cn(inputClass, 'w-full')}
+                            >
+                                {INTENTS.map(intent => (
+                                    <option key={intent} value={intent}>{intent}</option>
+                                ))}
+                            </select>
+                            <input
+                                type="text"
+                                placeholder="Regex, e.g. brown ?bag"
+                                value={patternDraft.pattern}
+                                onChange={e => setPatternDraft(prev => ({ ...prev, pattern: e.target.value }))}
+                                className={cn(inputClass, 'w-full font-mono')}
+                            />
+                            <input
+                                type="text"
+                                placeholder="Keywords (comma separated)"
+                                value={patternDraft.keywords}
+                                onChange={e => setPatternDraft(prev => ({ ...prev, keywords: e.target.value }))}
+                                className={cn(inputClass, 'w-full')}
+                            />
+                            <button
+                                onClick={handleAddPattern}
+                                disabled={!patternDraft.pattern.trim()}
+                                className="w-full py-1.5 text-sm font-medium text-white bg-cafe-600 hover:bg-cafe-700 disabled:bg-gray-300 rounded-lg transition-colors"
+                            >
+                                Add Pattern
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -4,3 +4,7 @@
 
 export { AdminPointsPanel } from './AdminPointsPanel';
 export { AdminBadgePanel } from './AdminBadgePanel';
+export { SearchAnalyticsPanel } from './SearchAnalyticsPanel';
+export { SynonymManagerPanel } from './SynonymManagerPanel';
+export { RankingEvaluationPanel } from './RankingEvaluationPanel';
+export { ProviderHealthPanel } from './ProviderHealthPanel';
@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import { Moon, Focus, BellOff, Globe, ShieldAlert, SlidersHorizontal } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import {
+    loadAttentionPolicy,
+    updateAttentionPolicy,
+    getAttentionStatus,
+    startFocus,
+    endFocus,
+    snoozeAll,
+    endSnooze,
+    ATTENTION_SOURCES,
+    type AttentionPolicy,
+    type AttentionSource,
+    type QuietSchedule,
+    type SourceOverride,
+} from '../../lib/attention/attentionPolicy';
+
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * ATTENTION SETTINGS — Quiet hours, focus and snooze in one place
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Shared by Daily Brew settings and the Pulse control panel. Every change is
+ * written to the attention policy straight away.
+ */
+
+interface AttentionSettingsProps {
+    /** Called after any change so the host can refresh its own status */
+    onChange?: () => void;
+    className?: string;
+}
+
+const SOURCE_LABELS: Record<AttentionSource, string> = {
+    toast: 'Toast',
+    pulse: 'Pulse',
+    lop: 'Love of Product',
+    chat: 'Discussions',
+    library: 'Library',
+    badges: 'Badges',
+    system: 'System',
+};
+
+const OVERRIDE_OPTIONS: { value: SourceOverride; label: string }[] = [
+    { value: 'follow', label: 'Follow' },
+    { value: 'bypass', label: 'Always' },
+    { value: 'mute', label: 'Mute' },
+];
+
+const DURATIONS = [15, 30, 60, 120];
+
+const formatMinutes = (mins: number) => (mins < 60 ? `${mins}m` : `${mins / 60}h`);
+
+const formatUntil = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const TIMEZONES = (() => {
+    try {
+        return Intl.supportedValuesOf('timeZone');
+    } catch {
+        return [];
+    }
+})();
+
+const ScheduleRow: React.FC<{
+    label: string;
+    schedule: QuietSchedule;
+    onChange: (schedule: QuietSchedule) => void;
+}> = ({ label, schedule, onChange }) => (
+    <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-700 min-w-[90px]">
+            <input
+                type="checkbox"
+                checked={schedule.enabled}
+                onChange={(e) => onChange({ ...schedule, enabled: e.target.checked })}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {label}
+        </label>
+        <div className="flex items-center gap-1.5">
+            <input
+                type="time"
+                value={schedule.start}
+                disabled={!schedule.enabled}
+                onChange={(e) => onChange({ ...schedule, start: e.target.value })}
+                className="px-2 py-1 text-xs border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-200 disabled:opacity-50"
+            />
+            <span className="text-xs text-gray-400">to</span>
+            <input
+                type="time"
+                value={schedule.end}
+                disabled={!schedule.enabled}
+                onChange={(e) => onChange({ ...schedule, end: e.target.value })}
+                className="px-2 py-1 text-xs border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-200 disabled:opacity-50"
+            />
+        </div>
+    </div>
+);
+
+export const AttentionSettings: React.FC<AttentionSettingsProps> = ({ onChange, className }) => {
+    const [policy, setPolicy] = useState<AttentionPolicy>(() => loadAttentionPolicy());
+    const [status, setStatus] = useState(() => getAttentionStatus(policy));
+    const [duration, setDuration] = useState(30);
+
+    const sync = (next: AttentionPolicy) => {
+        setPolicy(next);
+        setStatus(getAttentionStatus(next));
+        onChange?.();
+    };
+
+    const update = (updates: Partial<AttentionPolicy>) => sync(updateAttentionPolicy(updates));
+
+    const run = (action: () => unknown) => {
+        action();
+        sync(loadAttentionPolicy());
+    };
+
+    const setOverride = (source: AttentionSource, value: SourceOverride) => {
+        const sourceOverrides = { ...policy.sourceOverrides };
+        if (value === 'follow') delete sourceOverrides[source];
+        else sourceOverrides[source] = value;
+        update({ sourceOverrides });
+    };
+
+    const focusActive = status.reason === 'focus';
+    const snoozeActive = status.reason === 'snoozed';
+
+    return (
+        <div className={cn('divide-y divide-gray-100', className)}>
+            {/* Current status */}
+            <div className="px-5 py-3 flex items-center justify-between gap-2">
+                <div>
+                    <p className="text-sm font-medium text-gray-900">
+                        {status.deliver ? 'Notifications are on' : status.label}
+                    </p>
+                    {status.holdUntil && (
+                        <p className="text-xs text-gray-500">Until {formatUntil(status.holdUntil)}</p>
+                    )}
+                </div>
+                {(focusActive || snoozeActive) && (
+                    <button
+                        onClick={() => run(focusActive ? endFocus : endSnooze)}
+                        className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200"
+                    >
+                        Resume now
+                    </button>
+                )}
+            </div>
+
+            {/* Focus & snooze */}
+            <div className="px-5 py-4">
+                <div className="flex items-center gap-2 mb-3">
+                    <span className="text-xs text-gray-500">Duration:</span>
+                    {DURATIONS.map(mins => (
+                        <button
+                            key={mins}
+                            onClick={() => setDuration(mins)}
+                            className={cn(
+                                'px-2 py-1 text-xs rounded-md transition-colors',
+                                duration === mins
+                                    ? 'bg-violet-100 text-violet-700 font-medium'
+                                    : 'bg-gray-50 text-gray-500 hover:bg-gray-100'
+                            )}
+                        >
+                            {formatMinutes(mins)}
+                        </button>
+                    ))}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <button
+                        onClick={() => run(focusActive ? endFocus : () => startFocus(duration))}
+                        className={cn(
+                            'flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-semibold rounded-lg transition-all',
+                            focusActive ? 'bg-violet-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        )}
+                    >
+                        <Focus className="w-3.5 h-3.5" />
+                        {focusActive ? 'Focusing' : `Focus ${formatMinutes(duration)}`}
+                    </button>
+                    <button
+                        onClick={() => run(snoozeActive ? endSnooze : () => snoozeAll(duration))}
+                        className={cn(
+                            'flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-semibold rounded-lg transition-all',
+                            snoozeActive ? 'bg-amber-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        )}
+                    >
+                        <BellOff className="w-3.5 h-3.5" />
+                        {snoozeActive ? 'Snoozed' : `Snooze ${formatMinutes(duration)}`}
+                    </button>
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                    Held items are delivered once focus or snooze ends.
+                </p>
+            </div>
+
+            {/* Quiet hours */}
+            <div className="px-5 py-4 space-y-3">
+                <div className="flex items-center gap-2">
+                    <Moon className="w-4 h-4 text-indigo-500" />
+                    <span className="font-semibold text-gray-900 text-sm">Quiet Hours</span>
+                </div>
+                <ScheduleRow label="Weekdays" schedule={policy.weekday} onChange={(weekday) => update({ weekday })} />
+                <ScheduleRow label="Weekends" schedule={policy.weekend} onChange={(weekend) => update({ weekend })} />
+                <div className="flex items-center gap-2">
+                    <Globe className="w-3.5 h-3.5 text-gray-400" />
+                    <select
+                        value={policy.timezone}
+                        onChange={(e) => update({ timezone: e.target.value })}
+                        className="flex-1 text-xs border border-gray-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                    >
+                        {!TIMEZONES.includes(policy.timezone) && (
+                            <option value={policy.timezone}>{policy.timezone}</option>
+                        )}
+                        {TIMEZONES.map(tz => (
+                            <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+                        ))}
+                    </select>
+                </div>
+                <p className="text-xs text-gray-400">
+                    Overnight windows run into the next morning.
+                </p>
+            </div>
+
+            {/* Critical breakthrough */}
+            <div className="px-5 py-4">
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={policy.criticalBreakthrough}
+                        onChange={(e) => update({ criticalBreakthrough: e.target.checked })}
+                        className="mt-0.5 rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+                    />
+                    <span>
+                        <span className="flex items-center gap-1.5 font-medium text-gray-900">
+                            <ShieldAlert className="w-3.5 h-3.5 text-rose-500" />
+                            Let critical items break through
+                        </span>
+                        <span className="text-xs text-gray-400">Applies to quiet hours, focus and snooze, not muted sources.</span>
+                    </span>
+                </label>
+            </div>
+
+            {/* Per-source overrides */}
+            <div className="px-5 py-4">
+                <div className="flex items-center gap-2 mb-3">
+                    <SlidersHorizontal className="w-4 h-4 text-gray-500" />
+                    <span className="font-semibold text-gray-900 text-sm">Per-source Rules</span>
+                </div>
+                <div className="space-y-2">
+                    {ATTENTION_SOURCES.map(source => {
+                        const current = policy.sourceOverrides[source] ?? 'follow';
+                        return (
+                            <div key={source} className="flex items-center justify-between">
+                                <span className="text-sm text-gray-700">{SOURCE_LABELS[source]}</span>
+                                <div className="flex bg-gray-100 rounded-lg p-0.5">
+                                    {OVERRIDE_OPTIONS.map(option => (
+                                        <button
+                                            key={option.value}
+                                            onClick={() => setOverride(source, option.value)}
+                                            className={cn(
+                                                'px-2 py-0.5 text-[10px] font-semibold rounded-md transition-colors',
+                                                current === option.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                                            )}
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                    "Always" ignores quiet hours, focus and snooze for that source.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default AttentionSettings;
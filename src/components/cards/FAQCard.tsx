@@ -5,6 +5,7 @@ import { Badge } from '../ui/Badge';
 import { Button } from '../ui/Button';
 import { cn } from '../../lib/utils';
 import type { FAQ } from '../../types';
+import { faqsApi } from '../../services/api';
 
 interface FAQCardProps {
     faq: FAQ;
@@ -22,6 +23,7 @@ export const FAQCard: React.FC<FAQCardProps> = ({
 
     const handleFeedback = (isHelpful: boolean) => {
         setFeedbackGiven(isHelpful ? 'helpful' : 'not-helpful');
+        void faqsApi.markHelpful(faq.id, isHelpful);
         onHelpful?.(isHelpful);
     };
 
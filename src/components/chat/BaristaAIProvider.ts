@@ -1,22 +1,35 @@
 /**
  * BARISTA AI Provider
- * Integration with Gemini 2.5 Flash API for AI-enhanced responses
- * 
+ * Model-agnostic AI-enhanced responses on top of services/llm
+ *
  * Features:
- * - Gemini 2.5 Flash model integration
+ * - Gemini, any OpenAI-compatible server (llama.cpp, Ollama) or the offline stub
+ * - Streaming replies, with the metadata block hidden until it is parsed
  * - Context-aware prompting with app data
- * - Response parsing to card format
  * - Graceful fallback to deterministic engine
  */
 
+import {
+    configFromEnv,
+    configureLLMProvider,
+    getLLMProvider,
+    type LLMConfig,
+    type LLMProviderType,
+} from '../../services/llm';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
+/** Runtime settings saved from the Barista AI panel */
 export interface AIConfig {
-    enabled: boolean;
+    provider: LLMProviderType;
+    /** Held in memory only; see saveAIConfig */
     apiKey: string;
-    model: 'gemini-2.5-flash-preview-05-20';
+    /** OpenAI-compatible server root; unused by Gemini and the stub */
+    baseUrl: string;
+    /** Empty uses the adapter's default model */
+    model: string;
 }
 
 export interface AIResponse {
@@ -38,48 +51,119 @@ export interface AppContext {
     recentQueries: string[];
 }
 
+export interface QueryOptions {
+    /** Called with the reply text so far (metadata stripped) as tokens arrive */
+    onText?: (text: string) => void;
+    signal?: AbortSignal;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CONFIGURATION
 // ═══════════════════════════════════════════════════════════════════════════
 
+const STORAGE_KEY = 'barista_ai_config';
+const LEGACY_KEY_STORAGE = 'barista_gemini_api_key';
+
 const DEFAULT_CONFIG: AIConfig = {
-    enabled: false,
+    provider: 'openai-compatible',
     apiKey: '',
-    model: 'gemini-2.5-flash-preview-05-20',
+    baseUrl: 'http://localhost:11434',
+    model: '',
 };
 
-// Get API key from environment or localStorage
-const getApiKey = (): string => {
-    // First try environment variable (for build-time config)
-    if (typeof import.meta !== 'undefined' && import.meta.env?.VITE_GEMINI_API_KEY) {
-        return import.meta.env.VITE_GEMINI_API_KEY;
+const toLLMConfig = (config: AIConfig): LLMConfig => {
+    const model = config.model.trim() || undefined;
+    switch (config.provider) {
+        case 'gemini':
+            return { type: 'gemini', apiKey: config.apiKey.trim(), model };
+        case 'openai-compatible':
+            return { type: 'openai-compatible', baseUrl: config.baseUrl, apiKey: config.apiKey.trim() || undefined, model };
+        case 'stub':
+        default:
+            return { type: 'stub' };
     }
-    // Then try localStorage (for runtime config)
+};
+
+// Key typed into the panel, for this page session only
+let sessionApiKey = '';
+
+const envApiKey = (): string => {
+    const env = configFromEnv();
+    return env && env.type !== 'stub' ? env.apiKey ?? '' : '';
+};
+
+const loadSavedConfig = (): AIConfig | null => {
     try {
-        return localStorage.getItem('barista_gemini_api_key') || '';
+        // Older builds saved the key itself; scrub it rather than read it back
+        localStorage.removeItem(LEGACY_KEY_STORAGE);
+
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return null;
+        const settings = { ...DEFAULT_CONFIG, ...JSON.parse(stored) } as AIConfig;
+        if (settings.apiKey) localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, apiKey: '' }));
+        return { ...settings, apiKey: sessionApiKey || envApiKey() };
     } catch {
-        return '';
+        // Fall through to env config
     }
+    return null;
 };
 
-// Save API key to localStorage
-export const setApiKey = (key: string): void => {
+// Saved settings win over build-time env
+const savedConfig = loadSavedConfig();
+if (savedConfig) configureLLMProvider(toLLMConfig(savedConfig));
+
+/** Current settings for the config form; env defaults when nothing is saved */
+export const getAIConfig = (): AIConfig => {
+    const saved = loadSavedConfig();
+    if (saved) return saved;
+    const env = configFromEnv();
+    if (!env) return DEFAULT_CONFIG;
+    return {
+        provider: env.type,
+        apiKey: env.type === 'stub' ? '' : env.apiKey ?? '',
+        baseUrl: env.type === 'openai-compatible' ? env.baseUrl : DEFAULT_CONFIG.baseUrl,
+        model: env.type === 'stub' ? '' : env.model ?? '',
+    };
+};
+
+/**
+ * Save the provider settings and apply them. The API key is never written
+ * to localStorage: anything on the page can read it there in plain text.
+ * A key typed into the panel lasts until reload; keep a lasting one in
+ * env (VITE_LLM_API_KEY) or behind a server-side proxy.
+ */
+export const saveAIConfig = (config: AIConfig): void => {
+    sessionApiKey = config.apiKey.trim();
     try {
-        localStorage.setItem('barista_gemini_api_key', key);
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...config, apiKey: '' }));
     } catch (e) {
-        console.warn('[Barista AI] Could not save API key:', e);
+        console.warn('[Barista AI] Could not save AI settings:', e);
     }
+    configureLLMProvider(toLLMConfig(config));
+};
+
+// Save a Gemini API key (kept for existing callers)
+export const setApiKey = (key: string): void => {
+    saveAIConfig({ ...getAIConfig(), provider: 'gemini', apiKey: key });
 };
 
 // Check if AI is available
 export const isAIAvailable = (): boolean => {
-    return getApiKey().length > 0;
+    return getLLMProvider()?.isConfigured() ?? false;
+};
+
+/** "Gemini · gemini-2.5-flash", for the header */
+export const getAIProviderLabel = (): string | null => {
+    const provider = getLLMProvider();
+    return provider ? `${provider.name} · ${provider.model}` : null;
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
 // SYSTEM PROMPT
 // ═══════════════════════════════════════════════════════════════════════════
 
+const METADATA_SEPARATOR = '\n---\n';
+
 const SYSTEM_PROMPT = `You are Barista, an AI assistant for Product Café - an internal product management platform.
 
 Your capabilities within Product Café:
@@ -98,130 +182,114 @@ Response Guidelines:
 - Suggest relevant follow-up questions
 - Never make up data - if unsure, say so
 
-Format your response as JSON:
-{
-  "message": "Your helpful response text",
-  "category": "toast|lop|pulse|community|library|expert|stats|help|unknown",
-  "action": "specific action like 'leaderboard', 'upcoming', 'find_by_skill'",
-  "suggestedQuickReplies": ["Reply 1", "Reply 2", "Reply 3"]
-}`;
+Format: write your reply as plain text first. Then a line containing only "---", followed by one line of JSON:
+{"category": "toast|lop|pulse|community|library|expert|stats|help|unknown", "action": "specific action like 'leaderboard', 'upcoming', 'find_by_skill'", "suggestedQuickReplies": ["Reply 1", "Reply 2", "Reply 3"]}`;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESPONSE PARSING
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface ReplyMetadata {
+    message?: string;
+    category?: string;
+    action?: string;
+    suggestedQuickReplies?: string[];
+}
+
+const parseMetadata = (json: string): ReplyMetadata | null => {
+    try {
+        const match = json.match(/```json\n?([\s\S]*?)\n?```/) || json.match(/\{[\s\S]*\}/);
+        return match ? JSON.parse(match[1] || match[0]) : null;
+    } catch {
+        return null;
+    }
+};
+
+/** Split a finished reply into message text and metadata */
+export const parseAIReply = (text: string): Omit<AIResponse, 'success'> => {
+    const separator = text.lastIndexOf(METADATA_SEPARATOR);
+    // Older prompts (and some models) answer with a single JSON object
+    const metadata = separator >= 0
+        ? parseMetadata(text.slice(separator + METADATA_SEPARATOR.length))
+        : parseMetadata(text);
+    const message = separator >= 0 ? text.slice(0, separator).trim() : metadata?.message ?? text.trim();
+
+    return {
+        message: message || metadata?.message || text.trim(),
+        intent: metadata?.category ? {
+            category: metadata.category,
+            action: metadata.action || 'general',
+            confidence: 0.85,
+        } : undefined,
+        suggestedQuickReplies: metadata?.suggestedQuickReplies,
+    };
+};
+
+/** The part of a streaming reply that is safe to show: no metadata, no raw JSON */
+export const visibleReplyText = (partial: string): string => {
+    const trimmed = partial.trimStart();
+    if (trimmed.startsWith('{') || trimmed.startsWith('```')) return '';
+    const separator = partial.indexOf('\n---');
+    return (separator >= 0 ? partial.slice(0, separator) : partial).replace(/\n-{0,2}$/, '');
+};
 
 // ═══════════════════════════════════════════════════════════════════════════
 // API INTEGRATION
 // ═══════════════════════════════════════════════════════════════════════════
 
 /**
- * Query Gemini 2.5 Flash API
+ * Ask the configured model. Never throws; on failure `success` is false and
+ * the caller falls back to the deterministic engine.
  */
-export const queryGemini = async (
+export const queryBarista = async (
     userQuery: string,
-    context?: AppContext
+    context?: AppContext,
+    options: QueryOptions = {}
 ): Promise<AIResponse> => {
-    const apiKey = getApiKey();
+    const provider = getLLMProvider();
 
-    if (!apiKey) {
+    if (!provider || !provider.isConfigured()) {
         return {
             success: false,
-            message: 'AI is not configured. Please add your Gemini API key in settings.',
-            error: 'NO_API_KEY',
+            message: 'AI is not configured. Choose a model provider in the Barista AI settings.',
+            error: 'NO_PROVIDER',
         };
     }
 
     const contextInfo = context
-        ? `\n\nContext: User "${context.currentUser}" is currently on the "${context.currentPage}" page.`
+        ? `\n\nContext: User "${context.currentUser}" is currently on the "${context.currentPage}" page.` +
+        (context.recentQueries.length > 0 ? ` Their recent questions: ${context.recentQueries.map(q => `"${q}"`).join(', ')}.` : '')
         : '';
 
-    try {
-        const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-05-20:generateContent?key=${apiKey}`,
-            {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    contents: [
-                        {
-                            role: 'user',
-                            parts: [
-                                {
-                                    text: `${SYSTEM_PROMPT}${contextInfo}\n\nUser query: "${userQuery}"`,
-                                },
-                            ],
-                        },
-                    ],
-                    generationConfig: {
-                        temperature: 0.7,
-                        topK: 40,
-                        topP: 0.95,
-                        maxOutputTokens: 1024,
-                    },
-                }),
-            }
-        );
-
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            console.error('[Barista AI] API error:', errorData);
-            return {
-                success: false,
-                message: 'AI service is temporarily unavailable. Using fallback mode.',
-                error: `HTTP_${response.status}`,
-            };
-        }
-
-        const data = await response.json();
-        const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-        if (!textContent) {
-            return {
-                success: false,
-                message: 'AI returned an empty response.',
-                error: 'EMPTY_RESPONSE',
-            };
-        }
-
-        // Try to parse JSON response
-        try {
-            // Extract JSON from markdown code blocks if present
-            const jsonMatch = textContent.match(/```json\n?([\s\S]*?)\n?```/) ||
-                textContent.match(/\{[\s\S]*\}/);
-
-            if (jsonMatch) {
-                const parsed = JSON.parse(jsonMatch[1] || jsonMatch[0]);
-                return {
-                    success: true,
-                    message: parsed.message || textContent,
-                    intent: parsed.category ? {
-                        category: parsed.category,
-                        action: parsed.action || 'general',
-                        confidence: 0.85,
-                    } : undefined,
-                    suggestedQuickReplies: parsed.suggestedQuickReplies,
-                };
-            }
-        } catch {
-            // If JSON parsing fails, use raw text
-            console.log('[Barista AI] Response is not JSON, using raw text');
-        }
+    let streamed = '';
+    const result = await provider.complete({
+        messages: [
+            { role: 'system', content: `${SYSTEM_PROMPT}${contextInfo}` },
+            { role: 'user', content: userQuery },
+        ],
+        temperature: 0.7,
+        maxTokens: 1024,
+        signal: options.signal,
+        onToken: options.onText && ((token) => {
+            streamed += token;
+            options.onText?.(visibleReplyText(streamed));
+        }),
+    });
 
-        return {
-            success: true,
-            message: textContent,
-        };
-
-    } catch (error) {
-        console.error('[Barista AI] Request failed:', error);
+    if (!result.ok) {
+        console.error(`[Barista AI] ${provider.name} request failed:`, result.error);
         return {
             success: false,
-            message: 'Could not connect to AI service. Using fallback mode.',
-            error: 'NETWORK_ERROR',
+            message: 'AI service is temporarily unavailable. Using fallback mode.',
+            error: result.error.code.toUpperCase(),
         };
     }
+
+    return { success: true, ...parseAIReply(result.text) };
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
 // EXPORTS
 // ═══════════════════════════════════════════════════════════════════════════
 
-export { DEFAULT_CONFIG, getApiKey };
+export { DEFAULT_CONFIG };
@@ -7,6 +7,7 @@
  * - DefinitionCard: For term explanations
  * - StatsCard: For love points and metrics
  * - VerticalListCard: For search results
+ * - ActionConfirmCard: Preview, confirm and undo for Barista tool calls
  */
 
 import React from 'react';
@@ -15,9 +16,10 @@ import {
     Mail, MessageSquare, Calendar, User,
     BookOpen, Lightbulb, ArrowRight,
     TrendingUp, TrendingDown, Minus,
-    Star, MapPin, Clock
+    Star, MapPin, Clock, Check, Undo2, XCircle
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
+import type { ToolPreview } from './BaristaTools';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -712,3 +714,105 @@ export const LeaderboardCard: React.FC<LeaderboardCardProps> = ({
         </div>
     );
 };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACTION CONFIRM CARD
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ActionStatus = 'pending' | 'done' | 'cancelled' | 'undone' | 'failed';
+
+interface ActionConfirmCardProps {
+    preview: ToolPreview;
+    status: ActionStatus;
+    /** Result or error from the last step */
+    note?: string;
+    onConfirm: () => void;
+    onCancel: () => void;
+    onUndo: () => void;
+}
+
+const ACTION_STATUS_STYLES: Record<Exclude<ActionStatus, 'pending'>, { label: string; className: string }> = {
+    done: { label: 'Done', className: 'bg-emerald-50 text-emerald-700' },
+    cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-500' },
+    undone: { label: 'Undone', className: 'bg-gray-100 text-gray-500' },
+    failed: { label: 'Failed', className: 'bg-red-50 text-red-600' },
+};
+
+export const ActionConfirmCard: React.FC<ActionConfirmCardProps> = ({
+    preview,
+    status,
+    note,
+    onConfirm,
+    onCancel,
+    onUndo
+}) => {
+    const badge = status === 'pending' ? null : ACTION_STATUS_STYLES[status];
+
+    return (
+        <div className={cn(
+            'bg-white border rounded-xl shadow-sm overflow-hidden',
+            status === 'pending' ? 'border-amber-300' : 'border-gray-200'
+        )}>
+            <div className="px-4 py-3 border-b border-gray-100 flex items-center gap-2">
+                <span className="text-xl">{preview.icon}</span>
+                <h4 className="flex-1 font-semibold text-gray-900">{preview.title}</h4>
+                {badge && (
+                    <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', badge.className)}>
+                        {badge.label}
+                    </span>
+                )}
+            </div>
+
+            {preview.details.length > 0 && (
+                <dl className="px-4 py-3 space-y-1.5">
+                    {preview.details.map((detail) => (
+                        <div key={detail.label} className="flex gap-3 text-sm">
+                            <dt className="w-16 shrink-0 text-gray-500">{detail.label}</dt>
+                            <dd className="flex-1 text-gray-800">{detail.value}</dd>
+                        </div>
+                    ))}
+                </dl>
+            )}
+
+            {note && (
+                <p className={cn(
+                    'px-4 pb-3 text-xs',
+                    status === 'failed' ? 'text-red-600' : 'text-gray-500'
+                )}>
+                    {note}
+                </p>
+            )}
+
+            {status === 'pending' && (
+                <div className="px-4 py-3 bg-gray-50 border-t border-gray-100 flex gap-2">
+                    <button
+                        onClick={onConfirm}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 transition-colors"
+                    >
+                        <Check className="w-4 h-4" />
+                        {preview.confirmLabel}
+                    </button>
+                    <button
+                        onClick={onCancel}
+                        className="flex items-center justify-center gap-1.5 px-4 py-2 rounded-lg bg-gray-100 text-gray-700 text-sm font-medium hover:bg-gray-200 transition-colors"
+                    >
+                        <XCircle className="w-4 h-4" />
+                        Cancel
+                    </button>
+                </div>
+            )}
+
+            {status === 'done' && (
+                <div className="px-4 py-2 bg-gray-50 border-t border-gray-100">
+                    <button
+                        onClick={onUndo}
+                        className="flex items-center gap-1.5 text-xs font-medium text-gray-600 hover:text-gray-900 transition-colors"
+                    >
+                        <Undo2 className="w-3.5 h-3.5" />
+                        Undo
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,379 @@
+/**
+ * BARISTA Tools
+ * Typed registry of actions Barista can carry out on the user's behalf
+ *
+ * Every tool:
+ * - Parses its arguments from a chat request and resolves them against store data
+ * - Describes itself as a preview for the confirm card before anything changes
+ * - Executes through the same store action the UI uses, so points, credits
+ *   and badges are awarded exactly as if the user had clicked the button
+ * - Returns an undo that reverses the change through the matching store action
+ */
+
+import { useToastXStore, COMPANY_VALUES, type CompanyValue, type ToastUser } from '../../features/toast-x';
+import { usePulseStore } from '../../lib/pulse/usePulseStore';
+import { useLOPStore } from '../../stores/lopStore';
+import { useDiscussionStore } from '../../stores/discussionStore';
+import { useLibraryStore } from '../../features/library/libraryStore';
+import { BOOKS } from '../../features/library/data/books';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ToolArgs {
+    send_toast: { recipientId: string; recipientName: string; value: CompanyValue; message: string };
+    bookmark_signal: { signalId: string; title: string };
+    enroll_lop_path: { pathId: string; title: string };
+    start_discussion: { title: string; body: string };
+    add_to_reading_list: { bookId: string; title: string };
+}
+
+export type BaristaToolName = keyof ToolArgs;
+
+export type BaristaToolCall = {
+    [N in BaristaToolName]: { tool: N; args: ToolArgs[N] };
+}[BaristaToolName];
+
+export interface ToolPreview {
+    icon: string;
+    title: string;
+    details: { label: string; value: string }[];
+    confirmLabel: string;
+}
+
+export type ToolOutcome =
+    | { ok: true; message: string }
+    | { ok: false; error: string };
+
+export type ToolExecution =
+    | { ok: true; message: string; undo: () => ToolOutcome }
+    | { ok: false; error: string };
+
+/** Result of reading a chat request: a ready call, or why the tool can't run */
+export type ToolMatch =
+    | { ok: true; call: BaristaToolCall }
+    | { ok: false; tool: BaristaToolName; error: string };
+
+interface BaristaTool<N extends BaristaToolName> {
+    label: string;
+    /** Example request, offered when a request can't be resolved */
+    example: string;
+    /** null when the text isn't a request for this tool */
+    parse: (text: string) => { ok: true; args: ToolArgs[N] } | { ok: false; error: string } | null;
+    preview: (args: ToolArgs[N]) => ToolPreview;
+    execute: (args: ToolArgs[N]) => ToolExecution;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'about', 'on', 'for', 'to', 'my', 'signal', 'path', 'learning', 'lop', 'pulse', 'book']);
+
+const keywords = (text: string): string[] =>
+    text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 1 && !STOP_WORDS.has(w));
+
+/** Items sorted by how many query keywords their text contains; non-matches dropped */
+function rankByKeywords<T>(items: readonly T[], query: string, text: (item: T) => string): T[] {
+    const words = keywords(query);
+    if (words.length === 0) return [];
+    return items
+        .map(item => {
+            const haystack = text(item).toLowerCase();
+            return { item, score: words.filter(w => haystack.includes(w)).length };
+        })
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(r => r.item);
+}
+
+const VALUE_HINTS: [CompanyValue, RegExp][] = [
+    ['DO_IT_DIFFERENTLY', /creativ|innovat|fresh|bold|different/i],
+    ['HEALTHCARE_IS_PERSONAL', /patient|empath|member experience|care/i],
+    ['OWN_THE_OUTCOME', /own|deliver|ship|launch|deadline|result/i],
+    ['DO_THE_RIGHT_THING', /integrity|honest|right thing|ethic|transparen/i],
+    ['EXPLORE_FEARLESSLY', /explor|experiment|learn|curio|research/i],
+    ['BE_ALL_IN', /team|collab|help|support|together/i],
+];
+
+const guessValue = (message: string): CompanyValue =>
+    VALUE_HINTS.find(([, pattern]) => pattern.test(message))?.[0] ?? 'BE_ALL_IN';
+
+const findColleague = (name: string): { user: ToastUser } | { error: string } => {
+    const store = useToastXStore.getState();
+    const query = name.trim().toLowerCase();
+    const candidates = store.getAllUsers().filter(u => u.id !== store.currentUserId);
+
+    const exact = candidates.filter(u => u.name.toLowerCase() === query);
+    const matches = exact.length > 0
+        ? exact
+        : candidates.filter(u => u.name.toLowerCase().split(/\s+/).some(part => part.startsWith(query)) || u.name.toLowerCase().includes(query));
+
+    if (matches.length === 0) return { error: `I couldn't find a colleague named "${name.trim()}".` };
+    if (matches.length > 1) {
+        return { error: `Which one did you mean: ${matches.slice(0, 4).map(u => u.name).join(', ')}?` };
+    }
+    return { user: matches[0] };
+};
+
+// Same demo author as NewDiscussionForm
+const DISCUSSION_AUTHOR = {
+    authorId: 'u1',
+    authorEmail: 'natasha.romanoff@company.com',
+    authorName: 'Natasha Romanoff',
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOOL REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const BARISTA_TOOLS: { [N in BaristaToolName]: BaristaTool<N> } = {
+    send_toast: {
+        label: 'Send a toast',
+        example: 'Send a toast to Sarah for shipping the claims dashboard',
+        parse: (text) => {
+            const match = text.match(/^(?:please\s+)?(?:send|give)\s+(?:a\s+)?(?:quick\s+)?toast\s+to\s+(.+?)(?:\s+(?:for|saying)\s+(.+))?$/i);
+            if (!match) return null;
+            const found = findColleague(match[1]);
+            if ('error' in found) return { ok: false, error: found.error };
+            const reason = match[2]?.trim().replace(/[.!]+$/, '');
+            const message = reason
+                ? `Thank you for ${reason}! ☕`
+                : `Thanks for everything you do, ${found.user.name.split(' ')[0]}! ☕`;
+            return {
+                ok: true,
+                args: { recipientId: found.user.id, recipientName: found.user.name, value: guessValue(reason ?? ''), message },
+            };
+        },
+        preview: (args) => ({
+            icon: '🥂',
+            title: `Toast ${args.recipientName}`,
+            details: [
+                { label: 'Value', value: `${COMPANY_VALUES[args.value].icon} ${COMPANY_VALUES[args.value].shortName}` },
+                { label: 'Message', value: args.message },
+            ],
+            confirmLabel: 'Send toast',
+        }),
+        execute: (args) => {
+            const store = useToastXStore.getState();
+            const result = store.createRecognition({
+                type: 'QUICK_TOAST',
+                recipientIds: [args.recipientId],
+                value: args.value,
+                expertAreas: [],
+                message: args.message,
+                imageId: 'img-coffee-cheers',
+            });
+            if (!result.success || !result.recognitionId) {
+                return { ok: false, error: result.error || 'The toast could not be sent.' };
+            }
+            const recognitionId = result.recognitionId;
+            return {
+                ok: true,
+                message: `Toast sent to ${args.recipientName}! 🥂`,
+                undo: () => {
+                    const undone = useToastXStore.getState().retractRecognition(recognitionId);
+                    return undone.success
+                        ? { ok: true, message: `Toast to ${args.recipientName} retracted.` }
+                        : { ok: false, error: undone.error || 'The toast could not be retracted.' };
+                },
+            };
+        },
+    },
+
+    bookmark_signal: {
+        label: 'Bookmark a Pulse signal',
+        example: 'Bookmark the signal about prior authorization',
+        parse: (text) => {
+            const match = text.match(/^(?:please\s+)?(?:bookmark|save)\s+(?:the\s+)?(?:latest\s+)?(?:pulse\s+)?signal\s*(?:about|on|for)?\s*(.*)$/i);
+            if (!match) return null;
+            const signals = usePulseStore.getState().signals;
+            const query = match[1].trim();
+            const signal = query
+                ? rankByKeywords(signals, query, s => `${s.title} ${s.summary}`)[0]
+                : [...signals].sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))[0];
+            if (!signal) return { ok: false, error: query ? `No Pulse signal matches "${query}".` : 'There are no Pulse signals yet.' };
+            if (signal.isBookmarked) return { ok: false, error: `"${signal.title}" is already bookmarked.` };
+            return { ok: true, args: { signalId: signal.id, title: signal.title } };
+        },
+        preview: (args) => ({
+            icon: '🔖',
+            title: 'Bookmark Pulse signal',
+            details: [{ label: 'Signal', value: args.title }],
+            confirmLabel: 'Bookmark',
+        }),
+        execute: (args) => {
+            const store = usePulseStore.getState();
+            const signal = store.signals.find(s => s.id === args.signalId);
+            if (!signal) return { ok: false, error: 'That signal is no longer available.' };
+            if (!signal.isBookmarked) store.toggleBookmark(args.signalId);
+            return {
+                ok: true,
+                message: 'Signal bookmarked. Find it under Saved in Pulse. 🔖',
+                undo: () => {
+                    const current = usePulseStore.getState();
+                    if (current.signals.find(s => s.id === args.signalId)?.isBookmarked) {
+                        current.toggleBookmark(args.signalId);
+                    }
+                    return { ok: true, message: 'Bookmark removed.' };
+                },
+            };
+        },
+    },
+
+    enroll_lop_path: {
+        label: 'Enroll in an LOP learning path',
+        example: 'Enroll me in the New PM Starter Pack',
+        parse: (text) => {
+            const match = text.match(/^(?:please\s+)?(?:enroll|enrol|sign)\s+(?:me\s+)?(?:up\s+)?(?:in|for|into)\s+(?:the\s+)?(.+?)(?:\s+(?:learning\s+)?path)?$/i);
+            if (!match) return null;
+            const store = useLOPStore.getState();
+            const path = rankByKeywords(store.learningPaths.filter(p => p.isActive), match[1], p => `${p.title} ${p.slug} ${p.description}`)[0];
+            if (!path) return { ok: false, error: `No LOP learning path matches "${match[1].trim()}".` };
+            if (store.isEnrolledInPath(path.id)) return { ok: false, error: `You're already enrolled in ${path.title}.` };
+            return { ok: true, args: { pathId: path.id, title: path.title } };
+        },
+        preview: (args) => {
+            const path = useLOPStore.getState().learningPaths.find(p => p.id === args.pathId);
+            return {
+                icon: path?.icon ?? '🎓',
+                title: `Enroll in ${args.title}`,
+                details: path ? [
+                    { label: 'Sessions', value: String(path.sessionIds.length) },
+                    { label: 'Level', value: path.difficulty },
+                ] : [],
+                confirmLabel: 'Enroll',
+            };
+        },
+        execute: (args) => {
+            const store = useLOPStore.getState();
+            if (!store.learningPaths.some(p => p.id === args.pathId)) {
+                return { ok: false, error: 'That learning path is no longer available.' };
+            }
+            store.enrollInPath(args.pathId);
+            return {
+                ok: true,
+                message: `You're enrolled in ${args.title}. 🎓`,
+                undo: () => {
+                    useLOPStore.getState().unenrollFromPath(args.pathId);
+                    return { ok: true, message: `Left ${args.title}.` };
+                },
+            };
+        },
+    },
+
+    start_discussion: {
+        label: 'Start a discussion',
+        example: 'Start a discussion about FHIR R5 migration: who has tried it?',
+        parse: (text) => {
+            const match = text.match(/^(?:please\s+)?(?:start|open|create|post)\s+(?:a\s+)?(?:new\s+)?discussion\s+(?:about|on|titled)?\s*(.+)$/i);
+            if (!match) return null;
+            const [rawTitle, ...rest] = match[1].split(':');
+            const title = rawTitle.trim().replace(/^["']|["']$/g, '').slice(0, 120);
+            if (!title) return { ok: false, error: 'What should the discussion be about?' };
+            const body = rest.join(':').trim() || title;
+            return { ok: true, args: { title: title.charAt(0).toUpperCase() + title.slice(1), body } };
+        },
+        preview: (args) => ({
+            icon: '💬',
+            title: 'Start a discussion',
+            details: [
+                { label: 'Title', value: args.title },
+                { label: 'Body', value: args.body },
+            ],
+            confirmLabel: 'Post discussion',
+        }),
+        execute: (args) => {
+            const discussion = useDiscussionStore.getState().addDiscussion({
+                attachedToType: 'general',
+                attachedToId: '',
+                title: args.title,
+                body: args.body,
+                ...DISCUSSION_AUTHOR,
+                status: 'open',
+                replyCount: 0,
+                upvoteCount: 0,
+                viewCount: 0,
+            });
+            return {
+                ok: true,
+                message: 'Discussion posted to the community. 💬',
+                undo: () => {
+                    useDiscussionStore.getState().deleteDiscussion(discussion.id);
+                    return { ok: true, message: 'Discussion removed.' };
+                },
+            };
+        },
+    },
+
+    add_to_reading_list: {
+        label: 'Add a book to your reading list',
+        example: 'Add Inspired to my reading list',
+        parse: (text) => {
+            const match = text.match(/^(?:please\s+)?add\s+(?:the\s+book\s+)?["']?(.+?)["']?\s+to\s+(?:my\s+)?reading\s*list$/i);
+            if (!match) return null;
+            const query = match[1].trim();
+            const book = BOOKS.find(b => b.title.toLowerCase().includes(query.toLowerCase()))
+                ?? rankByKeywords(BOOKS, query, b => `${b.title} ${b.subtitle ?? ''} ${b.tags.join(' ')}`)[0];
+            if (!book) return { ok: false, error: `I couldn't find a book matching "${query}" in the Library.` };
+            if (useLibraryStore.getState().isInReadingList(book.id)) {
+                return { ok: false, error: `"${book.title}" is already on your reading list.` };
+            }
+            return { ok: true, args: { bookId: book.id, title: book.title } };
+        },
+        preview: (args) => ({
+            icon: '📚',
+            title: 'Add to reading list',
+            details: [{ label: 'Book', value: args.title }],
+            confirmLabel: 'Add book',
+        }),
+        execute: (args) => {
+            useLibraryStore.getState().addToReadingList(args.bookId);
+            return {
+                ok: true,
+                message: `"${args.title}" is on your reading list. 📚`,
+                undo: () => {
+                    useLibraryStore.getState().removeFromReadingList(args.bookId);
+                    return { ok: true, message: `"${args.title}" removed from your reading list.` };
+                },
+            };
+        },
+    },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DISPATCH
+// ═══════════════════════════════════════════════════════════════════════════
+
+const TOOL_NAMES = Object.keys(BARISTA_TOOLS) as BaristaToolName[];
+
+// TypeScript can't correlate a call's name with its args across the union
+const toolFor = (call: BaristaToolCall) =>
+    BARISTA_TOOLS[call.tool] as unknown as BaristaTool<BaristaToolName>;
+
+/** The first tool that recognizes the request, or null for ordinary questions */
+export function matchToolCall(text: string): ToolMatch | null {
+    const request = text.trim();
+    for (const tool of TOOL_NAMES) {
+        const parsed = BARISTA_TOOLS[tool].parse(request);
+        if (!parsed) continue;
+        return parsed.ok
+            ? { ok: true, call: { tool, args: parsed.args } as BaristaToolCall }
+            : { ok: false, tool, error: parsed.error };
+    }
+    return null;
+}
+
+export const previewToolCall = (call: BaristaToolCall): ToolPreview =>
+    toolFor(call).preview(call.args);
+
+/** Run a confirmed call. Never throws. */
+export function executeToolCall(call: BaristaToolCall): ToolExecution {
+    try {
+        return toolFor(call).execute(call.args);
+    } catch (error) {
+        console.error(`[Barista] Tool ${call.tool} failed:`, error);
+        return { ok: false, error: 'Something went wrong carrying that out. Nothing was changed.' };
+    }
+}
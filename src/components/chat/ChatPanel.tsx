@@ -21,6 +21,8 @@ import {
     DefinitionCard,
     VerticalListCard,
     LeaderboardCard,
+    ActionConfirmCard,
+    type ActionStatus,
     type DocumentData,
     type PersonData,
     type StatsData,
@@ -32,8 +34,24 @@ import {
     type ResponseType,
 } from './BaristaDataConnector';
 import { classifyIntent, generateQuickReplies } from './BaristaIntentEngine';
-import { queryGemini, isAIAvailable, setApiKey } from './BaristaAIProvider';
+import {
+    queryBarista,
+    isAIAvailable,
+    getAIConfig,
+    saveAIConfig,
+    getAIProviderLabel,
+    type AIConfig,
+} from './BaristaAIProvider';
 import { resolveFollowUp, updateContext } from './BaristaContextManager';
+import {
+    matchToolCall,
+    previewToolCall,
+    executeToolCall,
+    BARISTA_TOOLS,
+    type BaristaToolCall,
+    type ToolOutcome,
+    type ToolPreview,
+} from './BaristaTools';
 
 /**
  * ChatPanel - Café BARISTA Intelligent Conversational Assistant
@@ -46,6 +64,7 @@ import { resolveFollowUp, updateContext } from './BaristaContextManager';
  * - Rich Response Cards (Document, Person, Stats, Definition, List)
  * - Deterministic NLU with <100ms response time
  * - Context-aware conversational flow
+ * - Confirmed actions (toasts, bookmarks, enrollments...) with undo
  * - Premium UI with animations and micro-interactions
  */
 
@@ -53,7 +72,14 @@ import { resolveFollowUp, updateContext } from './BaristaContextManager';
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
-type ResponseCardType = 'document' | 'person' | 'stats' | 'definition' | 'list' | 'leaderboard' | 'text';
+type ResponseCardType = 'document' | 'person' | 'stats' | 'definition' | 'list' | 'leaderboard' | 'action' | 'text';
+
+interface MessageAction {
+    call: BaristaToolCall;
+    preview: ToolPreview;
+    status: ActionStatus;
+    note?: string;
+}
 
 interface Message {
     id: string;
@@ -63,7 +89,10 @@ interface Message {
     cardType?: ResponseCardType;
     cardData?: DocumentData | PersonData | StatsData | ListItem[] | unknown;
     quickReplies?: QuickReply[];
+    action?: MessageAction;
     isTyping?: boolean;
+    /** Tokens are still arriving from the model */
+    isStreaming?: boolean;
     feedbackGiven?: boolean;
 }
 
@@ -82,6 +111,12 @@ const MAX_INPUT_LENGTH = 500;
 const MAX_MESSAGES = 100; // Prevent memory issues
 const RESPONSE_DELAY_MS = 150; // Fast but perceptible
 
+const AI_PROVIDER_OPTIONS: { value: AIConfig['provider']; label: string }[] = [
+    { value: 'openai-compatible', label: 'Local / OpenAI-compatible' },
+    { value: 'gemini', label: 'Google Gemini' },
+    { value: 'stub', label: 'Offline stub' },
+];
+
 // ═══════════════════════════════════════════════════════════════════════════
 // RESPONSE TYPE MAPPING
 // ═══════════════════════════════════════════════════════════════════════════
@@ -154,10 +189,12 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
     const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
     const [aiEnabled, setAiEnabled] = useState(false);
     const [showAISettings, setShowAISettings] = useState(false);
-    const [aiKeyInput, setAiKeyInput] = useState('');
+    const [aiConfigDraft, setAiConfigDraft] = useState<AIConfig>(getAIConfig);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
     const isProcessingRef = useRef(false); // Guard against duplicate processing
+    const actionUndoRef = useRef(new Map<string, () => ToolOutcome>());
+    const handledActionsRef = useRef(new Set<string>()); // Confirm/cancel only once
 
     // Scroll to bottom
     useEffect(() => {
@@ -211,19 +248,50 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
         // Deterministic delay for natural feel
         await new Promise(resolve => setTimeout(resolve, RESPONSE_DELAY_MS));
 
+        const botId = `bot-${Date.now()}`;
+
         try {
             let responseText: string;
             let cardType: ResponseCardType = 'text';
             let cardData: unknown = null;
             let quickReplies: QuickReply[] = [];
-
-            // AI Mode: Use Gemini API
-            if (aiEnabled && isAIAvailable()) {
-                console.log('[Barista] AI mode - querying Gemini...');
-                const aiResponse = await queryGemini(text, {
+            let action: MessageAction | undefined;
+
+            // Action requests are matched before AI or NLU and always need a confirm
+            const toolMatch = matchToolCall(text);
+
+            if (toolMatch?.ok) {
+                responseText = "Here's what I'll do. Confirm and I'll take care of it.";
+                cardType = 'action';
+                action = {
+                    call: toolMatch.call,
+                    preview: previewToolCall(toolMatch.call),
+                    status: 'pending',
+                };
+            } else if (toolMatch) {
+                const example = BARISTA_TOOLS[toolMatch.tool].example;
+                responseText = toolMatch.error;
+                quickReplies = [{ id: `example-${toolMatch.tool}`, label: 'Show an example', value: example, icon: '💡' }];
+            } else if (aiEnabled && isAIAvailable()) {
+                // AI Mode: stream from the configured model into a placeholder message
+                console.log('[Barista] AI mode - querying', getAIProviderLabel());
+                const aiResponse = await queryBarista(text, {
                     currentUser: 'User',
                     currentPage: 'barista',
                     recentQueries: messages.slice(-3).filter(m => m.role === 'user').map(m => m.content),
+                }, {
+                    onText: (partial) => {
+                        if (!partial) return;
+                        setMessages(prev => prev.some(m => m.id === botId)
+                            ? prev.map(m => m.id === botId ? { ...m, content: partial } : m)
+                            : [...prev, {
+                                id: botId,
+                                role: 'bot',
+                                content: partial,
+                                timestamp: new Date().toISOString(),
+                                isStreaming: true,
+                            }]);
+                    },
                 });
 
                 if (aiResponse.success) {
@@ -295,17 +363,21 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
             }
 
             const botMessage: Message = {
-                id: `bot-${Date.now()}`,
+                id: botId,
                 role: 'bot',
                 content: responseText,
                 timestamp: new Date().toISOString(),
                 cardType: cardType,
                 cardData: cardData,
                 quickReplies,
+                action,
             };
 
             setMessages(prev => {
-                const newMessages = [...prev, botMessage];
+                // Replace the streamed placeholder, if any, with the final reply
+                const newMessages = prev.some(m => m.id === botId)
+                    ? prev.map(m => m.id === botId ? botMessage : m)
+                    : [...prev, botMessage];
                 if (newMessages.length > MAX_MESSAGES) {
                     return newMessages.slice(-MAX_MESSAGES);
                 }
@@ -323,7 +395,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                     { id: 'help', label: 'Get help', value: 'What can you help me with?', icon: '❓' },
                 ],
             };
-            setMessages(prev => [...prev, errorMessage]);
+            setMessages(prev => [...prev.filter(m => m.id !== botId), errorMessage]);
         } finally {
             setIsTyping(false);
             isProcessingRef.current = false; // Release the processing lock
@@ -366,11 +438,64 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
         }
     }, [handleSend, onClose]);
 
+    // Tool actions: confirm or cancel once, then undo through the tool
+    const updateAction = useCallback((messageId: string, updates: Partial<MessageAction>) => {
+        setMessages(prev => prev.map(m =>
+            m.id === messageId && m.action ? { ...m, action: { ...m.action, ...updates } } : m
+        ));
+    }, []);
+
+    const handleConfirmAction = useCallback((messageId: string, call: BaristaToolCall) => {
+        if (handledActionsRef.current.has(messageId)) return;
+        handledActionsRef.current.add(messageId);
+
+        const result = executeToolCall(call);
+        if (result.ok) {
+            actionUndoRef.current.set(messageId, result.undo);
+            updateAction(messageId, { status: 'done', note: result.message });
+        } else {
+            updateAction(messageId, { status: 'failed', note: result.error });
+        }
+    }, [updateAction]);
+
+    const handleCancelAction = useCallback((messageId: string) => {
+        if (handledActionsRef.current.has(messageId)) return;
+        handledActionsRef.current.add(messageId);
+        updateAction(messageId, { status: 'cancelled', note: 'Nothing was changed.' });
+    }, [updateAction]);
+
+    const handleUndoAction = useCallback((messageId: string) => {
+        const undo = actionUndoRef.current.get(messageId);
+        if (!undo) return;
+        actionUndoRef.current.delete(messageId);
+
+        const outcome = undo();
+        if (outcome.ok) {
+            updateAction(messageId, { status: 'undone', note: outcome.message });
+        } else {
+            // Still done; leave undo available to try again
+            actionUndoRef.current.set(messageId, undo);
+            updateAction(messageId, { note: outcome.error });
+        }
+    }, [updateAction]);
+
     // Render response card based on type
     const renderResponseCard = (message: Message) => {
         if (!message.cardType || message.cardType === 'text') return null;
 
         switch (message.cardType) {
+            case 'action':
+                if (!message.action) return null;
+                return (
+                    <ActionConfirmCard
+                        preview={message.action.preview}
+                        status={message.action.status}
+                        note={message.action.note}
+                        onConfirm={() => message.action && handleConfirmAction(message.id, message.action.call)}
+                        onCancel={() => handleCancelAction(message.id)}
+                        onUndo={() => handleUndoAction(message.id)}
+                    />
+                );
             case 'stats':
                 return <StatsCard data={message.cardData as StatsData} userName="Your" />;
             case 'leaderboard':
@@ -449,7 +574,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                                 <Coffee className="w-5 h-5" /> Ask Barista
                             </h2>
                             <p className="text-xs text-white/80">
-                                {aiEnabled ? '✨ AI Enhanced' : 'Your Product Café Assistant'}
+                                {aiEnabled ? `✨ ${getAIProviderLabel() ?? 'AI Enhanced'}` : 'Your Product Café Assistant'}
                             </p>
                         </div>
                     </div>
@@ -458,12 +583,13 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                         <button
                             onClick={() => {
                                 if (!isAIAvailable() && !aiEnabled) {
+                                    setAiConfigDraft(getAIConfig());
                                     setShowAISettings(true);
                                 } else {
                                     setAiEnabled(!aiEnabled);
                                 }
                             }}
-                            title={aiEnabled ? 'Disable AI mode' : 'Enable AI mode (requires API key)'}
+                            title={aiEnabled ? 'Disable AI mode' : 'Enable AI mode (requires a model provider)'}
                             className={cn(
                                 'flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all duration-300',
                                 aiEnabled
@@ -497,32 +623,65 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                                 Cancel
                             </button>
                         </div>
-                        <p className="text-xs text-violet-600">Enter your Gemini API key to enable AI-enhanced responses.</p>
-                        <div className="flex gap-2">
+                        <select
+                            value={aiConfigDraft.provider}
+                            onChange={(e) => setAiConfigDraft(d => ({ ...d, provider: e.target.value as AIConfig['provider'] }))}
+                            aria-label="Model provider"
+                            className="w-full px-3 py-2 text-sm border border-violet-300 rounded-lg bg-white focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
+                        >
+                            {AI_PROVIDER_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        {aiConfigDraft.provider === 'openai-compatible' && (
                             <input
-                                type="password"
-                                value={aiKeyInput}
-                                onChange={(e) => setAiKeyInput(e.target.value)}
-                                placeholder="Gemini API Key"
-                                className="flex-1 px-3 py-2 text-sm border border-violet-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
+                                type="url"
+                                value={aiConfigDraft.baseUrl}
+                                onChange={(e) => setAiConfigDraft(d => ({ ...d, baseUrl: e.target.value }))}
+                                placeholder="Server URL, e.g. http://localhost:8080"
+                                className="w-full px-3 py-2 text-sm border border-violet-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
                             />
+                        )}
+                        {aiConfigDraft.provider !== 'stub' && (
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={aiConfigDraft.model}
+                                    onChange={(e) => setAiConfigDraft(d => ({ ...d, model: e.target.value }))}
+                                    placeholder="Model (optional)"
+                                    className="flex-1 min-w-0 px-3 py-2 text-sm border border-violet-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
+                                />
+                                <input
+                                    type="password"
+                                    value={aiConfigDraft.apiKey}
+                                    onChange={(e) => setAiConfigDraft(d => ({ ...d, apiKey: e.target.value }))}
+                                    placeholder={aiConfigDraft.provider === 'gemini' ? 'Gemini API Key' : 'API key (optional)'}
+                                    title="Kept until reload; set VITE_LLM_API_KEY to keep a key"
+                                    className="flex-1 min-w-0 px-3 py-2 text-sm border border-violet-300 rounded-lg focus:ring-2 focus:ring-violet-500 focus:border-violet-500"
+                                />
+                            </div>
+                        )}
+                        <div className="flex items-center justify-between gap-2">
+                            <p className="text-xs text-violet-500">
+                                {aiConfigDraft.provider === 'gemini' && (
+                                    <>Get your key at <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="underline">Google AI Studio</a></>
+                                )}
+                                {aiConfigDraft.provider === 'openai-compatible' && 'Any /v1/chat/completions server: llama.cpp, Ollama, vLLM.'}
+                                {aiConfigDraft.provider === 'stub' && 'Canned replies, no network. For demos and tests.'}
+                            </p>
                             <button
                                 onClick={() => {
-                                    if (aiKeyInput.trim()) {
-                                        setApiKey(aiKeyInput.trim());
+                                    saveAIConfig(aiConfigDraft);
+                                    if (isAIAvailable()) {
                                         setAiEnabled(true);
                                         setShowAISettings(false);
-                                        setAiKeyInput('');
                                     }
                                 }}
-                                className="px-4 py-2 bg-violet-600 text-white text-sm font-medium rounded-lg hover:bg-violet-700 transition-colors"
+                                className="shrink-0 px-4 py-2 bg-violet-600 text-white text-sm font-medium rounded-lg hover:bg-violet-700 transition-colors"
                             >
                                 Save
                             </button>
                         </div>
-                        <p className="text-xs text-violet-500">
-                            Get your key at <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="underline">Google AI Studio</a>
-                        </p>
                     </div>
                 )}
 
@@ -594,7 +753,12 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                                         ) : (
                                             <>
                                                 <div className="bg-white border border-gray-100 shadow-sm rounded-2xl rounded-bl-md px-4 py-3">
-                                                    <p className="text-sm text-gray-800">{message.content}</p>
+                                                    <p className="text-sm text-gray-800">
+                                                        {message.content}
+                                                        {message.isStreaming && (
+                                                            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-amber-400 animate-pulse" aria-hidden="true" />
+                                                        )}
+                                                    </p>
                                                 </div>
 
                                                 {/* Response Card */}
@@ -622,7 +786,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                                                 )}
 
                                                 {/* Feedback */}
-                                                {!message.feedbackGiven && (
+                                                {!message.feedbackGiven && !message.isStreaming && (
                                                     <div className="flex items-center gap-2 text-xs text-gray-400">
                                                         <span>Was this helpful?</span>
                                                         <button
@@ -652,7 +816,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                             ))}
 
                             {/* Typing indicator */}
-                            {isTyping && (
+                            {isTyping && !messages.some(m => m.isStreaming) && (
                                 <div className="flex justify-start">
                                     <div className="bg-white border border-gray-100 shadow-sm rounded-2xl rounded-bl-md px-4 py-3">
                                         <div className="flex items-center gap-1">
@@ -17,14 +17,16 @@ export {
     DefinitionCard,
     StatsCard,
     VerticalListCard,
-    LeaderboardCard
+    LeaderboardCard,
+    ActionConfirmCard
 } from './BaristaCards';
 export type {
     DocumentData,
     PersonData,
     DefinitionData,
     StatsData,
-    ListItem
+    ListItem,
+    ActionStatus
 } from './BaristaCards';
 
 // BARISTA Data Connectors
@@ -38,3 +40,12 @@ export {
     getCurrentUserName
 } from './BaristaDataConnector';
 export type { LeaderboardEntry } from './BaristaDataConnector';
+
+// BARISTA Tools
+export {
+    BARISTA_TOOLS,
+    matchToolCall,
+    previewToolCall,
+    executeToolCall
+} from './BaristaTools';
+export type { BaristaToolName, BaristaToolCall, ToolPreview } from './BaristaTools';
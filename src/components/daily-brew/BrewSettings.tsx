@@ -2,12 +2,14 @@ import React, { useState, useEffect } from 'react';
 import {
     Settings, X, Moon, Bell, Clock,
     Zap, Coffee, BookOpen, MessageCircle,
-    Save, RotateCcw, Focus, BarChart3, CalendarClock
+    Save, RotateCcw, BarChart3, CalendarClock, Plug, Library, Award
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
-import { loadUserTaste, saveUserTaste, setQuietHours, clearQuietHours, type UserTaste, type ScheduleWindow } from '../../lib/daily-brew/barista-memory';
-import { enableFocusMode, disableFocusMode, isFocusModeActive } from '../../lib/daily-brew/timing-engine';
+import { loadUserTaste, saveUserTaste, type UserTaste, type ScheduleWindow } from '../../lib/daily-brew/barista-memory';
 import { WeekInBrew } from './WeekInBrew';
+import { AttentionSettings } from '../attention/AttentionSettings';
+import { getBrewSources, isBrewSourceEnabled } from '../../lib/daily-brew/source-registry';
+import { useBrewStore } from '../../stores/brewStore';
 import type { BrewSource } from '../../lib/daily-brew/types';
 
 /**
@@ -16,8 +18,8 @@ import type { BrewSource } from '../../lib/daily-brew/types';
  * 
  * Configure your notification preferences:
  * - Source preferences (boost/mute Toast, Pulse, LOP, etc.)
- * - Quiet hours configuration
- * - Focus mode toggle
+ * - Turn individual source adapters on and off
+ * - Quiet hours, focus and snooze (shared attention policy)
  * - Smart Scheduling (Morning/Afternoon/Evening batches)
  */
 
@@ -31,22 +33,28 @@ const SOURCE_CONFIG: { key: BrewSource; label: string; icon: typeof Coffee; colo
     { key: 'pulse', label: 'Pulse Market Intel', icon: Zap, color: 'text-blue-500' },
     { key: 'lop', label: 'Love of Product', icon: BookOpen, color: 'text-violet-500' },
     { key: 'chat', label: 'Discussions', icon: MessageCircle, color: 'text-emerald-500' },
+    { key: 'library', label: 'Library', icon: Library, color: 'text-teal-500' },
+    { key: 'badges', label: 'Badges', icon: Award, color: 'text-orange-500' },
 ];
 
 export const BrewSettings: React.FC<BrewSettingsProps> = ({ isOpen, onClose }) => {
     const [taste, setTaste] = useState<UserTaste>(loadUserTaste());
-    const [activeTab, setActiveTab] = useState<'general' | 'insights'>('general');
-    const [activeFocus, setActiveFocus] = useState(isFocusModeActive());
-    const [focusDuration, setFocusDuration] = useState(30);
-    const [quietStart, setQuietStart] = useState(taste.quietHours?.start || '22:00');
-    const [quietEnd, setQuietEnd] = useState(taste.quietHours?.end || '08:00');
-    const [quietEnabled, setQuietEnabled] = useState(!!taste.quietHours);
+    const [activeTab, setActiveTab] = useState<'general' | 'attention' | 'insights'>('general');
     const [saved, setSaved] = useState(false);
+    const setSourceEnabled = useBrewStore(state => state.setSourceEnabled);
+    const [enabledSources, setEnabledSources] = useState(() =>
+        Object.fromEntries(getBrewSources().map(a => [a.id, isBrewSourceEnabled(a.id)]))
+    );
+
+    const handleSourceToggle = (adapterId: string) => {
+        const enabled = !enabledSources[adapterId];
+        setSourceEnabled(adapterId, enabled);
+        setEnabledSources(prev => ({ ...prev, [adapterId]: enabled }));
+    };
 
     useEffect(() => {
         if (isOpen) {
             setTaste(loadUserTaste());
-            setActiveFocus(isFocusModeActive());
         }
     }, [isOpen]);
 
@@ -92,13 +100,6 @@ export const BrewSettings: React.FC<BrewSettingsProps> = ({ isOpen, onClose }) =
         // Save source preferences
         saveUserTaste(taste);
 
-        // Save quiet hours
-        if (quietEnabled) {
-            setQuietHours(quietStart, quietEnd);
-        } else {
-            clearQuietHours();
-        }
-
         setSaved(true);
         setTimeout(() => setSaved(false), 2000);
     };
@@ -109,19 +110,6 @@ export const BrewSettings: React.FC<BrewSettingsProps> = ({ isOpen, onClose }) =
             defaultTaste.bySource[key as BrewSource] = 0;
         });
         setTaste(defaultTaste);
-        setQuietEnabled(false);
-        setQuietStart('22:00');
-        setQuietEnd('08:00');
-    };
-
-    const handleFocusToggle = () => {
-        if (activeFocus) {
-            disableFocusMode();
-            setActiveFocus(false);
-        } else {
-            enableFocusMode(focusDuration);
-            setActiveFocus(true);
-        }
     };
 
     const getPreferenceLabel = (value: number): string => {
@@ -164,6 +152,16 @@ export const BrewSettings: React.FC<BrewSettingsProps> = ({ isOpen, onClose }) =
                         >
                             Preferences
                         </button>
+                        <button
+                            onClick={() => setActiveTab('attention')}
+                            className={cn(
+                                "text-sm font-semibold transition-colors pb-4 -mb-4 border-b-2 flex items-center gap-1.5",
+                                activeTab === 'attention' ? "text-indigo-600 border-indigo-600" : "text-gray-500 border-transparent hover:text-gray-700"
+                            )}
+                        >
+                            <Moon className="w-4 h-4" />
+                            Quiet & Focus
+                        </button>
                         <button
                             onClick={() => setActiveTab('insights')}
                             className={cn(
@@ -189,6 +187,8 @@ export const BrewSettings: React.FC<BrewSettingsProps> = ({ isOpen, onClose }) =
                         <div className="py-2">
                             <WeekInBrew />
                         </div>
+                    ) : activeTab === 'attention' ? (
+                        <AttentionSettings />
                     ) : (
                         <>
                             {/* ═══════════════════════════════════════════════════════════════ */}
@@ -252,94 +252,37 @@ export const BrewSettings: React.FC<BrewSettingsProps> = ({ isOpen, onClose }) =
                                 </div>
                             </div>
 
-                            {/* ═══════════════════════════════════════════════════════════════ */}
-                            {/* FOCUS MODE */}
-                            {/* ═══════════════════════════════════════════════════════════════ */}  <div className="px-5 py-4 border-b border-gray-100">
-                                <div className="flex items-center justify-between mb-3">
-                                    <div className="flex items-center gap-2">
-                                        <Focus className="w-4 h-4 text-violet-500" />
-                                        <span className="font-semibold text-gray-900 text-sm">Focus Mode</span>
-                                    </div>
-                                    <button
-                                        onClick={handleFocusToggle}
-                                        className={cn(
-                                            'px-3 py-1.5 text-xs font-semibold rounded-lg transition-all',
-                                            activeFocus
-                                                ? 'bg-violet-500 text-white'
-                                                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                                        )}
-                                    >
-                                        {activeFocus ? 'Active' : 'Enable'}
-                                    </button>
+                            {/* Sources */}
+                            <div className="px-5 py-4 border-b border-gray-100">
+                                <div className="flex items-center gap-2 mb-3">
+                                    <Plug className="w-4 h-4 text-sky-500" />
+                                    <span className="font-semibold text-gray-900 text-sm">Sources</span>
                                 </div>
-                                {!activeFocus && (
-                                    <div className="flex items-center gap-2">
-                                        <span className="text-xs text-gray-500">Duration:</span>
-                                        {[15, 30, 60, 120].map(mins => (
+                                <div className="space-y-2.5">
+                                    {getBrewSources().map(adapter => (
+                                        <div key={adapter.id} className="flex items-center justify-between gap-3">
+                                            <div className="min-w-0">
+                                                <p className="text-sm text-gray-700">{adapter.label}</p>
+                                                <p className="text-xs text-gray-400 truncate">{adapter.description}</p>
+                                            </div>
                                             <button
-                                                key={mins}
-                                                onClick={() => setFocusDuration(mins)}
+                                                onClick={() => handleSourceToggle(adapter.id)}
+                                                aria-label={`${enabledSources[adapter.id] ? 'Turn off' : 'Turn on'} ${adapter.label}`}
                                                 className={cn(
-                                                    'px-2 py-1 text-xs rounded-md transition-colors',
-                                                    focusDuration === mins
-                                                        ? 'bg-violet-100 text-violet-700 font-medium'
-                                                        : 'bg-gray-50 text-gray-500 hover:bg-gray-100'
+                                                    'w-10 h-5 rounded-full transition-colors relative shrink-0',
+                                                    enabledSources[adapter.id] ? 'bg-sky-500' : 'bg-gray-200'
                                                 )}
                                             >
-                                                {mins < 60 ? `${mins}m` : `${mins / 60}h`}
+                                                <div className={cn(
+                                                    'absolute top-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform',
+                                                    enabledSources[adapter.id] ? 'translate-x-5' : 'translate-x-0.5'
+                                                )} />
                                             </button>
-                                        ))}
-                                    </div>
-                                )}
-                                <p className="text-xs text-gray-400 mt-2">
-                                    Only critical notifications will be shown during focus mode.
-                                </p>
-                            </div>
-
-                            {/* Quiet Hours */}
-                            <div className="px-5 py-4 border-b border-gray-100">
-                                <div className="flex items-center justify-between mb-3">
-                                    <div className="flex items-center gap-2">
-                                        <Moon className="w-4 h-4 text-indigo-500" />
-                                        <span className="font-semibold text-gray-900 text-sm">Quiet Hours</span>
-                                    </div>
-                                    <button
-                                        onClick={() => setQuietEnabled(!quietEnabled)}
-                                        className={cn(
-                                            'w-10 h-5 rounded-full transition-colors relative',
-                                            quietEnabled ? 'bg-indigo-500' : 'bg-gray-200'
-                                        )}
-                                    >
-                                        <div className={cn(
-                                            'absolute top-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform',
-                                            quietEnabled ? 'translate-x-5' : 'translate-x-0.5'
-                                        )} />
-                                    </button>
-                                </div>
-                                {quietEnabled && (
-                                    <div className="flex items-center gap-3">
-                                        <div className="flex items-center gap-1.5">
-                                            <span className="text-xs text-gray-500">From</span>
-                                            <input
-                                                type="time"
-                                                value={quietStart}
-                                                onChange={(e) => setQuietStart(e.target.value)}
-                                                className="px-2 py-1 text-xs border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-200"
-                                            />
-                                        </div>
-                                        <div className="flex items-center gap-1.5">
-                                            <span className="text-xs text-gray-500">To</span>
-                                            <input
-                                                type="time"
-                                                value={quietEnd}
-                                                onChange={(e) => setQuietEnd(e.target.value)}
-                                                className="px-2 py-1 text-xs border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-200"
-                                            />
                                         </div>
-                                    </div>
-                                )}
-                                <p className="text-xs text-gray-400 mt-2">
-                                    Non-critical notifications will be batched during quiet hours.
+                                    ))}
+                                </div>
+                                <p className="text-xs text-gray-400 mt-3">
+                                    Turning a source off removes its items from your brew.
                                 </p>
                             </div>
 
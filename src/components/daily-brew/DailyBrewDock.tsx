@@ -2,12 +2,13 @@ import React, { useEffect, useCallback, useState, useMemo } from 'react';
 import {
     Coffee, X, Zap, BookOpen, MessageCircle, Sparkles,
     Bell, Archive, Bookmark, Clock, Settings, ChevronDown, ChevronUp,
-    Volume2, VolumeX, Flame, ExternalLink, Focus
+    Volume2, VolumeX, Flame, ExternalLink, Focus, Library, Award
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
 import { useDock } from '../../contexts/DockContext';
 import { useBrewStore } from '../../stores/brewStore';
 import { recordInteraction } from '../../lib/daily-brew/barista-memory';
+import { logBrewEvent } from '../../lib/daily-brew/event-log';
 import { blendItems, type BlendedBrewItem } from '../../lib/daily-brew/barista-engine';
 import { initActivityTracking, refreshTimingContext, isFocusModeActive } from '../../lib/daily-brew/timing-engine';
 import { BrewSettings } from './BrewSettings';
@@ -66,9 +67,12 @@ interface BrewCardProps {
     onSip: (id: string) => void;
     onDismiss: (id: string) => void;
     onSave: (id: string) => void;
+    onSnooze: (id: string) => void;
 }
 
-const BrewCard: React.FC<BrewCardProps> = ({ item, onSip, onDismiss, onSave }) => {
+const SNOOZE_MINUTES = 60;
+
+const BrewCard: React.FC<BrewCardProps> = ({ item, onSip, onDismiss, onSave, onSnooze }) => {
     const [isHovered, setIsHovered] = useState(false);
     const [swipeX, setSwipeX] = useState(0);
     const [isDragging, setIsDragging] = useState(false);
@@ -81,6 +85,8 @@ const BrewCard: React.FC<BrewCardProps> = ({ item, onSip, onDismiss, onSave }) =
         pulse: { icon: Zap, color: 'text-blue-600', bg: 'bg-blue-50' },
         lop: { icon: BookOpen, color: 'text-violet-600', bg: 'bg-violet-50' },
         chat: { icon: MessageCircle, color: 'text-emerald-600', bg: 'bg-emerald-50' },
+        library: { icon: Library, color: 'text-teal-600', bg: 'bg-teal-50' },
+        badges: { icon: Award, color: 'text-orange-600', bg: 'bg-orange-50' },
         system: { icon: Bell, color: 'text-gray-500', bg: 'bg-gray-50' },
     };
 
@@ -149,6 +155,7 @@ const BrewCard: React.FC<BrewCardProps> = ({ item, onSip, onDismiss, onSave }) =
     const handleClick = () => {
         if (Math.abs(swipeX) > 10) return; // Ignore if swiping
         onSip(item.id);
+        logBrewEvent(item, 'clicked_through');
         recordInteraction({
             itemId: item.id,
             source: item.source,
@@ -267,6 +274,13 @@ const BrewCard: React.FC<BrewCardProps> = ({ item, onSip, onDismiss, onSave }) =
                     >
                         <Bookmark className="w-3.5 h-3.5 text-amber-500" />
                     </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onSnooze(item.id); }}
+                        className="p-1.5 hover:bg-violet-50 rounded-md transition-colors"
+                        title="Snooze for an hour"
+                    >
+                        <Clock className="w-3.5 h-3.5 text-violet-500" />
+                    </button>
                     <button
                         onClick={(e) => { e.stopPropagation(); onDismiss(item.id); }}
                         className="p-1.5 hover:bg-gray-100 rounded-md transition-colors"
@@ -337,7 +351,7 @@ const SectionHeader: React.FC<SectionProps> = ({ title, icon, count, variant, co
 
 export const DailyBrewDock: React.FC = () => {
     const { brewPanelOpen, closeBrewPanel, expandDock } = useDock();
-    const { menu, sip, stats, refreshMenu, initializeSourcing } = useBrewStore();
+    const { menu, sip, snooze, stats, refreshMenu, initializeSourcing } = useBrewStore();
 
     const [frothCollapsed, setFrothCollapsed] = useState(true);
     const [isMuted, setIsMuted] = useState(false);
@@ -369,7 +383,8 @@ export const DailyBrewDock: React.FC = () => {
     }, [brewPanelOpen, closeBrewPanel]);
 
     // Phase 1.50: Apply clustering
-    const clusteredMenu = useMemo(() => blendItems(menu), [menu]);
+    const servedMenu = useMemo(() => menu.filter(item => !item.snoozedUntil && !item.isHeld), [menu]);
+    const clusteredMenu = useMemo(() => blendItems(servedMenu), [servedMenu]);
 
     // The Pour hierarchy
     const { shots, blends, froths } = useMemo(() => {
@@ -384,7 +399,7 @@ export const DailyBrewDock: React.FC = () => {
         return { shots, blends, froths };
     }, [clusteredMenu]);
 
-    const unreadCount = menu.filter(item => !item.isRead).length;
+    const unreadCount = servedMenu.filter(item => !item.isRead).length;
 
     const handleClose = useCallback(() => {
         closeBrewPanel();
@@ -392,6 +407,8 @@ export const DailyBrewDock: React.FC = () => {
     }, [closeBrewPanel, expandDock]);
 
     const handleDismiss = useCallback((id: string) => {
+        const item = menu.find(i => i.id === id);
+        if (item) logBrewEvent(item, 'dismissed');
         recordInteraction({
             itemId: id,
             source: menu.find(i => i.id === id)?.source || 'system',
@@ -409,6 +426,10 @@ export const DailyBrewDock: React.FC = () => {
         });
     }, [menu]);
 
+    const handleSnooze = useCallback((id: string) => {
+        snooze(id, SNOOZE_MINUTES);
+    }, [snooze]);
+
     const handleMarkAllRead = useCallback(() => {
         menu.forEach(item => { if (!item.isRead) sip(item.id); });
     }, [menu, sip]);
@@ -546,7 +567,7 @@ export const DailyBrewDock: React.FC = () => {
                     <>
                         {/* MORNING POUR - Daily Digest Summary (Phase 3) */}
                         <MorningPour
-                            items={menu}
+                            items={servedMenu}
                             onSipAll={handleMarkAllRead}
                             onDiveIn={() => {
                                 // Expand the froth section to show all items
@@ -559,7 +580,7 @@ export const DailyBrewDock: React.FC = () => {
                                 <SectionHeader title="The Shot" icon="☕" count={shots.length} variant="shot" />
                                 <div className="divide-y divide-gray-50">
                                     {shots.map(item => (
-                                        <BrewCard key={item.id} item={item} onSip={sip} onDismiss={handleDismiss} onSave={handleSave} />
+                                        <BrewCard key={item.id} item={item} onSip={sip} onDismiss={handleDismiss} onSave={handleSave} onSnooze={handleSnooze} />
                                     ))}
                                 </div>
                             </div>
@@ -571,7 +592,7 @@ export const DailyBrewDock: React.FC = () => {
                                 <SectionHeader title="The Blend" icon="🍵" count={blends.length} variant="blend" />
                                 <div className="divide-y divide-gray-50">
                                     {blends.map(item => (
-                                        <BrewCard key={item.id} item={item} onSip={sip} onDismiss={handleDismiss} onSave={handleSave} />
+                                        <BrewCard key={item.id} item={item} onSip={sip} onDismiss={handleDismiss} onSave={handleSave} onSnooze={handleSnooze} />
                                     ))}
                                 </div>
                             </div>
@@ -591,7 +612,7 @@ export const DailyBrewDock: React.FC = () => {
                                 {!frothCollapsed && (
                                     <div className="divide-y divide-gray-50">
                                         {froths.map(item => (
-                                            <BrewCard key={item.id} item={item} onSip={sip} onDismiss={handleDismiss} onSave={handleSave} />
+                                            <BrewCard key={item.id} item={item} onSip={sip} onDismiss={handleDismiss} onSave={handleSave} onSnooze={handleSnooze} />
                                         ))}
                                     </div>
                                 )}
@@ -627,7 +648,15 @@ export const DailyBrewDock: React.FC = () => {
             `}</style>
 
             {/* Settings Modal */}
-            <BrewSettings isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
+            <BrewSettings
+                isOpen={settingsOpen}
+                onClose={() => {
+                    setSettingsOpen(false);
+                    // Attention settings may have released held items
+                    refreshMenu();
+                    setFocusActive(isFocusModeActive());
+                }}
+            />
         </div>
     );
 };
@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Bell, X, Coffee, Zap, BookOpen, MessageCircle } from 'lucide-react';
+import { Bell, BellOff, X, Coffee, Zap, BookOpen, MessageCircle, Library, Award } from 'lucide-react';
 import { useBrewStore } from '../../stores/brewStore';
 import { cn } from '../../lib/utils';
+import { getAttentionStatus } from '../../lib/attention/attentionPolicy';
 import type { RoastProfile } from '../../lib/daily-brew/types';
 
 /**
@@ -12,6 +13,7 @@ export const NotificationBell: React.FC = () => {
     const { menu, sip, refreshMenu, initializeSourcing } = useBrewStore();
     const [isOpen, setIsOpen] = useState(false);
     const [filter, setFilter] = useState<'all' | RoastProfile>('all');
+    const [attention, setAttention] = useState(() => getAttentionStatus());
     const dropdownRef = useRef<HTMLDivElement>(null);
     const buttonRef = useRef<HTMLButtonElement>(null);
 
@@ -19,7 +21,10 @@ export const NotificationBell: React.FC = () => {
     useEffect(() => {
         initializeSourcing();
         refreshMenu();
-        const interval = setInterval(refreshMenu, 30000);
+        const interval = setInterval(() => {
+            refreshMenu();
+            setAttention(getAttentionStatus());
+        }, 30000);
         return () => clearInterval(interval);
     }, [initializeSourcing, refreshMenu]);
 
@@ -48,12 +53,16 @@ export const NotificationBell: React.FC = () => {
         return () => window.removeEventListener('keydown', handleEscape);
     }, []);
 
+    // Held and snoozed items stay out of the bell until they are released
+    const visibleItems = menu.filter(item => !item.isHeld && !item.snoozedUntil);
+    const heldCount = menu.filter(item => item.isHeld).length;
+
     // Filter notifications
     const filteredItems = filter === 'all'
-        ? menu
-        : menu.filter(item => item.roast === filter);
+        ? visibleItems
+        : visibleItems.filter(item => item.roast === filter);
 
-    const unreadCount = menu.filter(item => !item.isRead).length;
+    const unreadCount = visibleItems.filter(item => !item.isRead).length;
 
     // Mark item as read (sip)
     const handleItemClick = useCallback((id: string) => {
@@ -67,6 +76,8 @@ export const NotificationBell: React.FC = () => {
             case 'pulse': return <Zap className="w-4 h-4 text-blue-500" />;
             case 'lop': return <BookOpen className="w-4 h-4 text-purple-500" />;
             case 'chat': return <MessageCircle className="w-4 h-4 text-green-500" />;
+            case 'library': return <Library className="w-4 h-4 text-teal-500" />;
+            case 'badges': return <Award className="w-4 h-4 text-orange-500" />;
             default: return <Bell className="w-4 h-4 text-gray-400" />;
         }
     };
@@ -98,7 +109,13 @@ export const NotificationBell: React.FC = () => {
             {/* Bell Button */}
             <button
                 ref={buttonRef}
-                onClick={() => setIsOpen(!isOpen)}
+                onClick={() => {
+                    if (!isOpen) {
+                        refreshMenu();
+                        setAttention(getAttentionStatus());
+                    }
+                    setIsOpen(!isOpen);
+                }}
                 className={cn(
                     "relative p-2 rounded-xl transition-all duration-200",
                     "hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-cafe-500 focus:ring-offset-2",
@@ -144,6 +161,18 @@ export const NotificationBell: React.FC = () => {
                         </div>
                     </div>
 
+                    {/* Attention status */}
+                    {(!attention.deliver || heldCount > 0) && (
+                        <div className="flex items-center gap-2 px-4 py-2 text-xs text-indigo-700 bg-indigo-50 border-b border-indigo-100">
+                            <BellOff className="w-3.5 h-3.5 shrink-0" />
+                            <span className="truncate">
+                                {attention.deliver ? 'Muted sources' : attention.label}
+                                {attention.holdUntil && ` until ${new Date(attention.holdUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                                {heldCount > 0 && ` · ${heldCount} held`}
+                            </span>
+                        </div>
+                    )}
+
                     {/* Filter Tabs */}
                     <div className="flex gap-1 px-4 py-2 border-b border-gray-50 bg-gray-50/50">
                         {(['all', 'dark', 'medium', 'light'] as const).map(tab => (
@@ -1,21 +1,62 @@
-import React, { useMemo } from 'react';
-import { BarChart3, TrendingUp, Clock, Calendar, ArrowUpRight, Zap } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { BarChart3, TrendingUp, TrendingDown, Clock, Zap, MousePointerClick, Archive, Download } from 'lucide-react';
 import { cn } from '../../lib/utils';
-import { generateWeeklyStats } from '../../lib/daily-brew/analytics-engine';
+import { generatePeriodStats, brewStatsToCsv, type StatsPeriod } from '../../lib/daily-brew/analytics-engine';
+import type { BrewSource } from '../../lib/daily-brew/types';
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════
  * WEEK IN BREW — Analytics Summary Card
  * ═══════════════════════════════════════════════════════════════════════════
- * 
- * Visualizes user engagement for the past week.
+ *
+ * Visualizes user engagement for the past week or month from the local
+ * event log.
  */
 
+const SOURCE_LABELS: Record<BrewSource, string> = {
+    toast: 'Toast',
+    lop: 'LOP',
+    pulse: 'Pulse',
+    chat: 'Chat',
+    library: 'Library',
+    badges: 'Badges',
+    system: 'System',
+};
+
+const HEATMAP_DAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+const formatDuration = (ms: number | null) => {
+    if (ms === null) return '—';
+    const mins = Math.round(ms / (60 * 1000));
+    if (mins < 60) return `${mins}m`;
+    return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+};
+
+const formatHour = (hour: number) => `${hour % 12 || 12}${hour < 12 ? 'am' : 'pm'}`;
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
 export const WeekInBrew: React.FC = () => {
-    const stats = useMemo(() => generateWeeklyStats(), []);
+    const [period, setPeriod] = useState<StatsPeriod>('week');
+    const stats = useMemo(() => generatePeriodStats(period), [period]);
+
+    // Find max values for chart scaling
+    const maxDay = Math.max(1, ...stats.engagementByDay.map(d => d.count));
+    const maxCell = Math.max(1, ...stats.heatmap.flat());
+    const hasActivity = stats.engagementByDay.some(d => d.count > 0) || stats.totalReceived > 0;
 
-    // Find max value for chart scaling
-    const maxDay = Math.max(...stats.engagementByDay.map(d => d.count));
+    const handleExport = () => {
+        const date = new Date(stats.end).toISOString().slice(0, 10);
+        downloadFile(brewStatsToCsv(stats), `daily-brew-${period}-${date}.csv`, 'text/csv');
+    };
 
     return (
         <div className="mx-3 mt-3 p-4 rounded-2xl bg-white border border-gray-100 shadow-sm">
@@ -26,72 +67,147 @@ export const WeekInBrew: React.FC = () => {
                         <BarChart3 className="w-5 h-5" />
                     </div>
                     <div>
-                        <h3 className="font-bold text-gray-900 text-sm">Your Week in Brew</h3>
-                        <p className="text-xs text-gray-500">Last 7 days activity</p>
+                        <h3 className="font-bold text-gray-900 text-sm">Your {period === 'week' ? 'Week' : 'Month'} in Brew</h3>
+                        <p className="text-xs text-gray-500">Last {period === 'week' ? '7' : '30'} days activity</p>
                     </div>
                 </div>
-                <div className="flex items-center gap-1 px-2 py-1 bg-emerald-50 text-emerald-700 text-xs font-medium rounded-full">
-                    <TrendingUp className="w-3 h-3" />
-                    +12%
+                <div className="flex items-center gap-2">
+                    {stats.trend !== null && (
+                        <div className={cn(
+                            'flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full',
+                            stats.trend >= 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'
+                        )}>
+                            {stats.trend >= 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                            {stats.trend >= 0 ? '+' : ''}{stats.trend}%
+                        </div>
+                    )}
+                    <div className="flex bg-gray-100 rounded-lg p-0.5">
+                        {(['week', 'month'] as StatsPeriod[]).map(p => (
+                            <button
+                                key={p}
+                                onClick={() => setPeriod(p)}
+                                className={cn(
+                                    'px-2 py-0.5 text-[10px] font-semibold rounded-md capitalize transition-colors',
+                                    period === p ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                                )}
+                            >
+                                {p}
+                            </button>
+                        ))}
+                    </div>
                 </div>
             </div>
 
-            {/* Key Metrics Grid */}
-            <div className="grid grid-cols-2 gap-3 mb-5">
-                <div className="p-3 bg-gray-50 rounded-xl border border-gray-100">
-                    <div className="flex items-center gap-1.5 text-gray-500 mb-1">
-                        <Zap className="w-3.5 h-3.5" />
-                        <span className="text-[10px] uppercase font-semibold tracking-wider">Sipped</span>
-                    </div>
-                    <div className="flex items-baseline gap-1">
-                        <span className="text-xl font-bold text-gray-900">{stats.totalSipped}</span>
-                        <span className="text-xs text-gray-500">/ {stats.totalReceived}</span>
-                    </div>
-                </div>
-                <div className="p-3 bg-gray-50 rounded-xl border border-gray-100">
-                    <div className="flex items-center gap-1.5 text-gray-500 mb-1">
-                        <Clock className="w-3.5 h-3.5" />
-                        <span className="text-[10px] uppercase font-semibold tracking-wider">Avg Response</span>
+            {!hasActivity ? (
+                <p className="text-xs text-gray-400 text-center py-8">
+                    No Daily Brew activity recorded yet. Stats appear as you sip, dismiss and open items.
+                </p>
+            ) : (
+                <>
+                    {/* Key Metrics Grid */}
+                    <div className="grid grid-cols-2 gap-3 mb-5">
+                        <div className="p-3 bg-gray-50 rounded-xl border border-gray-100">
+                            <div className="flex items-center gap-1.5 text-gray-500 mb-1">
+                                <Zap className="w-3.5 h-3.5" />
+                                <span className="text-[10px] uppercase font-semibold tracking-wider">Sipped</span>
+                            </div>
+                            <div className="flex items-baseline gap-1">
+                                <span className="text-xl font-bold text-gray-900">{stats.totalSipped}</span>
+                                <span className="text-xs text-gray-500">/ {stats.totalReceived}</span>
+                            </div>
+                        </div>
+                        <div className="p-3 bg-gray-50 rounded-xl border border-gray-100">
+                            <div className="flex items-center gap-1.5 text-gray-500 mb-1">
+                                <Clock className="w-3.5 h-3.5" />
+                                <span className="text-[10px] uppercase font-semibold tracking-wider">Median Response</span>
+                            </div>
+                            <div className="text-xl font-bold text-gray-900">
+                                {formatDuration(stats.responseTime.p50)}
+                            </div>
+                            <p className="text-[10px] text-gray-400">
+                                p90 {formatDuration(stats.responseTime.p90)} · p95 {formatDuration(stats.responseTime.p95)}
+                            </p>
+                        </div>
+                        <div className="p-3 bg-gray-50 rounded-xl border border-gray-100">
+                            <div className="flex items-center gap-1.5 text-gray-500 mb-1">
+                                <MousePointerClick className="w-3.5 h-3.5" />
+                                <span className="text-[10px] uppercase font-semibold tracking-wider">Opened</span>
+                            </div>
+                            <div className="text-xl font-bold text-gray-900">{stats.totalClickedThrough}</div>
+                        </div>
+                        <div className="p-3 bg-gray-50 rounded-xl border border-gray-100">
+                            <div className="flex items-center gap-1.5 text-gray-500 mb-1">
+                                <Archive className="w-3.5 h-3.5" />
+                                <span className="text-[10px] uppercase font-semibold tracking-wider">Dismissed</span>
+                            </div>
+                            <div className="flex items-baseline gap-1">
+                                <span className="text-xl font-bold text-gray-900">{stats.totalDismissed}</span>
+                                <span className="text-xs text-gray-500">· {stats.totalSnoozed} snoozed</span>
+                            </div>
+                        </div>
                     </div>
-                    <div className="text-xl font-bold text-gray-900">
-                        {Math.round(stats.avgResponseTime / (60 * 1000))}m
+
+                    {/* Engagement Chart */}
+                    <div className="mb-5">
+                        <div className={cn('flex items-end justify-between h-24 px-1', period === 'week' ? 'gap-2' : 'gap-px')}>
+                            {stats.engagementByDay.map((d) => (
+                                <div key={d.date} className="flex-1 h-full flex flex-col justify-end items-center gap-1.5 group">
+                                    <div
+                                        className="w-full bg-violet-100 rounded-t-sm transition-all duration-300 group-hover:bg-violet-300 relative"
+                                        style={{ height: `${(d.count / maxDay) * 100}%` }}
+                                    >
+                                        {/* Tooltip */}
+                                        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-1.5 py-0.5 bg-gray-900 text-white text-[10px] rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
+                                            {d.count} items · {d.date}
+                                        </div>
+                                    </div>
+                                    {period === 'week' && (
+                                        <span className="text-[10px] text-gray-400 font-medium">{d.day}</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
                     </div>
-                </div>
-            </div>
 
-            {/* Engagement Chart */}
-            <div className="mb-5">
-                <div className="flex items-end justify-between h-24 gap-2 px-1">
-                    {stats.engagementByDay.map((d) => (
-                        <div key={d.day} className="flex-1 flex flex-col items-center gap-1.5 group">
-                            <div
-                                className="w-full bg-violet-100 rounded-t-sm transition-all duration-300 group-hover:bg-violet-300 relative"
-                                style={{ height: `${(d.count / maxDay) * 100}%` }}
-                            >
-                                {/* Tooltip */}
-                                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-1.5 py-0.5 bg-gray-900 text-white text-[10px] rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10">
-                                    {d.count} items
+                    {/* Peak Hours Heatmap */}
+                    <div className="mb-5">
+                        <div className="flex items-center justify-between mb-1.5">
+                            <span className="text-[10px] uppercase font-semibold tracking-wider text-gray-500">Peak Hours</span>
+                            {stats.peakHour !== null && (
+                                <span className="text-[10px] text-gray-400">Busiest around {formatHour(stats.peakHour)}</span>
+                            )}
+                        </div>
+                        <div className="space-y-px">
+                            {stats.heatmap.map((row, dayIndex) => (
+                                <div key={dayIndex} className="flex items-center gap-px">
+                                    <span className="w-3 text-[9px] text-gray-400">{HEATMAP_DAYS[dayIndex]}</span>
+                                    {row.map((count, hour) => (
+                                        <div
+                                            key={hour}
+                                            className="flex-1 h-2.5 rounded-[1px] bg-violet-500"
+                                            style={{ opacity: count === 0 ? 0.06 : 0.2 + (count / maxCell) * 0.8 }}
+                                            title={`${formatHour(hour)}: ${count}`}
+                                        />
+                                    ))}
                                 </div>
-                            </div>
-                            <span className="text-[10px] text-gray-400 font-medium">{d.day}</span>
+                            ))}
                         </div>
-                    ))}
-                </div>
-            </div>
+                    </div>
+                </>
+            )}
 
             {/* Insights Footer */}
             <div className="flex items-center justify-between pt-3 border-t border-gray-100">
-                <div className="flex items-center gap-2">
-                    <div className="flex -space-x-1.5">
-                        {/* Fake avatars for top collaborators */}
-                        <div className="w-5 h-5 rounded-full bg-rose-100 border border-white" />
-                        <div className="w-5 h-5 rounded-full bg-amber-100 border border-white" />
-                        <div className="w-5 h-5 rounded-full bg-blue-100 border border-white" />
-                    </div>
-                    <span className="text-xs text-gray-500">Top sources: Pulse, Toast</span>
-                </div>
-                <button className="text-xs font-medium text-violet-600 hover:text-violet-700 flex items-center gap-0.5">
-                    Full Report <ArrowUpRight className="w-3 h-3" />
+                <span className="text-xs text-gray-500 truncate">
+                    {stats.topSources.length > 0
+                        ? `Top sources: ${stats.topSources.slice(0, 2).map(s => SOURCE_LABELS[s.source]).join(', ')}`
+                        : 'No top sources yet'}
+                </span>
+                <button
+                    onClick={handleExport}
+                    className="text-xs font-medium text-violet-600 hover:text-violet-700 flex items-center gap-0.5 shrink-0"
+                >
+                    Export CSV <Download className="w-3 h-3" />
                 </button>
             </div>
         </div>
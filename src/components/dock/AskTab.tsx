@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, Coffee, Search, Users, BookOpen, HelpCircle, MessageSquare, Mic, Activity, Building2, Filter, Sparkles, ExternalLink } from 'lucide-react';
+import { Send, Coffee, Search, Users, BookOpen, HelpCircle, MessageSquare, Mic, Activity, Building2, Filter, Sparkles, ExternalLink, PartyPopper } from 'lucide-react';
 import { ChatMessage } from '../chat/ChatMessage';
 import { Button } from '../ui/Button';
 import { cn } from '../../lib/utils';
@@ -90,6 +90,7 @@ const ResultIcon: React.FC<{ type: string }> = ({ type }) => {
         tool: <Coffee className="w-3.5 h-3.5" />,
         pulse_signal: <Activity className="w-3.5 h-3.5" />,
         competitor: <Building2 className="w-3.5 h-3.5" />,
+        toast: <PartyPopper className="w-3.5 h-3.5" />,
     };
     return <span className="text-gray-400">{icons[type] || <Search className="w-3.5 h-3.5" />}</span>;
 };
@@ -109,6 +110,7 @@ const SearchResultsInline: React.FC<SearchResultsInlineProps> = ({ results, onRe
         ...r.resources.slice(0, 2).map(res => ({ ...res, _type: 'resource', _title: res.title, _subtitle: res.description })),
         ...r.discussions.slice(0, 1).map(d => ({ ...d, _type: 'discussion', _title: d.title, _subtitle: `${d.replyCount} replies` })),
         ...r.lopSessions.slice(0, 1).map(l => ({ ...l, _type: 'lop_session', _title: l.title, _subtitle: l.speakerName })),
+        ...r.toasts.slice(0, 1).map(t => ({ ...t, _type: 'toast', _title: t.title, _subtitle: t.message })),
     ].sort((a, b) => b.score - a.score).slice(0, 5);
 
     if (totalCount === 0) {
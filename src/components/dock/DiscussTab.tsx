@@ -11,6 +11,7 @@ import { useDiscussionStore } from '../../stores/discussionStore';
 import { usePointsStore } from '../../stores/pointsStore';
 import { MarkdownRenderer } from '../ui/MarkdownRenderer';
 import { SmartTextarea } from '../ui/SmartTextarea';
+import { SyncStatusBadge } from '../ui/SyncStatusBadge';
 import { VoteButton, ReactionPicker, ReactionBar } from '../discussions';
 import { DiscussionActionMenu } from '../discussions/DiscussionActionMenu';
 import { DiscussionStatus } from '../discussions/DiscussionStatus';
@@ -62,6 +63,7 @@ const DiscussionCard: React.FC<DiscussionCardProps> = ({ discussion, onClick })
                     <span className="font-mono">#{discussion.id.slice(-4)}</span>
                     <span>•</span>
                     <span>{formatDistanceToNow(new Date(discussion.createdAt))}</span>
+                    <SyncStatusBadge entityType="discussion" entityId={discussion.id} className="ml-auto" />
                 </div>
             </div>
 
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CompetitorProfile } from '../../lib/pulse/competitorData';
+import { usePulseStore } from '../../lib/pulse/usePulseStore';
+import {
+    BATTLECARD_SECTIONS,
+    battlecardFileName,
+    battlecardToHtml,
+    battlecardToMarkdown,
+    buildBattlecard,
+    collectCompetitorSignals,
+    diffBattlecard,
+    hasChanges,
+    type Battlecard,
+} from '../../lib/pulse/battlecard';
+import type { PulseSignal } from '../../lib/pulse/types';
+import { FileText, FileCode, Printer, ClipboardList } from 'lucide-react';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BATTLECARD EXPORT — Changes since last export + Markdown / HTML / print
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface BattlecardExportProps {
+    competitor: CompetitorProfile;
+}
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const BattlecardExport: React.FC<BattlecardExportProps> = ({ competitor }) => {
+    const liveSignals = usePulseStore(state => state.signals);
+    const snapshot = usePulseStore(state => state.battlecardSnapshots[competitor.id]);
+    const recordBattlecardExport = usePulseStore(state => state.recordBattlecardExport);
+    const [signals, setSignals] = useState<PulseSignal[] | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        collectCompetitorSignals(competitor.id, liveSignals).then(result => {
+            if (!cancelled) setSignals(result);
+        });
+        return () => { cancelled = true; };
+    }, [competitor.id, liveSignals]);
+
+    const card = useMemo(() => (signals ? buildBattlecard(competitor, signals) : null), [competitor, signals]);
+    const diff = useMemo(() => (card ? diffBattlecard(card, snapshot) : null), [card, snapshot]);
+
+    const exportAs = (format: 'md' | 'html' | 'print', current: Battlecard) => {
+        const currentDiff = diffBattlecard(current, snapshot);
+        if (format === 'md') {
+            downloadFile(battlecardToMarkdown(current, currentDiff), battlecardFileName(current, 'md'), 'text/markdown');
+        } else if (format === 'html') {
+            downloadFile(battlecardToHtml(current, currentDiff), battlecardFileName(current, 'html'), 'text/html');
+        } else {
+            const win = window.open('', '_blank');
+            if (!win) return;
+            win.document.write(battlecardToHtml(current, currentDiff));
+            win.document.close();
+            win.focus();
+            win.print();
+        }
+        recordBattlecardExport(current);
+    };
+
+    const sectionCounts = card
+        ? BATTLECARD_SECTIONS.map(s => `${card.sections[s.key].length} ${s.label.toLowerCase()}`).join(' · ')
+        : '';
+
+    return (
+        <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+                <ClipboardList size={14} className="text-gray-400" />
+                Battlecard
+            </h3>
+
+            <div className="bg-gradient-to-br from-gray-50 to-white border border-gray-100 rounded-xl p-3 space-y-3">
+                {!card || !diff ? (
+                    <p className="text-xs text-gray-400">Gathering signals…</p>
+                ) : (
+                    <>
+                        <p className="text-xs text-gray-500">{sectionCounts}</p>
+
+                        <div className="text-xs">
+                            <p className="font-medium text-gray-700 mb-1">
+                                {diff.since ? `Changes since last export (${formatDate(diff.since)})` : 'Not exported yet'}
+                            </p>
+                            {diff.since && !hasChanges(diff) && (
+                                <p className="text-gray-400">Nothing new since the last export.</p>
+                            )}
+                            {hasChanges(diff) && (
+                                <ul className="space-y-1">
+                                    {diff.changedFields.map(change => (
+                                        <li key={change.label} className="text-gray-600">
+                                            <span className="font-medium">{change.label}:</span> {change.from} → {change.to}
+                                        </li>
+                                    ))}
+                                    {diff.added.map(item => (
+                                        <li key={`${item.section}-${item.signalId}`} className="text-gray-600 truncate">
+                                            <span className="px-1.5 py-0.5 mr-1.5 bg-emerald-50 text-emerald-700 rounded text-[10px] font-semibold uppercase">New</span>
+                                            {item.title}
+                                        </li>
+                                    ))}
+                                    {diff.removedCount > 0 && (
+                                        <li className="text-gray-400">{diff.removedCount} older item{diff.removedCount === 1 ? '' : 's'} dropped off</li>
+                                    )}
+                                </ul>
+                            )}
+                        </div>
+
+                        <div className="flex flex-wrap gap-2">
+                            <button
+                                onClick={() => exportAs('md', card)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-xs font-medium"
+                            >
+                                <FileText size={12} />
+                                Markdown
+                            </button>
+                            <button
+                                onClick={() => exportAs('html', card)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-xs font-medium"
+                            >
+                                <FileCode size={12} />
+                                HTML
+                            </button>
+                            <button
+                                onClick={() => exportAs('print', card)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-xs font-medium"
+                            >
+                                <Printer size={12} />
+                                Print
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </section>
+    );
+};
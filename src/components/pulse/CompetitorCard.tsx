@@ -1,5 +1,7 @@
 import React, { memo } from 'react';
 import type { CompetitorProfile } from '../../lib/pulse/competitorData';
+import type { TrendSeries } from '../../lib/pulse/trendAnalysis';
+import { Sparkline, TrendBadge } from './TrendIndicators';
 import { Eye, EyeOff, Activity, ExternalLink } from 'lucide-react';
 import { cn } from '../../lib/utils';
 
@@ -10,6 +12,7 @@ import { cn } from '../../lib/utils';
 interface CompetitorCardProps {
     competitor: CompetitorProfile;
     isSelected?: boolean;
+    trend?: TrendSeries;
     onSelect?: (id: string) => void;
     onToggleWatchlist?: (id: string) => void;
 }
@@ -43,6 +46,7 @@ const timeAgo = (dateStr: string | null): string => {
 const CompetitorCardComponent: React.FC<CompetitorCardProps> = ({
     competitor,
     isSelected,
+    trend,
     onSelect,
     onToggleWatchlist,
 }) => {
@@ -97,11 +101,26 @@ const CompetitorCardComponent: React.FC<CompetitorCardProps> = ({
                 </button>
             </div>
 
-            {/* Category */}
-            <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-2">
-                {competitor.category}
+            {/* Category & momentum */}
+            <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-[10px] text-gray-500 uppercase tracking-wider">
+                    {competitor.category}
+                </span>
+                {trend && <TrendBadge series={trend} />}
             </div>
 
+            {/* Weekly volume */}
+            {trend && trend.total > 0 && (
+                <Sparkline
+                    values={trend.points.map(p => p.count)}
+                    width={120}
+                    height={18}
+                    color={competitor.color}
+                    highlightLast={!!trend.anomaly}
+                    className="mb-2"
+                />
+            )}
+
             {/* Stats */}
             <div className="flex items-center justify-between text-xs">
                 <div className="flex items-center gap-1 text-gray-600">
@@ -135,6 +154,7 @@ export const CompetitorCard = memo(CompetitorCardComponent, (prev, next) => {
         prev.competitor.id === next.competitor.id &&
         prev.competitor.signalCount === next.competitor.signalCount &&
         prev.competitor.watchlisted === next.competitor.watchlisted &&
-        prev.isSelected === next.isSelected
+        prev.isSelected === next.isSelected &&
+        prev.trend === next.trend
     );
 });
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import type { CompetitorProfile } from '../../lib/pulse/competitorData';
+import type { TrendSeries } from '../../lib/pulse/trendAnalysis';
 import { CompetitorCard } from './CompetitorCard';
 import { Users, Target, Zap, Sparkles, Search } from 'lucide-react';
 import { cn } from '../../lib/utils';
@@ -11,6 +12,7 @@ import { cn } from '../../lib/utils';
 interface CompetitorPanelProps {
     competitors: CompetitorProfile[];
     selectedCompetitorId?: string | null;
+    trends?: Record<string, TrendSeries>;
     onSelectCompetitor?: (id: string | null) => void;
     onToggleWatchlist?: (id: string) => void;
 }
@@ -20,6 +22,7 @@ type FilterTab = 'all' | 'watchlist' | 1 | 2 | 3;
 export const CompetitorPanel: React.FC<CompetitorPanelProps> = ({
     competitors,
     selectedCompetitorId,
+    trends,
     onSelectCompetitor,
     onToggleWatchlist,
 }) => {
@@ -126,6 +129,7 @@ export const CompetitorPanel: React.FC<CompetitorPanelProps> = ({
                                 key={competitor.id}
                                 competitor={competitor}
                                 isSelected={selectedCompetitorId === competitor.id}
+                                trend={trends?.[competitor.id]}
                                 onSelect={handleSelect}
                                 onToggleWatchlist={onToggleWatchlist}
                             />
@@ -1,5 +1,7 @@
 import React from 'react';
 import type { CompetitorProfile } from '../../lib/pulse/competitorData';
+import type { TrendReport } from '../../lib/pulse/trendAnalysis';
+import { Sparkline, TrendBadge } from './TrendIndicators';
 import { cn } from '../../lib/utils';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -9,12 +11,14 @@ import { cn } from '../../lib/utils';
 interface CompetitorRadarProps {
     competitors: CompetitorProfile[];
     selectedCompetitorId?: string | null;
+    trends?: TrendReport | null;
     onSelectCompetitor?: (id: string) => void;
 }
 
 export const CompetitorRadar: React.FC<CompetitorRadarProps> = ({
     competitors,
     selectedCompetitorId,
+    trends,
     onSelectCompetitor,
 }) => {
     // Filter to only show competitors with signals, sorted by signal count
@@ -99,12 +103,36 @@ export const CompetitorRadar: React.FC<CompetitorRadarProps> = ({
                                 )}>
                                     T{competitor.tier}
                                 </span>
+
+                                {/* Momentum */}
+                                {trends?.competitors[competitor.id] && (
+                                    <TrendBadge series={trends.competitors[competitor.id]} className="mt-1" />
+                                )}
                             </button>
                         );
                     })}
                 </div>
             </div>
 
+            {/* Topic momentum (weekly volume across the archive) */}
+            {trends && trends.topics.some(t => t.total > 0) && (
+                <div className="px-4 pb-3 border-t border-gray-100 pt-3">
+                    <h4 className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2">
+                        Topic momentum · {trends.topics[0].points.length} weeks
+                    </h4>
+                    <ul className="space-y-1.5">
+                        {trends.topics.filter(t => t.total > 0).map(topic => (
+                            <li key={topic.key} className="flex items-center gap-2 text-xs">
+                                <span className="w-28 truncate text-gray-700">{topic.label}</span>
+                                <Sparkline values={topic.points.map(p => p.count)} highlightLast={!!topic.anomaly} />
+                                <span className="text-gray-400 tabular-nums w-6 text-right">{topic.total}</span>
+                                <TrendBadge series={topic} />
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* Legend */}
             <div className="px-4 pb-3 flex items-center justify-center gap-4 text-[10px] text-gray-500">
                 <span className="flex items-center gap-1">
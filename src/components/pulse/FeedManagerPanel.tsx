@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { usePulseStore } from '../../lib/pulse/usePulseStore';
+import { SOURCE_TIER_LABELS, type SourceTier } from '../../lib/pulse/types';
+import { DEFAULT_POLL_INTERVAL_MINUTES } from '../../lib/pulse/feedService';
+import { Rss, Plus, Trash2, AlertTriangle, RefreshCw, Power } from 'lucide-react';
+import { cn, formatDistanceToNow } from '../../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FEED MANAGER — Admin panel for RSS / Atom / JSON Feed subscriptions
+// ═══════════════════════════════════════════════════════════════════════════
+
+const TIERS: SourceTier[] = [1, 2, 3, 4];
+
+const POLL_INTERVALS: Array<{ minutes: number; label: string }> = [
+    { minutes: 15, label: 'Every 15 min' },
+    { minutes: 30, label: 'Every 30 min' },
+    { minutes: 60, label: 'Hourly' },
+    { minutes: 360, label: 'Every 6 hours' },
+    { minutes: 1440, label: 'Daily' },
+];
+
+interface FeedManagerPanelProps {
+    className?: string;
+}
+
+export const FeedManagerPanel: React.FC<FeedManagerPanelProps> = ({ className }) => {
+    const { feeds, addFeed, updateFeed, removeFeed, pollFeeds } = usePulseStore();
+
+    const [url, setUrl] = useState('');
+    const [name, setName] = useState('');
+    const [tier, setTier] = useState<SourceTier>(2);
+    const [pollIntervalMinutes, setPollIntervalMinutes] = useState(DEFAULT_POLL_INTERVAL_MINUTES);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [isPolling, setIsPolling] = useState(false);
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            addFeed({ url, name, tier, pollIntervalMinutes });
+            setUrl('');
+            setName('');
+            setFormError(null);
+        } catch (error) {
+            setFormError(error instanceof Error ? error.message : 'Could not add feed');
+        }
+    };
+
+    const handlePollNow = async () => {
+        setIsPolling(true);
+        try {
+            await pollFeeds(true);
+        } finally {
+            setIsPolling(false);
+        }
+    };
+
+    return (
+        <div className={cn('bg-white rounded-xl border border-gray-100 p-5', className)}>
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                        <Rss size={18} className="text-orange-500" />
+                        Feed Subscriptions
+                        <span className="text-sm font-normal text-gray-400">({feeds.length})</span>
+                    </h2>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                        RSS 2.0, Atom and JSON Feed — polled on their own schedule, no API quota used
+                    </p>
+                </div>
+                {feeds.length > 0 && (
+                    <button
+                        onClick={handlePollNow}
+                        disabled={isPolling}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-gray-200 text-gray-600 hover:border-gray-300 disabled:opacity-50"
+                    >
+                        <RefreshCw size={12} className={cn(isPolling && 'animate-spin')} />
+                        Poll now
+                    </button>
+                )}
+            </div>
+
+            {/* Add feed */}
+            <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-[2fr_1.2fr_1fr_1fr_auto] gap-2 mb-2">
+                <input
+                    type="url"
+                    required
+                    value={url}
+                    onChange={e => setUrl(e.target.value)}
+                    placeholder="https://www.cms.gov/newsroom/rss"
+                    aria-label="Feed URL"
+                    className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-cafe-500/20 focus:border-cafe-500"
+                />
+                <input
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    placeholder="Display name (optional)"
+                    aria-label="Feed name"
+                    className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-cafe-500/20 focus:border-cafe-500"
+                />
+                <select
+                    value={tier}
+                    onChange={e => setTier(Number(e.target.value) as SourceTier)}
+                    aria-label="Source tier"
+                    className="px-2 py-2 bg-white border border-gray-200 rounded-lg text-sm"
+                >
+                    {TIERS.map(t => (
+                        <option key={t} value={t}>{SOURCE_TIER_LABELS[t]}</option>
+                    ))}
+                </select>
+                <select
+                    value={pollIntervalMinutes}
+                    onChange={e => setPollIntervalMinutes(Number(e.target.value))}
+                    aria-label="Polling interval"
+                    className="px-2 py-2 bg-white border border-gray-200 rounded-lg text-sm"
+                >
+                    {POLL_INTERVALS.map(p => (
+                        <option key={p.minutes} value={p.minutes}>{p.label}</option>
+                    ))}
+                </select>
+                <button
+                    type="submit"
+                    className="flex items-center justify-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium bg-cafe-600 text-white hover:bg-cafe-700"
+                >
+                    <Plus size={14} />
+                    Add
+                </button>
+            </form>
+            {formError && (
+                <p className="text-xs text-red-600 mb-2">{formError}</p>
+            )}
+
+            {/* Subscribed feeds */}
+            {feeds.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-6">
+                    No feeds yet. Add a CMS newsroom or competitor blog feed to track it here.
+                </p>
+            ) : (
+                <ul className="divide-y divide-gray-100 mt-3">
+                    {feeds.map(feed => (
+                        <li key={feed.id} className={cn('py-3 flex items-center gap-3', !feed.enabled && 'opacity-60')}>
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium text-sm text-gray-900 truncate">{feed.name}</span>
+                                    <span className="px-1.5 py-0.5 bg-gray-100 text-gray-600 text-[10px] font-semibold rounded">
+                                        {SOURCE_TIER_LABELS[feed.tier]}
+                                    </span>
+                                </div>
+                                <div className="text-xs text-gray-400 truncate">{feed.url}</div>
+                                <div className="text-xs mt-0.5">
+                                    {feed.lastError ? (
+                                        <span className="text-red-600 flex items-center gap-1">
+                                            <AlertTriangle size={11} />
+                                            {feed.lastError}
+                                        </span>
+                                    ) : feed.lastFetchedAt ? (
+                                        <span className="text-gray-500">
+                                            {feed.lastItemCount} relevant item{feed.lastItemCount === 1 ? '' : 's'} · checked {formatDistanceToNow(new Date(feed.lastFetchedAt))}
+                                        </span>
+                                    ) : (
+                                        <span className="text-gray-400">Not fetched yet</span>
+                                    )}
+                                </div>
+                            </div>
+
+                            <select
+                                value={feed.tier}
+                                onChange={e => updateFeed(feed.id, { tier: Number(e.target.value) as SourceTier })}
+                                aria-label={`Source tier for ${feed.name}`}
+                                className="px-2 py-1 bg-white border border-gray-200 rounded-lg text-xs"
+                            >
+                                {TIERS.map(t => (
+                                    <option key={t} value={t}>Tier {t}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={feed.pollIntervalMinutes}
+                                onChange={e => updateFeed(feed.id, { pollIntervalMinutes: Number(e.target.value) })}
+                                aria-label={`Polling interval for ${feed.name}`}
+                                className="px-2 py-1 bg-white border border-gray-200 rounded-lg text-xs"
+                            >
+                                {POLL_INTERVALS.map(p => (
+                                    <option key={p.minutes} value={p.minutes}>{p.label}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => updateFeed(feed.id, { enabled: !feed.enabled })}
+                                className={cn(
+                                    'p-1.5 rounded-lg transition-colors',
+                                    feed.enabled ? 'text-green-600 hover:bg-green-50' : 'text-gray-400 hover:bg-gray-100'
+                                )}
+                                aria-label={feed.enabled ? `Pause ${feed.name}` : `Resume ${feed.name}`}
+                                title={feed.enabled ? 'Polling' : 'Paused'}
+                            >
+                                <Power size={14} />
+                            </button>
+                            <button
+                                onClick={() => removeFeed(feed.id)}
+                                className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                                aria-label={`Remove ${feed.name}`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
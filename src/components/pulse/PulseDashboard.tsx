@@ -9,6 +9,14 @@ import { RegulatoryPanel } from './RegulatoryPanel';
 import { TechnologyPanel } from './TechnologyPanel';
 import { MarketPanel } from './MarketPanel';
 import { SearchPanel } from './SearchPanel';
+import { FeedManagerPanel } from './FeedManagerPanel';
+import { SignalHistoryPanel } from './SignalHistoryPanel';
+import { RegulatoryCalendarPanel } from './RegulatoryCalendarPanel';
+import { PulseDigestPanel } from './PulseDigestPanel';
+import { TriageQueuePanel } from './TriageQueuePanel';
+import { buildResponseQueue } from '../../lib/pulse/triage';
+import { getPreferences, isDigestUnread, markDigestOpened } from '../../lib/pulse/notifications';
+import type { DigestRange } from '../../lib/pulse/digest';
 import type { CompetitorProfile } from '../../lib/pulse/competitorData';
 
 import { PulseErrorBoundary } from './PulseErrorBoundary';
@@ -24,6 +32,11 @@ import {
     Target,
     Scale,
     Cpu,
+    Rss,
+    History,
+    CalendarDays,
+    Newspaper,
+    ClipboardList,
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
 
@@ -52,9 +65,14 @@ export const PulseDashboard: React.FC = () => {
         toggleBookmark,
         getCompetitorsWithSignals,
         toggleCompetitorWatchlist,
+        feeds,
+        trends,
+        signals,
+        triage,
     } = usePulseStore();
 
     const [rateLimitInfo, setRateLimitInfo] = useState(getRateLimitInfo());
+    const [digestUnread, setDigestUnread] = useState(() => isDigestUnread(getPreferences().digestSchedule));
 
     // Fetch signals on mount only
     useEffect(() => {
@@ -66,6 +84,7 @@ export const PulseDashboard: React.FC = () => {
     useEffect(() => {
         const interval = setInterval(() => {
             setRateLimitInfo(getRateLimitInfo());
+            setDigestUnread(isDigestUnread(getPreferences().digestSchedule));
         }, 60000);
         return () => clearInterval(interval);
         // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -82,11 +101,29 @@ export const PulseDashboard: React.FC = () => {
     const competitorsWithSignals = getCompetitorsWithSignals();
     const [showCompetitorPanel, setShowCompetitorPanel] = useState(true);
     const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
+    const [showFeedManager, setShowFeedManager] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showCalendar, setShowCalendar] = useState(false);
+    const [digestPreset, setDigestPreset] = useState<{ range: DigestRange; personaId: string } | null>(null);
+    const [showDigest, setShowDigest] = useState(false);
+    const [showTriage, setShowTriage] = useState(false);
+    const responseCount = buildResponseQueue(triage, signals).length;
     const [searchResults, setSearchResults] = useState<typeof filteredSignals | null>(null);
 
     // Modal state for competitor profile (Phase 10)
     const [profileCompetitor, setProfileCompetitor] = useState<CompetitorProfile | null>(null);
 
+    // A delivered digest that hasn't been read opens on the window and persona it was built for
+    const handleToggleDigest = () => {
+        const { lastDeliveredRange, personaId } = getPreferences().digestSchedule;
+        if (!showDigest && digestUnread && lastDeliveredRange) {
+            setDigestPreset({ range: lastDeliveredRange, personaId });
+            markDigestOpened();
+            setDigestUnread(false);
+        }
+        setShowDigest(!showDigest);
+    };
+
     // Handler to open competitor profile
     const handleOpenProfile = (competitorId: string) => {
         const competitor = competitorsWithSignals.find(c => c.id === competitorId);
@@ -167,6 +204,87 @@ export const PulseDashboard: React.FC = () => {
                                 {isLoading ? 'Refreshing...' : 'Refresh'}
                             </button>
 
+                            <button
+                                onClick={() => setShowFeedManager(!showFeedManager)}
+                                className={cn(
+                                    "flex items-center gap-2 px-4 py-2.5 rounded-xl font-medium text-sm border transition-all",
+                                    showFeedManager
+                                        ? "bg-orange-50 border-orange-200 text-orange-700"
+                                        : "bg-white border-gray-200 text-gray-600 hover:border-gray-300"
+                                )}
+                                aria-expanded={showFeedManager}
+                            >
+                                <Rss size={16} />
+                                Feeds
+                                {feeds.length > 0 && (
+                                    <span className="text-xs text-gray-400">{feeds.length}</span>
+                                )}
+                            </button>
+
+                            <button
+                                onClick={() => setShowHistory(!showHistory)}
+                                className={cn(
+                                    "flex items-center gap-2 px-4 py-2.5 rounded-xl font-medium text-sm border transition-all",
+                                    showHistory
+                                        ? "bg-cafe-50 border-cafe-200 text-cafe-700"
+                                        : "bg-white border-gray-200 text-gray-600 hover:border-gray-300"
+                                )}
+                                aria-expanded={showHistory}
+                            >
+                                <History size={16} />
+                                History
+                            </button>
+
+                            <button
+                                onClick={() => setShowCalendar(!showCalendar)}
+                                className={cn(
+                                    "flex items-center gap-2 px-4 py-2.5 rounded-xl font-medium text-sm border transition-all",
+                                    showCalendar
+                                        ? "bg-amber-50 border-amber-200 text-amber-700"
+                                        : "bg-white border-gray-200 text-gray-600 hover:border-gray-300"
+                                )}
+                                aria-expanded={showCalendar}
+                            >
+                                <CalendarDays size={16} />
+                                Calendar
+                            </button>
+
+                            <button
+                                onClick={handleToggleDigest}
+                                className={cn(
+                                    "relative flex items-center gap-2 px-4 py-2.5 rounded-xl font-medium text-sm border transition-all",
+                                    showDigest
+                                        ? "bg-cafe-50 border-cafe-200 text-cafe-700"
+                                        : "bg-white border-gray-200 text-gray-600 hover:border-gray-300"
+                                )}
+                                aria-expanded={showDigest}
+                                title={digestUnread ? 'A scheduled digest is ready' : undefined}
+                            >
+                                <Newspaper size={16} />
+                                Digest
+                                {digestUnread && (
+                                    <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-red-500 rounded-full ring-2 ring-white" />
+                                )}
+                            </button>
+
+                            <button
+                                onClick={() => setShowTriage(!showTriage)}
+                                className={cn(
+                                    "flex items-center gap-2 px-4 py-2.5 rounded-xl font-medium text-sm border transition-all",
+                                    showTriage
+                                        ? "bg-rose-50 border-rose-200 text-rose-700"
+                                        : "bg-white border-gray-200 text-gray-600 hover:border-gray-300"
+                                )}
+                                aria-expanded={showTriage}
+                            >
+                                <ClipboardList size={16} />
+                                Needs response
+                                {responseCount > 0 && (
+                                    <span className="px-1.5 py-0.5 text-[10px] font-bold rounded-full bg-rose-500 text-white">
+                                        {responseCount}
+                                    </span>
+                                )}
+                            </button>
 
                         </div>
                     </div>
@@ -245,6 +363,46 @@ export const PulseDashboard: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Feed Subscriptions (admin) */}
+                {showFeedManager && (
+                    <div className="mb-6">
+                        <FeedManagerPanel className="shadow-md" />
+                    </div>
+                )}
+
+                {/* Archived signal history */}
+                {showHistory && (
+                    <div className="mb-6">
+                        <SignalHistoryPanel className="shadow-md" />
+                    </div>
+                )}
+
+                {/* Regulatory deadline calendar */}
+                {showCalendar && (
+                    <div className="mb-6">
+                        <RegulatoryCalendarPanel className="shadow-md" />
+                    </div>
+                )}
+
+                {/* Triage queue */}
+                {showTriage && (
+                    <div className="mb-6">
+                        <TriageQueuePanel className="shadow-md" />
+                    </div>
+                )}
+
+                {/* Exportable intelligence digest */}
+                {showDigest && (
+                    <div className="mb-6">
+                        <PulseDigestPanel
+                            key={digestPreset?.range.end ?? 'manual'}
+                            initialRange={digestPreset?.range}
+                            initialPersonaId={digestPreset?.personaId}
+                            className="shadow-md"
+                        />
+                    </div>
+                )}
+
                 {/* Advanced Search Panel */}
                 {showAdvancedSearch && (
                     <div className="mb-6">
@@ -381,11 +539,13 @@ export const PulseDashboard: React.FC = () => {
                                         <CompetitorRadar
                                             competitors={competitorsWithSignals}
                                             selectedCompetitorId={selectedCompetitorId}
+                                            trends={trends}
                                             onSelectCompetitor={setSelectedCompetitor}
                                         />
                                         <CompetitorPanel
                                             competitors={competitorsWithSignals}
                                             selectedCompetitorId={selectedCompetitorId}
+                                            trends={trends?.competitors}
                                             onSelectCompetitor={handleOpenProfile}
                                             onToggleWatchlist={toggleCompetitorWatchlist}
                                         />
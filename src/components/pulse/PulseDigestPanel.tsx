@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { usePulseStore } from '../../lib/pulse/usePulseStore';
+import { DOMAIN_CONFIG, type PulseSignal } from '../../lib/pulse/types';
+import { getAllPersonas } from '../../lib/pulse/notifications';
+import {
+    buildDigest,
+    collectDigestSignals,
+    digestEmailSubject,
+    digestFileName,
+    digestToEmailText,
+    digestToHtml,
+    digestToMarkdown,
+    type DigestRange,
+    type PulseDigest,
+} from '../../lib/pulse/digest';
+import { Newspaper, FileText, FileCode, Mail, Copy, Check } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PULSE DIGEST — Persona brief over a date range with document export
+// ═══════════════════════════════════════════════════════════════════════════
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/** `<input type="date">` values ↔ an inclusive ISO range */
+const toInputDate = (iso: string) => iso.slice(0, 10);
+const rangeFromInputs = (start: string, end: string): DigestRange => ({
+    start: new Date(`${start}T00:00:00`).toISOString(),
+    end: new Date(`${end}T23:59:59.999`).toISOString(),
+});
+
+const lastWeek = (): DigestRange => {
+    const now = new Date();
+    return { start: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString(), end: now.toISOString() };
+};
+
+interface PulseDigestPanelProps {
+    className?: string;
+    /** Preset from the last scheduled delivery when opened to read it */
+    initialRange?: DigestRange;
+    initialPersonaId?: string;
+}
+
+export const PulseDigestPanel: React.FC<PulseDigestPanelProps> = ({ className, initialRange, initialPersonaId }) => {
+    const liveSignals = usePulseStore(state => state.signals);
+    const personas = useMemo(() => getAllPersonas(), []);
+    const [personaId, setPersonaId] = useState(initialPersonaId ?? 'executive');
+    const [range, setRange] = useState<DigestRange>(() => initialRange ?? lastWeek());
+    const [signals, setSignals] = useState<PulseSignal[] | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        collectDigestSignals(range, liveSignals).then(result => {
+            if (!cancelled) setSignals(result);
+        });
+        return () => { cancelled = true; };
+    }, [range, liveSignals]);
+
+    const persona = personas.find(p => p.id === personaId) ?? personas[0];
+    const digest = useMemo<PulseDigest | null>(
+        () => (signals ? buildDigest(signals, persona, range) : null),
+        [signals, persona, range]
+    );
+
+    const copyEmail = async (current: PulseDigest) => {
+        try {
+            await navigator.clipboard.writeText(`Subject: ${digestEmailSubject(current)}\n\n${digestToEmailText(current)}`);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            // Clipboard unavailable — the .txt download still works
+        }
+    };
+
+    return (
+        <div className={cn('bg-white rounded-xl border border-gray-100 p-5', className)}>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <Newspaper size={18} className="text-cafe-600" />
+                    Intelligence Digest
+                </h2>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <select
+                        value={personaId}
+                        onChange={(e) => setPersonaId(e.target.value)}
+                        className="px-2 py-1.5 border border-gray-200 rounded-lg text-sm"
+                        aria-label="Persona"
+                    >
+                        {personas.map(p => (
+                            <option key={p.id} value={p.id}>{p.icon} {p.name}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="date"
+                        value={toInputDate(range.start)}
+                        max={toInputDate(range.end)}
+                        onChange={(e) => e.target.value && setRange(rangeFromInputs(e.target.value, toInputDate(range.end)))}
+                        className="px-2 py-1.5 border border-gray-200 rounded-lg text-sm"
+                        aria-label="From"
+                    />
+                    <span className="text-gray-400">to</span>
+                    <input
+                        type="date"
+                        value={toInputDate(range.end)}
+                        min={toInputDate(range.start)}
+                        onChange={(e) => e.target.value && setRange(rangeFromInputs(toInputDate(range.start), e.target.value))}
+                        className="px-2 py-1.5 border border-gray-200 rounded-lg text-sm"
+                        aria-label="To"
+                    />
+                </div>
+            </div>
+
+            {!digest ? (
+                <p className="text-sm text-gray-400">Gathering signals…</p>
+            ) : (
+                <>
+                    <p className="text-xs text-gray-500 mb-4">
+                        {digest.storyCount} stories from {digest.signalCount} signals · {persona.description}
+                    </p>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+                        <section className="lg:col-span-2">
+                            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Top stories</h3>
+                            {digest.topStories.length === 0 ? (
+                                <p className="text-sm text-gray-400">Nothing matched this persona in the selected range.</p>
+                            ) : (
+                                <ol className="space-y-2">
+                                    {digest.topStories.map((story, i) => (
+                                        <li key={story.id} className="flex gap-2 text-sm">
+                                            <span className="font-bold text-gray-300 w-4 shrink-0">{i + 1}</span>
+                                            <div className="min-w-0">
+                                                <div className="flex items-center gap-1.5">
+                                                    <span
+                                                        className="px-1.5 py-0.5 rounded text-[9px] font-semibold text-white shrink-0"
+                                                        style={{ backgroundColor: DOMAIN_CONFIG[story.domain].color }}
+                                                    >
+                                                        {DOMAIN_CONFIG[story.domain].label}
+                                                    </span>
+                                                    <span className="font-medium text-gray-900 truncate">{story.headline}</span>
+                                                </div>
+                                                <p className="text-xs text-gray-400">
+                                                    {story.source}{story.sourceCount > 1 ? ` +${story.sourceCount - 1} more` : ''}
+                                                </p>
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </section>
+
+                        <section className="space-y-3">
+                            <div>
+                                <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Deadlines</h3>
+                                {digest.deadlines.length === 0 ? (
+                                    <p className="text-xs text-gray-400">None coming up.</p>
+                                ) : (
+                                    <ul className="space-y-1 text-xs text-gray-600">
+                                        {digest.deadlines.slice(0, 5).map(d => (
+                                            <li key={`${d.date}-${d.title}`} className="truncate">
+                                                <span className="font-medium text-gray-900">{d.date}</span> {d.title}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                            <div>
+                                <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Competitors</h3>
+                                {digest.competitors.length === 0 ? (
+                                    <p className="text-xs text-gray-400">No competitor coverage.</p>
+                                ) : (
+                                    <ul className="space-y-1 text-xs text-gray-600">
+                                        {digest.competitors.slice(0, 6).map(c => (
+                                            <li key={c.competitorId} className="flex justify-between gap-2">
+                                                <span className="truncate">{c.name}</span>
+                                                <span className="text-gray-400 shrink-0">{c.storyCount}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        </section>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 pt-3 border-t border-gray-100">
+                        <button
+                            onClick={() => downloadFile(digestToMarkdown(digest), digestFileName(digest, 'md'), 'text/markdown')}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-xs font-medium"
+                        >
+                            <FileText size={12} />
+                            Markdown
+                        </button>
+                        <button
+                            onClick={() => downloadFile(digestToHtml(digest), digestFileName(digest, 'html'), 'text/html')}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-xs font-medium"
+                        >
+                            <FileCode size={12} />
+                            HTML
+                        </button>
+                        <button
+                            onClick={() => downloadFile(digestToEmailText(digest), digestFileName(digest, 'txt'), 'text/plain')}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-xs font-medium"
+                        >
+                            <Mail size={12} />
+                            Email text
+                        </button>
+                        <button
+                            onClick={() => copyEmail(digest)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-xs font-medium"
+                        >
+                            {copied ? <Check size={12} className="text-emerald-600" /> : <Copy size={12} />}
+                            {copied ? 'Copied' : 'Copy email'}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
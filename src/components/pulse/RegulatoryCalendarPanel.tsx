@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { usePulseStore } from '../../lib/pulse/usePulseStore';
+import type { PulseSignal } from '../../lib/pulse/types';
+import { queryArchive } from '../../lib/pulse/signalArchive';
+import {
+    AGENCY_BY_ID,
+    IMPACT_CONFIG,
+    REGULATORY_AGENCIES,
+    REGULATORY_TOPICS,
+    TOPIC_BY_ID,
+    type RegulatoryAgency,
+    type RegulatoryTopic,
+} from '../../lib/pulse/regulatoryData';
+import {
+    EVENT_KIND_LABELS,
+    REMINDER_DAYS,
+    buildRegulatoryEvents,
+    filterRegulatoryEvents,
+    icsFileName,
+    toICalendar,
+    type RegulatoryEvent,
+} from '../../lib/pulse/regulatoryCalendar';
+import { CalendarDays, ChevronLeft, ChevronRight, Download, ExternalLink, Bell } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGULATORY CALENDAR — Month / quarter view of deadlines with .ics export
+// ═══════════════════════════════════════════════════════════════════════════
+
+type CalendarView = 'month' | 'quarter';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const dateKey = (year: number, month: number, day: number) =>
+    new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+
+const monthLabel = (year: number, month: number) =>
+    new Date(Date.UTC(year, month, 1)).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const downloadIcs = (events: RegulatoryEvent[]) => {
+    const blob = new Blob([toICalendar(events)], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = icsFileName(events);
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+const agencyColor = (event: RegulatoryEvent) => (event.agency ? AGENCY_BY_ID.get(event.agency)?.color : undefined) ?? '#6B7280';
+
+interface RegulatoryCalendarPanelProps {
+    className?: string;
+}
+
+export const RegulatoryCalendarPanel: React.FC<RegulatoryCalendarPanelProps> = ({ className }) => {
+    const liveSignals = usePulseStore(state => state.signals);
+    const [archived, setArchived] = useState<PulseSignal[]>([]);
+    const [view, setView] = useState<CalendarView>('month');
+    const [cursor, setCursor] = useState(() => {
+        const now = new Date();
+        return { year: now.getUTCFullYear(), month: now.getUTCMonth() };
+    });
+    const [agency, setAgency] = useState<RegulatoryAgency | ''>('');
+    const [topic, setTopic] = useState<RegulatoryTopic | ''>('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        queryArchive({ domain: 'REGULATORY' }).then(signals => {
+            if (!cancelled) setArchived(signals);
+        });
+        return () => { cancelled = true; };
+    }, []);
+
+    const allEvents = useMemo(() => buildRegulatoryEvents([...liveSignals, ...archived]), [liveSignals, archived]);
+
+    // A quarter view starts at the first month of the cursor's quarter
+    const months = useMemo(() => {
+        if (view === 'month') return [cursor];
+        const first = cursor.month - (cursor.month % 3);
+        return [0, 1, 2].map(i => ({ year: cursor.year, month: first + i }));
+    }, [view, cursor]);
+
+    const range = useMemo(() => {
+        const last = months[months.length - 1];
+        return {
+            start: dateKey(months[0].year, months[0].month, 1),
+            end: dateKey(last.year, last.month, daysInMonth(last.year, last.month)),
+        };
+    }, [months]);
+
+    const visibleEvents = useMemo(
+        () => filterRegulatoryEvents(allEvents, { agency: agency || undefined, topic: topic || undefined, range }),
+        [allEvents, agency, topic, range]
+    );
+
+    const eventsByDay = useMemo(() => {
+        const map = new Map<string, RegulatoryEvent[]>();
+        visibleEvents.forEach(e => map.set(e.date, [...(map.get(e.date) ?? []), e]));
+        return map;
+    }, [visibleEvents]);
+
+    const selected = visibleEvents.find(e => e.id === selectedId) ?? null;
+    const today = new Date().toISOString().slice(0, 10);
+
+    const shift = (step: number) => {
+        const delta = view === 'month' ? step : step * 3;
+        setCursor(c => {
+            const d = new Date(Date.UTC(c.year, c.month + delta, 1));
+            return { year: d.getUTCFullYear(), month: d.getUTCMonth() };
+        });
+    };
+
+    const title = view === 'month'
+        ? monthLabel(cursor.year, cursor.month)
+        : `Q${Math.floor(cursor.month / 3) + 1} ${cursor.year}`;
+
+    const renderEventChip = (event: RegulatoryEvent) => (
+        <button
+            key={event.id}
+            onClick={() => setSelectedId(event.id === selectedId ? null : event.id)}
+            className={cn(
+                "w-full text-left truncate px-1 py-0.5 rounded text-[10px] font-medium text-white",
+                event.kind === 'comment' && "opacity-80",
+                event.id === selectedId && "ring-2 ring-offset-1 ring-gray-900"
+            )}
+            style={{ backgroundColor: agencyColor(event) }}
+            title={`${EVENT_KIND_LABELS[event.kind]}: ${event.title}`}
+        >
+            {event.kind === 'comment' ? '💬 ' : ''}{event.title}
+        </button>
+    );
+
+    return (
+        <div className={cn('bg-white rounded-xl border border-gray-100 p-5', className)}>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <CalendarDays size={18} className="text-amber-500" />
+                    Regulatory Calendar
+                </h2>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={agency}
+                        onChange={e => setAgency(e.target.value as RegulatoryAgency | '')}
+                        aria-label="Agency"
+                        className="px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm"
+                    >
+                        <option value="">All agencies</option>
+                        {REGULATORY_AGENCIES.map(a => (
+                            <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={topic}
+                        onChange={e => setTopic(e.target.value as RegulatoryTopic | '')}
+                        aria-label="Topic"
+                        className="px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm"
+                    >
+                        <option value="">All topics</option>
+                        {REGULATORY_TOPICS.map(t => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                    </select>
+                    <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+                        {(['month', 'quarter'] as const).map(v => (
+                            <button
+                                key={v}
+                                onClick={() => setView(v)}
+                                className={cn(
+                                    "px-3 py-1.5 capitalize",
+                                    view === v ? "bg-amber-50 text-amber-700 font-medium" : "bg-white text-gray-600 hover:bg-gray-50"
+                                )}
+                                aria-pressed={view === v}
+                            >
+                                {v}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => downloadIcs(visibleEvents)}
+                        disabled={visibleEvents.length === 0}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-600 text-white rounded-lg text-sm font-medium hover:bg-amber-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Download the events shown as an iCalendar file"
+                    >
+                        <Download size={14} />
+                        Export {visibleEvents.length} (.ics)
+                    </button>
+                </div>
+            </div>
+
+            {/* Navigation */}
+            <div className="flex items-center justify-between mb-3">
+                <button onClick={() => shift(-1)} className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500" aria-label="Previous">
+                    <ChevronLeft size={16} />
+                </button>
+                <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-900">{title}</span>
+                    <button
+                        onClick={() => {
+                            const now = new Date();
+                            setCursor({ year: now.getUTCFullYear(), month: now.getUTCMonth() });
+                        }}
+                        className="text-xs text-amber-600 hover:text-amber-700"
+                    >
+                        Today
+                    </button>
+                </div>
+                <button onClick={() => shift(1)} className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500" aria-label="Next">
+                    <ChevronRight size={16} />
+                </button>
+            </div>
+
+            {view === 'month' ? (
+                <div className="grid grid-cols-7 gap-px bg-gray-100 border border-gray-100 rounded-lg overflow-hidden">
+                    {WEEKDAYS.map(d => (
+                        <div key={d} className="bg-gray-50 p-1.5 text-[10px] font-semibold text-gray-500 uppercase text-center">{d}</div>
+                    ))}
+                    {Array.from({ length: (new Date(Date.UTC(cursor.year, cursor.month, 1)).getUTCDay() + 6) % 7 }, (_, i) => (
+                        <div key={`pad-${i}`} className="bg-white min-h-[72px]" />
+                    ))}
+                    {Array.from({ length: daysInMonth(cursor.year, cursor.month) }, (_, i) => {
+                        const key = dateKey(cursor.year, cursor.month, i + 1);
+                        const events = eventsByDay.get(key) ?? [];
+                        return (
+                            <div key={key} className={cn("bg-white min-h-[72px] p-1 space-y-0.5", key === today && "bg-amber-50/60")}>
+                                <div className={cn("text-[10px] text-gray-400", key === today && "font-bold text-amber-700")}>{i + 1}</div>
+                                {events.slice(0, 3).map(renderEventChip)}
+                                {events.length > 3 && <div className="text-[9px] text-gray-400">+{events.length - 3} more</div>}
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {months.map(({ year, month }) => {
+                        const prefix = dateKey(year, month, 1).slice(0, 7);
+                        const events = visibleEvents.filter(e => e.date.startsWith(prefix));
+                        return (
+                            <div key={prefix} className="border border-gray-100 rounded-lg p-2">
+                                <h3 className="text-xs font-semibold text-gray-700 mb-2">{monthLabel(year, month)}</h3>
+                                {events.length === 0 ? (
+                                    <p className="text-[10px] text-gray-400">No deadlines</p>
+                                ) : (
+                                    <ul className="space-y-1">
+                                        {events.map(e => (
+                                            <li key={e.id} className="flex items-center gap-2">
+                                                <span className="text-[10px] text-gray-500 w-6 shrink-0">{Number(e.date.slice(8))}</span>
+                                                {renderEventChip(e)}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {visibleEvents.length === 0 && (
+                <p className="text-sm text-gray-400 text-center py-4">No regulatory deadlines in {title.toLowerCase()} for this filter.</p>
+            )}
+
+            {/* Selected event */}
+            {selected && (
+                <div className="mt-4 p-3 border border-gray-100 rounded-lg bg-gray-50/50">
+                    <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                            <div className="flex flex-wrap items-center gap-1.5 mb-1">
+                                {selected.agency && (
+                                    <span className="px-1.5 py-0.5 rounded text-[9px] font-bold text-white" style={{ backgroundColor: agencyColor(selected) }}>
+                                        {AGENCY_BY_ID.get(selected.agency)?.name ?? selected.agency}
+                                    </span>
+                                )}
+                                <span className="text-[10px] text-gray-500 uppercase">{EVENT_KIND_LABELS[selected.kind]}</span>
+                                <span className={cn("px-1.5 py-0.5 rounded text-[9px] font-semibold", IMPACT_CONFIG[selected.impactLevel].bgColor, IMPACT_CONFIG[selected.impactLevel].color)}>
+                                    {IMPACT_CONFIG[selected.impactLevel].label}
+                                </span>
+                                {selected.topic && (
+                                    <span className="text-[10px] text-gray-500">{TOPIC_BY_ID.get(selected.topic)?.name}</span>
+                                )}
+                            </div>
+                            <p className="text-sm font-medium text-gray-900">{selected.title}</p>
+                            <p className="text-xs text-gray-500 mt-0.5">
+                                {new Date(`${selected.date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}
+                                {selected.inferred && ' · date read from announcement'}
+                            </p>
+                            <p className="text-[10px] text-gray-400 mt-1 flex items-center gap-1">
+                                <Bell size={10} />
+                                Reminders {REMINDER_DAYS[selected.impactLevel].map(d => `${d}d`).join(', ')} before
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            {selected.url !== '#' && (
+                                <a
+                                    href={selected.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="p-1.5 rounded-lg hover:bg-white text-gray-500"
+                                    title="Open source"
+                                >
+                                    <ExternalLink size={14} />
+                                </a>
+                            )}
+                            <button
+                                onClick={() => downloadIcs([selected])}
+                                className="flex items-center gap-1 px-2 py-1 bg-white border border-gray-200 rounded-lg text-xs font-medium text-gray-700 hover:bg-gray-50"
+                            >
+                                <Download size={12} />
+                                .ics
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
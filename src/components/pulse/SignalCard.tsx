@@ -1,7 +1,10 @@
 import React, { memo } from 'react';
 import type { PulseSignal } from '../../lib/pulse/types';
 import { DOMAIN_CONFIG, PRIORITY_CONFIG } from '../../lib/pulse/types';
-import { ExternalLink, Clock, Bookmark, BookmarkCheck, Check } from 'lucide-react';
+import { usePulseStore } from '../../lib/pulse/usePulseStore';
+import { TRIAGE_STATUS_CONFIG } from '../../lib/pulse/triage';
+import { mockPeople } from '../../data/mockData';
+import { ExternalLink, Clock, Bookmark, BookmarkCheck, Check, ClipboardList } from 'lucide-react';
 import { cn } from '../../lib/utils';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -24,6 +27,9 @@ const SignalCardComponent: React.FC<SignalCardProps> = ({
     const domainConfig = DOMAIN_CONFIG[signal.domain];
     const priorityConfig = PRIORITY_CONFIG[signal.priority];
     const isHighPriority = signal.priority === 'critical' || signal.priority === 'high';
+    const triage = usePulseStore(state => state.triage[signal.id]);
+    const setTriageStatus = usePulseStore(state => state.setTriageStatus);
+    const owner = triage?.ownerId ? mockPeople.find(p => p.id === triage.ownerId) : undefined;
 
     const handleClick = () => {
         if (!signal.isRead && onMarkRead) {
@@ -95,6 +101,20 @@ const SignalCardComponent: React.FC<SignalCardProps> = ({
                                 {priorityConfig.label}
                             </span>
                         )}
+
+                        {/* Triage status */}
+                        {triage && triage.status !== 'new' && (
+                            <span
+                                className={cn(
+                                    "px-2 py-0.5 rounded-full text-[10px] font-semibold",
+                                    TRIAGE_STATUS_CONFIG[triage.status].bgColor,
+                                    TRIAGE_STATUS_CONFIG[triage.status].color
+                                )}
+                                title={owner ? `Owner: ${owner.displayName}` : undefined}
+                            >
+                                {TRIAGE_STATUS_CONFIG[triage.status].label}{owner ? ` · ${owner.displayName.split(' ')[0]}` : ''}
+                            </span>
+                        )}
                     </div>
 
                     {/* Actions */}
@@ -110,6 +130,16 @@ const SignalCardComponent: React.FC<SignalCardProps> = ({
                                 <Check size={14} />
                             </button>
                         )}
+                        {(!triage || triage.status === 'new') && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setTriageStatus(signal.id, 'triaged'); }}
+                                className="p-1 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-600"
+                                aria-label="Send to triage"
+                                title="Needs a response"
+                            >
+                                <ClipboardList size={14} />
+                            </button>
+                        )}
                         <button
                             onClick={(e) => { e.stopPropagation(); onToggleBookmark?.(signal.id); }}
                             className="p-1 hover:bg-gray-100 rounded"
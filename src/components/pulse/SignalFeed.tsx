@@ -1,11 +1,13 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import type { PulseSignal, SignalDomain } from '../../lib/pulse/types';
+import { clusterStories } from '../../lib/pulse/storyClustering';
 import { SignalCard } from './SignalCard';
+import { StoryCard } from './StoryCard';
 import { Activity, Inbox, CheckCircle, Scale, Cpu, DollarSign, Newspaper, Users } from 'lucide-react';
 import { cn } from '../../lib/utils';
 
 // ═══════════════════════════════════════════════════════════════════════════
-// SIGNAL FEED — Grid display of signals with domain-specific states
+// SIGNAL FEED — Grid display of signals (grouped into stories) with domain-specific states
 // ═══════════════════════════════════════════════════════════════════════════
 
 // Domain-specific empty state configurations
@@ -71,6 +73,7 @@ export const SignalFeed: React.FC<SignalFeedProps> = ({
     onMarkAllRead,
 }) => {
     const unreadCount = signals.filter(s => !s.isRead).length;
+    const stories = useMemo(() => clusterStories(signals), [signals]);
     const emptyConfig = EMPTY_STATE_CONFIG[activeDomain];
 
     // Loading skeleton with stagger animation
@@ -155,10 +158,17 @@ export const SignalFeed: React.FC<SignalFeedProps> = ({
 
             {/* Signal grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 pb-20">
-                {signals.map((signal) => (
+                {stories.map((story) => story.signals.length > 1 ? (
+                    <StoryCard
+                        key={story.id}
+                        story={story}
+                        onMarkRead={onMarkRead}
+                        onToggleBookmark={onToggleBookmark}
+                    />
+                ) : (
                     <SignalCard
-                        key={signal.id}
-                        signal={signal}
+                        key={story.canonical.id}
+                        signal={story.canonical}
                         onMarkRead={onMarkRead}
                         onToggleBookmark={onToggleBookmark}
                     />
@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DOMAIN_CONFIG, type PulseFilter, type SignalDomain } from '../../lib/pulse/types';
+import { ALL_COMPETITORS } from '../../lib/pulse/competitorData';
+import { queryArchive, quarterDateRange, type ArchivedSignal } from '../../lib/pulse/signalArchive';
+import { SignalCard } from './SignalCard';
+import { History } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIGNAL HISTORY — Query the local archive by time range, competitor, domain
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DOMAINS = Object.keys(DOMAIN_CONFIG) as SignalDomain[];
+const MAX_RESULTS = 60;
+
+interface RangeOption {
+    id: string;
+    label: string;
+    range?: PulseFilter['dateRange'];
+}
+
+function buildRangeOptions(now = new Date()): RangeOption[] {
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+    const year = now.getUTCFullYear();
+    const currentQuarter = Math.floor(now.getUTCMonth() / 3) + 1;
+
+    const quarters: RangeOption[] = [];
+    for (let q = currentQuarter; q >= 1; q--) {
+        quarters.push({ id: `${year}-q${q}`, label: `Q${q} ${year}`, range: quarterDateRange(year, q as 1 | 2 | 3 | 4) });
+    }
+    for (let q = 4; q >= 1; q--) {
+        quarters.push({ id: `${year - 1}-q${q}`, label: `Q${q} ${year - 1}`, range: quarterDateRange(year - 1, q as 1 | 2 | 3 | 4) });
+    }
+
+    return [
+        { id: '30d', label: 'Last 30 days', range: { start: daysAgo(30), end: now.toISOString() } },
+        { id: '90d', label: 'Last 90 days', range: { start: daysAgo(90), end: now.toISOString() } },
+        ...quarters,
+        { id: 'all', label: 'All time' },
+    ];
+}
+
+interface SignalHistoryPanelProps {
+    className?: string;
+}
+
+export const SignalHistoryPanel: React.FC<SignalHistoryPanelProps> = ({ className }) => {
+    const rangeOptions = useMemo(() => buildRangeOptions(), []);
+    const [rangeId, setRangeId] = useState(rangeOptions[0].id);
+    const [competitorId, setCompetitorId] = useState('');
+    const [domain, setDomain] = useState<SignalDomain | ''>('');
+    const [results, setResults] = useState<ArchivedSignal[] | null>(null);
+
+    const sortedCompetitors = useMemo(
+        () => [...ALL_COMPETITORS].sort((a, b) => a.tier - b.tier || a.name.localeCompare(b.name)),
+        []
+    );
+
+    useEffect(() => {
+        let cancelled = false;
+        const range = rangeOptions.find(o => o.id === rangeId)?.range;
+
+        queryArchive({
+            dateRange: range,
+            competitorId: competitorId || undefined,
+            domain: domain || undefined,
+        }).then(signals => {
+            if (!cancelled) setResults(signals);
+        });
+
+        return () => { cancelled = true; };
+    }, [rangeOptions, rangeId, competitorId, domain]);
+
+    const rangeLabel = rangeOptions.find(o => o.id === rangeId)?.label ?? '';
+    const competitorName = sortedCompetitors.find(c => c.id === competitorId)?.name;
+
+    return (
+        <div className={cn('bg-white rounded-xl border border-gray-100 p-5', className)}>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <History size={18} className="text-cafe-500" />
+                    Signal History
+                </h2>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={competitorId}
+                        onChange={e => setCompetitorId(e.target.value)}
+                        aria-label="Competitor"
+                        className="px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm"
+                    >
+                        <option value="">All companies</option>
+                        {sortedCompetitors.map(c => (
+                            <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={domain}
+                        onChange={e => setDomain(e.target.value as SignalDomain | '')}
+                        aria-label="Domain"
+                        className="px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm"
+                    >
+                        <option value="">All domains</option>
+                        {DOMAINS.map(d => (
+                            <option key={d} value={d}>{DOMAIN_CONFIG[d].label}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={rangeId}
+                        onChange={e => setRangeId(e.target.value)}
+                        aria-label="Time range"
+                        className="px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm"
+                    >
+                        {rangeOptions.map(o => (
+                            <option key={o.id} value={o.id}>{o.label}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {results === null ? (
+                <p className="text-sm text-gray-400 text-center py-6">Loading archive…</p>
+            ) : results.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-6">
+                    No archived signals{competitorName ? ` for ${competitorName}` : ''} in {rangeLabel.toLowerCase()}.
+                </p>
+            ) : (
+                <>
+                    <p className="text-xs text-gray-500 mb-3">
+                        <strong className="text-gray-900">{results.length}</strong> signal{results.length === 1 ? '' : 's'}
+                        {competitorName ? ` mentioning ${competitorName}` : ''} · {rangeLabel}
+                        {results.length > MAX_RESULTS && ` · showing latest ${MAX_RESULTS}`}
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 max-h-[480px] overflow-y-auto">
+                        {results.slice(0, MAX_RESULTS).map(signal => (
+                            <SignalCard key={signal.id} signal={signal} compact />
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
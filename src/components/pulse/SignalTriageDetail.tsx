@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { usePulseStore } from '../../lib/pulse/usePulseStore';
+import {
+    CURRENT_USER_ID,
+    TRIAGE_STATUSES,
+    TRIAGE_STATUS_CONFIG,
+    canTransition,
+    extractMentions,
+    getTriage,
+    threadComments,
+    type SignalComment,
+} from '../../lib/pulse/triage';
+import { mockPeople } from '../../data/mockData';
+import { MentionsInput } from '../dock/MentionsInput';
+import { MessageSquare, Reply, UserCircle } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIGNAL TRIAGE DETAIL — Lifecycle, owner and team discussion for one signal
+// ═══════════════════════════════════════════════════════════════════════════
+
+const directory = mockPeople.filter(p => p.isActive);
+
+const personName = (id: string) =>
+    id === CURRENT_USER_ID ? 'You' : mockPeople.find(p => p.id === id)?.displayName ?? 'Unknown';
+
+const formatWhen = (iso: string) =>
+    new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/** Render @handles that resolved to people as highlighted chips */
+const CommentBody: React.FC<{ comment: SignalComment }> = ({ comment }) => {
+    const parts = comment.body.split(/(@[\p{L}][\p{L}'-]*)/u);
+    return (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+            {parts.map((part, i) => part.startsWith('@') && extractMentions(part, mockPeople).some(id => comment.mentions.includes(id))
+                ? <span key={i} className="px-1 rounded bg-amber-50 text-amber-800 font-medium">{part}</span>
+                : part
+            )}
+        </p>
+    );
+};
+
+const CommentItem: React.FC<{ comment: SignalComment; onReply?: () => void }> = ({ comment, onReply }) => (
+    <div className="flex gap-2">
+        <div className="w-6 h-6 rounded-full bg-gradient-to-br from-amber-100 to-orange-100 text-amber-700 text-[10px] font-semibold flex items-center justify-center shrink-0">
+            {personName(comment.authorId).charAt(0)}
+        </div>
+        <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 text-xs">
+                <span className="font-medium text-gray-900">{personName(comment.authorId)}</span>
+                <span className="text-gray-400">{formatWhen(comment.createdAt)}</span>
+                {onReply && (
+                    <button onClick={onReply} className="text-gray-400 hover:text-cafe-600 flex items-center gap-0.5">
+                        <Reply size={10} /> Reply
+                    </button>
+                )}
+            </div>
+            <CommentBody comment={comment} />
+        </div>
+    </div>
+);
+
+interface SignalTriageDetailProps {
+    signalId: string;
+    className?: string;
+}
+
+export const SignalTriageDetail: React.FC<SignalTriageDetailProps> = ({ signalId, className }) => {
+    const triage = usePulseStore(state => state.triage);
+    const entry = getTriage(triage, signalId);
+    const setTriageStatus = usePulseStore(state => state.setTriageStatus);
+    const assignSignalOwner = usePulseStore(state => state.assignSignalOwner);
+    const addSignalComment = usePulseStore(state => state.addSignalComment);
+    const [draft, setDraft] = useState('');
+    const [replyTo, setReplyTo] = useState<string | null>(null);
+
+    const threads = threadComments(entry.comments);
+
+    const post = () => {
+        if (!draft.trim()) return;
+        addSignalComment(signalId, draft, extractMentions(draft, mockPeople), replyTo ?? undefined);
+        setDraft('');
+        setReplyTo(null);
+    };
+
+    return (
+        <div className={cn('space-y-4', className)}>
+            {/* Lifecycle */}
+            <div className="flex flex-wrap items-center gap-1.5">
+                {TRIAGE_STATUSES.map(status => {
+                    const config = TRIAGE_STATUS_CONFIG[status];
+                    const isCurrent = entry.status === status;
+                    return (
+                        <button
+                            key={status}
+                            onClick={() => setTriageStatus(signalId, status)}
+                            disabled={isCurrent || !canTransition(entry.status, status)}
+                            className={cn(
+                                'px-2.5 py-1 rounded-full text-xs font-medium border transition-colors',
+                                isCurrent
+                                    ? cn(config.bgColor, config.color, 'border-transparent ring-1 ring-current')
+                                    : 'bg-white border-gray-200 text-gray-500 hover:border-gray-300 disabled:opacity-40 disabled:hover:border-gray-200'
+                            )}
+                            aria-pressed={isCurrent}
+                        >
+                            {config.label}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* Owner */}
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+                <UserCircle size={16} className="text-gray-400" />
+                Owner
+                <select
+                    value={entry.ownerId ?? ''}
+                    onChange={(e) => assignSignalOwner(signalId, e.target.value || null)}
+                    className="flex-1 px-2 py-1.5 border border-gray-200 rounded-lg text-sm"
+                >
+                    <option value="">Unassigned</option>
+                    {directory.map(person => (
+                        <option key={person.id} value={person.id}>{person.displayName} — {person.team}</option>
+                    ))}
+                </select>
+            </label>
+
+            {/* Discussion */}
+            <div>
+                <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2 flex items-center gap-1.5">
+                    <MessageSquare size={12} />
+                    Discussion {entry.comments.length > 0 && `(${entry.comments.length})`}
+                </h4>
+                {threads.length === 0 && (
+                    <p className="text-xs text-gray-400 mb-2">No comments yet — @mention a teammate to pull them in.</p>
+                )}
+                <div className="space-y-3 mb-3">
+                    {threads.map(({ comment, replies }) => (
+                        <div key={comment.id}>
+                            <CommentItem comment={comment} onReply={() => setReplyTo(comment.id)} />
+                            {replies.length > 0 && (
+                                <div className="ml-8 mt-2 space-y-2 border-l-2 border-gray-100 pl-3">
+                                    {replies.map(reply => <CommentItem key={reply.id} comment={reply} />)}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {replyTo && (
+                    <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                        <span>Replying to {personName(entry.comments.find(c => c.id === replyTo)?.authorId ?? '')}</span>
+                        <button onClick={() => setReplyTo(null)} className="hover:text-gray-700">Cancel</button>
+                    </div>
+                )}
+                <MentionsInput
+                    value={draft}
+                    onChange={setDraft}
+                    placeholder={replyTo ? 'Write a reply…' : 'Add a comment…'}
+                    rows={2}
+                />
+                <div className="flex justify-end mt-2">
+                    <button
+                        onClick={post}
+                        disabled={!draft.trim()}
+                        className="px-3 py-1.5 bg-cafe-600 text-white rounded-lg text-xs font-medium disabled:opacity-50"
+                    >
+                        {replyTo ? 'Reply' : 'Comment'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
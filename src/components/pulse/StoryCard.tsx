@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import type { SignalStory } from '../../lib/pulse/types';
+import { DOMAIN_CONFIG, PRIORITY_CONFIG } from '../../lib/pulse/types';
+import { ExternalLink, Clock, Bookmark, BookmarkCheck, Check, ChevronDown, Layers } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORY CARD — One story reported by several sources, expandable to each
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface StoryCardProps {
+    story: SignalStory;
+    onMarkRead?: (id: string) => void;
+    onToggleBookmark?: (id: string) => void;
+}
+
+const timeAgo = (dateStr: string) => {
+    const date = new Date(dateStr);
+    if (isNaN(date.getTime())) return 'Unknown';
+    const hours = Math.floor((Date.now() - date.getTime()) / (1000 * 60 * 60));
+    if (hours < 1) return 'Just now';
+    if (hours < 24) return `${hours}h ago`;
+    return `${Math.floor(hours / 24)}d ago`;
+};
+
+export const StoryCard: React.FC<StoryCardProps> = ({ story, onMarkRead, onToggleBookmark }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    const { canonical, signals, sources } = story;
+    const domainConfig = DOMAIN_CONFIG[canonical.domain];
+    const priorityConfig = PRIORITY_CONFIG[canonical.priority];
+    const isHighPriority = canonical.priority === 'critical' || canonical.priority === 'high';
+    const isRead = signals.every(s => s.isRead);
+    const isBookmarked = !!canonical.isBookmarked;
+
+    // Reading the story reads every outlet's copy of it
+    const markStoryRead = () => {
+        signals.filter(s => !s.isRead).forEach(s => onMarkRead?.(s.id));
+    };
+
+    return (
+        <article
+            onClick={markStoryRead}
+            tabIndex={0}
+            onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); markStoryRead(); } }}
+            className={cn(
+                "group relative bg-white border rounded-xl transition-all duration-200",
+                "hover:shadow-lg hover:border-cafe-200 cursor-pointer",
+                "focus:outline-none focus-visible:ring-2 focus-visible:ring-cafe-500 focus-visible:ring-offset-2",
+                isHighPriority && "border-l-4",
+                canonical.priority === 'critical' && "border-l-red-500",
+                canonical.priority === 'high' && "border-l-amber-500",
+                !isHighPriority && "border-gray-100",
+                isRead && "opacity-70 bg-gray-50/50"
+            )}
+            role="article"
+            aria-label={`${canonical.priority} priority story from ${sources.length} sources: ${story.headline}`}
+        >
+            {/* Unread indicator */}
+            {!isRead && (
+                <div className="absolute -left-1.5 top-4 w-3 h-3 bg-cafe-500 rounded-full border-2 border-white shadow-sm" />
+            )}
+
+            <div className="p-4">
+                {/* Header */}
+                <div className="flex items-start justify-between gap-3 mb-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                        <span className={cn(
+                            "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wider",
+                            canonical.domain === 'COMPETITIVE' && "bg-rose-50 text-rose-700",
+                            canonical.domain === 'REGULATORY' && "bg-amber-50 text-amber-700",
+                            canonical.domain === 'TECHNOLOGY' && "bg-cyan-50 text-cyan-700",
+                            canonical.domain === 'MARKET' && "bg-emerald-50 text-emerald-700",
+                            canonical.domain === 'NEWS' && "bg-slate-50 text-slate-700",
+                        )}>
+                            <span>{domainConfig.icon}</span>
+                            {domainConfig.label}
+                        </span>
+                        {isHighPriority && (
+                            <span className={cn(
+                                "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase",
+                                priorityConfig.bgColor,
+                                priorityConfig.color
+                            )}>
+                                {priorityConfig.label}
+                            </span>
+                        )}
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold bg-cafe-50 text-cafe-700">
+                            <Layers size={10} />
+                            {sources.length} sources
+                        </span>
+                    </div>
+
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {isRead ? (
+                            <Check size={14} className="text-green-500" />
+                        ) : (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); markStoryRead(); }}
+                                className="p-1 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-600"
+                                aria-label="Mark story as read"
+                            >
+                                <Check size={14} />
+                            </button>
+                        )}
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onToggleBookmark?.(canonical.id); }}
+                            className="p-1 hover:bg-gray-100 rounded"
+                            aria-label={isBookmarked ? "Remove bookmark" : "Add bookmark"}
+                        >
+                            {isBookmarked ? (
+                                <BookmarkCheck size={14} className="text-cafe-500" />
+                            ) : (
+                                <Bookmark size={14} className="text-gray-400 hover:text-gray-600" />
+                            )}
+                        </button>
+                    </div>
+                </div>
+
+                {/* Canonical headline */}
+                <h3 className="font-semibold text-gray-900 leading-snug mb-2 line-clamp-2 text-base">
+                    {story.headline}
+                </h3>
+
+                {canonical.summary && (
+                    <p className="text-sm text-gray-600 line-clamp-2 mb-3 leading-relaxed">
+                        {canonical.summary}
+                    </p>
+                )}
+
+                {/* Footer */}
+                <div className="flex items-center justify-between pt-2 border-t border-gray-100">
+                    <span className="flex items-center gap-1 text-xs text-gray-500">
+                        <Clock size={10} />
+                        First reported {timeAgo(story.firstPublishedAt)}
+                    </span>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setIsExpanded(!isExpanded); }}
+                        className="flex items-center gap-1 text-xs font-medium text-cafe-600 hover:text-cafe-700"
+                        aria-expanded={isExpanded}
+                    >
+                        {isExpanded ? 'Hide sources' : 'All sources'}
+                        <ChevronDown size={12} className={cn("transition-transform", isExpanded && "rotate-180")} />
+                    </button>
+                </div>
+
+                {/* Sources, earliest first */}
+                {isExpanded && (
+                    <ul className="mt-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+                        {sources.map(source => (
+                            <li key={source.signalId} className="flex items-start justify-between gap-2 text-xs">
+                                <div className="min-w-0">
+                                    <div className="flex items-center gap-1.5">
+                                        <span className="font-medium text-gray-800">{source.name}</span>
+                                        <span className="text-gray-300">•</span>
+                                        <span className="text-gray-500">{timeAgo(source.publishedAt)}</span>
+                                        <span className="text-[10px] text-gray-400">T{source.tier}</span>
+                                    </div>
+                                    <p className="text-gray-500 truncate">{source.title}</p>
+                                </div>
+                                <a
+                                    href={source.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="p-1 hover:bg-cafe-50 text-cafe-600 rounded shrink-0"
+                                    title={`Open ${source.name} article`}
+                                >
+                                    <ExternalLink size={12} />
+                                </a>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </article>
+    );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import type { TrendDirection, TrendSeries } from '../../lib/pulse/trendAnalysis';
+import { TrendingUp, TrendingDown, Zap } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TREND INDICATORS — Weekly volume sparkline and momentum badge
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface SparklineProps {
+    values: number[];
+    width?: number;
+    height?: number;
+    color?: string;
+    highlightLast?: boolean;
+    className?: string;
+}
+
+export const Sparkline: React.FC<SparklineProps> = ({
+    values,
+    width = 72,
+    height = 20,
+    color = '#8b5cf6',
+    highlightLast,
+    className,
+}) => {
+    if (values.length < 2) return null;
+
+    const max = Math.max(...values, 1);
+    const step = width / (values.length - 1);
+    const points = values.map((v, i) => [i * step, height - 2 - (v / max) * (height - 4)] as const);
+    const path = points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+    const [lastX, lastY] = points[points.length - 1];
+
+    return (
+        <svg
+            width={width}
+            height={height}
+            viewBox={`0 0 ${width} ${height}`}
+            className={cn('overflow-visible', className)}
+            role="img"
+            aria-label={`Weekly signal volume: ${values.join(', ')}`}
+        >
+            <polyline points={`0,${height} ${path} ${width},${height}`} fill={color} fillOpacity={0.12} stroke="none" />
+            <polyline points={path} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+            {highlightLast && <circle cx={lastX} cy={lastY} r={2.5} fill={color} />}
+        </svg>
+    );
+};
+
+const BADGE_STYLES: Record<Exclude<TrendDirection, 'flat'>, { label: string; className: string; icon: React.ReactNode }> = {
+    up: { label: 'Trending up', className: 'bg-emerald-50 text-emerald-700', icon: <TrendingUp size={10} /> },
+    down: { label: 'Trending down', className: 'bg-gray-100 text-gray-600', icon: <TrendingDown size={10} /> },
+};
+
+interface TrendBadgeProps {
+    series: TrendSeries;
+    className?: string;
+}
+
+/** Spike beats momentum; flat series render nothing */
+export const TrendBadge: React.FC<TrendBadgeProps> = ({ series, className }) => {
+    if (series.anomaly) {
+        return (
+            <span
+                className={cn('inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[9px] font-bold uppercase bg-red-50 text-red-700', className)}
+                title={`${series.anomaly.count} this week vs. ~${series.anomaly.baseline}/week`}
+            >
+                <Zap size={10} />
+                Spike
+            </span>
+        );
+    }
+    if (series.direction === 'flat') return null;
+
+    const style = BADGE_STYLES[series.direction];
+    return (
+        <span
+            className={cn('inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[9px] font-bold uppercase', style.className, className)}
+            title={`${series.changePct > 0 ? '+' : ''}${series.changePct}% vs. previous 4 weeks`}
+        >
+            {style.icon}
+            {style.label}
+        </span>
+    );
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { usePulseStore } from '../../lib/pulse/usePulseStore';
+import { DOMAIN_CONFIG, PRIORITY_CONFIG, type PulseSignal } from '../../lib/pulse/types';
+import { TRIAGE_STATUS_CONFIG, buildResponseQueue } from '../../lib/pulse/triage';
+import { getArchivedSignals } from '../../lib/pulse/signalArchive';
+import { mockPeople } from '../../data/mockData';
+import { SignalTriageDetail } from './SignalTriageDetail';
+import { ClipboardList, ChevronDown, ChevronRight, MessageSquare, Inbox } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TRIAGE QUEUE — Signals that still need a response, tracked to done
+// ═══════════════════════════════════════════════════════════════════════════
+
+type QueueFilter = 'all' | 'unassigned' | 'assigned';
+
+const FILTER_LABELS: Record<QueueFilter, string> = {
+    all: 'All open',
+    unassigned: 'Unassigned',
+    assigned: 'Assigned',
+};
+
+const waitingFor = (iso: string) => {
+    const hours = Math.floor((Date.now() - new Date(iso).getTime()) / (1000 * 60 * 60));
+    if (hours < 24) return `${Math.max(hours, 0)}h`;
+    return `${Math.floor(hours / 24)}d`;
+};
+
+interface TriageQueuePanelProps {
+    className?: string;
+}
+
+export const TriageQueuePanel: React.FC<TriageQueuePanelProps> = ({ className }) => {
+    const signals = usePulseStore(state => state.signals);
+    const triage = usePulseStore(state => state.triage);
+    const [filter, setFilter] = useState<QueueFilter>('all');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [archived, setArchived] = useState<PulseSignal[]>([]);
+
+    // Triaged signals that have left the live feed are looked up in the archive
+    const missingKey = useMemo(() => {
+        const live = new Set(signals.map(s => s.id));
+        return Object.keys(triage).filter(id => !live.has(id)).sort().join('|');
+    }, [signals, triage]);
+
+    useEffect(() => {
+        let cancelled = false;
+        getArchivedSignals(missingKey ? missingKey.split('|') : []).then(found => {
+            if (!cancelled) setArchived(found);
+        });
+        return () => { cancelled = true; };
+    }, [missingKey]);
+
+    const queue = useMemo(() => buildResponseQueue(triage, signals, archived), [triage, signals, archived]);
+    const visible = queue.filter(({ entry }) => {
+        if (filter === 'unassigned') return !entry.ownerId;
+        if (filter === 'assigned') return !!entry.ownerId;
+        return true;
+    });
+
+    return (
+        <div className={cn('bg-white rounded-xl border border-gray-100 p-5', className)}>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <ClipboardList size={18} className="text-cafe-600" />
+                    Needs Response
+                    <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs font-semibold">{queue.length}</span>
+                </h2>
+                <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+                    {(Object.keys(FILTER_LABELS) as QueueFilter[]).map(f => (
+                        <button
+                            key={f}
+                            onClick={() => setFilter(f)}
+                            className={cn(
+                                'px-3 py-1 rounded-md text-xs font-medium transition-colors',
+                                filter === f ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                            )}
+                        >
+                            {FILTER_LABELS[f]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {visible.length === 0 ? (
+                <div className="text-center py-8 text-gray-400">
+                    <Inbox size={28} className="mx-auto mb-2" />
+                    <p className="text-sm">Nothing waiting on a response.</p>
+                </div>
+            ) : (
+                <ul className="divide-y divide-gray-100">
+                    {visible.map(({ signalId, signal, entry }) => {
+                        const status = TRIAGE_STATUS_CONFIG[entry.status];
+                        const owner = entry.ownerId ? mockPeople.find(p => p.id === entry.ownerId) : undefined;
+                        const isExpanded = expandedId === signalId;
+                        return (
+                            <li key={signalId} className="py-2">
+                                <button
+                                    onClick={() => setExpandedId(isExpanded ? null : signalId)}
+                                    className="w-full flex items-center gap-3 text-left"
+                                    aria-expanded={isExpanded}
+                                >
+                                    {isExpanded ? <ChevronDown size={14} className="text-gray-400 shrink-0" /> : <ChevronRight size={14} className="text-gray-400 shrink-0" />}
+                                    <span className={cn('px-2 py-0.5 rounded-full text-[10px] font-semibold shrink-0', status.bgColor, status.color)}>
+                                        {status.label}
+                                    </span>
+                                    {signal ? (
+                                        <>
+                                            <span className={cn('px-1.5 py-0.5 rounded text-[10px] font-bold uppercase shrink-0', PRIORITY_CONFIG[signal.priority].bgColor, PRIORITY_CONFIG[signal.priority].color)}>
+                                                {PRIORITY_CONFIG[signal.priority].label}
+                                            </span>
+                                            <span className="text-sm shrink-0" title={DOMAIN_CONFIG[signal.domain].label}>{DOMAIN_CONFIG[signal.domain].icon}</span>
+                                            <span className="flex-1 min-w-0 text-sm font-medium text-gray-900 truncate">{signal.title}</span>
+                                        </>
+                                    ) : (
+                                        <span className="flex-1 min-w-0 text-sm italic text-gray-500 truncate" title={signalId}>
+                                            Signal no longer available
+                                        </span>
+                                    )}
+                                    {entry.comments.length > 0 && (
+                                        <span className="flex items-center gap-0.5 text-xs text-gray-400 shrink-0">
+                                            <MessageSquare size={12} /> {entry.comments.length}
+                                        </span>
+                                    )}
+                                    <span className="text-xs text-gray-500 w-28 truncate text-right shrink-0">
+                                        {owner ? owner.displayName : 'Unassigned'}
+                                    </span>
+                                    <span className="text-xs text-gray-400 w-8 text-right shrink-0" title="Waiting for">
+                                        {waitingFor(signal?.publishedAt ?? entry.updatedAt)}
+                                    </span>
+                                </button>
+                                {isExpanded && (
+                                    <SignalTriageDetail signalId={signalId} className="mt-3 ml-7 p-3 bg-gray-50 rounded-lg" />
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
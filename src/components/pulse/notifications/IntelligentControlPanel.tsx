@@ -21,12 +21,25 @@ import {
     getBudgetStatus,
     clearLearningData,
     getUserBehavior,
+    simulateAlertRule,
+    validateRuleCondition,
+    getNextDigestTime,
+    RULE_CONDITION_FIELDS,
+    RULE_OPERATOR_LABELS,
     type IntelligentPreferences,
     type NotificationPersona,
     type FocusZone,
     type CustomAlertRule,
+    type DigestSchedule,
+    type RuleCondition,
+    type RuleConditionType,
+    type RuleOperator,
+    type RuleSimulationResult,
+    type UrgencyLevel,
 } from '../../../lib/pulse/notifications';
-import { DOMAIN_CONFIG, type SignalDomain } from '../../../lib/pulse/types';
+import { DOMAIN_CONFIG, type PulseSignal, type SignalDomain } from '../../../lib/pulse/types';
+import { queryArchive } from '../../../lib/pulse/signalArchive';
+import { usePulseStore } from '../../../lib/pulse/usePulseStore';
 import {
     Settings,
     User,
@@ -51,6 +64,7 @@ import {
     TrendingUp,
 } from 'lucide-react';
 import { cn } from '../../../lib/utils';
+import { AttentionSettings } from '../../attention/AttentionSettings';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // INTELLIGENT CONTROL PANEL — Complete Notification Preferences
@@ -271,8 +285,8 @@ export const IntelligentControlPanel: React.FC<IntelligentControlPanelProps> = (
                             rules={prefs.alertRules}
                             showNew={showNewRule}
                             onShowNew={setShowNewRule}
-                            onCreate={(name, conditions, actions) => {
-                                createAlertRule(name, conditions, 'AND', actions);
+                            onCreate={(name, conditions, logic, actions) => {
+                                createAlertRule(name, conditions, logic, actions);
                                 refresh();
                                 setShowNewRule(false);
                             }}
@@ -284,9 +298,10 @@ export const IntelligentControlPanel: React.FC<IntelligentControlPanelProps> = (
                     {activeSection === 'schedule' && (
                         <ScheduleSection
                             prefs={prefs}
+                            personas={personas}
                             snoozeEnd={snoozeEnd}
                             onUpdate={updatePrefs}
-                            onUnsnooze={() => { unsnooze(); refresh(); }}
+                            onAttentionChange={refresh}
                         />
                     )}
 
@@ -581,15 +596,84 @@ const FocusZonesSection: React.FC<FocusZonesSectionProps> = ({
 // ALERT RULES SECTION
 // ─────────────────────────────────────────────────────────────────────────────
 
+const SIMULATION_DAYS = 90;
+
+const URGENCY_CHANNELS: Array<{ id: UrgencyLevel; label: string; color: string }> = [
+    { id: 'immediate', label: 'Immediate', color: 'bg-red-500' },
+    { id: 'timely', label: 'Timely', color: 'bg-amber-500' },
+    { id: 'batched', label: 'Batched', color: 'bg-blue-400' },
+    { id: 'digest', label: 'Digest', color: 'bg-gray-400' },
+];
+
+/** Archived history for the window plus whatever is live in the Pulse store */
+async function loadSimulationSignals(): Promise<PulseSignal[]> {
+    const now = Date.now();
+    const archived = await queryArchive({
+        dateRange: {
+            start: new Date(now - SIMULATION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+            end: new Date(now).toISOString(),
+        },
+    });
+    const byId = new Map<string, PulseSignal>(archived.map(s => [s.id, s]));
+    for (const signal of usePulseStore.getState().signals) byId.set(signal.id, signal);
+    return [...byId.values()];
+}
+
+const describeCondition = (condition: RuleCondition) =>
+    `${RULE_CONDITION_FIELDS[condition.type].label} ${RULE_OPERATOR_LABELS[condition.operator]} ${Array.isArray(condition.value) ? condition.value.join(', ') : condition.value}`;
+
+const SimulationSummary: React.FC<{ result: RuleSimulationResult }> = ({ result }) => (
+    <div className="mt-2 p-3 bg-white border border-gray-200 rounded-lg text-xs">
+        <div className="flex items-center gap-2 mb-2">
+            <Activity size={12} className="text-cafe-500" />
+            <span className="font-medium text-gray-900">
+                Would have fired {result.fired} time{result.fired === 1 ? '' : 's'}
+            </span>
+            <span className="text-gray-400">
+                of {result.evaluated} signals · ~{result.perWeek}/week
+            </span>
+        </div>
+        {result.fired > 0 && (
+            <>
+                <div className="flex h-2 rounded-full overflow-hidden bg-gray-100 mb-1.5">
+                    {URGENCY_CHANNELS.map(c => result.byUrgency[c.id] > 0 && (
+                        <div key={c.id} className={c.color} style={{ width: `${(result.byUrgency[c.id] / result.fired) * 100}%` }} />
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-3 text-gray-500 mb-2">
+                    {URGENCY_CHANNELS.map(c => (
+                        <span key={c.id} className="flex items-center gap-1">
+                            <span className={cn("w-2 h-2 rounded-full", c.color)} />
+                            {c.label} {result.byUrgency[c.id]}
+                        </span>
+                    ))}
+                </div>
+                <ul className="space-y-0.5 text-gray-600">
+                    {result.samples.map(s => (
+                        <li key={s.signalId} className="truncate">
+                            <span className="text-gray-400">{new Date(s.publishedAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}</span> {s.title}
+                        </li>
+                    ))}
+                </ul>
+            </>
+        )}
+    </div>
+);
+
 interface AlertRulesSectionProps {
     rules: CustomAlertRule[];
     showNew: boolean;
     onShowNew: (show: boolean) => void;
-    onCreate: (name: string, conditions: CustomAlertRule['conditions'], actions: CustomAlertRule['actions']) => void;
+    onCreate: (name: string, conditions: CustomAlertRule['conditions'], logic: CustomAlertRule['conditionLogic'], actions: CustomAlertRule['actions']) => void;
     onToggle: (id: string) => void;
     onDelete: (id: string) => void;
 }
 
+const newCondition = (type: RuleConditionType = 'domain'): RuleCondition => {
+    const field = RULE_CONDITION_FIELDS[type];
+    return { type, operator: field.operators[0], value: field.options?.[0] ?? '' };
+};
+
 const AlertRulesSection: React.FC<AlertRulesSectionProps> = ({
     rules,
     showNew,
@@ -599,16 +683,46 @@ const AlertRulesSection: React.FC<AlertRulesSectionProps> = ({
     onDelete,
 }) => {
     const [newName, setNewName] = useState('');
-    const [selectedDomain, setSelectedDomain] = useState<SignalDomain>('COMPETITIVE');
+    const [conditions, setConditions] = useState<RuleCondition[]>([newCondition()]);
+    const [logic, setLogic] = useState<CustomAlertRule['conditionLogic']>('AND');
+    const [urgency, setUrgency] = useState<UrgencyLevel>('immediate');
+    const [simulations, setSimulations] = useState<Record<string, RuleSimulationResult>>({});
+    const [simulatingId, setSimulatingId] = useState<string | null>(null);
+
+    const errors = conditions.map(validateRuleCondition);
+    const isValid = !!newName && errors.every(e => e === null);
+    const draftActions: CustomAlertRule['actions'] = [{ type: 'urgency', value: urgency }];
+
+    const clearDraftSimulation = () => {
+        setSimulations(prev => {
+            const next = { ...prev };
+            delete next.draft;
+            return next;
+        });
+    };
+
+    const updateCondition = (index: number, updates: Partial<RuleCondition>) => {
+        setConditions(prev => prev.map((c, i) => {
+            if (i !== index) return c;
+            // Switching type resets operator/value to ones that type understands
+            return updates.type && updates.type !== c.type ? newCondition(updates.type) : { ...c, ...updates };
+        }));
+        clearDraftSimulation();
+    };
+
+    const simulate = async (id: string, rule: Pick<CustomAlertRule, 'conditions' | 'conditionLogic' | 'actions'>) => {
+        setSimulatingId(id);
+        const signals = await loadSimulationSignals();
+        setSimulations(prev => ({ ...prev, [id]: simulateAlertRule(rule, signals) }));
+        setSimulatingId(null);
+    };
 
     const handleCreate = () => {
-        if (newName) {
-            onCreate(
-                newName,
-                [{ type: 'domain', operator: 'equals', value: selectedDomain }],
-                [{ type: 'urgency', value: 'immediate' }]
-            );
+        if (isValid) {
+            onCreate(newName, conditions, logic, draftActions);
             setNewName('');
+            setConditions([newCondition()]);
+            clearDraftSimulation();
         }
     };
 
@@ -617,7 +731,7 @@ const AlertRulesSection: React.FC<AlertRulesSectionProps> = ({
             <div className="mb-6">
                 <h3 className="text-lg font-semibold text-gray-900">Custom Alert Rules</h3>
                 <p className="text-sm text-gray-500 mt-1">
-                    Create rules to escalate important signals
+                    Create rules to escalate important signals. Simulate replays the last {SIMULATION_DAYS} days.
                 </p>
             </div>
 
@@ -627,38 +741,53 @@ const AlertRulesSection: React.FC<AlertRulesSectionProps> = ({
                     <div
                         key={rule.id}
                         className={cn(
-                            "p-3 border rounded-xl flex items-center justify-between",
+                            "p-3 border rounded-xl",
                             rule.enabled ? "border-gray-200 bg-white" : "border-gray-100 bg-gray-50 opacity-60"
                         )}
                     >
-                        <div className="flex items-center gap-3">
-                            <button
-                                onClick={() => onToggle(rule.id)}
-                                className={cn(
-                                    "w-8 h-5 rounded-full transition-colors relative",
-                                    rule.enabled ? "bg-cafe-600" : "bg-gray-300"
-                                )}
-                            >
-                                <span
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3 min-w-0">
+                                <button
+                                    onClick={() => onToggle(rule.id)}
                                     className={cn(
-                                        "absolute top-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform",
-                                        rule.enabled ? "right-0.5" : "left-0.5"
+                                        "w-8 h-5 rounded-full transition-colors relative shrink-0",
+                                        rule.enabled ? "bg-cafe-600" : "bg-gray-300"
                                     )}
-                                />
-                            </button>
-                            <div>
-                                <span className="font-medium text-gray-900">{rule.name}</span>
-                                <div className="text-xs text-gray-500">
-                                    Triggered {rule.triggerCount} times
+                                >
+                                    <span
+                                        className={cn(
+                                            "absolute top-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform",
+                                            rule.enabled ? "right-0.5" : "left-0.5"
+                                        )}
+                                    />
+                                </button>
+                                <div className="min-w-0">
+                                    <span className="font-medium text-gray-900">{rule.name}</span>
+                                    <div className="text-xs text-gray-500 truncate">
+                                        {rule.conditions.map(describeCondition).join(rule.conditionLogic === 'AND' ? ' and ' : ' or ')}
+                                    </div>
+                                    <div className="text-xs text-gray-400">
+                                        Triggered {rule.triggerCount} times
+                                    </div>
                                 </div>
                             </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                                <button
+                                    onClick={() => simulate(rule.id, rule)}
+                                    disabled={simulatingId === rule.id}
+                                    className="px-2 py-1 text-xs text-cafe-600 hover:bg-cafe-50 rounded-lg disabled:opacity-50"
+                                >
+                                    {simulatingId === rule.id ? 'Simulating…' : 'Simulate'}
+                                </button>
+                                <button
+                                    onClick={() => onDelete(rule.id)}
+                                    className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg hover:bg-red-50"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
                         </div>
-                        <button
-                            onClick={() => onDelete(rule.id)}
-                            className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg hover:bg-red-50"
-                        >
-                            <Trash2 size={14} />
-                        </button>
+                        {simulations[rule.id] && <SimulationSummary result={simulations[rule.id]} />}
                     </div>
                 ))}
             </div>
@@ -673,32 +802,119 @@ const AlertRulesSection: React.FC<AlertRulesSectionProps> = ({
                         onChange={(e) => setNewName(e.target.value)}
                         className="w-full px-3 py-2 border border-gray-200 rounded-lg mb-3 text-sm"
                     />
-                    <div className="mb-3">
-                        <label className="text-xs font-medium text-gray-600 mb-1 block">
-                            When domain is:
-                        </label>
-                        <select
-                            value={selectedDomain}
-                            onChange={(e) => setSelectedDomain(e.target.value as SignalDomain)}
-                            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                    <div className="mb-3 space-y-2">
+                        <div className="flex items-center gap-2 text-xs font-medium text-gray-600">
+                            When
+                            <select
+                                value={logic}
+                                onChange={(e) => setLogic(e.target.value as CustomAlertRule['conditionLogic'])}
+                                className="px-2 py-1 border border-gray-200 rounded-lg text-xs"
+                            >
+                                <option value="AND">all</option>
+                                <option value="OR">any</option>
+                            </select>
+                            of these match:
+                        </div>
+                        {conditions.map((condition, index) => {
+                            const field = RULE_CONDITION_FIELDS[condition.type];
+                            return (
+                                <div key={index}>
+                                    <div className="flex items-center gap-1.5">
+                                        <select
+                                            value={condition.type}
+                                            onChange={(e) => updateCondition(index, { type: e.target.value as RuleConditionType })}
+                                            className="px-2 py-1.5 border border-gray-200 rounded-lg text-xs"
+                                            aria-label="Condition"
+                                        >
+                                            {(Object.keys(RULE_CONDITION_FIELDS) as RuleConditionType[]).map(t => (
+                                                <option key={t} value={t}>{RULE_CONDITION_FIELDS[t].label}</option>
+                                            ))}
+                                        </select>
+                                        <select
+                                            value={condition.operator}
+                                            onChange={(e) => updateCondition(index, { operator: e.target.value as RuleOperator })}
+                                            className="px-2 py-1.5 border border-gray-200 rounded-lg text-xs"
+                                            aria-label="Operator"
+                                        >
+                                            {field.operators.map(op => (
+                                                <option key={op} value={op}>{RULE_OPERATOR_LABELS[op]}</option>
+                                            ))}
+                                        </select>
+                                        {field.input === 'select' ? (
+                                            <select
+                                                value={String(condition.value)}
+                                                onChange={(e) => updateCondition(index, { value: e.target.value })}
+                                                className="flex-1 min-w-0 px-2 py-1.5 border border-gray-200 rounded-lg text-xs"
+                                                aria-label="Value"
+                                            >
+                                                {field.options!.map(o => (
+                                                    <option key={o} value={o}>{condition.type === 'domain' ? DOMAIN_CONFIG[o as SignalDomain].label : o}</option>
+                                                ))}
+                                            </select>
+                                        ) : (
+                                            <input
+                                                type={field.input === 'number' ? 'number' : 'text'}
+                                                step={field.input === 'number' ? 0.05 : undefined}
+                                                min={field.input === 'number' ? 0 : undefined}
+                                                max={field.input === 'number' ? 1 : undefined}
+                                                value={String(condition.value)}
+                                                placeholder={field.placeholder}
+                                                onChange={(e) => updateCondition(index, { value: e.target.value })}
+                                                className="flex-1 min-w-0 px-2 py-1.5 border border-gray-200 rounded-lg text-xs"
+                                                aria-label="Value"
+                                            />
+                                        )}
+                                        {conditions.length > 1 && (
+                                            <button
+                                                onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))}
+                                                className="p-1 text-gray-400 hover:text-red-500"
+                                                aria-label="Remove condition"
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        )}
+                                    </div>
+                                    {errors[index] && condition.value !== '' && (
+                                        <p className="text-[10px] text-red-600 mt-0.5">{errors[index]}</p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        <button
+                            onClick={() => setConditions(prev => [...prev, newCondition('keyword')])}
+                            className="text-xs text-cafe-600 hover:text-cafe-700 flex items-center gap-1"
                         >
-                            {(Object.keys(DOMAIN_CONFIG) as SignalDomain[]).map(d => (
-                                <option key={d} value={d}>{DOMAIN_CONFIG[d].label}</option>
-                            ))}
-                        </select>
+                            <Plus size={12} /> Add condition
+                        </button>
                     </div>
                     <div className="text-xs text-gray-500 mb-3 flex items-center gap-2">
                         <Zap size={12} className="text-cafe-500" />
-                        Then: Send immediately (bypass batching)
+                        Then deliver
+                        <select
+                            value={urgency}
+                            onChange={(e) => setUrgency(e.target.value as UrgencyLevel)}
+                            className="px-2 py-1 border border-gray-200 rounded-lg text-xs"
+                        >
+                            {URGENCY_CHANNELS.map(c => (
+                                <option key={c.id} value={c.id}>{c.label.toLowerCase()}</option>
+                            ))}
+                        </select>
                     </div>
                     <div className="flex gap-2">
                         <button
                             onClick={handleCreate}
-                            disabled={!newName}
+                            disabled={!isValid}
                             className="px-4 py-2 bg-cafe-600 text-white rounded-lg text-sm font-medium disabled:opacity-50 flex items-center gap-2"
                         >
                             <Check size={14} /> Create Rule
                         </button>
+                        <button
+                            onClick={() => simulate('draft', { conditions, conditionLogic: logic, actions: draftActions })}
+                            disabled={!errors.every(e => e === null) || simulatingId === 'draft'}
+                            className="px-4 py-2 border border-cafe-300 text-cafe-700 rounded-lg text-sm font-medium disabled:opacity-50 flex items-center gap-2"
+                        >
+                            <Activity size={14} /> {simulatingId === 'draft' ? 'Simulating…' : 'Simulate'}
+                        </button>
                         <button
                             onClick={() => onShowNew(false)}
                             className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm"
@@ -706,6 +922,7 @@ const AlertRulesSection: React.FC<AlertRulesSectionProps> = ({
                             Cancel
                         </button>
                     </div>
+                    {simulations.draft && <SimulationSummary result={simulations.draft} />}
                 </div>
             ) : (
                 <button
@@ -725,16 +942,26 @@ const AlertRulesSection: React.FC<AlertRulesSectionProps> = ({
 
 interface ScheduleSectionProps {
     prefs: IntelligentPreferences;
+    personas: NotificationPersona[];
     snoozeEnd: Date | null;
     onUpdate: (updates: Partial<IntelligentPreferences>) => void;
-    onUnsnooze: () => void;
+    onAttentionChange: () => void;
 }
 
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DIGEST_FREQUENCY_LABELS: Record<DigestSchedule['frequency'], string> = {
+    daily: 'Daily',
+    weekdays: 'Weekdays',
+    weekly: 'Weekly',
+};
+
 const ScheduleSection: React.FC<ScheduleSectionProps> = ({
     prefs,
+    personas,
     snoozeEnd,
     onUpdate,
-    onUnsnooze,
+    onAttentionChange,
 }) => (
     <div>
         <div className="mb-6">
@@ -744,124 +971,94 @@ const ScheduleSection: React.FC<ScheduleSectionProps> = ({
             </p>
         </div>
 
-        {/* Snooze Status */}
-        {snoozeEnd && (
-            <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl mb-4">
-                <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                        <Moon size={20} className="text-amber-600" />
-                        <div>
-                            <div className="font-medium text-amber-900">Currently Snoozed</div>
-                            <div className="text-xs text-amber-600">
-                                Until {snoozeEnd.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                            </div>
-                        </div>
-                    </div>
-                    <button
-                        onClick={onUnsnooze}
-                        className="px-3 py-1.5 text-sm font-medium text-amber-700 bg-amber-100 rounded-lg hover:bg-amber-200"
-                    >
-                        Resume Now
-                    </button>
-                </div>
-            </div>
-        )}
+        {/* Quiet hours, focus and snooze are shared with Daily Brew */}
+        <div className="border border-gray-200 rounded-xl mb-4 overflow-hidden">
+            <AttentionSettings key={snoozeEnd?.getTime() ?? 'awake'} onChange={onAttentionChange} />
+        </div>
 
-        {/* Quiet Hours */}
-        <div className="p-4 border border-gray-200 rounded-xl mb-4">
+        {/* Daily Digest */}
+        <div className="p-4 border border-gray-200 rounded-xl">
             <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center gap-2">
-                    <Moon size={18} className="text-gray-500" />
-                    <span className="font-medium text-gray-900">Quiet Hours</span>
+                    <Sparkles size={18} className="text-gray-500" />
+                    <span className="font-medium text-gray-900">{DIGEST_FREQUENCY_LABELS[prefs.digestSchedule.frequency]} Digest</span>
                 </div>
                 <button
                     onClick={() => onUpdate({
-                        quietHours: { ...prefs.quietHours, enabled: !prefs.quietHours.enabled }
+                        digestSchedule: { ...prefs.digestSchedule, enabled: !prefs.digestSchedule.enabled }
                     })}
                     className={cn(
                         "w-10 h-5 rounded-full transition-colors relative",
-                        prefs.quietHours.enabled ? "bg-cafe-600" : "bg-gray-300"
+                        prefs.digestSchedule.enabled ? "bg-cafe-600" : "bg-gray-300"
                     )}
                 >
                     <span
                         className={cn(
                             "absolute top-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform",
-                            prefs.quietHours.enabled ? "right-0.5" : "left-0.5"
+                            prefs.digestSchedule.enabled ? "right-0.5" : "left-0.5"
                         )}
                     />
                 </button>
             </div>
-            {prefs.quietHours.enabled && (
+            {prefs.digestSchedule.enabled && (
                 <div className="space-y-3">
-                    <div className="flex items-center gap-3">
-                        <input
-                            type="time"
-                            value={prefs.quietHours.start}
+                    <div className="flex flex-wrap items-center gap-3">
+                        <select
+                            value={prefs.digestSchedule.frequency}
                             onChange={(e) => onUpdate({
-                                quietHours: { ...prefs.quietHours, start: e.target.value }
+                                digestSchedule: { ...prefs.digestSchedule, frequency: e.target.value as DigestSchedule['frequency'] }
                             })}
                             className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
-                        />
-                        <span className="text-gray-400">to</span>
+                            aria-label="Frequency"
+                        >
+                            {(Object.keys(DIGEST_FREQUENCY_LABELS) as DigestSchedule['frequency'][]).map(f => (
+                                <option key={f} value={f}>{DIGEST_FREQUENCY_LABELS[f]}</option>
+                            ))}
+                        </select>
+                        {prefs.digestSchedule.frequency === 'weekly' && (
+                            <select
+                                value={prefs.digestSchedule.dayOfWeek}
+                                onChange={(e) => onUpdate({
+                                    digestSchedule: { ...prefs.digestSchedule, dayOfWeek: Number(e.target.value) }
+                                })}
+                                className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                                aria-label="Day of week"
+                            >
+                                {WEEKDAY_NAMES.map((name, day) => (
+                                    <option key={name} value={day}>on {name}</option>
+                                ))}
+                            </select>
+                        )}
+                        <span className="text-sm text-gray-600">at</span>
                         <input
                             type="time"
-                            value={prefs.quietHours.end}
+                            value={prefs.digestSchedule.time}
                             onChange={(e) => onUpdate({
-                                quietHours: { ...prefs.quietHours, end: e.target.value }
+                                digestSchedule: { ...prefs.digestSchedule, time: e.target.value }
                             })}
                             className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
                         />
                     </div>
-                    <label className="flex items-center gap-2 text-sm text-gray-600">
-                        <input
-                            type="checkbox"
-                            checked={prefs.quietHours.allowCriticalOverride}
+                    <div className="flex items-center gap-3">
+                        <span className="text-sm text-gray-600">Filtered for</span>
+                        <select
+                            value={prefs.digestSchedule.personaId}
                             onChange={(e) => onUpdate({
-                                quietHours: { ...prefs.quietHours, allowCriticalOverride: e.target.checked }
+                                digestSchedule: { ...prefs.digestSchedule, personaId: e.target.value }
                             })}
-                            className="rounded border-gray-300 text-cafe-600"
-                        />
-                        Allow critical signals to override
-                    </label>
-                </div>
-            )}
-        </div>
-
-        {/* Daily Digest */}
-        <div className="p-4 border border-gray-200 rounded-xl">
-            <div className="flex items-center justify-between mb-3">
-                <div className="flex items-center gap-2">
-                    <Sparkles size={18} className="text-gray-500" />
-                    <span className="font-medium text-gray-900">Daily Digest</span>
-                </div>
-                <button
-                    onClick={() => onUpdate({
-                        digestSchedule: { ...prefs.digestSchedule, enabled: !prefs.digestSchedule.enabled }
-                    })}
-                    className={cn(
-                        "w-10 h-5 rounded-full transition-colors relative",
-                        prefs.digestSchedule.enabled ? "bg-cafe-600" : "bg-gray-300"
+                            className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                            aria-label="Digest persona"
+                        >
+                            {personas.map(p => (
+                                <option key={p.id} value={p.id}>{p.icon} {p.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {getNextDigestTime(prefs.digestSchedule) && (
+                        <p className="text-xs text-gray-500">
+                            Next digest {getNextDigestTime(prefs.digestSchedule)!.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })} — open it from the Digest button on the Pulse dashboard.
+                        </p>
                     )}
-                >
-                    <span
-                        className={cn(
-                            "absolute top-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform",
-                            prefs.digestSchedule.enabled ? "right-0.5" : "left-0.5"
-                        )}
-                    />
-                </button>
-            </div>
-            {prefs.digestSchedule.enabled && (
-                <div className="flex items-center gap-3">
-                    <span className="text-sm text-gray-600">Deliver at</span>
-                    <input
-                        type="time"
-                        value={prefs.digestSchedule.time}
-                        onChange={(e) => onUpdate({
-                            digestSchedule: { ...prefs.digestSchedule, time: e.target.value }
-                        })}
-                        className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
-                    />
                 </div>
             )}
         </div>
@@ -7,6 +7,7 @@ import {
     markAllAsRead,
     provideFeedback,
     getBudgetStatus,
+    processQueue,
     type IntelligentSignal,
     type UrgencyLevel,
 } from '../../../lib/pulse/notifications';
@@ -97,6 +98,8 @@ export const NotificationHub: React.FC<NotificationHubProps> = ({
 
     // Refresh data
     const refresh = useCallback(() => {
+        // Deliver anything quiet hours, focus or snooze were holding back
+        processQueue();
         const allSignals = getIntelligentSignals().filter(s => !s.dismissedAt);
         setSignals(allSignals);
         setUnreadCount(getUnreadCount());
@@ -8,7 +8,7 @@ import { Search, X, Clock, TrendingUp } from 'lucide-react';
 import { SearchResults } from './SearchResults';
 import { cn } from '../../lib/utils';
 import { useSearchStore } from '../../stores/searchStore';
-import { cafeFinder } from '../../lib/search';
+import { cafeFinder, useRankingFeedback, beginDwell } from '../../lib/search';
 import type { PersonResult, ToolResult, FAQResult, ResourceResult, DiscussionResult, LOPSessionResult } from '../../lib/search/types';
 
 interface CafeFinderBarProps {
@@ -114,6 +114,11 @@ export const CafeFinderBar: React.FC<CafeFinderBarProps> = ({
 
     // Handle result click
     const handleResultClick = (result: PersonResult | ToolResult | FAQResult | ResourceResult | DiscussionResult | LOPSessionResult) => {
+        // Feed the click back into ranking (position within the dropdown)
+        const position = allResults.findIndex(r => r.id === result.id && r.type === result.type) + 1;
+        useRankingFeedback.getState().recordClick(localQuery, result.type, result.id, position || 1);
+        beginDwell(result.type, result.id);
+
         addRecentSearch(localQuery);
         onResultClick?.(result);
         handleClear();
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Bookmark, BookmarkCheck, Check, X } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { useSavedSearchStore } from '../../stores/savedSearchStore';
+
+interface SaveSearchButtonProps {
+    query: string;
+    className?: string;
+}
+
+/**
+ * SaveSearchButton - Name and save the current query (operators included)
+ * so it is re-run and alerts on new matches
+ */
+export const SaveSearchButton: React.FC<SaveSearchButtonProps> = ({ query, className }) => {
+    const { saveSearch, isSaved } = useSavedSearchStore();
+    const [isNaming, setIsNaming] = useState(false);
+    const [name, setName] = useState('');
+
+    if (!query.trim()) return null;
+
+    if (isSaved(query)) {
+        return (
+            <span className={cn('inline-flex items-center gap-1.5 text-sm font-medium text-cafe-600', className)}>
+                <BookmarkCheck className="w-4 h-4" />
+                Saved search
+            </span>
+        );
+    }
+
+    const handleSave = () => {
+        saveSearch(name, query);
+        setIsNaming(false);
+        setName('');
+    };
+
+    if (!isNaming) {
+        return (
+            <button
+                onClick={() => {
+                    setName(query);
+                    setIsNaming(true);
+                }}
+                className={cn(
+                    'inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-gray-600 border border-gray-200 rounded-lg hover:border-cafe-300 hover:text-cafe-600 transition-colors',
+                    className
+                )}
+            >
+                <Bookmark className="w-4 h-4" />
+                Save search
+            </button>
+        );
+    }
+
+    return (
+        <div className={cn('inline-flex items-center gap-1.5', className)}>
+            <input
+                autoFocus
+                value={name}
+                onChange={e => setName(e.target.value)}
+                onKeyDown={e => {
+                    if (e.key === 'Enter') handleSave();
+                    if (e.key === 'Escape') setIsNaming(false);
+                }}
+                placeholder="Name this search"
+                aria-label="Saved search name"
+                className="w-56 px-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-cafe-300"
+            />
+            <button
+                onClick={handleSave}
+                className="p-1.5 text-white bg-cafe-500 hover:bg-cafe-600 rounded-lg transition-colors"
+                aria-label="Save search"
+            >
+                <Check className="w-4 h-4" />
+            </button>
+            <button
+                onClick={() => setIsNaming(false)}
+                className="p-1.5 text-gray-400 hover:text-gray-600 rounded-lg transition-colors"
+                aria-label="Cancel"
+            >
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
@@ -3,3 +3,4 @@
  */
 
 export { CafeFinderBar } from './CafeFinderBar';
+export { SaveSearchButton } from './SaveSearchButton';
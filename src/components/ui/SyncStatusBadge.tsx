@@ -0,0 +1,61 @@
+import React from 'react';
+import { CloudOff, Loader2, AlertCircle, RotateCw } from 'lucide-react';
+import { Badge } from './Badge';
+import { useOutboxStore } from '../../stores/outboxStore';
+
+interface SyncStatusBadgeProps {
+    entityType: string;
+    entityId: string;
+    className?: string;
+}
+
+/**
+ * Shows whether a locally created item is still waiting to reach the server.
+ * Renders nothing once every queued change for the entity has synced.
+ */
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ entityType, entityId, className }) => {
+    const status = useOutboxStore(state => state.getEntityStatus(entityType, entityId));
+    const failedEntry = useOutboxStore(state =>
+        state.entries.find(e => e.entityType === entityType && e.entityId === entityId && e.status === 'failed')
+    );
+    const retry = useOutboxStore(state => state.retry);
+
+    if (!status) return null;
+
+    if (status === 'failed' && failedEntry) {
+        return (
+            <Badge
+                variant="danger"
+                className={className}
+                icon={<AlertCircle className="w-3 h-3" />}
+                title={failedEntry.lastError}
+            >
+                Not synced
+                <button
+                    type="button"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        retry(failedEntry.idempotencyKey);
+                    }}
+                    className="ml-1 inline-flex items-center gap-0.5 underline hover:no-underline"
+                    aria-label="Retry sync"
+                >
+                    <RotateCw className="w-3 h-3" />
+                    Retry
+                </button>
+            </Badge>
+        );
+    }
+
+    return (
+        <Badge
+            variant="outline"
+            className={className}
+            icon={status === 'syncing'
+                ? <Loader2 className="w-3 h-3 animate-spin" />
+                : <CloudOff className="w-3 h-3" />}
+        >
+            {status === 'syncing' ? 'Syncing…' : 'Pending sync'}
+        </Badge>
+    );
+};
@@ -11,6 +11,7 @@ export { EmptyState } from './EmptyState';
 export { ToastProvider, useToast } from './Toast';
 export { CommandPalette } from './CommandPalette';
 export { MarkdownRenderer } from './MarkdownRenderer';
+export { SyncStatusBadge } from './SyncStatusBadge';
 
 // Accessibility Components
 export { VisuallyHidden, SkipLink, LiveRegion, Focusable, ariaHelpers } from './Accessibility';
@@ -0,0 +1,67 @@
+import type { LabeledQuery } from '../lib/search/evaluation';
+
+/**
+ * Search Relevance Judgments
+ *
+ * Hand-labeled queries for offline ranking evaluation (NDCG/MRR).
+ * Keys are `${type}:${id}` from the mock data; grades are
+ * 3 = perfect, 2 = good, 1 = fair. Unlisted results count as irrelevant.
+ */
+export const searchJudgments: LabeledQuery[] = [
+    {
+        query: 'jira access',
+        judgments: { 'faq:faq1': 3, 'resource:r1': 3, 'person:p1': 2 },
+    },
+    {
+        query: 'confluence',
+        judgments: { 'resource:r2': 3, 'faq:faq2': 3, 'person:p1': 1 },
+    },
+    {
+        query: 'smartsheet',
+        judgments: { 'resource:r3': 3, 'faq:faq3': 3, 'resource:r12': 2, 'person:p4': 1 },
+    },
+    {
+        query: 'prd template',
+        judgments: { 'resource:r4': 3, 'faq:faq5': 3, 'resource:r5': 1 },
+    },
+    {
+        query: 'release process',
+        judgments: { 'resource:r10': 3, 'faq:faq4': 3, 'person:p4': 2 },
+    },
+    {
+        query: 'coordination of benefits',
+        judgments: { 'faq:faq6': 3, 'resource:r9': 3, 'person:p5': 2 },
+    },
+    {
+        query: 'user stories',
+        judgments: { 'resource:r6': 3, 'person:p3': 2, 'resource:r22': 1 },
+    },
+    {
+        query: 'roadmap',
+        judgments: { 'resource:r12': 3, 'person:p2': 2 },
+    },
+    {
+        query: 'sql',
+        judgments: { 'person:p7': 3, 'resource:r24': 1, 'resource:r20': 1 },
+    },
+    {
+        query: 'figma design systems',
+        judgments: { 'person:p8': 3 },
+    },
+    {
+        query: 'hipaa',
+        judgments: { 'resource:r23': 3, 'person:p5': 1 },
+    },
+    {
+        query: 'new pm onboarding',
+        judgments: { 'resource:r21': 3, 'person:p10': 2, 'resource:r7': 1 },
+    },
+    {
+        query: 'stakeholder',
+        judgments: { 'resource:r25': 3, 'resource:r14': 2 },
+    },
+    {
+        query: 'sarah',
+        judgments: { 'person:p2': 3 },
+    },
+];
@@ -5,11 +5,15 @@
  * - Points management (award/remove)
  * - Badge management (manual awards)
  * - Quick stats overview
+ * - Search analytics (zero-result and low-CTR queries)
+ * - Search dictionary (synonyms and intent patterns)
+ * - Search ranking weights with offline evaluation
+ * - Pulse API provider quotas and health
  */
 
 import React from 'react';
 import { Shield, Award, TrendingUp, Users, Gift } from 'lucide-react';
-import { AdminPointsPanel, AdminBadgePanel } from '../../components/admin';
+import { AdminPointsPanel, AdminBadgePanel, SearchAnalyticsPanel, SynonymManagerPanel, RankingEvaluationPanel, ProviderHealthPanel } from '../../components/admin';
 import { useBadgeStore } from '../../stores/badgeStore';
 import { usePointsStore } from '../../stores/pointsStore';
 
@@ -111,6 +115,26 @@ export const AdminPage: React.FC = () => {
                 />
             </section>
 
+            {/* Search Analytics */}
+            <section>
+                <SearchAnalyticsPanel />
+            </section>
+
+            {/* Search Dictionary */}
+            <section>
+                <SynonymManagerPanel />
+            </section>
+
+            {/* Search Ranking */}
+            <section>
+                <RankingEvaluationPanel />
+            </section>
+
+            {/* Pulse Providers */}
+            <section>
+                <ProviderHealthPanel />
+            </section>
+
             {/* Recent Activity */}
             <section>
                 <div className="bg-white rounded-xl border border-gray-200 p-5">
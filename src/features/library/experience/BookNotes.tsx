@@ -16,6 +16,8 @@ import {
 } from 'lucide-react';
 import { useLibraryStore } from '../libraryStore';
 import { cn } from '../../../lib/utils';
+import { useOutboxStore } from '../../../stores/outboxStore';
+import { SyncStatusBadge } from '../../../components/ui/SyncStatusBadge';
 
 interface Note {
     id: string;
@@ -128,6 +130,12 @@ export const BookNotes: React.FC<BookNotesProps> = ({
         };
 
         setNotes(prev => [note, ...prev]);
+        useOutboxStore.getState().enqueue({
+            type: 'note.create',
+            entityType: 'note',
+            entityId: note.id,
+            payload: note,
+        });
         setNewNote({ chapter: '', content: '', tags: [], highlightId: undefined });
         setIsAddingNote(false);
 
@@ -139,7 +147,13 @@ export const BookNotes: React.FC<BookNotesProps> = ({
 
     const deleteNote = useCallback((noteId: string) => {
         setNotes(prev => prev.filter(n => n.id !== noteId));
-    }, []);
+        useOutboxStore.getState().enqueue({
+            type: 'note.delete',
+            entityType: 'note',
+            entityId: noteId,
+            payload: { id: noteId, bookId },
+        });
+    }, [bookId]);
 
     const toggleTag = (tag: string) => {
         setNewNote(prev => ({
@@ -355,9 +369,12 @@ export const BookNotes: React.FC<BookNotesProps> = ({
                                                         </div>
                                                     )}
 
-                                                    <p className="text-[10px] text-gray-400 mt-2">
-                                                        {new Date(note.createdAt).toLocaleDateString()}
-                                                    </p>
+                                                    <div className="flex items-center gap-2 mt-2">
+                                                        <p className="text-[10px] text-gray-400">
+                                                            {new Date(note.createdAt).toLocaleDateString()}
+                                                        </p>
+                                                        <SyncStatusBadge entityType="note" entityId={note.id} />
+                                                    </div>
                                                 </div>
 
                                                 <button
@@ -7,6 +7,8 @@ import {
     ChevronRight,
     Target,
     Users,
+    BookmarkPlus,
+    BookmarkCheck,
 } from 'lucide-react';
 import { Card } from '../../components/ui/Card';
 import { Badge } from '../../components/ui/Badge';
@@ -30,6 +32,9 @@ export const LOPLearningPath: React.FC<LOPLearningPathProps> = ({ slug, onNaviga
         getSessionById,
         getPathProgress,
         isSessionCompleted,
+        isEnrolledInPath,
+        enrollInPath,
+        unenrollFromPath,
     } = useLOPStore();
 
     const path = getPathBySlug(slug);
@@ -47,6 +52,7 @@ export const LOPLearningPath: React.FC<LOPLearningPathProps> = ({ slug, onNaviga
 
     const sessions = path.sessionIds.map(id => getSessionById(id)).filter(Boolean);
     const progress = getPathProgress(path.id);
+    const isEnrolled = isEnrolledInPath(path.id);
     const hours = Math.floor(path.totalDuration / 60);
     const mins = path.totalDuration % 60;
 
@@ -71,6 +77,18 @@ export const LOPLearningPath: React.FC<LOPLearningPathProps> = ({ slug, onNaviga
                     <ArrowLeft className="w-4 h-4" />
                     <span>LOP Home</span>
                 </button>
+                <Button
+                    variant={isEnrolled ? 'outline' : 'primary'}
+                    size="sm"
+                    onClick={() => isEnrolled ? unenrollFromPath(path.id) : enrollInPath(path.id)}
+                    className={cn(!isEnrolled && 'bg-rose-500 hover:bg-rose-600')}
+                >
+                    {isEnrolled ? (
+                        <><BookmarkCheck className="w-4 h-4 mr-2" /> Enrolled</>
+                    ) : (
+                        <><BookmarkPlus className="w-4 h-4 mr-2" /> Enroll</>
+                    )}
+                </Button>
             </header>
 
             {/* Path Hero */}
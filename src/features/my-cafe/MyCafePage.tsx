@@ -1,5 +1,5 @@
 import React from 'react';
-import { Heart, Star, Trash2, Clock, BookOpen, Users, HelpCircle } from 'lucide-react';
+import { Heart, Star, Trash2, Clock, BookOpen, Users, HelpCircle, Bookmark } from 'lucide-react';
 import { Badge } from '../../components/ui/Badge';
 import { Button } from '../../components/ui/Button';
 import { EmptyState } from '../../components/ui/EmptyState';
@@ -8,15 +8,17 @@ import { FAQCard } from '../../components/cards/FAQCard';
 import { PersonCard } from '../../components/cards/PersonCard';
 import { cn } from '../../lib/utils';
 import { useFavoritesStore } from '../../stores';
+import { useSavedSearchStore } from '../../stores/savedSearchStore';
+import { SavedSearchList } from './SavedSearchList';
 import { mockResources, mockFAQs, mockPeople } from '../../data/mockData';
 
 interface MyCafePageProps {
-    onNavigate?: (section: string) => void;
+    onNavigate?: (section: string, params?: Record<string, string>) => void;
 }
 
-type TabType = 'favorites' | 'recent' | 'suggested';
+type TabType = 'favorites' | 'saved-searches' | 'recent' | 'suggested';
 
-export const MyCafePage: React.FC<MyCafePageProps> = () => {
+export const MyCafePage: React.FC<MyCafePageProps> = ({ onNavigate }) => {
     const [activeTab, setActiveTab] = React.useState<TabType>('favorites');
 
     const {
@@ -25,6 +27,7 @@ export const MyCafePage: React.FC<MyCafePageProps> = () => {
         favoritePersonIds,
         clearAllFavorites,
     } = useFavoritesStore();
+    const savedSearchCount = useSavedSearchStore(state => state.savedSearches.length);
 
     // Get favorite items
     const favoriteResources = mockResources.filter(r => favoriteResourceIds.includes(r.id));
@@ -35,6 +38,7 @@ export const MyCafePage: React.FC<MyCafePageProps> = () => {
 
     const tabs = [
         { id: 'favorites' as TabType, label: 'Favorites', icon: Heart, count: totalFavorites },
+        { id: 'saved-searches' as TabType, label: 'Saved Searches', icon: Bookmark, count: savedSearchCount },
         { id: 'recent' as TabType, label: 'Recent', icon: Clock, count: 0 },
         { id: 'suggested' as TabType, label: 'For You', icon: Star, count: 5 },
     ];
@@ -148,6 +152,8 @@ export const MyCafePage: React.FC<MyCafePageProps> = () => {
         switch (activeTab) {
             case 'favorites':
                 return renderFavorites();
+            case 'saved-searches':
+                return <SavedSearchList onOpenSearch={query => onNavigate?.('search', { query })} />;
             case 'recent':
                 return renderRecent();
             case 'suggested':
@@ -164,7 +170,7 @@ export const MyCafePage: React.FC<MyCafePageProps> = () => {
                     <h1 className="text-2xl font-bold text-gray-900">My Café</h1>
                 </div>
                 <p className="text-gray-600">
-                    Your personalized hub for favorites, recent activity, and recommendations.
+                    Your personalized hub for favorites, saved searches, recent activity, and recommendations.
                 </p>
             </section>
 
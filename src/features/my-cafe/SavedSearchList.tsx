@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Bookmark, Pencil, Search, Trash2 } from 'lucide-react';
+import { Badge } from '../../components/ui/Badge';
+import { EmptyState } from '../../components/ui/EmptyState';
+import { cn, formatDistanceToNow } from '../../lib/utils';
+import { useSavedSearchStore } from '../../stores/savedSearchStore';
+import type { SavedSearch } from '../../lib/search/types';
+
+interface SavedSearchListProps {
+    onOpenSearch: (query: string) => void;
+}
+
+/**
+ * SavedSearchList - Manage saved searches in My Café
+ * Open, rename, mute alerts or delete each saved search
+ */
+export const SavedSearchList: React.FC<SavedSearchListProps> = ({ onOpenSearch }) => {
+    const { savedSearches, renameSavedSearch, removeSavedSearch, toggleAlerts, markSeen } = useSavedSearchStore();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    if (savedSearches.length === 0) {
+        return (
+            <EmptyState
+                type="no-data"
+                title="No saved searches"
+                description="Save a search from the results page to get notified when new matches appear."
+                icon={<Bookmark className="w-12 h-12" />}
+            />
+        );
+    }
+
+    const handleOpen = (search: SavedSearch) => {
+        markSeen(search.id);
+        onOpenSearch(search.query);
+    };
+
+    const startEditing = (search: SavedSearch) => {
+        setEditingId(search.id);
+        setDraftName(search.name);
+    };
+
+    const commitName = () => {
+        if (editingId) renameSavedSearch(editingId, draftName);
+        setEditingId(null);
+    };
+
+    return (
+        <ul className="space-y-3">
+            {savedSearches.map(search => (
+                <li
+                    key={search.id}
+                    className="flex items-center gap-4 p-4 bg-white rounded-xl border border-gray-100 shadow-sm"
+                >
+                    <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                            {editingId === search.id ? (
+                                <input
+                                    autoFocus
+                                    value={draftName}
+                                    onChange={e => setDraftName(e.target.value)}
+                                    onBlur={commitName}
+                                    onKeyDown={e => {
+                                        if (e.key === 'Enter') commitName();
+                                        if (e.key === 'Escape') setEditingId(null);
+                                    }}
+                                    aria-label="Saved search name"
+                                    className="px-2 py-1 text-sm font-semibold border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-cafe-300"
+                                />
+                            ) : (
+                                <button
+                                    onClick={() => handleOpen(search)}
+                                    className="font-semibold text-gray-900 hover:text-cafe-600 truncate text-left"
+                                >
+                                    {search.name}
+                                </button>
+                            )}
+                            {search.unseenKeys.length > 0 && (
+                                <Badge size="sm">{search.unseenKeys.length} new</Badge>
+                            )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1 truncate">
+                            <code className="font-mono">{search.query}</code>
+                            <span className="mx-1.5">·</span>
+                            Checked {formatDistanceToNow(new Date(search.lastRunAt))}
+                        </p>
+                    </div>
+
+                    <div className="flex items-center gap-1 shrink-0">
+                        <button
+                            onClick={() => handleOpen(search)}
+                            className="p-2 text-gray-400 hover:text-cafe-600 rounded-lg transition-colors"
+                            aria-label={`Run ${search.name}`}
+                        >
+                            <Search className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => toggleAlerts(search.id)}
+                            className={cn(
+                                'p-2 rounded-lg transition-colors',
+                                search.alertsEnabled ? 'text-cafe-600 hover:text-cafe-700' : 'text-gray-300 hover:text-gray-500'
+                            )}
+                            aria-label={search.alertsEnabled ? 'Mute alerts' : 'Enable alerts'}
+                            title={search.alertsEnabled ? 'Alerts on' : 'Alerts off'}
+                        >
+                            {search.alertsEnabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                        </button>
+                        <button
+                            onClick={() => startEditing(search)}
+                            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-colors"
+                            aria-label={`Rename ${search.name}`}
+                        >
+                            <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => removeSavedSearch(search.id)}
+                            className="p-2 text-gray-400 hover:text-red-500 rounded-lg transition-colors"
+                            aria-label={`Delete ${search.name}`}
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                </li>
+            ))}
+        </ul>
+    );
+};
@@ -1,73 +1,107 @@
 import React, { useState, useMemo } from 'react';
-import { Search } from 'lucide-react';
+import { Search, X, ChevronRight, Undo2, PartyPopper } from 'lucide-react';
 import { Badge, Pill } from '../../components/ui/Badge';
 import { EmptyState } from '../../components/ui/EmptyState';
 import { ResourceCardSkeleton, PersonCardSkeleton, FAQCardSkeleton } from '../../components/ui/Skeleton';
 import { ResourceCard } from '../../components/cards/ResourceCard';
 import { FAQCard } from '../../components/cards/FAQCard';
 import { PersonCard } from '../../components/cards/PersonCard';
-import { searchResources, searchFAQs, searchPeople } from '../../data/mockData';
+import { SaveSearchButton } from '../../components/search/SaveSearchButton';
+import { extractQueryOperators, removeQueryFilter, describeQueryFilter, searchIndex, useRankingFeedback, beginDwell, type QueryFilter, type SearchResponse, type SearchResultType, type SearchTurn } from '../../lib/search';
 import { useSearchStore } from '../../stores';
+import { useSearchAnalyticsStore } from '../../stores/searchAnalyticsStore';
+import { useSearchSessionStore } from '../../stores/searchSessionStore';
+import { useAnalytics } from '../../hooks/useAnalytics';
+import { cn } from '../../lib/utils';
 
 interface SearchResultsPageProps {
     initialQuery?: string;
     onNavigate?: (section: string) => void;
 }
 
-type ResultTab = 'all' | 'resources' | 'faqs' | 'people';
+type ResultTab = 'all' | 'resources' | 'faqs' | 'people' | 'toasts';
 
 const tabs: { id: ResultTab; label: string }[] = [
     { id: 'all', label: 'All' },
     { id: 'resources', label: 'Resources' },
     { id: 'faqs', label: 'FAQs' },
     { id: 'people', label: 'People' },
+    { id: 'toasts', label: 'Toasts' },
 ];
 
+/**
+ * What the page shows for a search turn: the resources, FAQs and people in
+ * its response, resolved to the indexed documents the cards render, plus
+ * the public toasts that matched
+ */
+function pageResults(response: SearchResponse) {
+    const documentsOf = <K extends 'resources' | 'faqs' | 'people'>(collection: K, hits: Array<{ id: string }>) =>
+        hits.flatMap(hit => {
+            const doc = searchIndex.getDocument(collection, hit.id);
+            return doc ? [doc] : [];
+        });
+
+    return {
+        resources: documentsOf('resources', response.results.resources),
+        faqs: documentsOf('faqs', response.results.faqs),
+        people: documentsOf('people', response.results.people),
+        toasts: response.results.toasts,
+    };
+}
+
 export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
     initialQuery = '',
+    onNavigate,
 }) => {
-    const [query, setQuery] = useState(initialQuery);
     const [activeTab, setActiveTab] = useState<ResultTab>('all');
     const [isLoading, setIsLoading] = useState(false);
     const { addRecentSearch, recentSearches } = useSearchStore();
+    const { recordSearch, recordClick } = useSearchAnalyticsStore();
+    const { trackSearch } = useAnalytics();
+    const { turns, ask, refine, undo, rewindTo, reset } = useSearchSessionStore();
+
+    // The page shows the latest turn of the search conversation
+    const currentTurn = turns[turns.length - 1];
+    const query = currentTurn?.query ?? '';
 
-    // Sync initialQuery to local state on prop change
-    // Using a ref to track if this is the first mount
+    // Tracks the first mount, when the query may be a turn we already ran
     const isInitialMount = React.useRef(true);
 
+    // Log a submitted search with the number of results the page shows for it
+    const recordTurn = React.useCallback((turn: SearchTurn) => {
+        const shown = pageResults(turn.response);
+        const resultCount = shown.resources.length + shown.faqs.length + shown.people.length + shown.toasts.length;
+        trackSearch(turn.query, resultCount);
+        recordSearch({ query: turn.query, resultCount, intent: turn.response.query.intent.primary });
+    }, [trackSearch, recordSearch]);
+
+    // Resolve each submitted query against the search conversation so far,
+    // so follow-ups like "only the ones from last quarter" refine the last one
     React.useEffect(() => {
-        if (isInitialMount.current) {
-            isInitialMount.current = false;
-            return;
-        }
-        if (initialQuery && initialQuery !== query) {
-            // Wrap in startTransition to avoid cascading render warning
-            const handler = () => {
-                setQuery(initialQuery);
-                setIsLoading(true);
-                addRecentSearch(initialQuery);
-                setTimeout(() => setIsLoading(false), 300);
-            };
-            handler();
-        }
-    }, [initialQuery]); // eslint-disable-line react-hooks/exhaustive-deps
+        const firstMount = isInitialMount.current;
+        isInitialMount.current = false;
+        if (!initialQuery) return;
 
-    const [activeSource, setActiveSource] = useState<string>('all');
+        const sessionTurns = useSearchSessionStore.getState().turns;
+        const current = sessionTurns[sessionTurns.length - 1];
+        // Coming back to the page: keep the conversation where it was
+        if (firstMount && current?.input === initialQuery) return;
 
-    // Perform search
-    const rawResults = useMemo(() => {
-        if (!query.trim()) return null;
+        recordTurn(ask(initialQuery));
+        if (firstMount) return;
 
-        const resources = searchResources(query);
-        const faqs = searchFAQs(query);
-        const people = searchPeople(query);
+        // New query: brief loading state and remember it in recent searches
+        setIsLoading(true);
+        addRecentSearch(initialQuery);
+        setTimeout(() => setIsLoading(false), 300);
+    }, [initialQuery, ask, addRecentSearch, recordTurn]);
 
-        return {
-            resources,
-            faqs,
-            people,
-        };
-    }, [query]);
+    const [activeSource, setActiveSource] = useState<string>('all');
+
+    // Query operators (type:, tag:, -term, ...) shown as removable chips
+    const { filters } = useMemo(() => extractQueryOperators(query), [query]);
+
+    const rawResults = useMemo(() => (currentTurn ? pageResults(currentTurn.response) : null), [currentTurn]);
 
     // Extract available sources from results
     const sources = useMemo(() => {
@@ -79,6 +113,7 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
         // Map other types to generic sources if needed, or leave them as is
         if (rawResults.faqs.length > 0) sourceSet.add('faqs');
         if (rawResults.people.length > 0) sourceSet.add('people');
+        if (rawResults.toasts.length > 0) sourceSet.add('toasts');
 
         return Array.from(sourceSet).sort();
     }, [rawResults]);
@@ -90,20 +125,28 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
         let filteredResources = rawResults.resources;
         let filteredFaqs = rawResults.faqs;
         let filteredPeople = rawResults.people;
+        let filteredToasts = rawResults.toasts;
 
         if (activeSource !== 'all') {
             if (activeSource === 'people') {
                 filteredResources = [];
                 filteredFaqs = [];
+                filteredToasts = [];
             } else if (activeSource === 'faqs') {
                 filteredResources = [];
                 filteredPeople = [];
+                filteredToasts = [];
+            } else if (activeSource === 'toasts') {
+                filteredResources = [];
+                filteredFaqs = [];
+                filteredPeople = [];
             } else {
                 // Filter resources by category
                 filteredResources = filteredResources.filter(r => r.category === activeSource);
                 // Hide others if filter is specific to a resource category
                 filteredFaqs = [];
                 filteredPeople = [];
+                filteredToasts = [];
             }
         }
 
@@ -111,24 +154,51 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
             resources: filteredResources,
             faqs: filteredFaqs,
             people: filteredPeople,
-            totalCount: filteredResources.length + filteredFaqs.length + filteredPeople.length,
+            toasts: filteredToasts,
+            totalCount: filteredResources.length + filteredFaqs.length + filteredPeople.length + filteredToasts.length,
         };
     }, [rawResults, activeSource]);
 
+    // Positions follow the rendered order: resources, FAQs, people, then toasts
+    const trackResultClick = (resultType: SearchResultType, resultId: string, index: number) => {
+        if (!results) return;
+        const shown = (tab: ResultTab, count: number, cap: number) =>
+            activeTab === 'all' ? Math.min(count, cap) : activeTab === tab ? count : 0;
+        const resourcesShown = shown('resources', results.resources.length, 6);
+        const faqsShown = shown('faqs', results.faqs.length, 3);
+        const peopleShown = shown('people', results.people.length, 4);
+        const offset = resultType === 'resource' ? 0
+            : resultType === 'faq' ? resourcesShown
+                : resultType === 'person' ? resourcesShown + faqsShown
+                    : resourcesShown + faqsShown + peopleShown;
+        const position = offset + index + 1;
+        recordClick({ resultId, resultType, position });
+        useRankingFeedback.getState().recordClick(query, resultType, resultId, position);
+        beginDwell(resultType, resultId);
+    };
+
     const handleRecentSearch = (searchQuery: string) => {
         setIsLoading(true);
-        setQuery(searchQuery);
+        reset();
+        recordTurn(ask(searchQuery));
         setActiveSource('all');
         addRecentSearch(searchQuery);
         setTimeout(() => setIsLoading(false), 300);
     };
 
+    // Removing a chip is a refinement too, so it shows in the breadcrumb and can be undone
+    const handleRemoveFilter = (filter: QueryFilter) => {
+        setActiveSource('all');
+        recordTurn(refine(removeQueryFilter(query, filter), `without ${describeQueryFilter(filter)}`));
+    };
+
     const getTabCount = (tab: ResultTab) => {
         if (!results) return 0;
         switch (tab) {
             case 'resources': return results.resources.length;
             case 'faqs': return results.faqs.length;
             case 'people': return results.people.length;
+            case 'toasts': return results.toasts.length;
             case 'all': return results.totalCount;
         }
     };
@@ -140,6 +210,7 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
         'tools': 'Tools',
         'faqs': 'FAQs',
         'people': 'People',
+        'toasts': 'Toasts',
     };
 
     const renderResults = () => {
@@ -202,7 +273,7 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
                     description={`We couldn't find anything matching "${query}". Try different keywords or browse categories.`}
                     action={{
                         label: 'Clear search',
-                        onClick: () => setQuery(''),
+                        onClick: reset,
                     }}
                 />
             );
@@ -218,8 +289,10 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
                             <Badge size="sm">{results.resources.length}</Badge>
                         </h2>
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                            {results.resources.slice(0, activeTab === 'all' ? 6 : undefined).map((resource) => (
-                                <ResourceCard key={resource.id} resource={resource} />
+                            {results.resources.slice(0, activeTab === 'all' ? 6 : undefined).map((resource, index) => (
+                                <div key={resource.id} onClickCapture={() => trackResultClick('resource', resource.id, index)}>
+                                    <ResourceCard resource={resource} />
+                                </div>
                             ))}
                         </div>
                         {activeTab === 'all' && results.resources.length > 6 && (
@@ -241,8 +314,10 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
                             <Badge size="sm">{results.faqs.length}</Badge>
                         </h2>
                         <div className="space-y-3">
-                            {results.faqs.slice(0, activeTab === 'all' ? 3 : undefined).map((faq) => (
-                                <FAQCard key={faq.id} faq={faq} />
+                            {results.faqs.slice(0, activeTab === 'all' ? 3 : undefined).map((faq, index) => (
+                                <div key={faq.id} onClickCapture={() => trackResultClick('faq', faq.id, index)}>
+                                    <FAQCard faq={faq} />
+                                </div>
                             ))}
                         </div>
                         {activeTab === 'all' && results.faqs.length > 3 && (
@@ -264,8 +339,12 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
                             <Badge size="sm">{results.people.length}</Badge>
                         </h2>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            {results.people.slice(0, activeTab === 'all' ? 4 : undefined).map((person) => (
-                                <PersonCard key={person.id} person={person} />
+                            {results.people.slice(0, activeTab === 'all' ? 4 : undefined).map((person, index) => (
+                                <PersonCard
+                                    key={person.id}
+                                    person={person}
+                                    onContact={() => trackResultClick('person', person.id, index)}
+                                />
                             ))}
                         </div>
                         {activeTab === 'all' && results.people.length > 4 && (
@@ -278,6 +357,43 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
                         )}
                     </section>
                 )}
+
+                {/* Toasts */}
+                {(activeTab === 'all' || activeTab === 'toasts') && results.toasts.length > 0 && (
+                    <section>
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                            🎉 Toasts
+                            <Badge size="sm">{results.toasts.length}</Badge>
+                        </h2>
+                        <div className="space-y-3">
+                            {results.toasts.slice(0, activeTab === 'all' ? 3 : undefined).map((toast, index) => (
+                                <button
+                                    key={toast.id}
+                                    onClick={() => {
+                                        trackResultClick('toast', toast.id, index);
+                                        onNavigate?.('toast');
+                                    }}
+                                    className="w-full text-left p-4 bg-white border border-gray-200 rounded-xl hover:border-cafe-300 hover:shadow-sm transition-all"
+                                >
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <PartyPopper className="w-4 h-4 text-amber-500" />
+                                        <span className="font-medium text-gray-900">{toast.title}</span>
+                                        <Badge size="sm" className="ml-auto">{toast.value}</Badge>
+                                    </div>
+                                    <p className="text-sm text-gray-600 line-clamp-2">{toast.message}</p>
+                                </button>
+                            ))}
+                        </div>
+                        {activeTab === 'all' && results.toasts.length > 3 && (
+                            <button
+                                onClick={() => setActiveTab('toasts')}
+                                className="mt-4 text-cafe-600 hover:text-cafe-700 font-medium text-sm"
+                            >
+                                View all {results.toasts.length} toasts →
+                            </button>
+                        )}
+                    </section>
+                )}
             </div>
         );
     };
@@ -289,12 +405,69 @@ export const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
                 <div className="flex items-center gap-3 mb-2">
                     <span className="text-3xl">🔍</span>
                     <h1 className="text-2xl font-bold text-gray-900">Search Results</h1>
+                    <SaveSearchButton query={query} className="ml-auto" />
                 </div>
                 {query && (
                     <p className="text-gray-600">
                         Showing results for "<strong>{query}</strong>"
                     </p>
                 )}
+
+                {/* Refinement breadcrumb */}
+                {turns.length > 1 && (
+                    <nav aria-label="Search refinements" className="flex items-center gap-1 flex-wrap mt-3 text-sm">
+                        {turns.map((turn, index) => {
+                            const isCurrent = index === turns.length - 1;
+                            return (
+                                <React.Fragment key={turn.id}>
+                                    {index > 0 && <ChevronRight className="w-3.5 h-3.5 text-gray-300" />}
+                                    <button
+                                        onClick={() => rewindTo(turn.id)}
+                                        disabled={isCurrent}
+                                        title={turn.query}
+                                        className={cn(
+                                            'px-2 py-0.5 rounded-md transition-colors',
+                                            isCurrent
+                                                ? 'font-medium text-gray-900 bg-gray-100 cursor-default'
+                                                : 'text-cafe-600 hover:bg-cafe-50'
+                                        )}
+                                    >
+                                        {turn.label}
+                                    </button>
+                                </React.Fragment>
+                            );
+                        })}
+                        <button
+                            onClick={undo}
+                            className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 text-xs text-gray-500 hover:text-gray-700 rounded-md hover:bg-gray-100 transition-colors"
+                        >
+                            <Undo2 className="w-3.5 h-3.5" />
+                            Undo
+                        </button>
+                    </nav>
+                )}
+
+                {/* Active query operators */}
+                {filters.length > 0 && (
+                    <div className="flex items-center gap-2 flex-wrap mt-3">
+                        <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Filters:</span>
+                        {filters.map(filter => (
+                            <span
+                                key={filter.raw}
+                                className="inline-flex items-center gap-1 pl-3 pr-1.5 py-1 text-xs font-medium rounded-full bg-cafe-50 text-cafe-700 border border-cafe-200"
+                            >
+                                {describeQueryFilter(filter)}
+                                <button
+                                    onClick={() => handleRemoveFilter(filter)}
+                                    className="p-0.5 rounded-full hover:bg-cafe-100 transition-colors"
+                                    aria-label={`Remove filter ${describeQueryFilter(filter)}`}
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
             </section>
 
             {/* Results Header with Tabs */}
@@ -22,6 +22,7 @@ import {
     formatRelativeTime,
 } from '../../index';
 import type { ReactionType, Recognition } from '../../types';
+import { SyncStatusBadge } from '../../../../components/ui/SyncStatusBadge';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // REACTION DATA
@@ -285,6 +286,7 @@ export const RecognitionCard: React.FC<RecognitionCardProps> = memo(({
             >
                 {formatRelativeTime(recognition.createdAt)}
             </time>
+            <SyncStatusBadge entityType="recognition" entityId={recognition.id} />
 
             {/* Reactions bar */}
             <footer className="recognition-card__footer">
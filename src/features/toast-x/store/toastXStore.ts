@@ -16,6 +16,7 @@ import type {
     MilestoneBadge,
 } from '../types';
 import type { AntiGamingCheckResult } from '../constants';
+import { useOutboxStore, registerConflictResolver } from '../../../stores/outboxStore';
 import {
     CREDIT_VALUES,
     BADGES,
@@ -54,6 +55,10 @@ export interface ToastXStore extends RecognitionSlice, UserSlice, NotificationSl
         chainParentId?: string;
     }) => { success: boolean; error?: string; recognitionId?: string };
 
+    // Take back one of your own recognitions: credits, counts and notifications
+    // are reversed. Badges stay earned and the daily limit stays used.
+    retractRecognition: (recognitionId: string) => { success: boolean; error?: string };
+
     // Anti-gaming checks
     canRecognize: (recipientId: string, type: RecognitionType) => AntiGamingCheckResult;
     canRecognizeMultiple: (recipientIds: readonly string[], type: RecognitionType) => AntiGamingCheckResult;
@@ -160,6 +165,12 @@ export const useToastXStore = create<ToastXStore>()(
 
                     // Add to store
                     state.addRecognition(recognition);
+                    useOutboxStore.getState().enqueue({
+                        type: 'toast.create',
+                        entityType: 'recognition',
+                        entityId: recognition.id,
+                        payload: recognition,
+                    });
 
                     // Update giver stats
                     state.incrementRecognitionsGiven();
@@ -211,6 +222,63 @@ export const useToastXStore = create<ToastXStore>()(
                     return { success: true, recognitionId };
                 },
 
+                retractRecognition: (recognitionId) => {
+                    const state = get();
+                    const currentUser = state.getCurrentUser();
+                    const recognition = state.getRecognitionById(recognitionId);
+
+                    if (!currentUser || !recognition) {
+                        return { success: false, error: 'Recognition not found' };
+                    }
+                    if (recognition.giverId !== currentUser.id) {
+                        return { success: false, error: 'You can only retract recognitions you gave' };
+                    }
+
+                    state.deleteRecognition(recognitionId);
+                    useOutboxStore.getState().enqueue({
+                        type: 'toast.retract',
+                        entityType: 'recognition',
+                        entityId: recognitionId,
+                        payload: { id: recognitionId },
+                    });
+
+                    // Reverse exactly what createRecognition awarded
+                    const creditCalc = calculateCredits(
+                        recognition.type,
+                        recognition.expertAreas.length,
+                        !!recognition.award
+                    );
+
+                    state.addCredits(currentUser.id, -creditCalc.giverCredits, 'recognition_retracted');
+                    state.updateUser(currentUser.id, {
+                        recognitionsGiven: Math.max(0, currentUser.recognitionsGiven - 1),
+                    });
+
+                    recognition.recipientIds.forEach((id) => {
+                        state.addCredits(id, -creditCalc.recipientTotal, 'recognition_retracted');
+                        recognition.expertAreas.forEach((area) => {
+                            state.boostExpertArea(id, area.toLowerCase().replace(/\s+/g, '-'), area, -CREDIT_VALUES.EXPERT_AREA_BOOST);
+                        });
+
+                        const recipient = get().getUser(id);
+                        if (recipient) {
+                            state.updateUser(id, {
+                                recognitionsReceived: Math.max(0, recipient.recognitionsReceived - 1),
+                                valuesCounts: {
+                                    ...recipient.valuesCounts,
+                                    [recognition.value]: Math.max(0, (recipient.valuesCounts[recognition.value] || 0) - 1),
+                                },
+                            });
+                        }
+                    });
+
+                    state.notifications
+                        .filter((n) => n.recognitionId === recognitionId)
+                        .forEach((n) => state.deleteNotification(n.id));
+
+                    return { success: true };
+                },
+
                 // ───────────────────────────────────────────────────────────────
                 // ANTI-GAMING
                 // ───────────────────────────────────────────────────────────────
@@ -397,6 +465,13 @@ export const useToastXStore = create<ToastXStore>()(
     )
 );
 
+// Server wins on conflict: adopt the server's copy of the recognition
+registerConflictResolver('recognition', (serverVersion, entry) => {
+    const server = serverVersion as Partial<Recognition> | undefined;
+    if (!server) return;
+    useToastXStore.getState().updateRecognition(entry.entityId, server);
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPED SELECTORS (for use with shallow comparison)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,48 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Scheduled Digest Delivery
+// Builds the digest when its slot comes due and serves it to the Daily Brew
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { useEffect } from 'react';
+import { usePulseStore } from '../lib/pulse/usePulseStore';
+import { getPreferences, isDigestDue, markDigestDelivered } from '../lib/pulse/notifications';
+import { buildScheduledDigest, digestEmailSubject } from '../lib/pulse/digest';
+import { useBrewStore } from '../stores/brewStore';
+
+const DUE_CHECK_MS = 60 * 1000;
+
+export function useDigestDelivery() {
+    useEffect(() => {
+        let delivering = false;
+
+        const deliverIfDue = async () => {
+            const schedule = getPreferences().digestSchedule;
+            if (delivering || !isDigestDue(schedule)) return;
+            delivering = true;
+
+            try {
+                const now = new Date();
+                const digest = await buildScheduledDigest(schedule, usePulseStore.getState().signals, now);
+                markDigestDelivered(digest.range, now);
+                useBrewStore.getState().addBrew({
+                    id: `digest:${digest.range.end}`,
+                    title: digestEmailSubject(digest),
+                    message: `${digest.personaName} digest: ${digest.storyCount} stories from ${digest.signalCount} signals`,
+                    source: 'pulse',
+                    flavorNotes: ['digest', digest.personaId],
+                    timestamp: now.getTime(),
+                    link: '/pulse',
+                    scoreOverride: 70,
+                });
+            } catch (error) {
+                console.warn('[PulseDigest] Scheduled delivery failed:', error);
+            } finally {
+                delivering = false;
+            }
+        };
+
+        void deliverIfDue();
+        const interval = setInterval(deliverIfDue, DUE_CHECK_MS);
+        return () => clearInterval(interval);
+    }, []);
+}
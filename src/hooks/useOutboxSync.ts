@@ -0,0 +1,25 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// OUTBOX — Sync Hook
+// Restores queued mutations on app load and replays them when back online
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { useEffect } from 'react';
+import { useOutboxStore } from '../stores/outboxStore';
+
+export function useOutboxSync() {
+    useEffect(() => {
+        const { hydrate, flush, setOnline } = useOutboxStore.getState();
+
+        hydrate().then(flush);
+
+        const handleOnline = () => setOnline(true);
+        const handleOffline = () => setOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+}
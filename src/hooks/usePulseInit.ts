@@ -6,11 +6,14 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { usePulseStore } from '../lib/pulse/usePulseStore';
 import { initDemoData } from '../lib/pulse/notifications';
+import { applyArchiveRetention } from '../lib/pulse/signalArchive';
 
 const REFRESH_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const FEED_POLL_CHECK_MS = 60 * 1000; // feeds carry their own interval; check for due ones every minute
 
 export function usePulseInit() {
     const fetchSignals = usePulseStore(state => state.fetchSignals);
+    const pollFeeds = usePulseStore(state => state.pollFeeds);
     const isLoading = usePulseStore(state => state.isLoading);
     const lastFetchedAt = usePulseStore(state => state.lastFetchedAt);
     const signals = usePulseStore(state => state.signals);
@@ -51,6 +54,7 @@ export function usePulseInit() {
                 console.log('[PULSE] Fetching live healthcare news...');
                 await fetchSignals(false); // Use cache if available
                 console.log('[PULSE] Initial fetch complete');
+                await applyArchiveRetention();
             } catch (error) {
                 console.warn('[PULSE] Initial fetch failed, using demo data:', error);
             }
@@ -76,6 +80,17 @@ export function usePulseInit() {
         };
     }, [fetchSignals]);
 
+    // Poll RSS/Atom/JSON feed subscriptions on their own schedule
+    useEffect(() => {
+        const interval = setInterval(() => {
+            pollFeeds().catch(err => {
+                console.warn('[PULSE] Feed poll failed:', err);
+            });
+        }, FEED_POLL_CHECK_MS);
+
+        return () => clearInterval(interval);
+    }, [pollFeeds]);
+
     // Manual refresh function
     const forceRefresh = useCallback(async () => {
         console.log('[PULSE] Force refresh requested');
@@ -0,0 +1,31 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// SAVED SEARCHES — Alert Hook
+// Re-runs saved searches whenever the search index changes
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { useEffect } from 'react';
+import { cafeFinder, searchIndex } from '../lib/search';
+import { useSavedSearchStore } from '../stores/savedSearchStore';
+
+/** Index changes arrive in bursts (a Pulse refresh upserts many signals) */
+const RERUN_DEBOUNCE_MS = 2000;
+
+export function useSavedSearchAlerts() {
+    useEffect(() => {
+        cafeFinder.initialize();
+
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        const unsubscribe = searchIndex.subscribe(() => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(() => {
+                timer = null;
+                useSavedSearchStore.getState().runSavedSearches();
+            }, RERUN_DEBOUNCE_MS);
+        });
+
+        return () => {
+            unsubscribe();
+            if (timer) clearTimeout(timer);
+        };
+    }, []);
+}
@@ -0,0 +1,283 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// ATTENTION POLICY — When anything in the app may interrupt the user
+// Quiet hours, focus mode, snooze, per-source overrides and critical breakthrough
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// Daily Brew, Pulse notifications and the notification bell all ask
+// `evaluateAttention` before surfacing something, so a setting made here
+// applies everywhere.
+
+import type { BrewSource } from '../daily-brew/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES & DEFAULTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Daily Brew sources double as the attention sources; Pulse alerts use 'pulse' */
+export type AttentionSource = BrewSource;
+
+export type AttentionPriority = 'critical' | 'high' | 'medium' | 'low';
+
+/** `follow` the schedule, `bypass` it entirely, or keep the source `mute`d */
+export type SourceOverride = 'follow' | 'bypass' | 'mute';
+
+export interface QuietSchedule {
+    enabled: boolean;
+    start: string;           // "22:00", wall clock in the policy timezone
+    end: string;             // "08:00"; earlier than start means overnight
+}
+
+export interface AttentionPolicy {
+    timezone: string;
+    weekday: QuietSchedule;
+    weekend: QuietSchedule;
+    criticalBreakthrough: boolean;
+    focusUntil: number | null;
+    snoozedUntil: number | null;
+    sourceOverrides: Partial<Record<AttentionSource, SourceOverride>>;
+    updatedAt: number;
+}
+
+export type AttentionReason = 'open' | 'bypass' | 'breakthrough' | 'muted' | 'snoozed' | 'focus' | 'quiet-hours';
+
+export interface AttentionDecision {
+    deliver: boolean;
+    reason: AttentionReason;
+    label: string;
+    /** When a held item may be tried again; null means "until settings change" */
+    holdUntil: number | null;
+}
+
+export const ATTENTION_SOURCES: AttentionSource[] = ['toast', 'pulse', 'lop', 'chat', 'library', 'badges', 'system'];
+
+const STORAGE_KEY = 'attention-policy';
+
+// Where quiet hours lived before this module; read once to seed the policy
+const LEGACY_BREW_KEY = 'daily-brew:user-taste';
+const LEGACY_PULSE_KEY = 'pulse_intelligent_prefs';
+
+export const getDefaultPolicy = (): AttentionPolicy => ({
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    weekday: { enabled: true, start: '22:00', end: '08:00' },
+    weekend: { enabled: true, start: '22:00', end: '08:00' },
+    criticalBreakthrough: true,
+    focusUntil: null,
+    snoozedUntil: null,
+    sourceOverrides: {},
+    updatedAt: 0,
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STORAGE
+// ─────────────────────────────────────────────────────────────────────────────
+
+function migrateLegacySettings(): AttentionPolicy {
+    const policy = getDefaultPolicy();
+    try {
+        const pulse = JSON.parse(localStorage.getItem(LEGACY_PULSE_KEY) ?? 'null');
+        if (pulse?.quietHours) {
+            const { enabled, start, end, timezone, allowCriticalOverride, weekendsOnly } = pulse.quietHours;
+            policy.weekend = { enabled: !!enabled, start, end };
+            policy.weekday = { enabled: !!enabled && !weekendsOnly, start, end };
+            if (timezone) policy.timezone = timezone;
+            policy.criticalBreakthrough = allowCriticalOverride !== false;
+        }
+        // Daily Brew quiet hours were opt-in, so they win when set
+        const brew = JSON.parse(localStorage.getItem(LEGACY_BREW_KEY) ?? 'null');
+        if (brew?.quietHours) {
+            const schedule = { enabled: true, start: brew.quietHours.start, end: brew.quietHours.end };
+            policy.weekday = schedule;
+            policy.weekend = schedule;
+        }
+    } catch {
+        // Ignore unreadable legacy settings
+    }
+    return policy;
+}
+
+export function loadAttentionPolicy(): AttentionPolicy {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as Partial<AttentionPolicy>;
+            const defaults = getDefaultPolicy();
+            return {
+                ...defaults,
+                ...parsed,
+                weekday: { ...defaults.weekday, ...parsed.weekday },
+                weekend: { ...defaults.weekend, ...parsed.weekend },
+                sourceOverrides: { ...parsed.sourceOverrides },
+            };
+        }
+    } catch {
+        // Fall through to defaults
+    }
+    return migrateLegacySettings();
+}
+
+export function saveAttentionPolicy(policy: AttentionPolicy): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...policy, updatedAt: Date.now() }));
+    } catch {
+        // Ignore quota errors
+    }
+}
+
+export function updateAttentionPolicy(updates: Partial<AttentionPolicy>): AttentionPolicy {
+    const policy = { ...loadAttentionPolicy(), ...updates };
+    saveAttentionPolicy(policy);
+    return policy;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// QUIET HOURS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const parseTime = (time: string): number => {
+    const [hours, minutes] = (time ?? '').split(':').map(n => parseInt(n, 10));
+    return Number.isNaN(hours) || Number.isNaN(minutes) ? 0 : hours * 60 + minutes;
+};
+
+/** Day of week (0 = Sunday) and minutes since midnight in `timezone` */
+export function zonedClock(timezone: string, at: number): { day: number; minutes: number } {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+        parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23',
+        }).formatToParts(new Date(at));
+    } catch {
+        // Unknown zone — fall back to the browser's clock
+        const d = new Date(at);
+        return { day: d.getDay(), minutes: d.getHours() * 60 + d.getMinutes() };
+    }
+    const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'));
+    return { day, minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10) };
+}
+
+const scheduleFor = (policy: AttentionPolicy, day: number) =>
+    day === 0 || day === 6 ? policy.weekend : policy.weekday;
+
+/**
+ * Minutes left in the current quiet window, or null outside one. An
+ * overnight window belongs to the evening it starts on, so Friday's weekday
+ * schedule still covers early Saturday morning.
+ */
+function quietMinutesLeft(policy: AttentionPolicy, at: number): number | null {
+    const { day, minutes } = zonedClock(policy.timezone, at);
+
+    const today = scheduleFor(policy, day);
+    if (today.enabled) {
+        const start = parseTime(today.start);
+        const end = parseTime(today.end);
+        if (start < end && minutes >= start && minutes < end) return end - minutes;
+        if (start > end && minutes >= start) return 24 * 60 - minutes + end;
+    }
+
+    const yesterday = scheduleFor(policy, (day + 6) % 7);
+    if (yesterday.enabled) {
+        const start = parseTime(yesterday.start);
+        const end = parseTime(yesterday.end);
+        if (start > end && minutes < end) return end - minutes;
+    }
+
+    return null;
+}
+
+export function isQuietHoursNow(policy = loadAttentionPolicy(), at = Date.now()): boolean {
+    return quietMinutesLeft(policy, at) !== null;
+}
+
+/** When the current quiet window ends, or null outside quiet hours */
+export function getQuietHoursEnd(policy = loadAttentionPolicy(), at = Date.now()): number | null {
+    const left = quietMinutesLeft(policy, at);
+    return left === null ? null : at + left * 60 * 1000;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// FOCUS & SNOOZE
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function startFocus(minutes: number): number {
+    const focusUntil = Date.now() + minutes * 60 * 1000;
+    updateAttentionPolicy({ focusUntil });
+    return focusUntil;
+}
+
+export function endFocus(): void {
+    updateAttentionPolicy({ focusUntil: null });
+}
+
+export function getFocusEnd(policy = loadAttentionPolicy(), at = Date.now()): number | null {
+    return policy.focusUntil !== null && policy.focusUntil > at ? policy.focusUntil : null;
+}
+
+export function snoozeAll(minutes: number): number {
+    const snoozedUntil = Date.now() + minutes * 60 * 1000;
+    updateAttentionPolicy({ snoozedUntil });
+    return snoozedUntil;
+}
+
+export function endSnooze(): void {
+    updateAttentionPolicy({ snoozedUntil: null });
+}
+
+export function getSnoozeEnd(policy = loadAttentionPolicy(), at = Date.now()): number | null {
+    return policy.snoozedUntil !== null && policy.snoozedUntil > at ? policy.snoozedUntil : null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DECISION
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * May something from `source` interrupt the user right now? Bypassed sources
+ * always get through and muted ones never do; everything else is held by
+ * snooze, focus or quiet hours (in that order), and critical items break
+ * through when allowed.
+ */
+export function evaluateAttention(
+    request: { source: AttentionSource; priority: AttentionPriority },
+    policy = loadAttentionPolicy(),
+    at = Date.now()
+): AttentionDecision {
+    const override = policy.sourceOverrides[request.source] ?? 'follow';
+    if (override === 'bypass') {
+        return { deliver: true, reason: 'bypass', label: 'Source always allowed', holdUntil: null };
+    }
+    if (override === 'mute') {
+        return { deliver: false, reason: 'muted', label: 'Source muted', holdUntil: null };
+    }
+
+    const hold = ((): AttentionDecision | null => {
+        const snoozeEnd = getSnoozeEnd(policy, at);
+        if (snoozeEnd) {
+            return { deliver: false, reason: 'snoozed', label: 'Notifications snoozed', holdUntil: snoozeEnd };
+        }
+        const focusEnd = getFocusEnd(policy, at);
+        if (focusEnd) {
+            return { deliver: false, reason: 'focus', label: 'Focus mode active', holdUntil: focusEnd };
+        }
+        const quietEnd = getQuietHoursEnd(policy, at);
+        if (quietEnd) {
+            return { deliver: false, reason: 'quiet-hours', label: 'Quiet hours active', holdUntil: quietEnd };
+        }
+        return null;
+    })();
+
+    if (!hold) return { deliver: true, reason: 'open', label: 'Normal delivery', holdUntil: null };
+
+    if (request.priority === 'critical' && policy.criticalBreakthrough) {
+        return { deliver: true, reason: 'breakthrough', label: `Critical — breaks through (${hold.label.toLowerCase()})`, holdUntil: null };
+    }
+    return hold;
+}
+
+/** What is holding non-critical items back right now, for status lines */
+export function getAttentionStatus(policy = loadAttentionPolicy(), at = Date.now()): AttentionDecision {
+    return evaluateAttention({ source: 'system', priority: 'low' }, { ...policy, sourceOverrides: {} }, at);
+}
@@ -1,51 +1,216 @@
 import type { BrewSource } from './types';
+import { getBrewEventsBetween, type BrewEvent } from './event-log';
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════
  * ANALYTICS ENGINE (Phase 6 - Your Week in Brew)
  * ═══════════════════════════════════════════════════════════════════════════
- * 
- * Computes engagement metrics and weekly summaries.
+ *
+ * Computes engagement metrics and period summaries from the local event log.
  */
 
-export interface WeeklyStats {
+export type StatsPeriod = 'week' | 'month';
+
+export interface ResponseTimePercentiles {
+    p50: number | null;
+    p90: number | null;
+    p95: number | null;
+}
+
+export interface BrewPeriodStats {
+    period: StatsPeriod;
+    start: number;
+    end: number;
     totalReceived: number;
     totalSipped: number;
-    avgResponseTime: number; // ms to read
+    totalDismissed: number;
+    totalClickedThrough: number;
+    totalSnoozed: number;
+    avgResponseTime: number | null; // ms from served to first interaction
+    responseTime: ResponseTimePercentiles;
     topSources: { source: BrewSource; count: number }[];
     topCategories: { category: string; count: number }[];
-    engagementByDay: { day: string; count: number }[];
-    peakHour: number; // Most active hour (0-23)
+    engagementByDay: { day: string; date: string; count: number }[];
+    /** Interactions by weekday (0 = Mon) and hour (0-23) */
+    heatmap: number[][];
+    peakHour: number | null; // Most active hour (0-23)
+    /** % change in interactions vs the previous period, null without history */
+    trend: number | null;
 }
 
+const PERIOD_DAYS: Record<StatsPeriod, number> = { week: 7, month: 30 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const isInteraction = (e: BrewEvent) => e.type !== 'served';
+
 /**
- * Generate weekly stats from interaction history
- * Note: In a real app this would query a backend. Here we mock it based on limited local history
- * or generate realistic looking mock data for the demo.
+ * Events that count as engagement. Clicking through also marks an item read,
+ * so its 'sipped' is left out when the same item was clicked through.
  */
-export const generateWeeklyStats = (): WeeklyStats => {
-    // Mock data for demonstration purposes since we don't have a persistent history database
-    const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const interactionsOf = (events: BrewEvent[]) => {
+    const clicked = new Set(events.filter(e => e.type === 'clicked_through').map(e => e.itemId));
+    return events.filter(e => isInteraction(e) && !(e.type === 'sipped' && clicked.has(e.itemId)));
+};
+
+const toDateKey = (ms: number) => {
+    const d = new Date(ms);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/** Nearest-rank percentile over sorted values */
+const percentile = (sorted: number[], p: number): number | null =>
+    sorted.length === 0 ? null : sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+const countBy = <K extends string>(keys: K[]) => {
+    const counts = new Map<K, number>();
+    keys.forEach(k => counts.set(k, (counts.get(k) ?? 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+};
+
+const titleCase = (note: string) =>
+    note.toLowerCase().split(/[_\s-]+/).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPUTATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** First midnight of a period that ends today */
+const periodStart = (period: StatsPeriod, now: number) => {
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+    return startOfToday.getTime() - (PERIOD_DAYS[period] - 1) * DAY_MS;
+};
+
+/**
+ * Summarise the events of one period. `previous` is the same-length period
+ * before it, used only for the trend.
+ */
+export const computeBrewStats = (
+    events: BrewEvent[],
+    previous: BrewEvent[],
+    period: StatsPeriod,
+    now: number
+): BrewPeriodStats => {
+    const days = PERIOD_DAYS[period];
+    const start = periodStart(period, now);
+
+    const interactions = interactionsOf(events);
+    const uniqueItems = (type: BrewEvent['type']) => new Set(events.filter(e => e.type === type).map(e => e.itemId)).size;
+
+    // Response time: served → first interaction, once per item
+    const firstResponse = new Map<string, number>();
+    [...interactions].sort((a, b) => a.timestamp - b.timestamp).forEach(e => {
+        if (!firstResponse.has(e.itemId)) firstResponse.set(e.itemId, Math.max(0, e.timestamp - e.servedAt));
+    });
+    const responseTimes = [...firstResponse.values()].sort((a, b) => a - b);
+
+    const heatmap = WEEKDAYS.map(() => Array<number>(24).fill(0));
+    const hourTotals = Array<number>(24).fill(0);
+    interactions.forEach(e => {
+        const d = new Date(e.timestamp);
+        heatmap[(d.getDay() + 6) % 7][d.getHours()]++;
+        hourTotals[d.getHours()]++;
+    });
+    const peakCount = Math.max(...hourTotals);
+
+    const perDay = new Map<string, number>();
+    interactions.forEach(e => perDay.set(toDateKey(e.timestamp), (perDay.get(toDateKey(e.timestamp)) ?? 0) + 1));
+    const engagementByDay = Array.from({ length: days }, (_, i) => {
+        const date = new Date(start + i * DAY_MS + DAY_MS / 2); // Midday avoids DST edges
+        const key = toDateKey(date.getTime());
+        return {
+            day: period === 'week' ? WEEKDAYS[(date.getDay() + 6) % 7] : String(date.getDate()),
+            date: key,
+            count: perDay.get(key) ?? 0,
+        };
+    });
+
+    const previousInteractions = interactionsOf(previous).length;
 
     return {
-        totalReceived: 42,
-        totalSipped: 38,
-        avgResponseTime: 45 * 60 * 1000, // 45 mins
-        topSources: [
-            { source: 'pulse', count: 18 },
-            { source: 'toast', count: 12 },
-            { source: 'chat', count: 8 },
-            { source: 'lop', count: 4 }
-        ],
-        topCategories: [
-            { category: 'Market', count: 15 },
-            { category: 'Recognition', count: 10 },
-            { category: 'Critical', count: 8 }
-        ],
-        engagementByDay: days.map(day => ({
-            day,
-            count: Math.floor(Math.random() * 15) + 5
-        })),
-        peakHour: 9 // 9 AM
+        period,
+        start,
+        end: now,
+        totalReceived: uniqueItems('served'),
+        totalSipped: uniqueItems('sipped'),
+        totalDismissed: uniqueItems('dismissed'),
+        totalClickedThrough: uniqueItems('clicked_through'),
+        totalSnoozed: events.filter(e => e.type === 'snoozed').length,
+        avgResponseTime: responseTimes.length > 0
+            ? responseTimes.reduce((sum, t) => sum + t, 0) / responseTimes.length
+            : null,
+        responseTime: {
+            p50: percentile(responseTimes, 50),
+            p90: percentile(responseTimes, 90),
+            p95: percentile(responseTimes, 95),
+        },
+        topSources: countBy(interactions.map(e => e.source)).slice(0, 5).map(([source, count]) => ({ source, count })),
+        topCategories: countBy(interactions.flatMap(e => [...new Set(e.flavorNotes)]))
+            .slice(0, 5)
+            .map(([category, count]) => ({ category: titleCase(category), count })),
+        engagementByDay,
+        heatmap,
+        peakHour: peakCount > 0 ? hourTotals.indexOf(peakCount) : null,
+        trend: previousInteractions > 0
+            ? Math.round(((interactions.length - previousInteractions) / previousInteractions) * 100)
+            : null,
     };
 };
+
+/** Stats for the last 7 or 30 days (including today) from the event log */
+export const generatePeriodStats = (period: StatsPeriod, now = Date.now()): BrewPeriodStats => {
+    const start = periodStart(period, now);
+    return computeBrewStats(
+        getBrewEventsBetween(start, now + 1),
+        getBrewEventsBetween(start - PERIOD_DAYS[period] * DAY_MS, start),
+        period,
+        now
+    );
+};
+
+export const generateWeeklyStats = (now = Date.now()): BrewPeriodStats => generatePeriodStats('week', now);
+
+export const generateMonthlyStats = (now = Date.now()): BrewPeriodStats => generatePeriodStats('month', now);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CSV EXPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+const csvCell = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (rows: (string | number | null)[][]) => rows.map(r => r.map(csvCell).join(',')).join('\n');
+
+/** One file, several blank-line separated tables, spreadsheet friendly */
+export const brewStatsToCsv = (stats: BrewPeriodStats): string => {
+    const minutes = (ms: number | null) => (ms === null ? null : Math.round(ms / 6000) / 10);
+    return [
+        csvRows([
+            ['metric', 'value'],
+            ['period', stats.period],
+            ['from', toDateKey(stats.start)],
+            ['to', toDateKey(stats.end)],
+            ['received', stats.totalReceived],
+            ['sipped', stats.totalSipped],
+            ['dismissed', stats.totalDismissed],
+            ['clicked_through', stats.totalClickedThrough],
+            ['snoozed', stats.totalSnoozed],
+            ['avg_response_min', minutes(stats.avgResponseTime)],
+            ['p50_response_min', minutes(stats.responseTime.p50)],
+            ['p90_response_min', minutes(stats.responseTime.p90)],
+            ['p95_response_min', minutes(stats.responseTime.p95)],
+            ['peak_hour', stats.peakHour],
+            ['trend_pct', stats.trend],
+        ]),
+        csvRows([['date', 'interactions'], ...stats.engagementByDay.map(d => [d.date, d.count])]),
+        csvRows([['source', 'interactions'], ...stats.topSources.map(s => [s.source, s.count])]),
+        csvRows([['flavor_note', 'interactions'], ...stats.topCategories.map(c => [c.category, c.count])]),
+        csvRows([
+            ['weekday', ...Array.from({ length: 24 }, (_, h) => `h${h}`)],
+            ...stats.heatmap.map((row, i) => [WEEKDAYS[i], ...row]),
+        ]),
+    ].join('\n\n') + '\n';
+};
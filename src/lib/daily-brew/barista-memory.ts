@@ -27,9 +27,6 @@ export interface UserTaste {
     /** Preference scores by specific actors (email or ID) */
     byActor: Record<string, number>;
 
-    /** Quiet hours (notifications muted except critical) */
-    quietHours: { start: string; end: string } | null;
-
     /** Preferred digest delivery time */
     digestTime: string | null;
 
@@ -75,12 +72,12 @@ export const getDefaultTaste = (): UserTaste => ({
         lop: 0,
         pulse: 0,
         chat: 0,
+        library: 0,
+        badges: 0,
         system: 0,
     },
     byDomain: {},
     byActor: {},
-    quietHours: null,
-    quietHours: null,
     digestTime: '09:00',
     scheduleWindows: [
         { name: 'morning', startHour: 8, enabled: true },
@@ -95,7 +92,9 @@ export const loadUserTaste = (): UserTaste => {
     try {
         const stored = localStorage.getItem(STORAGE_KEY);
         if (stored) {
-            return { ...getDefaultTaste(), ...JSON.parse(stored) };
+            const parsed = JSON.parse(stored);
+            const defaults = getDefaultTaste();
+            return { ...defaults, ...parsed, bySource: { ...defaults.bySource, ...parsed.bySource } };
         }
     } catch (e) {
         console.warn('[BaristaMemory] Failed to load user taste:', e);
@@ -192,52 +191,6 @@ export const applyBaristaMemory = (
     return Math.round(clamp(baseScore * modifier, 0, 100));
 };
 
-// ═══════════════════════════════════════════════════════════════════════════
-// QUIET HOURS
-// ═══════════════════════════════════════════════════════════════════════════
-
-/**
- * Check if current time is within user's quiet hours
- */
-export const isQuietHours = (): boolean => {
-    const taste = loadUserTaste();
-    if (!taste.quietHours) return false;
-
-    const now = new Date();
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-    const [startH, startM] = taste.quietHours.start.split(':').map(Number);
-    const [endH, endM] = taste.quietHours.end.split(':').map(Number);
-
-    const startMinutes = startH * 60 + startM;
-    const endMinutes = endH * 60 + endM;
-
-    // Handle overnight quiet hours (e.g., 22:00 - 08:00)
-    if (startMinutes > endMinutes) {
-        return currentMinutes >= startMinutes || currentMinutes < endMinutes;
-    }
-
-    return currentMinutes >= startMinutes && currentMinutes < endMinutes;
-};
-
-/**
- * Set quiet hours preference
- */
-export const setQuietHours = (start: string, end: string): void => {
-    const taste = loadUserTaste();
-    taste.quietHours = { start, end };
-    saveUserTaste(taste);
-};
-
-/**
- * Clear quiet hours
- */
-export const clearQuietHours = (): void => {
-    const taste = loadUserTaste();
-    taste.quietHours = null;
-    saveUserTaste(taste);
-};
-
 // ═══════════════════════════════════════════════════════════════════════════
 // UTILITIES
 // ═══════════════════════════════════════════════════════════════════════════
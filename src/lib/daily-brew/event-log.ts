@@ -0,0 +1,109 @@
+import type { BrewItem, BrewSource, RoastProfile } from './types';
+
+/**
+ * Brew Event Log — Local interaction history
+ *
+ * Every time an item is served, sipped, dismissed, clicked through or snoozed
+ * we append an event here. The analytics engine reads this log instead of
+ * inventing numbers.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type BrewEventType = 'served' | 'sipped' | 'dismissed' | 'clicked_through' | 'snoozed';
+
+export interface BrewEvent {
+    id: string;
+    itemId: string;
+    type: BrewEventType;
+    source: BrewSource;
+    flavorNotes: string[];
+    roast: RoastProfile;
+    /** When the item was shown, so response times survive the item leaving the menu */
+    servedAt: number;
+    timestamp: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const STORAGE_KEY = 'daily-brew:event-log';
+const MAX_EVENTS = 5000;
+export const EVENT_RETENTION_DAYS = 90;
+
+const readStoredEvents = (): BrewEvent[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) return JSON.parse(stored) as BrewEvent[];
+    } catch (e) {
+        console.warn('[BrewEventLog] Failed to load events:', e);
+    }
+    return [];
+};
+
+// Parsed once; events are appended in memory and written back once per batch
+let cachedEvents: BrewEvent[] | null = null;
+let saveQueued = false;
+
+export const loadBrewEvents = (): BrewEvent[] => {
+    cachedEvents ??= readStoredEvents();
+    return cachedEvents;
+};
+
+const saveBrewEvents = (): void => {
+    saveQueued = false;
+    if (!cachedEvents) return;
+
+    // Drop anything past retention, then cap the size
+    const cutoff = Date.now() - EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    cachedEvents = cachedEvents.filter(e => e.timestamp >= cutoff).slice(-MAX_EVENTS);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(cachedEvents));
+    } catch (e) {
+        console.warn('[BrewEventLog] Failed to save events:', e);
+    }
+};
+
+/** "Mark all read" logs one event per item; they share a single write */
+const queueSave = (): void => {
+    if (saveQueued) return;
+    saveQueued = true;
+    queueMicrotask(saveBrewEvents);
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECORDING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const logBrewEvent = (
+    item: Pick<BrewItem, 'id' | 'source' | 'flavorNotes' | 'roast' | 'servedAt'>,
+    type: BrewEventType,
+    now = Date.now()
+): BrewEvent => {
+    const event: BrewEvent = {
+        id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+        itemId: item.id,
+        type,
+        source: item.source,
+        flavorNotes: item.flavorNotes ?? [],
+        roast: item.roast,
+        servedAt: item.servedAt,
+        timestamp: now,
+    };
+
+    loadBrewEvents().push(event);
+    queueSave();
+    return event;
+};
+
+/** Events with `start <= timestamp < end` */
+export const getBrewEventsBetween = (start: number, end: number): BrewEvent[] =>
+    loadBrewEvents().filter(e => e.timestamp >= start && e.timestamp < end);
+
+export const clearBrewEvents = (): void => {
+    cachedEvents = [];
+    localStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,256 @@
+import { registerBrewSource } from './source-registry';
+import { calculateCaffeineScore } from './barista-engine';
+import type { Recognition } from '../../features/toast-x/types/recognition';
+import type { PulseSignal } from '../pulse/types';
+import type { LOPSession } from '../lop/types';
+import type { Discussion, Reply } from '../../data/discussions';
+import type { BookProgress, ReadingGoal } from '../../features/library/types';
+import type { BadgeDefinition, EarnedBadge } from '../../types/gamification';
+
+/**
+ * Built-in Brew Sources
+ *
+ * Importing this module registers the adapters. Stores are imported lazily
+ * inside `subscribe` so the brew store doesn't pull them into a cycle. Each
+ * adapter reports the store's current state once before listening, so a
+ * source switched back on fills the menu straight away.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isWithin = (timestamp: number, days: number, now: number) => now - timestamp < days * DAY_MS;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOAST-X — Recognition
+// ═══════════════════════════════════════════════════════════════════════════
+
+registerBrewSource<Recognition>({
+    id: 'toast-x',
+    source: 'toast',
+    label: 'Toast Recognition',
+    description: 'Kudos you give and receive',
+    defaultScore: calculateCaffeineScore('toast_received', 'peer'),
+    subscribe: async (onEvents) => {
+        const { useToastXStore } = await import('../../features/toast-x');
+        onEvents(useToastXStore.getState().recognitions);
+        return useToastXStore.subscribe(state => onEvents(state.recognitions));
+    },
+    dedupKey: (r) => `toast:${r.id}`,
+    toBrew: (r) => ({
+        title: `Toast from ${r.giverName}`,
+        message: r.message,
+        flavorNotes: ['recognition', r.value, ...(r.expertAreas || [])],
+        timestamp: new Date(r.createdAt).getTime(),
+    }),
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PULSE — Market signals
+// ═══════════════════════════════════════════════════════════════════════════
+
+registerBrewSource<PulseSignal>({
+    id: 'pulse',
+    source: 'pulse',
+    label: 'Pulse Market Intel',
+    description: 'Competitive and regulatory signals',
+    defaultScore: 40,
+    subscribe: async (onEvents) => {
+        const { usePulseStore } = await import('../pulse/usePulseStore');
+        onEvents(usePulseStore.getState().signals);
+        return usePulseStore.subscribe(state => onEvents(state.signals));
+    },
+    dedupKey: (s) => `pulse:${s.id}`,
+    toBrew: (s) => ({
+        title: s.title,
+        message: s.summary,
+        flavorNotes: ['market', s.domain.toLowerCase()],
+        timestamp: new Date(s.publishedAt).getTime(),
+        scoreOverride: s.priority === 'high' || s.priority === 'critical' ? 80 : undefined,
+    }),
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOP — New sessions from the last week
+// ═══════════════════════════════════════════════════════════════════════════
+
+registerBrewSource<LOPSession>({
+    id: 'lop',
+    source: 'lop',
+    label: 'Love of Product',
+    description: 'New learning sessions',
+    defaultScore: 60,
+    subscribe: async (onEvents) => {
+        const { useLOPStore } = await import('../../stores/lopStore');
+        onEvents(useLOPStore.getState().sessions);
+        return useLOPStore.subscribe(state => onEvents(state.sessions));
+    },
+    dedupKey: (s) => `lop:${s.id}`,
+    toBrew: (s, now) => {
+        const sessionTime = new Date(s.sessionDate || now).getTime();
+        if (!isWithin(sessionTime, 7, now)) return null;
+        return {
+            title: `New LOP Session: ${s.title}`,
+            message: s.subtitle || `With ${s.speaker.name}`,
+            flavorNotes: ['learning', 'session', ...s.topics],
+            timestamp: sessionTime,
+        };
+    },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DISCUSSIONS — Open threads and fresh replies
+// ═══════════════════════════════════════════════════════════════════════════
+
+type DiscussionEvent =
+    | { kind: 'discussion'; discussion: Discussion }
+    | { kind: 'reply'; reply: Reply };
+
+registerBrewSource<DiscussionEvent>({
+    id: 'discussions',
+    source: 'chat',
+    label: 'Discussions',
+    description: 'New threads and replies in the community',
+    defaultScore: 35,
+    subscribe: async (onEvents) => {
+        const { useDiscussionStore } = await import('../../stores/discussionStore');
+        const emit = (state: ReturnType<typeof useDiscussionStore.getState>) => onEvents([
+            ...state.discussions.slice(0, 10).map(discussion => ({ kind: 'discussion' as const, discussion })),
+            ...state.replies.slice(0, 5).map(reply => ({ kind: 'reply' as const, reply })),
+        ]);
+        emit(useDiscussionStore.getState());
+        return useDiscussionStore.subscribe(emit);
+    },
+    dedupKey: (e) => (e.kind === 'discussion' ? `chat:disc:${e.discussion.id}` : `chat:reply:${e.reply.id}`),
+    toBrew: (e, now) => {
+        if (e.kind === 'discussion') {
+            const d = e.discussion;
+            const discussionTime = new Date(d.createdAt).getTime();
+            if (!isWithin(discussionTime, 3, now) || d.status !== 'open') return null;
+            return {
+                title: d.title,
+                message: `${d.authorName} started a discussion`,
+                flavorNotes: ['discussion', 'community', d.attachedToType],
+                timestamp: discussionTime,
+                link: `/community/discussions/${d.id}`,
+                scoreOverride: d.upvoteCount > 5 ? 55 : undefined,
+                actors: [{ name: d.authorName }],
+            };
+        }
+        const r = e.reply;
+        const replyTime = new Date(r.createdAt).getTime();
+        if (!isWithin(replyTime, 1, now)) return null;
+        return {
+            title: `New reply from ${r.authorName}`,
+            message: r.body.substring(0, 100) + (r.body.length > 100 ? '...' : ''),
+            flavorNotes: ['reply', 'discussion'],
+            timestamp: replyTime,
+            link: `/community/discussions/${r.discussionId}`,
+            scoreOverride: r.isAcceptedAnswer ? 70 : 30,
+            actors: [{ name: r.authorName }],
+        };
+    },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIBRARY — Finished books and reading goal milestones
+// ═══════════════════════════════════════════════════════════════════════════
+
+const GOAL_MILESTONES = [25, 50, 75, 100];
+
+type LibraryEvent =
+    | { kind: 'completed'; progress: BookProgress; title: string }
+    | { kind: 'milestone'; goal: ReadingGoal; percent: number; reachedAt: number };
+
+registerBrewSource<LibraryEvent>({
+    id: 'library-goals',
+    source: 'library',
+    label: 'Reading Goals',
+    description: 'Finished books and yearly goal milestones',
+    defaultScore: 45,
+    subscribe: async (onEvents) => {
+        const { useLibraryStore } = await import('../../features/library/libraryStore');
+        const emit = (state: ReturnType<typeof useLibraryStore.getState>) => {
+            const { bookProgress, readingGoal } = state.userLibrary;
+            const completed = bookProgress.filter(p => p.completedAt);
+            // A milestone is reached when the book that crosses it is finished
+            const finishTimes = completed
+                .map(p => new Date(p.completedAt!).getTime())
+                .filter(t => new Date(t).getFullYear() === readingGoal.yearStarted)
+                .sort((a, b) => a - b);
+            onEvents([
+                ...completed.map(progress => ({
+                    kind: 'completed' as const,
+                    progress,
+                    title: state.getBook(progress.bookId)?.title ?? 'a book',
+                })),
+                ...GOAL_MILESTONES.flatMap(percent => {
+                    const reachedAt = finishTimes[Math.ceil((percent / 100) * readingGoal.booksPerYear) - 1];
+                    return readingGoal.booksPerYear > 0 && reachedAt !== undefined
+                        ? [{ kind: 'milestone' as const, goal: readingGoal, percent, reachedAt }]
+                        : [];
+                }),
+            ]);
+        };
+        emit(useLibraryStore.getState());
+        return useLibraryStore.subscribe(emit);
+    },
+    dedupKey: (e) => (e.kind === 'completed'
+        ? `library:book:${e.progress.bookId}`
+        : `library:goal:${e.goal.yearStarted}:${e.percent}`),
+    toBrew: (e, now) => {
+        if (e.kind === 'completed') {
+            const completedAt = new Date(e.progress.completedAt!).getTime();
+            if (!isWithin(completedAt, 7, now)) return null;
+            return {
+                title: `You finished ${e.title}`,
+                message: `${e.progress.pagesRead} pages read. Add a highlight while it's fresh.`,
+                flavorNotes: ['learning', 'library', 'reading'],
+                timestamp: completedAt,
+                link: '/library',
+            };
+        }
+        if (!isWithin(e.reachedAt, 7, now)) return null;
+        return {
+            title: e.percent === 100 ? 'Reading goal reached!' : `${e.percent}% of your reading goal`,
+            message: `${e.goal.booksCompleted} of ${e.goal.booksPerYear} books this year.`,
+            flavorNotes: ['learning', 'library', 'goal'],
+            timestamp: e.reachedAt,
+            link: '/library',
+            scoreOverride: e.percent === 100 ? 75 : undefined,
+        };
+    },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BADGES — Newly unlocked achievements
+// ═══════════════════════════════════════════════════════════════════════════
+
+type BadgeUnlock = { earned: EarnedBadge; badge: BadgeDefinition | null };
+
+registerBrewSource<BadgeUnlock>({
+    id: 'badges',
+    source: 'badges',
+    label: 'Badge Unlocks',
+    description: 'Achievements you have just earned',
+    defaultScore: 65,
+    subscribe: async (onEvents) => {
+        const { useBadgeStore } = await import('../../stores/badgeStore');
+        const emit = (state: ReturnType<typeof useBadgeStore.getState>) => onEvents(
+            state.earnedBadges.map(earned => ({ earned, badge: state.getBadgeById(earned.badgeId) }))
+        );
+        emit(useBadgeStore.getState());
+        return useBadgeStore.subscribe(emit);
+    },
+    dedupKey: (e) => `badges:${e.earned.badgeId}`,
+    toBrew: (e, now) => {
+        const earnedAt = new Date(e.earned.earnedAt).getTime();
+        if (!e.badge || !isWithin(earnedAt, 7, now)) return null;
+        return {
+            title: `Badge unlocked: ${e.badge.icon} ${e.badge.name}`,
+            message: e.badge.description,
+            flavorNotes: ['recognition', 'badge', e.badge.category],
+            timestamp: earnedAt,
+            link: '/profile',
+        };
+    },
+});
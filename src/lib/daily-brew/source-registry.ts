@@ -0,0 +1,80 @@
+import type { BrewItem, BrewSource } from './types';
+
+/**
+ * Brew Source Registry — Where Daily Brew items come from
+ *
+ * Each feature that feeds the Daily Brew registers an adapter: which store to
+ * watch, how its events become BrewItems, their default score and the key
+ * used to recognise an event we have already served. The brew store connects
+ * every enabled adapter; users can switch adapters off in Brew settings.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** What an adapter hands the brew store; scoring and roast are filled in there */
+export type BrewDraft = Omit<BrewItem, 'id' | 'source' | 'roast' | 'caffeineScore' | 'servedAt' | 'isRead'> & {
+    scoreOverride?: number;
+};
+
+export interface BrewSourceAdapter<TEvent = unknown> {
+    /** Stable adapter id, used for the on/off setting */
+    id: string;
+    source: BrewSource;
+    label: string;
+    description: string;
+    /** Caffeine score used when `toBrew` doesn't set `scoreOverride` */
+    defaultScore: number;
+
+    /**
+     * Report the store's current events once, then again on every change.
+     * Resolves to an unsubscribe.
+     */
+    subscribe(onEvents: (events: readonly TEvent[]) => void): Promise<() => void>;
+    /** Unique across all adapters; becomes the BrewItem id */
+    dedupKey(event: TEvent): string;
+    /** Null skips the event, e.g. when it is too old to be news */
+    toBrew(event: TEvent, now: number): BrewDraft | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+const adapters = new Map<string, BrewSourceAdapter>();
+
+export const registerBrewSource = <TEvent>(adapter: BrewSourceAdapter<TEvent>): void => {
+    adapters.set(adapter.id, adapter as BrewSourceAdapter);
+};
+
+export const getBrewSources = (): BrewSourceAdapter[] => [...adapters.values()];
+
+export const getBrewSource = (id: string): BrewSourceAdapter | undefined => adapters.get(id);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ON/OFF SETTINGS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const STORAGE_KEY = 'daily-brew:disabled-sources';
+
+const loadDisabled = (): string[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) return JSON.parse(stored) as string[];
+    } catch (e) {
+        console.warn('[BrewSources] Failed to load source settings:', e);
+    }
+    return [];
+};
+
+export const isBrewSourceEnabled = (id: string): boolean => !loadDisabled().includes(id);
+
+export const setBrewSourceEnabled = (id: string, enabled: boolean): void => {
+    const disabled = loadDisabled().filter(d => d !== id);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(enabled ? disabled : [...disabled, id]));
+    } catch (e) {
+        console.warn('[BrewSources] Failed to save source settings:', e);
+    }
+};
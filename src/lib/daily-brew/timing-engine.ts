@@ -1,4 +1,12 @@
-import type { BrewItem, BrewSource } from './types';
+import type { BrewItem, BrewSource, RoastProfile } from './types';
+import {
+    evaluateAttention,
+    isQuietHoursNow,
+    startFocus,
+    endFocus,
+    getFocusEnd,
+    type AttentionPriority,
+} from '../attention/attentionPolicy';
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════
@@ -11,8 +19,7 @@ import type { BrewItem, BrewSource } from './types';
  * This engine determines the OPTIMAL moment to surface notifications based on:
  * 1. User activity state (typing, idle, scrolling, meeting)
  * 2. Page context matching (boost relevant signals)
- * 3. Quiet hours enforcement
- * 4. Focus mode detection
+ * 3. Quiet hours, focus mode and snooze (via the shared attention policy)
  */
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -46,8 +53,6 @@ export interface DeliveryDecision {
 // STATE TRACKING
 // ═══════════════════════════════════════════════════════════════════════════
 
-const STORAGE_KEY = 'daily-brew:timing-context';
-
 let _context: TimingContext = {
     activityState: 'active',
     currentPage: '/',
@@ -214,62 +219,37 @@ export const matchesPageContext = (item: BrewItem): boolean => {
 /**
  * Check if current time is in quiet hours
  */
-export const isInQuietHours = (): boolean => {
-    try {
-        const stored = localStorage.getItem('daily-brew:user-taste');
-        if (!stored) return false;
-
-        const taste = JSON.parse(stored);
-        if (!taste.quietHours) return false;
-
-        const now = new Date();
-        const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-        const [startH, startM] = taste.quietHours.start.split(':').map(Number);
-        const [endH, endM] = taste.quietHours.end.split(':').map(Number);
-
-        const startMinutes = startH * 60 + startM;
-        const endMinutes = endH * 60 + endM;
-
-        // Handle overnight (e.g., 22:00 - 08:00)
-        if (startMinutes > endMinutes) {
-            return currentMinutes >= startMinutes || currentMinutes < endMinutes;
-        }
-
-        return currentMinutes >= startMinutes && currentMinutes < endMinutes;
-    } catch {
-        return false;
-    }
-};
+export const isInQuietHours = (): boolean => isQuietHoursNow();
 
 /**
  * Enable focus mode for X minutes
  */
 export const enableFocusMode = (minutes: number): void => {
-    _context.focusModeUntil = Date.now() + (minutes * 60 * 1000);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(_context));
+    _context.focusModeUntil = startFocus(minutes);
 };
 
 /**
  * Disable focus mode
  */
 export const disableFocusMode = (): void => {
+    endFocus();
     _context.focusModeUntil = null;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(_context));
 };
 
 /**
  * Check if focus mode is active
  */
 export const isFocusModeActive = (): boolean => {
-    if (!_context.focusModeUntil) return false;
-    if (Date.now() > _context.focusModeUntil) {
-        _context.focusModeUntil = null;
-        return false;
-    }
-    return true;
+    _context.focusModeUntil = getFocusEnd();
+    return _context.focusModeUntil !== null;
 };
 
+/**
+ * Attention priority for a brew item — dark roast counts as critical
+ */
+export const roastPriority = (roast: RoastProfile): AttentionPriority =>
+    roast === 'dark' ? 'critical' : roast === 'medium' ? 'medium' : 'low';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // DELIVERY DECISION ENGINE
 // ═══════════════════════════════════════════════════════════════════════════
@@ -279,36 +259,25 @@ export const isFocusModeActive = (): boolean => {
  */
 export const shouldDeliverNow = (item: BrewItem): DeliveryDecision => {
     const state = calculateActivityState();
-    const isQuiet = isInQuietHours();
-    const isFocused = isFocusModeActive();
     const contextMatch = matchesPageContext(item);
 
-    // Critical items (dark roast) always deliver
-    if (item.roast === 'dark') {
-        return {
-            shouldDeliver: true,
-            reason: 'Critical notification - always deliver',
-            boostScore: contextMatch ? 10 : 0,
-        };
-    }
-
-    // Focus mode: only critical
-    if (isFocused) {
+    // Quiet hours, focus, snooze and source overrides
+    const attention = evaluateAttention({ source: item.source, priority: roastPriority(item.roast) });
+    if (!attention.deliver) {
         return {
             shouldDeliver: false,
-            reason: 'Focus mode active',
+            reason: attention.label,
             boostScore: 0,
-            queueUntil: _context.focusModeUntil || undefined,
+            queueUntil: attention.holdUntil ?? undefined,
         };
     }
 
-    // Quiet hours: only critical
-    if (isQuiet) {
+    // Critical items (dark roast) deliver whatever the user is doing
+    if (item.roast === 'dark') {
         return {
-            shouldDeliver: false,
-            reason: 'Quiet hours active',
-            boostScore: 0,
-            queueUntil: undefined, // Batched to morning digest
+            shouldDeliver: true,
+            reason: attention.reason === 'breakthrough' ? attention.label : 'Critical notification - always deliver',
+            boostScore: contextMatch ? 10 : 0,
         };
     }
 
@@ -381,6 +350,7 @@ export const refreshTimingContext = (): TimingContext => {
         currentPage: window.location.pathname,
         currentTopics: extractPageTopics(),
         isQuietHours: isInQuietHours(),
+        focusModeUntil: getFocusEnd(),
     };
     return _context;
 };
@@ -1,5 +1,5 @@
 export type RoastProfile = 'dark' | 'medium' | 'light';
-export type BrewSource = 'toast' | 'lop' | 'pulse' | 'chat' | 'system';
+export type BrewSource = 'toast' | 'lop' | 'pulse' | 'chat' | 'library' | 'badges' | 'system';
 
 export interface BrewItem {
     id: string;
@@ -16,6 +16,9 @@ export interface BrewItem {
     timestamp: number; // When it happened
     servedAt: number; // When it was shown to user
     isRead: boolean;
+    snoozedUntil?: number; // Hidden from the menu until then
+    isHeld?: boolean; // Held back by quiet hours, focus or snooze; served once released
+    adapterId?: string; // Registered source adapter that produced the item
 
     // Metadata for linking
     link?: string;
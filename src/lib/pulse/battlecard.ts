@@ -0,0 +1,387 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Competitor Battlecards
+// Profile + head-to-head + recent signals, exported as Markdown or print HTML
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { PulseSignal, SignalType } from './types';
+import {
+    AVAILITY_CAPABILITIES,
+    COMPETITOR_RATINGS,
+    STRATEGIC_ASSESSMENTS,
+    DEFAULT_ASSESSMENT,
+    type CapabilityKey,
+    type CompetitorProfile,
+    type StrategicAssessment,
+} from './competitorData';
+import { matchCompetitorIds, queryArchive } from './signalArchive';
+import { matchTopicIds } from './trendAnalysis';
+import { clusterStories } from './storyClustering';
+import { escapeHtml, formatDate, isLinkable } from './exportFormat';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const BATTLECARD_LOOKBACK_DAYS = 180;
+const MAX_ITEMS_PER_SECTION = 8;
+
+export type BattlecardSectionKey = 'launches' | 'partnerships' | 'funding' | 'regulatory';
+
+const REGULATORY_TYPES: SignalType[] = ['PROPOSED_RULE', 'FINAL_RULE', 'GUIDANCE', 'ENFORCEMENT', 'DEADLINE'];
+const REGULATORY_KEYWORDS = ['cms', 'hhs', 'hipaa', 'onc', 'ftc', 'doj', 'antitrust', 'regulat', 'compliance', 'mandate'];
+
+export const BATTLECARD_SECTIONS: Array<{ key: BattlecardSectionKey; label: string; matches: (signal: PulseSignal, topics: string[]) => boolean }> = [
+    {
+        key: 'launches',
+        label: 'Product launches',
+        matches: (s, topics) => s.signalType === 'PRODUCT_LAUNCH' || topics.includes('product'),
+    },
+    {
+        key: 'partnerships',
+        label: 'Partnerships',
+        matches: (s, topics) => s.signalType === 'PARTNERSHIP' || topics.includes('partnerships'),
+    },
+    {
+        key: 'funding',
+        label: 'Funding & M&A',
+        matches: (s, topics) => s.signalType === 'FUNDING' || s.signalType === 'M_AND_A' || topics.includes('funding') || topics.includes('m-and-a'),
+    },
+    {
+        key: 'regulatory',
+        label: 'Regulatory mentions',
+        matches: (s) => {
+            if (s.domain === 'REGULATORY' || REGULATORY_TYPES.includes(s.signalType) || s.entities.regulations.length > 0) return true;
+            const text = ` ${s.title} ${s.summary} `.toLowerCase();
+            return REGULATORY_KEYWORDS.some(k => text.includes(k));
+        },
+    },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface BattlecardItem {
+    signalId: string;
+    title: string;
+    summary: string;
+    url: string;
+    source: string;
+    publishedAt: string;
+}
+
+export interface HeadToHeadRow {
+    key: CapabilityKey;
+    label: string;
+    availity: number;
+    competitor: number;
+}
+
+export interface Battlecard {
+    competitorId: string;
+    name: string;
+    tier: CompetitorProfile['tier'];
+    category: CompetitorProfile['category'];
+    description?: string;
+    website?: string;
+    founded?: number;
+    hq?: string;
+    employees?: string;
+    assessment: StrategicAssessment;
+    headToHead: HeadToHeadRow[];
+    sections: Record<BattlecardSectionKey, BattlecardItem[]>;
+    signalCount: number;     // Distinct stories in the lookback window
+    generatedAt: string;
+}
+
+/** What was on the card at its last export, kept small enough to persist */
+export interface BattlecardSnapshot {
+    exportedAt: string;
+    fields: Record<string, string>;
+    itemIds: Record<BattlecardSectionKey, string[]>;
+}
+
+export interface BattlecardFieldChange {
+    label: string;
+    from: string;
+    to: string;
+}
+
+export interface BattlecardDiff {
+    since: string | null;    // null = never exported
+    added: Array<BattlecardItem & { section: BattlecardSectionKey }>;
+    removedCount: number;    // Items that aged out or dropped below the section cap
+    changedFields: BattlecardFieldChange[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BUILDING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Live signals plus the archived history that mentions this competitor */
+export async function collectCompetitorSignals(competitorId: string, liveSignals: PulseSignal[], now = Date.now()): Promise<PulseSignal[]> {
+    const start = new Date(now - BATTLECARD_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const archived = await queryArchive({ competitorId, dateRange: { start, end: new Date(now).toISOString() } });
+
+    const byId = new Map<string, PulseSignal>(archived.map(s => [s.id, s]));
+    liveSignals
+        .filter(s => !s.id.startsWith('trend-') && matchCompetitorIds(s).includes(competitorId))
+        .forEach(s => byId.set(s.id, s));
+    return [...byId.values()];
+}
+
+function toItem(signal: PulseSignal): BattlecardItem {
+    return {
+        signalId: signal.id,
+        title: signal.title,
+        summary: signal.summary,
+        url: signal.url,
+        source: signal.source.name,
+        publishedAt: signal.publishedAt,
+    };
+}
+
+export function buildBattlecard(profile: CompetitorProfile, signals: PulseSignal[], now = Date.now()): Battlecard {
+    const cutoff = now - BATTLECARD_LOOKBACK_DAYS * 24 * 60 * 60 * 1000;
+    const relevant = signals.filter(s => {
+        const time = new Date(s.publishedAt).getTime();
+        return time >= cutoff && matchCompetitorIds(s).includes(profile.id);
+    });
+
+    // One entry per story, so five outlets covering a launch don't fill the section
+    const canonicals = clusterStories(relevant)
+        .map(story => story.canonical)
+        .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+
+    const sections = Object.fromEntries(BATTLECARD_SECTIONS.map(section => [section.key, [] as BattlecardItem[]])) as Battlecard['sections'];
+    for (const signal of canonicals) {
+        const topics = matchTopicIds(signal);
+        for (const section of BATTLECARD_SECTIONS) {
+            if (section.matches(signal, topics) && sections[section.key].length < MAX_ITEMS_PER_SECTION) {
+                sections[section.key].push(toItem(signal));
+            }
+        }
+    }
+
+    const ratings = COMPETITOR_RATINGS[profile.id] ?? {};
+    const headToHead = (Object.keys(AVAILITY_CAPABILITIES) as CapabilityKey[]).map(key => ({
+        key,
+        label: AVAILITY_CAPABILITIES[key].label,
+        availity: AVAILITY_CAPABILITIES[key].availityScore,
+        competitor: ratings[key] ?? 3,
+    }));
+
+    return {
+        competitorId: profile.id,
+        name: profile.name,
+        tier: profile.tier,
+        category: profile.category,
+        description: profile.description,
+        website: profile.website,
+        founded: profile.founded,
+        hq: profile.hq,
+        employees: profile.employees,
+        assessment: STRATEGIC_ASSESSMENTS[profile.id] ?? DEFAULT_ASSESSMENT,
+        headToHead,
+        sections,
+        signalCount: canonicals.length,
+        generatedAt: new Date(now).toISOString(),
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SNAPSHOT & DIFF
+// ─────────────────────────────────────────────────────────────────────────────
+
+function cardFields(card: Battlecard): Record<string, string> {
+    const fields: Record<string, string> = {
+        'Tier': String(card.tier),
+        'Category': card.category,
+        'Threat level': card.assessment.threatLevel,
+        'Focus areas': card.assessment.focusAreas.join(', '),
+        'Employees': card.employees ?? '—',
+        'HQ': card.hq ?? '—',
+    };
+    card.headToHead.forEach(row => { fields[`${row.label} rating`] = `${row.competitor}/5`; });
+    return fields;
+}
+
+export function snapshotBattlecard(card: Battlecard): BattlecardSnapshot {
+    return {
+        exportedAt: card.generatedAt,
+        fields: cardFields(card),
+        itemIds: Object.fromEntries(
+            Object.entries(card.sections).map(([key, items]) => [key, items.map(i => i.signalId)])
+        ) as BattlecardSnapshot['itemIds'],
+    };
+}
+
+export function diffBattlecard(card: Battlecard, previous: BattlecardSnapshot | undefined): BattlecardDiff {
+    if (!previous) return { since: null, added: [], removedCount: 0, changedFields: [] };
+
+    const added: BattlecardDiff['added'] = [];
+    let removedCount = 0;
+    for (const { key } of BATTLECARD_SECTIONS) {
+        const before = new Set(previous.itemIds[key] ?? []);
+        const now = new Set(card.sections[key].map(i => i.signalId));
+        card.sections[key].filter(i => !before.has(i.signalId)).forEach(i => added.push({ ...i, section: key }));
+        removedCount += [...before].filter(id => !now.has(id)).length;
+    }
+
+    const fields = cardFields(card);
+    const changedFields = Object.entries(fields)
+        .filter(([label, value]) => label in previous.fields && previous.fields[label] !== value)
+        .map(([label, to]) => ({ label, from: previous.fields[label], to }));
+
+    return { since: previous.exportedAt, added, removedCount, changedFields };
+}
+
+export function hasChanges(diff: BattlecardDiff): boolean {
+    return diff.added.length > 0 || diff.removedCount > 0 || diff.changedFields.length > 0;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EXPORT
+// ─────────────────────────────────────────────────────────────────────────────
+
+const stars = (score: number) => '★'.repeat(score) + '☆'.repeat(5 - score);
+
+const sectionLabel = (key: BattlecardSectionKey) => BATTLECARD_SECTIONS.find(s => s.key === key)!.label;
+
+export function battlecardFileName(card: Battlecard, extension: 'md' | 'html'): string {
+    return `battlecard-${card.competitorId}-${formatDate(card.generatedAt)}.${extension}`;
+}
+
+export function battlecardToMarkdown(card: Battlecard, diff: BattlecardDiff): string {
+    const lines: string[] = [
+        `# ${card.name} — Competitive Battlecard`,
+        '',
+        `**Tier ${card.tier}** · ${card.category} · Threat level: **${card.assessment.threatLevel}** · Generated ${formatDate(card.generatedAt)}`,
+        '',
+    ];
+
+    if (card.description) lines.push(card.description, '');
+    const facts = [
+        card.founded && `Founded ${card.founded}`,
+        card.hq && `HQ ${card.hq}`,
+        card.employees && `${card.employees} employees`,
+        card.website && card.website,
+    ].filter(Boolean);
+    if (facts.length) lines.push(facts.join(' · '), '');
+
+    lines.push('## What changed since last export', '');
+    if (!diff.since) {
+        lines.push('_First export — no earlier battlecard to compare against._', '');
+    } else if (!hasChanges(diff)) {
+        lines.push(`_No changes since ${formatDate(diff.since)}._`, '');
+    } else {
+        lines.push(`Since ${formatDate(diff.since)}:`, '');
+        diff.changedFields.forEach(c => lines.push(`- **${c.label}:** ${c.from} → ${c.to}`));
+        diff.added.forEach(i => lines.push(`- New in ${sectionLabel(i.section)}: ${i.title} (${formatDate(i.publishedAt)})`));
+        if (diff.removedCount) lines.push(`- ${diff.removedCount} older item${diff.removedCount === 1 ? '' : 's'} dropped off`);
+        lines.push('');
+    }
+
+    lines.push('## Head-to-head vs Availity', '', `| Capability | Availity | ${card.name} |`, '| --- | --- | --- |');
+    card.headToHead.forEach(row => lines.push(`| ${row.label} | ${stars(row.availity)} | ${stars(row.competitor)} |`));
+    lines.push('');
+
+    lines.push('## Strategic assessment', '');
+    lines.push(`- **Focus areas:** ${card.assessment.focusAreas.join(', ')}`);
+    lines.push(`- **Watch for:** ${card.assessment.watchFor.join(', ')}`, '');
+
+    for (const { key, label } of BATTLECARD_SECTIONS) {
+        lines.push(`## ${label}`, '');
+        const items = card.sections[key];
+        if (items.length === 0) {
+            lines.push(`_None in the last ${BATTLECARD_LOOKBACK_DAYS} days._`, '');
+            continue;
+        }
+        items.forEach(i => {
+            const title = isLinkable(i.url) ? `[${i.title}](${i.url})` : i.title;
+            lines.push(`- ${title} — ${i.source}, ${formatDate(i.publishedAt)}`);
+        });
+        lines.push('');
+    }
+
+    lines.push('---', `_Based on ${card.signalCount} stor${card.signalCount === 1 ? 'y' : 'ies'} from the last ${BATTLECARD_LOOKBACK_DAYS} days._`);
+    return lines.join('\n') + '\n';
+}
+
+const PRINT_STYLES = `
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #1f2937; max-width: 800px; margin: 32px auto; padding: 0 24px; line-height: 1.5; }
+    h1 { margin-bottom: 4px; }
+    h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.04em; color: #6b4f3a; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 28px; }
+    .meta { color: #6b7280; font-size: 13px; }
+    .threat { font-weight: 700; }
+    .changes { background: #fffbeb; border: 1px solid #fde68a; border-radius: 8px; padding: 8px 16px; }
+    table { border-collapse: collapse; width: 100%; font-size: 13px; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #f3f4f6; }
+    td.stars { color: #f59e0b; letter-spacing: 1px; }
+    ul { padding-left: 20px; }
+    li { margin-bottom: 4px; }
+    .muted { color: #9ca3af; font-style: italic; }
+    a { color: #8b5e3c; }
+    @media print { body { margin: 0; } h2 { break-after: avoid; } li, tr { break-inside: avoid; } }
+`;
+
+export function battlecardToHtml(card: Battlecard, diff: BattlecardDiff): string {
+    const e = escapeHtml;
+    const parts: string[] = [];
+
+    parts.push(`<h1>${e(card.name)}</h1>`);
+    parts.push(`<p class="meta">Tier ${card.tier} · ${e(card.category)} · Threat level: <span class="threat">${e(card.assessment.threatLevel)}</span> · Generated ${formatDate(card.generatedAt)}</p>`);
+    if (card.description) parts.push(`<p>${e(card.description)}</p>`);
+
+    parts.push('<h2>What changed since last export</h2>');
+    if (!diff.since) {
+        parts.push('<p class="muted">First export — no earlier battlecard to compare against.</p>');
+    } else if (!hasChanges(diff)) {
+        parts.push(`<p class="muted">No changes since ${formatDate(diff.since)}.</p>`);
+    } else {
+        const changes = [
+            ...diff.changedFields.map(c => `<li><strong>${e(c.label)}:</strong> ${e(c.from)} → ${e(c.to)}</li>`),
+            ...diff.added.map(i => `<li>New in ${e(sectionLabel(i.section))}: ${e(i.title)} (${formatDate(i.publishedAt)})</li>`),
+            ...(diff.removedCount ? [`<li>${diff.removedCount} older item${diff.removedCount === 1 ? '' : 's'} dropped off</li>`] : []),
+        ];
+        parts.push(`<div class="changes"><p>Since ${formatDate(diff.since)}:</p><ul>${changes.join('')}</ul></div>`);
+    }
+
+    parts.push('<h2>Head-to-head vs Availity</h2>');
+    parts.push(`<table><thead><tr><th>Capability</th><th>Availity</th><th>${e(card.name)}</th></tr></thead><tbody>`);
+    card.headToHead.forEach(row => {
+        parts.push(`<tr><td>${e(row.label)}</td><td class="stars">${stars(row.availity)}</td><td class="stars">${stars(row.competitor)}</td></tr>`);
+    });
+    parts.push('</tbody></table>');
+
+    parts.push('<h2>Strategic assessment</h2><ul>');
+    parts.push(`<li><strong>Focus areas:</strong> ${e(card.assessment.focusAreas.join(', '))}</li>`);
+    parts.push(`<li><strong>Watch for:</strong> ${e(card.assessment.watchFor.join(', '))}</li></ul>`);
+
+    for (const { key, label } of BATTLECARD_SECTIONS) {
+        parts.push(`<h2>${e(label)}</h2>`);
+        const items = card.sections[key];
+        if (items.length === 0) {
+            parts.push(`<p class="muted">None in the last ${BATTLECARD_LOOKBACK_DAYS} days.</p>`);
+            continue;
+        }
+        parts.push('<ul>');
+        items.forEach(i => {
+            const title = isLinkable(i.url) ? `<a href="${e(i.url)}">${e(i.title)}</a>` : e(i.title);
+            parts.push(`<li>${title} <span class="meta">— ${e(i.source)}, ${formatDate(i.publishedAt)}</span></li>`);
+        });
+        parts.push('</ul>');
+    }
+
+    parts.push(`<p class="meta">Based on ${card.signalCount} stor${card.signalCount === 1 ? 'y' : 'ies'} from the last ${BATTLECARD_LOOKBACK_DAYS} days.</p>`);
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en"><head><meta charset="utf-8">',
+        `<title>${e(card.name)} battlecard</title>`,
+        `<style>${PRINT_STYLES}</style>`,
+        '</head><body>',
+        ...parts,
+        '</body></html>',
+    ].join('\n');
+}
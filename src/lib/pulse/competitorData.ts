@@ -566,3 +566,103 @@ export const COMPETITOR_PATTERNS: Array<{ pattern: string; competitorId: string
             ? [{ pattern: c.name.split('(')[0].trim().toLowerCase(), competitorId: c.id }]
             : []),
     ]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HEAD-TO-HEAD CAPABILITY RATINGS (PRD §2.2 - Competitor Profile Structure)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CapabilityKey = 'payerNetwork' | 'rcmDepth' | 'aiMl' | 'priorAuth' | 'patientExp' | 'interoperability' | 'analytics';
+
+export interface CapabilityRating {
+    label: string;
+    availityScore: 1 | 2 | 3 | 4 | 5;
+    description?: string;
+}
+
+export const AVAILITY_CAPABILITIES: Record<CapabilityKey, CapabilityRating> = {
+    payerNetwork: { label: 'Payer Network', availityScore: 5, description: 'Connections to major payers' },
+    rcmDepth: { label: 'RCM Depth', availityScore: 4, description: 'Revenue cycle capabilities' },
+    aiMl: { label: 'AI/ML', availityScore: 3, description: 'AI-powered automation' },
+    priorAuth: { label: 'Prior Auth', availityScore: 4, description: 'Prior authorization solutions' },
+    patientExp: { label: 'Patient Experience', availityScore: 3, description: 'Patient-facing tools' },
+    interoperability: { label: 'Interoperability', availityScore: 4, description: 'FHIR, APIs, data exchange' },
+    analytics: { label: 'Analytics', availityScore: 4, description: 'Reporting & insights' },
+};
+
+// Competitor-specific ratings (varies by company)
+export const COMPETITOR_RATINGS: Record<string, Partial<Record<CapabilityKey, 1 | 2 | 3 | 4 | 5>>> = {
+    'waystar': { payerNetwork: 3, rcmDepth: 5, aiMl: 4, priorAuth: 4, patientExp: 4, interoperability: 3, analytics: 4 },
+    'change-healthcare': { payerNetwork: 4, rcmDepth: 5, aiMl: 4, priorAuth: 4, patientExp: 3, interoperability: 4, analytics: 5 },
+    'trizetto': { payerNetwork: 4, rcmDepth: 4, aiMl: 3, priorAuth: 3, patientExp: 2, interoperability: 4, analytics: 4 },
+    'inovalon': { payerNetwork: 3, rcmDepth: 4, aiMl: 4, priorAuth: 3, patientExp: 3, interoperability: 4, analytics: 5 },
+    'r1-rcm': { payerNetwork: 3, rcmDepth: 5, aiMl: 3, priorAuth: 4, patientExp: 3, interoperability: 3, analytics: 4 },
+    'experian-health': { payerNetwork: 3, rcmDepth: 3, aiMl: 3, priorAuth: 3, patientExp: 4, interoperability: 3, analytics: 4 },
+    'edifecs': { payerNetwork: 4, rcmDepth: 2, aiMl: 2, priorAuth: 2, patientExp: 2, interoperability: 5, analytics: 3 },
+    'cotiviti': { payerNetwork: 4, rcmDepth: 4, aiMl: 3, priorAuth: 3, patientExp: 2, interoperability: 3, analytics: 5 },
+    'optum': { payerNetwork: 5, rcmDepth: 5, aiMl: 5, priorAuth: 5, patientExp: 4, interoperability: 4, analytics: 5 },
+    'epic': { payerNetwork: 4, rcmDepth: 4, aiMl: 4, priorAuth: 4, patientExp: 5, interoperability: 5, analytics: 5 },
+    'oracle-health': { payerNetwork: 3, rcmDepth: 4, aiMl: 4, priorAuth: 3, patientExp: 3, interoperability: 4, analytics: 4 },
+    'athenahealth': { payerNetwork: 3, rcmDepth: 4, aiMl: 3, priorAuth: 3, patientExp: 4, interoperability: 4, analytics: 4 },
+    'zelis': { payerNetwork: 4, rcmDepth: 3, aiMl: 2, priorAuth: 2, patientExp: 2, interoperability: 3, analytics: 3 },
+    'veradigm': { payerNetwork: 2, rcmDepth: 3, aiMl: 3, priorAuth: 2, patientExp: 3, interoperability: 4, analytics: 4 },
+    'cohere-health': { payerNetwork: 2, rcmDepth: 2, aiMl: 5, priorAuth: 5, patientExp: 3, interoperability: 4, analytics: 3 },
+    'infinitus': { payerNetwork: 2, rcmDepth: 2, aiMl: 5, priorAuth: 3, patientExp: 2, interoperability: 3, analytics: 2 },
+    'tennr': { payerNetwork: 1, rcmDepth: 2, aiMl: 5, priorAuth: 3, patientExp: 2, interoperability: 3, analytics: 2 },
+    'akasa': { payerNetwork: 2, rcmDepth: 4, aiMl: 5, priorAuth: 4, patientExp: 2, interoperability: 3, analytics: 3 },
+    'medal': { payerNetwork: 1, rcmDepth: 3, aiMl: 5, priorAuth: 3, patientExp: 2, interoperability: 2, analytics: 3 },
+    'olive-ai': { payerNetwork: 2, rcmDepth: 3, aiMl: 4, priorAuth: 3, patientExp: 2, interoperability: 3, analytics: 3 },
+};
+
+export type ThreatLevel = 'Critical' | 'High' | 'Medium' | 'Low';
+
+export interface StrategicAssessment {
+    threatLevel: ThreatLevel;
+    focusAreas: string[];
+    watchFor: string[];
+}
+
+// Strategic assessments for each competitor
+export const STRATEGIC_ASSESSMENTS: Record<string, StrategicAssessment> = {
+    'waystar': {
+        threatLevel: 'High',
+        focusAreas: ['AI Prior Auth', 'Provider Market Expansion', 'IPO Preparation'],
+        watchFor: ['IPO timing', 'Payer market entry', 'AI product launches'],
+    },
+    'change-healthcare': {
+        threatLevel: 'Critical',
+        focusAreas: ['Optum Integration', 'Network Effects', 'Data Analytics'],
+        watchFor: ['Optum synergies', 'UHG bundling strategy', 'Anti-trust outcomes'],
+    },
+    'optum': {
+        threatLevel: 'Critical',
+        focusAreas: ['Vertical Integration', 'AI/ML Investment', 'Care Delivery'],
+        watchFor: ['Competitive bundling', 'Payer leverage', 'M&A activity'],
+    },
+    'epic': {
+        threatLevel: 'High',
+        focusAreas: ['RCM Module Expansion', 'Payer Platforms', 'Interoperability'],
+        watchFor: ['Direct RCM competition', 'Payer product launches', 'Network effects'],
+    },
+    'cohere-health': {
+        threatLevel: 'Medium',
+        focusAreas: ['AI Prior Auth', 'Payer Adoption', 'Series D Funding'],
+        watchFor: ['Large payer wins', 'Expansion beyond prior auth', 'Acquisition rumors'],
+    },
+    'infinitus': {
+        threatLevel: 'Medium',
+        focusAreas: ['Voice AI', 'Eligibility Automation', 'Provider Adoption'],
+        watchFor: ['Voice AI commoditization', 'Provider wins', 'Competitive response'],
+    },
+    'akasa': {
+        threatLevel: 'Medium',
+        focusAreas: ['Generative AI', 'RCM Automation', 'Health System Sales'],
+        watchFor: ['Gen AI roadmap', 'Large health system wins', 'Funding rounds'],
+    },
+};
+
+// Default assessment for competitors without specific data
+export const DEFAULT_ASSESSMENT: StrategicAssessment = {
+    threatLevel: 'Medium',
+    focusAreas: ['Market Expansion', 'Product Development'],
+    watchFor: ['Funding rounds', 'Major customer wins', 'Product launches'],
+};
@@ -0,0 +1,410 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Digest Documents
+// Date-range + persona briefs exported as Markdown, HTML or an email body
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { DOMAIN_CONFIG, type PulseSignal, type SignalDomain, type SignalPriority } from './types';
+import {
+    getAllPersonas,
+    getDigestRange,
+    type DigestSchedule,
+    type NotificationPersona,
+} from './notifications/notificationPreferencesEngine';
+import { ALL_COMPETITORS, type CompetitorProfile } from './competitorData';
+import { AGENCY_BY_ID, type ImpactLevel } from './regulatoryData';
+import { EVENT_KIND_LABELS, buildRegulatoryEvents, type RegulatoryEventKind } from './regulatoryCalendar';
+import { matchCompetitorIds, queryArchive } from './signalArchive';
+import { clusterStories } from './storyClustering';
+import { escapeHtml, formatDate, isLinkable } from './exportFormat';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+const TOP_STORY_COUNT = 5;
+const STORIES_PER_DOMAIN = 5;
+const HEADLINES_PER_COMPETITOR = 3;
+/** Deadlines this far past the end of the range still make the brief */
+export const DIGEST_DEADLINE_HORIZON_DAYS = 90;
+
+const PRIORITY_RANK: Record<SignalPriority, number> = { critical: 3, high: 2, medium: 1, low: 0 };
+
+const DOMAIN_ORDER: SignalDomain[] = ['COMPETITIVE', 'REGULATORY', 'TECHNOLOGY', 'MARKET', 'NEWS'];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface DigestRange {
+    start: string;           // ISO timestamp, inclusive
+    end: string;             // ISO timestamp, inclusive
+}
+
+export interface DigestStory {
+    id: string;
+    headline: string;
+    summary: string;
+    url: string;
+    source: string;
+    sourceCount: number;     // Outlets covering the same story
+    domain: SignalDomain;
+    priority: SignalPriority;
+    publishedAt: string;
+}
+
+export interface DigestDomainSection {
+    domain: SignalDomain;
+    label: string;
+    signalCount: number;
+    stories: DigestStory[];
+}
+
+export interface DigestDeadline {
+    date: string;            // YYYY-MM-DD
+    kind: RegulatoryEventKind;
+    title: string;
+    agency: string | null;
+    impactLevel: ImpactLevel;
+    url: string;
+}
+
+export interface DigestCompetitorSummary {
+    competitorId: string;
+    name: string;
+    tier: CompetitorProfile['tier'];
+    storyCount: number;
+    headlines: string[];
+}
+
+export interface PulseDigest {
+    personaId: string;
+    personaName: string;
+    range: DigestRange;
+    generatedAt: string;
+    signalCount: number;
+    storyCount: number;
+    topStories: DigestStory[];
+    domains: DigestDomainSection[];
+    deadlines: DigestDeadline[];
+    competitors: DigestCompetitorSummary[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BUILDING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Archived history for the range plus the live signals that fall inside it */
+export async function collectDigestSignals(range: DigestRange, liveSignals: PulseSignal[]): Promise<PulseSignal[]> {
+    const archived = await queryArchive({ dateRange: range });
+    const byId = new Map<string, PulseSignal>(archived.map(s => [s.id, s]));
+    liveSignals
+        .filter(s => !s.id.startsWith('trend-') && inRange(s, range))
+        .forEach(s => byId.set(s.id, s));
+    return [...byId.values()];
+}
+
+function inRange(signal: PulseSignal, range: DigestRange): boolean {
+    const time = new Date(signal.publishedAt).getTime();
+    return time >= new Date(range.start).getTime() && time <= new Date(range.end).getTime();
+}
+
+const matchesPersona = (signal: PulseSignal, persona: NotificationPersona) =>
+    persona.settings.domains[signal.domain] !== false &&
+    PRIORITY_RANK[signal.priority] >= PRIORITY_RANK[persona.settings.minPriority];
+
+/** Urgency first, then how many outlets picked the story up */
+const storyScore = (story: DigestStory, signal: PulseSignal) =>
+    PRIORITY_RANK[story.priority] + signal.importanceScore + signal.relevanceScore + 0.25 * (story.sourceCount - 1);
+
+export function buildDigest(signals: PulseSignal[], persona: NotificationPersona, range: DigestRange, now = Date.now()): PulseDigest {
+    const relevant = signals.filter(s => inRange(s, range) && matchesPersona(s, persona));
+
+    const ranked = clusterStories(relevant)
+        .map(story => {
+            const digestStory: DigestStory = {
+                id: story.id,
+                headline: story.headline,
+                summary: story.canonical.summary,
+                url: story.canonical.url,
+                source: story.canonical.source.name,
+                sourceCount: story.sources.length,
+                domain: story.canonical.domain,
+                priority: story.canonical.priority,
+                publishedAt: story.firstPublishedAt,
+            };
+            return { story: digestStory, signals: story.signals, score: storyScore(digestStory, story.canonical) };
+        })
+        .sort((a, b) => b.score - a.score);
+
+    const domains = DOMAIN_ORDER
+        .map(domain => {
+            const inDomain = ranked.filter(r => r.story.domain === domain);
+            return {
+                domain,
+                label: DOMAIN_CONFIG[domain].label,
+                signalCount: inDomain.reduce((sum, r) => sum + r.signals.length, 0),
+                stories: inDomain.slice(0, STORIES_PER_DOMAIN).map(r => r.story),
+            };
+        })
+        .filter(section => section.stories.length > 0);
+
+    const deadlineStart = range.start.slice(0, 10);
+    const deadlineEnd = new Date(new Date(range.end).getTime() + DIGEST_DEADLINE_HORIZON_DAYS * 24 * 60 * 60 * 1000)
+        .toISOString().slice(0, 10);
+    const deadlines = buildRegulatoryEvents(relevant)
+        .filter(e => e.date >= deadlineStart && e.date <= deadlineEnd)
+        .map(e => ({
+            date: e.date,
+            kind: e.kind,
+            title: e.title,
+            agency: e.agency ? AGENCY_BY_ID.get(e.agency)?.name ?? null : null,
+            impactLevel: e.impactLevel,
+            url: e.url,
+        }));
+
+    const byCompetitor = new Map<string, DigestStory[]>();
+    for (const { story, signals: members } of ranked) {
+        const ids = new Set(members.flatMap(matchCompetitorIds));
+        ids.forEach(id => byCompetitor.set(id, [...(byCompetitor.get(id) ?? []), story]));
+    }
+    const competitors = [...byCompetitor.entries()]
+        .map(([id, stories]) => {
+            const profile = ALL_COMPETITORS.find(c => c.id === id);
+            return profile && {
+                competitorId: id,
+                name: profile.name,
+                tier: profile.tier,
+                storyCount: stories.length,
+                headlines: stories.slice(0, HEADLINES_PER_COMPETITOR).map(s => s.headline),
+            };
+        })
+        .filter((c): c is DigestCompetitorSummary => !!c)
+        .sort((a, b) => b.storyCount - a.storyCount || a.tier - b.tier || a.name.localeCompare(b.name));
+
+    return {
+        personaId: persona.id,
+        personaName: persona.name,
+        range,
+        generatedAt: new Date(now).toISOString(),
+        signalCount: relevant.length,
+        storyCount: ranked.length,
+        topStories: ranked.slice(0, TOP_STORY_COUNT).map(r => r.story),
+        domains,
+        deadlines,
+        competitors,
+    };
+}
+
+/** The digest a schedule delivers now: its window since the last delivery, through its persona */
+export async function buildScheduledDigest(schedule: DigestSchedule, liveSignals: PulseSignal[], now = new Date()): Promise<PulseDigest> {
+    const range = getDigestRange(schedule, now);
+    const personas = getAllPersonas();
+    const persona = personas.find(p => p.id === schedule.personaId) ?? personas[0];
+    const signals = await collectDigestSignals(range, liveSignals);
+    return buildDigest(signals, persona, range, now.getTime());
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EXPORT
+// ─────────────────────────────────────────────────────────────────────────────
+
+const plural = (count: number, one: string, many = `${one}s`) => `${count} ${count === 1 ? one : many}`;
+
+export function digestTitle(digest: PulseDigest): string {
+    return `Pulse Intelligence Brief — ${formatDate(digest.range.start)} to ${formatDate(digest.range.end)}`;
+}
+
+export function digestFileName(digest: PulseDigest, extension: 'md' | 'html' | 'txt'): string {
+    return `pulse-digest-${digest.personaId}-${formatDate(digest.range.end)}.${extension}`;
+}
+
+const storyMeta = (story: DigestStory) =>
+    [story.source, story.sourceCount > 1 && `+${story.sourceCount - 1} more`, formatDate(story.publishedAt)]
+        .filter(Boolean).join(', ');
+
+const deadlineLine = (d: DigestDeadline) =>
+    `${d.date} — ${EVENT_KIND_LABELS[d.kind]}${d.agency ? ` (${d.agency})` : ''}: ${d.title}`;
+
+export function digestToMarkdown(digest: PulseDigest): string {
+    const lines: string[] = [
+        `# ${digestTitle(digest)}`,
+        '',
+        `_${digest.personaName} view · ${plural(digest.storyCount, 'story', 'stories')} from ${plural(digest.signalCount, 'signal')} · Generated ${formatDate(digest.generatedAt)}_`,
+        '',
+    ];
+
+    const storyItem = (story: DigestStory) => {
+        const headline = isLinkable(story.url) ? `[${story.headline}](${story.url})` : story.headline;
+        return `- **${headline}** — ${storyMeta(story)}`;
+    };
+
+    lines.push('## Top stories', '');
+    if (digest.topStories.length === 0) lines.push('_Nothing matched this persona in the selected range._');
+    digest.topStories.forEach(story => {
+        lines.push(storyItem(story));
+        if (story.summary) lines.push(`  ${story.summary}`);
+    });
+    lines.push('');
+
+    if (digest.deadlines.length > 0) {
+        lines.push('## Upcoming deadlines', '');
+        digest.deadlines.forEach(d => lines.push(`- ${deadlineLine(d)}`));
+        lines.push('');
+    }
+
+    if (digest.competitors.length > 0) {
+        lines.push('## Competitors', '', '| Competitor | Tier | Stories | Latest |', '| --- | --- | --- | --- |');
+        digest.competitors.forEach(c => {
+            lines.push(`| ${c.name} | ${c.tier} | ${c.storyCount} | ${c.headlines.join('; ').replace(/\|/g, '\\|')} |`);
+        });
+        lines.push('');
+    }
+
+    for (const section of digest.domains) {
+        lines.push(`## ${section.label} (${plural(section.signalCount, 'signal')})`, '');
+        section.stories.forEach(story => lines.push(storyItem(story)));
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+const DIGEST_STYLES = `
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #1f2937; max-width: 760px; margin: 32px auto; padding: 0 24px; line-height: 1.5; }
+    h1 { font-size: 22px; margin-bottom: 4px; }
+    h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.04em; color: #6b4f3a; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 28px; }
+    .meta { color: #6b7280; font-size: 13px; }
+    .summary { margin: 2px 0 0; font-size: 14px; color: #4b5563; }
+    .domain { display: inline-block; padding: 1px 6px; border-radius: 4px; color: #fff; font-size: 10px; font-weight: 600; margin-right: 6px; vertical-align: middle; }
+    .impact-critical { color: #b91c1c; font-weight: 600; }
+    .impact-high { color: #b45309; font-weight: 600; }
+    table { border-collapse: collapse; width: 100%; font-size: 13px; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+    ul { padding-left: 20px; }
+    li { margin-bottom: 6px; }
+    .muted { color: #9ca3af; font-style: italic; }
+    a { color: #8b5e3c; }
+    @media print { body { margin: 0; } h2 { break-after: avoid; } li, tr { break-inside: avoid; } }
+`;
+
+export function digestToHtml(digest: PulseDigest): string {
+    const e = escapeHtml;
+    const parts: string[] = [];
+
+    const storyItem = (story: DigestStory, withSummary: boolean) => {
+        const headline = isLinkable(story.url) ? `<a href="${e(story.url)}">${e(story.headline)}</a>` : e(story.headline);
+        const badge = `<span class="domain" style="background:${DOMAIN_CONFIG[story.domain].color}">${e(DOMAIN_CONFIG[story.domain].label)}</span>`;
+        const summary = withSummary && story.summary ? `<p class="summary">${e(story.summary)}</p>` : '';
+        return `<li>${badge}<strong>${headline}</strong> <span class="meta">— ${e(storyMeta(story))}</span>${summary}</li>`;
+    };
+
+    parts.push(`<h1>${e(digestTitle(digest))}</h1>`);
+    parts.push(`<p class="meta">${e(digest.personaName)} view · ${plural(digest.storyCount, 'story', 'stories')} from ${plural(digest.signalCount, 'signal')} · Generated ${formatDate(digest.generatedAt)}</p>`);
+
+    parts.push('<h2>Top stories</h2>');
+    parts.push(digest.topStories.length === 0
+        ? '<p class="muted">Nothing matched this persona in the selected range.</p>'
+        : `<ul>${digest.topStories.map(s => storyItem(s, true)).join('')}</ul>`);
+
+    if (digest.deadlines.length > 0) {
+        parts.push('<h2>Upcoming deadlines</h2><ul>');
+        digest.deadlines.forEach(d => {
+            const title = isLinkable(d.url) ? `<a href="${e(d.url)}">${e(d.title)}</a>` : e(d.title);
+            parts.push(`<li><strong>${d.date}</strong> — ${e(EVENT_KIND_LABELS[d.kind])}${d.agency ? ` (${e(d.agency)})` : ''}: ${title} <span class="impact-${d.impactLevel}">${e(d.impactLevel)}</span></li>`);
+        });
+        parts.push('</ul>');
+    }
+
+    if (digest.competitors.length > 0) {
+        parts.push('<h2>Competitors</h2>');
+        parts.push('<table><thead><tr><th>Competitor</th><th>Tier</th><th>Stories</th><th>Latest</th></tr></thead><tbody>');
+        digest.competitors.forEach(c => {
+            parts.push(`<tr><td>${e(c.name)}</td><td>${c.tier}</td><td>${c.storyCount}</td><td>${c.headlines.map(e).join('<br>')}</td></tr>`);
+        });
+        parts.push('</tbody></table>');
+    }
+
+    for (const section of digest.domains) {
+        parts.push(`<h2>${e(section.label)} <span class="meta">(${plural(section.signalCount, 'signal')})</span></h2>`);
+        parts.push(`<ul>${section.stories.map(s => storyItem(s, false)).join('')}</ul>`);
+    }
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en"><head><meta charset="utf-8">',
+        `<title>${e(digestTitle(digest))}</title>`,
+        `<style>${DIGEST_STYLES}</style>`,
+        '</head><body>',
+        ...parts,
+        '</body></html>',
+    ].join('\n');
+}
+
+/** Greedy word wrap so the body reads well in clients that don't reflow */
+function wrap(text: string, width: number, indent = ''): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (current && (indent + current + ' ' + word).length > width) {
+            lines.push(indent + current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) lines.push(indent + current);
+    return lines;
+}
+
+const EMAIL_WIDTH = 72;
+
+export function digestEmailSubject(digest: PulseDigest): string {
+    const lead = digest.topStories[0];
+    return `Pulse brief ${formatDate(digest.range.end)}${lead ? `: ${lead.headline}` : ''}`;
+}
+
+export function digestToEmailText(digest: PulseDigest): string {
+    const lines: string[] = [
+        digestTitle(digest),
+        `${digest.personaName} view · ${plural(digest.storyCount, 'story', 'stories')} from ${plural(digest.signalCount, 'signal')}`,
+        '',
+    ];
+
+    const heading = (label: string, suffix = '') => {
+        const text = `${label.toUpperCase()}${suffix}`;
+        lines.push(text, '-'.repeat(text.length));
+    };
+
+    heading('Top stories');
+    if (digest.topStories.length === 0) lines.push('Nothing matched this persona in the selected range.');
+    digest.topStories.forEach((story, i) => {
+        lines.push(...wrap(`${i + 1}. ${story.headline}`, EMAIL_WIDTH));
+        lines.push(...wrap(`(${storyMeta(story)})`, EMAIL_WIDTH, '   '));
+        if (isLinkable(story.url)) lines.push(`   ${story.url}`);
+    });
+    lines.push('');
+
+    if (digest.deadlines.length > 0) {
+        heading('Upcoming deadlines');
+        digest.deadlines.forEach(d => lines.push(...wrap(`* ${deadlineLine(d)}`, EMAIL_WIDTH).map((l, i) => (i ? `  ${l}` : l))));
+        lines.push('');
+    }
+
+    if (digest.competitors.length > 0) {
+        heading('Competitors');
+        digest.competitors.forEach(c => {
+            lines.push(`* ${c.name} (tier ${c.tier}) — ${plural(c.storyCount, 'story', 'stories')}`);
+            c.headlines.forEach(h => lines.push(...wrap(`- ${h}`, EMAIL_WIDTH, '    ')));
+        });
+        lines.push('');
+    }
+
+    for (const section of digest.domains) {
+        heading(section.label, ` (${plural(section.signalCount, 'signal')})`);
+        section.stories.forEach(story => lines.push(...wrap(`* ${story.headline}`, EMAIL_WIDTH)));
+        lines.push('');
+    }
+
+    lines.push('--', `Generated by Café Pulse on ${formatDate(digest.generatedAt)}`);
+    return lines.join('\n');
+}
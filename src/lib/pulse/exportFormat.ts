@@ -0,0 +1,16 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Export Formatting
+// Helpers shared by the battlecard and digest Markdown/HTML exports
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** YYYY-MM-DD, or the input unchanged when it isn't a date */
+export const formatDate = (iso: string) => {
+    const date = new Date(iso);
+    return Number.isNaN(date.getTime()) ? iso : date.toISOString().slice(0, 10);
+};
+
+/** Only web URLs become links; demo signals carry '#' */
+export const isLinkable = (url: string) => /^https?:\/\//i.test(url);
+
+export const escapeHtml = (value: string) =>
+    value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
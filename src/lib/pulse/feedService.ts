@@ -0,0 +1,350 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Feed Ingestion Service
+// RSS 2.0 / Atom / JSON Feed provider with per-feed tier & polling interval
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { FeedFormat, FeedSubscription, PulseSignal, SourceTier } from './types';
+import { articleKey, articleToPulseSignal, createSignalSource, isHealthcareRelevant, type RawArticle } from './newsService';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_POLL_INTERVAL_MINUTES = 60;
+export const MIN_POLL_INTERVAL_MINUTES = 5;
+const MAX_ITEMS_PER_FEED = 25;
+
+/** A feed slower than this counts as failed and is retried next interval */
+const FEED_TIMEOUT_MS = 15_000;
+
+/**
+ * Most publishers send no CORS headers, so the browser can't read their
+ * feeds directly. VITE_FEED_PROXY_URL points at a proxy instead, either
+ * with a {url} placeholder or taking the feed as a `url` query parameter:
+ *   VITE_FEED_PROXY_URL=https://proxy.example.com/feed?url={url}
+ * Unset, feeds are fetched directly.
+ */
+const FEED_PROXY_URL: string | undefined = import.meta.env?.VITE_FEED_PROXY_URL;
+
+const FEED_ACCEPT_HEADER = [
+    'application/feed+json',
+    'application/rss+xml',
+    'application/atom+xml',
+    'application/xml;q=0.9',
+    'text/xml;q=0.9',
+    '*/*;q=0.8',
+].join(', ');
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PARSING HELPERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ParsedFeed {
+    format: FeedFormat;
+    title: string;
+    articles: RawArticle[];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+function stripHtml(html: string): string {
+    return html
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+            if (entity[0] === '#') {
+                const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+                return Number.isNaN(code) ? match : String.fromCodePoint(code);
+            }
+            return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function toIsoDate(value: string | undefined): string {
+    if (!value) return '';
+    const date = new Date(value.trim());
+    return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+}
+
+/** Direct child lookup — matches prefixed names (content:encoded) and local names */
+function childElement(parent: Element, ...names: string[]): Element | undefined {
+    const children = Array.from(parent.children);
+    for (const name of names) {
+        const match = children.find(c => c.nodeName === name || c.localName === name);
+        if (match) return match;
+    }
+    return undefined;
+}
+
+function childText(parent: Element, ...names: string[]): string {
+    return childElement(parent, ...names)?.textContent?.trim() ?? '';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// FORMAT PARSERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseRss(root: Element): ParsedFeed {
+    const channel = childElement(root, 'channel') ?? root;
+    const feedTitle = childText(channel, 'title');
+    const items = Array.from(root.getElementsByTagName('item'));
+
+    const articles = items.map((item): RawArticle => {
+        const description = childText(item, 'description') || childText(item, 'content:encoded', 'encoded');
+        const enclosure = childElement(item, 'enclosure');
+        const media = childElement(item, 'media:content', 'media:thumbnail');
+        const image = enclosure?.getAttribute('type')?.startsWith('image/')
+            ? enclosure.getAttribute('url') ?? undefined
+            : media?.getAttribute('url') ?? undefined;
+
+        return {
+            title: stripHtml(childText(item, 'title')),
+            description: stripHtml(description),
+            url: childText(item, 'link') || childText(item, 'guid'),
+            image,
+            publishedAt: toIsoDate(childText(item, 'pubDate') || childText(item, 'dc:date', 'date')),
+            source: { name: feedTitle },
+        };
+    });
+
+    return { format: 'rss', title: feedTitle, articles };
+}
+
+function parseAtom(root: Element): ParsedFeed {
+    const feedTitle = stripHtml(childText(root, 'title'));
+    const entries = Array.from(root.children).filter(c => c.localName === 'entry');
+
+    const articles = entries.map((entry): RawArticle => {
+        const links = Array.from(entry.children).filter(c => c.localName === 'link');
+        const link = links.find(l => !l.getAttribute('rel') || l.getAttribute('rel') === 'alternate') ?? links[0];
+        const image = links.find(l => l.getAttribute('rel') === 'enclosure' && l.getAttribute('type')?.startsWith('image/'));
+
+        return {
+            title: stripHtml(childText(entry, 'title')),
+            description: stripHtml(childText(entry, 'summary') || childText(entry, 'content')),
+            url: link?.getAttribute('href') || childText(entry, 'id'),
+            image: image?.getAttribute('href') ?? undefined,
+            publishedAt: toIsoDate(childText(entry, 'published') || childText(entry, 'updated')),
+            source: { name: feedTitle },
+        };
+    });
+
+    return { format: 'atom', title: feedTitle, articles };
+}
+
+interface JsonFeedItem {
+    id?: string;
+    url?: string;
+    external_url?: string;
+    title?: string;
+    summary?: string;
+    content_text?: string;
+    content_html?: string;
+    image?: string;
+    banner_image?: string;
+    date_published?: string;
+    date_modified?: string;
+}
+
+function parseJsonFeed(body: string): ParsedFeed {
+    const data = JSON.parse(body) as { version?: string; title?: string; items?: JsonFeedItem[] };
+    if (!data.version?.startsWith('https://jsonfeed.org/version/') || !Array.isArray(data.items)) {
+        throw new Error('Unrecognized JSON feed: missing jsonfeed.org version or items');
+    }
+
+    const feedTitle = data.title?.trim() ?? '';
+    const articles = data.items.map((item): RawArticle => ({
+        title: stripHtml(item.title ?? ''),
+        description: item.summary?.trim() || item.content_text?.trim() || stripHtml(item.content_html ?? ''),
+        url: item.url || item.external_url || item.id || '',
+        image: item.image || item.banner_image,
+        publishedAt: toIsoDate(item.date_published || item.date_modified),
+        source: { name: feedTitle },
+    }));
+
+    return { format: 'json', title: feedTitle, articles };
+}
+
+/**
+ * Parse an RSS 2.0, Atom or JSON Feed document into RawArticles.
+ * Throws when the body is not one of the three supported formats.
+ */
+export function parseFeed(body: string): ParsedFeed {
+    const trimmed = body.trim();
+    if (trimmed.startsWith('{')) return parseJsonFeed(trimmed);
+
+    const doc = new DOMParser().parseFromString(trimmed, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Feed is not valid XML or JSON');
+    }
+
+    const root = doc.documentElement;
+    if (root.localName === 'rss' || root.localName === 'RDF') return parseRss(root);
+    if (root.localName === 'feed') return parseAtom(root);
+
+    throw new Error(`Unrecognized feed root element <${root.nodeName}>`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SUBSCRIPTIONS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface NewFeedInput {
+    url: string;
+    name?: string;
+    tier?: SourceTier;
+    pollIntervalMinutes?: number;
+}
+
+export function createFeedSubscription(input: NewFeedInput): FeedSubscription {
+    let parsedUrl: URL;
+    try {
+        parsedUrl = new URL(input.url.trim());
+    } catch {
+        throw new Error('Enter a valid feed URL');
+    }
+    if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+        throw new Error('Feed URL must use http or https');
+    }
+
+    return {
+        id: `feed-${Date.now().toString(36)}`,
+        name: input.name?.trim() || parsedUrl.hostname.replace(/^www\./, ''),
+        url: parsedUrl.toString(),
+        tier: input.tier ?? 2,
+        pollIntervalMinutes: Math.max(MIN_POLL_INTERVAL_MINUTES, input.pollIntervalMinutes ?? DEFAULT_POLL_INTERVAL_MINUTES),
+        enabled: true,
+        lastFetchedAt: null,
+        lastError: null,
+        lastItemCount: 0,
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CACHE & POLLING
+// Signals aren't persisted, so "due" is tracked per session: every feed is
+// fetched once after load, then again once its own interval has elapsed.
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface FeedCacheEntry {
+    fetchedAt: number;
+    signals: PulseSignal[];
+}
+
+const feedCache = new Map<string, FeedCacheEntry>();
+
+export interface FeedFetchResult {
+    feedId: string;
+    fetchedAt: string;
+    itemCount: number;
+    error: string | null;
+}
+
+export function isFeedDue(feed: FeedSubscription, now = Date.now()): boolean {
+    if (!feed.enabled) return false;
+    const entry = feedCache.get(feed.id);
+    if (!entry) return true;
+    const intervalMs = Math.max(MIN_POLL_INTERVAL_MINUTES, feed.pollIntervalMinutes) * 60 * 1000;
+    return now - entry.fetchedAt >= intervalMs;
+}
+
+/**
+ * Run parsed articles through the same relevance → classification pipeline
+ * as the API providers. IDs are derived from the item URL so read/bookmark
+ * state survives re-polling.
+ */
+export function feedArticlesToSignals(feed: FeedSubscription, articles: RawArticle[]): PulseSignal[] {
+    const seen = new Set<string>();
+
+    return articles
+        .filter(article => article.title && isHealthcareRelevant(article.title, article.description))
+        .filter(article => {
+            const key = article.url || article.title;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, MAX_ITEMS_PER_FEED)
+        .map(article => ({
+            ...articleToPulseSignal(article),
+            id: `${feed.id}-${articleKey(article)}`,
+            source: createSignalSource(feed.name, feed.url, feed.tier, 'rss'),
+        }));
+}
+
+/** Where to request a feed from, through the proxy when one is configured */
+export function feedRequestUrl(feedUrl: string, proxyUrl = FEED_PROXY_URL): string {
+    if (!proxyUrl) return feedUrl;
+    const encoded = encodeURIComponent(feedUrl);
+    if (proxyUrl.includes('{url}')) return proxyUrl.replace('{url}', encoded);
+    return `${proxyUrl}${proxyUrl.includes('?') ? '&' : '?'}url=${encoded}`;
+}
+
+async function fetchFeed(feed: FeedSubscription): Promise<PulseSignal[]> {
+    let response: Response;
+    try {
+        response = await fetch(feedRequestUrl(feed.url), {
+            headers: { Accept: FEED_ACCEPT_HEADER },
+            signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+        });
+    } catch (error) {
+        if (error instanceof DOMException && error.name === 'TimeoutError') {
+            throw new Error(`Feed timed out after ${FEED_TIMEOUT_MS / 1000}s`);
+        }
+        throw error;
+    }
+    if (!response.ok) {
+        throw new Error(`Feed request failed: ${response.status}`);
+    }
+
+    const parsed = parseFeed(await response.text());
+    return feedArticlesToSignals(feed, parsed.articles);
+}
+
+/**
+ * Fetch every enabled feed that is due (or all of them when forced) and
+ * return the cached signals for all enabled feeds, plus per-feed results
+ * for the ones actually fetched.
+ */
+export async function fetchFeedSignals(
+    feeds: FeedSubscription[],
+    force = false
+): Promise<{ signals: PulseSignal[]; results: FeedFetchResult[] }> {
+    const enabledFeeds = feeds.filter(f => f.enabled);
+    const results: FeedFetchResult[] = [];
+
+    for (const feed of enabledFeeds) {
+        if (!force && !isFeedDue(feed)) continue;
+
+        const fetchedAt = Date.now();
+        try {
+            const signals = await fetchFeed(feed);
+            feedCache.set(feed.id, { fetchedAt, signals });
+            results.push({ feedId: feed.id, fetchedAt: new Date(fetchedAt).toISOString(), itemCount: signals.length, error: null });
+        } catch (error) {
+            console.error('[FeedService] Fetch failed:', feed.url, error);
+            // Keep the last good items and wait a full interval before retrying
+            feedCache.set(feed.id, { fetchedAt, signals: feedCache.get(feed.id)?.signals ?? [] });
+            results.push({
+                feedId: feed.id,
+                fetchedAt: new Date(fetchedAt).toISOString(),
+                itemCount: 0,
+                error: error instanceof Error ? error.message : 'Feed fetch failed',
+            });
+        }
+    }
+
+    const signals = enabledFeeds.flatMap(f => feedCache.get(f.id)?.signals ?? []);
+    return { signals, results };
+}
+
+export function clearFeedCache(feedId?: string): void {
+    if (feedId) {
+        feedCache.delete(feedId);
+    } else {
+        feedCache.clear();
+    }
+}
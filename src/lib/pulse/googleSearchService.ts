@@ -5,6 +5,7 @@
 // ═══════════════════════════════════════════════════════════════════════════
 
 import type { PulseSignal, SignalDomain, SignalPriority, SignalSource, SignalEntities } from './types';
+import { registerProvider, callProvider, checkProvider, getProviderHealth, resetProviderUsage, type PulseProvider } from './providerRegistry';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // API CONFIGURATION
@@ -16,92 +17,24 @@ const GOOGLE_SEARCH_ENGINE_ID = '0378edd08dd904791'; // Custom Search Engine ID
 // STRICT LIMITS - Never exceed these no matter what
 const DAILY_LIMIT_ABSOLUTE = 40; // Hard limit, never exceed
 const DAILY_LIMIT_WARNING = 30;  // Start conserving after this
-const STORAGE_KEY = 'pulse_google_search_usage';
-
-// ─────────────────────────────────────────────────────────────────────────────
-// USAGE TRACKING (Persisted across sessions)
-// ─────────────────────────────────────────────────────────────────────────────
-
-interface UsageData {
-    date: string;           // YYYY-MM-DD format
-    count: number;          // Searches used today
-    lastSearchTime: number; // Timestamp of last search
-}
-
-function getTodayDate(): string {
-    const now = new Date();
-    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
-}
-
-function getUsageData(): UsageData {
-    try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        if (stored) {
-            const data = JSON.parse(stored) as UsageData;
-            // Reset if it's a new day
-            if (data.date !== getTodayDate()) {
-                return { date: getTodayDate(), count: 0, lastSearchTime: 0 };
-            }
-            return data;
-        }
-    } catch {
-        // Ignore parse errors
-    }
-    return { date: getTodayDate(), count: 0, lastSearchTime: 0 };
-}
-
-function saveUsageData(data: UsageData): void {
-    try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    } catch {
-        // Ignore quota errors
-    }
-}
-
-function incrementUsage(): void {
-    const data = getUsageData();
-    data.count++;
-    data.lastSearchTime = Date.now();
-    saveUsageData(data);
-}
+const PROVIDER_ID = 'google-search';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // PUBLIC: CHECK IF SEARCH IS ALLOWED
 // ─────────────────────────────────────────────────────────────────────────────
 
 export function canPerformGoogleSearch(): { allowed: boolean; reason?: string; remaining: number } {
-    const usage = getUsageData();
-    const remaining = DAILY_LIMIT_ABSOLUTE - usage.count;
-
-    if (usage.count >= DAILY_LIMIT_ABSOLUTE) {
-        return {
-            allowed: false,
-            reason: `Daily limit reached (${DAILY_LIMIT_ABSOLUTE}). Resets at midnight.`,
-            remaining: 0,
-        };
-    }
-
-    // Rate limit: minimum 30 seconds between searches to prevent abuse
-    const timeSinceLastSearch = Date.now() - usage.lastSearchTime;
-    if (timeSinceLastSearch < 30000 && usage.count > 0) {
-        return {
-            allowed: false,
-            reason: `Please wait ${Math.ceil((30000 - timeSinceLastSearch) / 1000)} seconds before next search.`,
-            remaining,
-        };
-    }
-
-    return { allowed: true, remaining };
+    const check = checkProvider(PROVIDER_ID);
+    return { allowed: check.allowed, reason: check.message, remaining: check.remaining };
 }
 
 export function getGoogleSearchStats(): { used: number; remaining: number; limitReached: boolean; conserveMode: boolean } {
-    const usage = getUsageData();
-    const remaining = DAILY_LIMIT_ABSOLUTE - usage.count;
+    const [health] = getProviderHealth('search').filter(h => h.id === PROVIDER_ID);
     return {
-        used: usage.count,
-        remaining,
-        limitReached: usage.count >= DAILY_LIMIT_ABSOLUTE,
-        conserveMode: usage.count >= DAILY_LIMIT_WARNING,
+        used: health.used,
+        remaining: health.remaining,
+        limitReached: health.remaining === 0,
+        conserveMode: health.conserveMode,
     };
 }
 
@@ -294,24 +227,10 @@ function resultToPulseSignal(result: GoogleSearchResult, index: number): PulseSi
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// PUBLIC: PERFORM GOOGLE SEARCH
+// GOOGLE SEARCH PROVIDER
 // ─────────────────────────────────────────────────────────────────────────────
 
-export async function searchGoogleHealthcare(query: string): Promise<{
-    signals: PulseSignal[];
-    error?: string;
-    usageStats: ReturnType<typeof getGoogleSearchStats>;
-}> {
-    // Check if search is allowed
-    const check = canPerformGoogleSearch();
-    if (!check.allowed) {
-        return {
-            signals: [],
-            error: check.reason,
-            usageStats: getGoogleSearchStats(),
-        };
-    }
-
+async function fetchGoogleResults(query: string): Promise<GoogleSearchResult[]> {
     // Add healthcare context to query if not present
     const healthcareQuery = query.toLowerCase().includes('health')
         ? query
@@ -319,48 +238,69 @@ export async function searchGoogleHealthcare(query: string): Promise<{
 
     const url = `https://www.googleapis.com/customsearch/v1?key=${GOOGLE_API_KEY}&cx=${GOOGLE_SEARCH_ENGINE_ID}&q=${encodeURIComponent(healthcareQuery)}&num=10`;
 
-    try {
-        console.log(`[GoogleSearch] Searching: "${healthcareQuery}" (${getUsageData().count + 1}/${DAILY_LIMIT_ABSOLUTE} today)`);
+    console.log(`[GoogleSearch] Searching: "${healthcareQuery}"`);
+    const response = await fetch(url);
+    const data: GoogleSearchResponse = await response.json();
 
-        const response = await fetch(url);
-        const data: GoogleSearchResponse = await response.json();
+    if (data.error) {
+        console.error('[GoogleSearch] API Error:', data.error.message);
+        throw new Error(data.error.message);
+    }
 
-        // Increment usage AFTER successful API call
-        incrementUsage();
+    return data.items ?? [];
+}
 
-        if (data.error) {
-            console.error('[GoogleSearch] API Error:', data.error.message);
-            return {
-                signals: [],
-                error: data.error.message,
-                usageStats: getGoogleSearchStats(),
-            };
-        }
+// One search every 30 seconds at most, so a burst of clicks can't drain the day
+const googleSearchProvider: PulseProvider<string, GoogleSearchResult[]> = {
+    config: {
+        id: PROVIDER_ID,
+        name: 'Google Search',
+        kind: 'search',
+        dailyQuota: DAILY_LIMIT_ABSOLUTE,
+        conserveAt: DAILY_LIMIT_WARNING,
+        bucket: { capacity: 1, refillPerMinute: 2 },
+        backoff: { baseMs: 30 * 1000, maxMs: 10 * 60 * 1000 },
+        circuit: { failureThreshold: 3, cooldownMs: 15 * 60 * 1000 },
+    },
+    execute: fetchGoogleResults,
+};
+
+registerProvider(googleSearchProvider);
 
-        if (!data.items || data.items.length === 0) {
-            return {
-                signals: [],
-                error: 'No results found',
-                usageStats: getGoogleSearchStats(),
-            };
-        }
+// ─────────────────────────────────────────────────────────────────────────────
+// PUBLIC: PERFORM GOOGLE SEARCH
+// ─────────────────────────────────────────────────────────────────────────────
 
-        const signals = data.items.map((result, index) => resultToPulseSignal(result, index));
+export async function searchGoogleHealthcare(query: string): Promise<{
+    signals: PulseSignal[];
+    error?: string;
+    usageStats: ReturnType<typeof getGoogleSearchStats>;
+}> {
+    const result = await callProvider<string, GoogleSearchResult[]>(PROVIDER_ID, query);
 
-        console.log(`[GoogleSearch] Found ${signals.length} results`);
+    if (!result.ok) {
         return {
-            signals,
+            signals: [],
+            error: result.error,
             usageStats: getGoogleSearchStats(),
         };
+    }
 
-    } catch (error) {
-        console.error('[GoogleSearch] Fetch error:', error);
+    if (result.value.length === 0) {
         return {
             signals: [],
-            error: error instanceof Error ? error.message : 'Search failed',
+            error: 'No results found',
             usageStats: getGoogleSearchStats(),
         };
     }
+
+    const signals = result.value.map((item, index) => resultToPulseSignal(item, index));
+
+    console.log(`[GoogleSearch] Found ${signals.length} results`);
+    return {
+        signals,
+        usageStats: getGoogleSearchStats(),
+    };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -428,6 +368,6 @@ export function clearGoogleSearchCache(): void {
 
 // Reset daily usage (for testing only)
 export function resetDailyUsage(): void {
-    localStorage.removeItem(STORAGE_KEY);
+    resetProviderUsage(PROVIDER_ID);
     console.log('[GoogleSearch] Daily usage reset');
 }
@@ -3,43 +3,22 @@
 // US Healthcare Market Intelligence with Multi-Provider Failover
 // ═══════════════════════════════════════════════════════════════════════════
 
-import type { PulseSignal, SignalDomain, SignalPriority, SignalSource, SignalEntities } from './types';
+import type { PulseSignal, SignalDomain, SignalPriority, SignalSource, SignalEntities, SourceTier } from './types';
+import { registerProvider, callWithFailover, getBudgetSummary, getProviderHealth, type PulseProvider } from './providerRegistry';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // API CONFIGURATION
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface NewsProvider {
-    name: string;
-    baseUrl: string;
-    apiKey: string;
-    requestsToday: number;
-    dailyLimit: number;
-    lastError?: Date;
-    consecutiveErrors: number;
-}
-
-const NEWS_PROVIDERS: NewsProvider[] = [
-    {
-        name: 'NewsData',
-        baseUrl: 'https://newsdata.io/api/1/news',
-        apiKey: 'pub_7e3154d195594324b93d42c069b54eb2',
-        requestsToday: 0,
-        dailyLimit: 200,
-        consecutiveErrors: 0,
-    },
-    {
-        name: 'GNews',
-        baseUrl: 'https://gnews.io/api/v4/search',
-        apiKey: '68b5d0ea9ae621c76a4ae250e9efae1e',
-        requestsToday: 0,
-        dailyLimit: 100,
-        consecutiveErrors: 0,
-    },
-];
+const NEWSDATA_CONFIG = {
+    baseUrl: 'https://newsdata.io/api/1/news',
+    apiKey: 'pub_7e3154d195594324b93d42c069b54eb2',
+};
 
-// Current provider index for rotation
-let currentProviderIndex = 0;
+const GNEWS_CONFIG = {
+    baseUrl: 'https://gnews.io/api/v4/search',
+    apiKey: '68b5d0ea9ae621c76a4ae250e9efae1e',
+};
 
 // ─────────────────────────────────────────────────────────────────────────────
 // US HEALTHCARE KEYWORDS
@@ -255,7 +234,7 @@ function extractEntities(title: string, description: string): SignalEntities {
 // API FETCHERS
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface RawArticle {
+export interface RawArticle {
     title: string;
     description: string;
     content?: string;
@@ -266,8 +245,7 @@ interface RawArticle {
 }
 
 async function fetchFromNewsData(query: string): Promise<RawArticle[]> {
-    const provider = NEWS_PROVIDERS[0];
-    const url = `${provider.baseUrl}?apikey=${provider.apiKey}&q=${encodeURIComponent(query)}&country=us&language=en&category=health,business`;
+    const url = `${NEWSDATA_CONFIG.baseUrl}?apikey=${NEWSDATA_CONFIG.apiKey}&q=${encodeURIComponent(query)}&country=us&language=en&category=health,business`;
 
     try {
         const response = await fetch(url);
@@ -276,8 +254,6 @@ async function fetchFromNewsData(query: string): Promise<RawArticle[]> {
         }
 
         const data = await response.json();
-        provider.requestsToday++;
-        provider.consecutiveErrors = 0;
 
         if (data.status !== 'success' || !data.results) {
             return [];
@@ -303,15 +279,12 @@ async function fetchFromNewsData(query: string): Promise<RawArticle[]> {
         }));
     } catch (error) {
         console.error('[NewsData] Fetch error:', error);
-        provider.consecutiveErrors++;
-        provider.lastError = new Date();
         throw error;
     }
 }
 
 async function fetchFromGNews(query: string): Promise<RawArticle[]> {
-    const provider = NEWS_PROVIDERS[1];
-    const url = `${provider.baseUrl}?q=${encodeURIComponent(query)}&token=${provider.apiKey}&lang=en&country=us&max=10`;
+    const url = `${GNEWS_CONFIG.baseUrl}?q=${encodeURIComponent(query)}&token=${GNEWS_CONFIG.apiKey}&lang=en&country=us&max=10`;
 
     try {
         const response = await fetch(url);
@@ -320,8 +293,6 @@ async function fetchFromGNews(query: string): Promise<RawArticle[]> {
         }
 
         const data = await response.json();
-        provider.requestsToday++;
-        provider.consecutiveErrors = 0;
 
         if (!data.articles) {
             return [];
@@ -346,8 +317,6 @@ async function fetchFromGNews(query: string): Promise<RawArticle[]> {
         }));
     } catch (error) {
         console.error('[GNews] Fetch error:', error);
-        provider.consecutiveErrors++;
-        provider.lastError = new Date();
         throw error;
     }
 }
@@ -356,86 +325,80 @@ async function fetchFromGNews(query: string): Promise<RawArticle[]> {
 // INTELLIGENT ROTATION & FAILOVER
 // ─────────────────────────────────────────────────────────────────────────────
 
-function getNextProvider(): NewsProvider | null {
-    const now = new Date();
-    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
-    for (const provider of NEWS_PROVIDERS) {
-        if (provider.lastError && provider.lastError < startOfDay) {
-            provider.requestsToday = 0;
-            provider.consecutiveErrors = 0;
-        }
-    }
-
-    for (let i = 0; i < NEWS_PROVIDERS.length; i++) {
-        const index = (currentProviderIndex + i) % NEWS_PROVIDERS.length;
-        const provider = NEWS_PROVIDERS[index];
+// Limits and failure handling live in the shared provider registry
 
-        if (provider.requestsToday >= provider.dailyLimit) {
-            continue;
-        }
+const newsDataProvider: PulseProvider<string, RawArticle[]> = {
+    config: {
+        id: 'newsdata',
+        name: 'NewsData',
+        kind: 'news',
+        dailyQuota: 200,
+        bucket: { capacity: 4, refillPerMinute: 2 },
+        backoff: { baseMs: 15 * 1000, maxMs: 5 * 60 * 1000 },
+        circuit: { failureThreshold: 3, cooldownMs: 5 * 60 * 1000 },
+    },
+    execute: fetchFromNewsData,
+};
 
-        if (provider.consecutiveErrors >= 3 && provider.lastError) {
-            const cooldownMs = 5 * 60 * 1000;
-            if (now.getTime() - provider.lastError.getTime() < cooldownMs) {
-                continue;
-            }
-        }
+const gnewsProvider: PulseProvider<string, RawArticle[]> = {
+    config: {
+        id: 'gnews',
+        name: 'GNews',
+        kind: 'news',
+        dailyQuota: 100,
+        bucket: { capacity: 4, refillPerMinute: 2 },
+        backoff: { baseMs: 15 * 1000, maxMs: 5 * 60 * 1000 },
+        circuit: { failureThreshold: 3, cooldownMs: 5 * 60 * 1000 },
+    },
+    execute: fetchFromGNews,
+};
 
-        currentProviderIndex = (index + 1) % NEWS_PROVIDERS.length;
-        return provider;
-    }
-
-    return null;
-}
+registerProvider(newsDataProvider);
+registerProvider(gnewsProvider);
 
 async function fetchWithFailover(query: string): Promise<RawArticle[]> {
-    const triedProviders = new Set<string>();
-
-    while (triedProviders.size < NEWS_PROVIDERS.length) {
-        const provider = getNextProvider();
-
-        if (!provider) {
-            console.warn('[NewsService] All providers exhausted or in cooldown');
-            break;
-        }
-
-        if (triedProviders.has(provider.name)) {
-            break;
-        }
-        triedProviders.add(provider.name);
-
-        try {
-            console.log(`[NewsService] Fetching from ${provider.name}...`);
-
-            if (provider.name === 'NewsData') {
-                return await fetchFromNewsData(query);
-            } else if (provider.name === 'GNews') {
-                return await fetchFromGNews(query);
-            }
-        } catch {
-            console.warn(`[NewsService] ${provider.name} failed, trying next provider...`);
-        }
+    console.log(`[NewsService] Fetching "${query}"...`);
+    const result = await callWithFailover<string, RawArticle[]>('news', query);
+    if (!result.ok) {
+        console.warn(`[NewsService] ${result.error}`);
+        return [];
     }
-
-    return [];
+    return result.value;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TRANSFORM TO PULSE SIGNALS
 // ─────────────────────────────────────────────────────────────────────────────
 
-function createSignalSource(sourceName: string, sourceUrl?: string): SignalSource {
+function createSignalSource(
+    sourceName: string,
+    sourceUrl?: string,
+    tier: SourceTier = 2,
+    type: SignalSource['type'] = 'api'
+): SignalSource {
     return {
         id: `src-${sourceName.toLowerCase().replace(/\s+/g, '-')}`,
         name: sourceName,
-        tier: 2,
-        type: 'api',
+        tier,
+        type,
         url: sourceUrl,
     };
 }
 
-function articleToPulseSignal(article: RawArticle, index: number): PulseSignal {
+function hashKey(value: string): string {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+}
+
+/** Stable across fetches so the archive and read/bookmark state key on the article, not the poll */
+function articleKey(article: RawArticle): string {
+    return hashKey(article.url || article.title);
+}
+
+function articleToPulseSignal(article: RawArticle): PulseSignal {
     const domain = classifyDomain(article.title, article.description);
     const priority = determinePriority(article.title, article.description);
     const relevanceScore = calculateRelevanceScore(article.title, article.description);
@@ -443,7 +406,7 @@ function articleToPulseSignal(article: RawArticle, index: number): PulseSignal {
     const now = new Date().toISOString();
 
     return {
-        id: `news-${Date.now()}-${index}`,
+        id: `news-${articleKey(article)}`,
         title: article.title,
         summary: article.description || article.content?.substring(0, 200) || '',
         url: article.url,
@@ -504,15 +467,13 @@ export async function fetchNewsSignals(force = false): Promise<PulseSignal[]> {
 
     console.log(`[NewsService] Found ${healthcareArticles.length} healthcare-relevant articles from ${allArticles.length} total`);
 
-    // Remove duplicates by URL
+    // Remove duplicates by URL (title when there is none), which is also the signal id
     const uniqueArticles = healthcareArticles.filter((article, index, self) =>
-        index === self.findIndex(a => a.url === article.url)
+        index === self.findIndex(a => articleKey(a) === articleKey(article))
     );
 
     // Transform to PulseSignals
-    const signals = uniqueArticles.map((article, index) =>
-        articleToPulseSignal(article, index)
-    );
+    const signals = uniqueArticles.map(article => articleToPulseSignal(article));
 
     // Sort by priority then recency
     signals.sort((a, b) => {
@@ -737,21 +698,22 @@ export function canRefresh(): boolean {
     return Date.now() - lastFetchTimestamp.getTime() >= CACHE_TTL;
 }
 
-export function getRateLimitStatus(): { used: number; remaining: number } {
-    const totalUsed = NEWS_PROVIDERS.reduce((sum, p) => sum + p.requestsToday, 0);
-    const totalLimit = NEWS_PROVIDERS.reduce((sum, p) => sum + p.dailyLimit, 0);
+export function getRateLimitStatus(): { used: number; remaining: number; nextRefreshIn: number } {
+    const budget = getBudgetSummary('news');
+    const cacheWait = lastFetchTimestamp ? Math.max(0, CACHE_TTL - (Date.now() - lastFetchTimestamp.getTime())) : 0;
     return {
-        used: totalUsed,
-        remaining: totalLimit - totalUsed,
+        used: budget.used,
+        remaining: budget.remaining,
+        nextRefreshIn: Math.max(cacheWait, budget.nextAvailableInMs),
     };
 }
 
 export function getProviderStats(): { name: string; requestsToday: number; dailyLimit: number; status: string }[] {
-    return NEWS_PROVIDERS.map(p => ({
+    return getProviderHealth('news').map(p => ({
         name: p.name,
-        requestsToday: p.requestsToday,
-        dailyLimit: p.dailyLimit,
-        status: p.consecutiveErrors >= 3 ? 'cooldown' : p.requestsToday >= p.dailyLimit ? 'exhausted' : 'active',
+        requestsToday: p.used,
+        dailyLimit: p.dailyQuota,
+        status: p.status === 'down' ? 'cooldown' : p.status === 'exhausted' ? 'exhausted' : 'active',
     }));
 }
 
@@ -763,3 +725,6 @@ export function clearNewsCache(): void {
 
 // Export for testing
 export { isHealthcareRelevant, classifyDomain, determinePriority };
+
+// Shared with the feed ingestion provider (feedService.ts)
+export { createSignalSource, articleToPulseSignal, articleKey };
@@ -3,6 +3,8 @@
 // Run with: npx tsx src/lib/pulse/notifications/__tests__/engine.test.ts
 // ═══════════════════════════════════════════════════════════════════════════
 
+import './localStorageShim';
+
 import {
     calculateSIS,
     determineUrgency,
@@ -13,6 +15,7 @@ import {
     getIntelligentSignals,
     getBudgetStatus,
     createCluster,
+    getQueue,
 } from '../intelligentNotificationEngine';
 
 import {
@@ -26,6 +29,13 @@ import {
     activateFocusZone,
     deactivateFocusZone,
     shouldNotify,
+    ruleSubjectFromSignal,
+    validateRuleCondition,
+    matchesAlertRule,
+    simulateAlertRule,
+    createAlertRule,
+    deleteAlertRule,
+    getPreferences,
 } from '../notificationPreferencesEngine';
 
 import type { PulseSignal, SignalDomain, SignalPriority } from '../../types';
@@ -39,12 +49,16 @@ const mockSignal = (overrides: Partial<PulseSignal> = {}): PulseSignal => ({
     title: 'Test Signal',
     summary: 'Test summary',
     domain: 'COMPETITIVE' as SignalDomain,
-    type: 'PRODUCT_LAUNCH',
+    signalType: 'PRODUCT_LAUNCH',
     priority: 'medium' as SignalPriority,
     relevanceScore: 0.7,
+    importanceScore: 0.5,
     publishedAt: new Date().toISOString(),
-    source: 'test',
+    processedAt: new Date().toISOString(),
+    entities: { companies: [], people: [], topics: [], products: [], regulations: [] },
+    source: { id: 'test', name: 'Test', tier: 2, type: 'manual' },
     url: 'https://example.com',
+    isRead: false,
     ...overrides,
 });
 
@@ -167,7 +181,69 @@ async function runTests() {
         notifyDecision.allowed ? 'Allowed' : notifyDecision.reason);
     notifyDecision.allowed !== undefined ? passed++ : failed++;
 
-    // ── Test 8: Empty/Null Safety ──────────────────────────────────────────
+    // ── Test 8: Alert Rule Conditions ──────────────────────────────────────
+    console.log('\n▶ Alert Rule Tests');
+
+    const fdaSignal = mockSignal({ title: 'FDA clears new remote monitoring device', relevanceScore: 0.9 });
+    const fdaSubject = ruleSubjectFromSignal(fdaSignal);
+
+    const keywordMatch = matchesAlertRule({
+        conditionLogic: 'AND',
+        conditions: [
+            { type: 'keyword', operator: 'contains', value: 'fda, cms' },
+            { type: 'relevanceScore', operator: 'gte', value: 0.8 },
+        ],
+    }, fdaSubject);
+    log('Keyword + relevance AND rule matches', keywordMatch, '');
+    if (keywordMatch) passed++; else failed++;
+
+    const regexMiss = matchesAlertRule({
+        conditionLogic: 'OR',
+        conditions: [{ type: 'regex', operator: 'matches', value: '^acquisition' }],
+    }, fdaSubject);
+    log('Non-matching regex rule stays quiet', !regexMiss, '');
+    if (!regexMiss) passed++; else failed++;
+
+    const badRegex = validateRuleCondition({ type: 'regex', operator: 'matches', value: '(' });
+    log('Invalid regex is rejected', badRegex !== null, badRegex ?? '');
+    if (badRegex !== null) passed++; else failed++;
+
+    const escalation = createAlertRule(
+        'FDA escalation',
+        [{ type: 'keyword', operator: 'contains', value: 'fda' }],
+        'AND',
+        [{ type: 'urgency', value: 'immediate' }]
+    );
+    const ruleSignal = mockSignal({ id: 'rule_fda', title: 'FDA guidance update', priority: 'low', relevanceScore: 0.2 });
+    // Delivered or held by quiet hours/fatigue, the rule's urgency applies either way
+    const routed = processSignal(ruleSignal) ?? getQueue().find(s => s.signalId === ruleSignal.id);
+    const fired = getPreferences().alertRules.find(r => r.id === escalation.id);
+    const ruleApplied = routed?.urgency === 'immediate' && fired?.triggerCount === 1;
+    log('processSignal applies matching rule urgency', ruleApplied,
+        `urgency ${routed?.urgency}, triggered ${fired?.triggerCount}x`);
+    if (ruleApplied) passed++; else failed++;
+    deleteAlertRule(escalation.id);
+
+    // ── Test 9: Rule Backtesting ───────────────────────────────────────────
+    console.log('\n▶ Rule Backtest Tests');
+
+    const week = 7 * 24 * 60 * 60 * 1000;
+    const history = [0, 1, 2, 3].map(i => mockSignal({
+        id: `backtest_${i}`,
+        title: i % 2 === 0 ? 'FDA guidance update' : 'Funding round closes',
+        publishedAt: new Date(Date.now() - i * week).toISOString(),
+    }));
+    const simulation = simulateAlertRule({
+        conditionLogic: 'AND',
+        conditions: [{ type: 'keyword', operator: 'contains', value: 'fda' }],
+        actions: [{ type: 'urgency', value: 'immediate' }],
+    }, history, null);
+    const simOk = simulation.evaluated === 4 && simulation.fired === 2 && simulation.byUrgency.immediate === 2;
+    log('Backtest counts firings and channel', simOk,
+        `${simulation.fired}/${simulation.evaluated} fired, ${simulation.perWeek}/week`);
+    if (simOk) passed++; else failed++;
+
+    // ── Test 10: Empty/Null Safety ──────────────────────────────────────────
     console.log('\n▶ Null Safety Tests');
 
     const emptyCluster = createCluster([], 'COMPETITIVE');
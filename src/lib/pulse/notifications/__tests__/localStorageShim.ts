@@ -0,0 +1,18 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// In-memory localStorage for running the engine tests under Node
+// Import before the engines: they read and seed storage on load
+// ═══════════════════════════════════════════════════════════════════════════
+
+if (typeof globalThis.localStorage === 'undefined') {
+    const store = new Map<string, string>();
+    globalThis.localStorage = {
+        get length() { return store.size; },
+        key: (index: number) => [...store.keys()][index] ?? null,
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => { store.set(key, String(value)); },
+        removeItem: (key: string) => { store.delete(key); },
+        clear: () => store.clear(),
+    };
+}
+
+export {};
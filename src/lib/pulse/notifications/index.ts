@@ -69,14 +69,19 @@ export {
     type RuleCondition,
     type RuleAction,
     type RuleConditionType,
+    type RuleOperator,
+    type RuleSubject,
+    type RuleSimulationResult,
     type RuleActionType,
-    type QuietHoursConfig,
+    type DigestSchedule,
     type IntelligentPreferences,
     type NotifyDecision,
 
     // Constants
     DEFAULT_PERSONAS,
     DEFAULT_PREFERENCES,
+    RULE_CONDITION_FIELDS,
+    RULE_OPERATOR_LABELS,
 
     // Preferences
     getPreferences,
@@ -103,9 +108,16 @@ export {
     deleteAlertRule,
     toggleAlertRule,
 
+    // Rule Evaluation & Backtesting
+    ruleSubjectFromSignal,
+    validateRuleCondition,
+    evaluateRuleCondition,
+    matchesAlertRule,
+    matchAlertRules,
+    simulateAlertRule,
+
     // Quiet Hours
     isQuietHoursActive,
-    setQuietHours,
 
     // Snooze
     snoozeNotifications,
@@ -113,6 +125,15 @@ export {
     isSnoozed,
     getSnoozeEndTime,
 
+    // Digest Schedule
+    getPreviousDigestTime,
+    getNextDigestTime,
+    isDigestDue,
+    getDigestRange,
+    markDigestDelivered,
+    isDigestUnread,
+    markDigestOpened,
+
     // Decision
     shouldNotify,
 } from './notificationPreferencesEngine';
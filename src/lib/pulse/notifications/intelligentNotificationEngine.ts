@@ -5,6 +5,8 @@
 // ═══════════════════════════════════════════════════════════════════════════
 
 import type { SignalDomain, SignalPriority, PulseSignal } from '../types';
+import { evaluateAttention } from '../../attention/attentionPolicy';
+import { matchAlertRules, recordAlertRuleTriggers, type RuleActionType } from './notificationPreferencesEngine';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TYPES — Signal Intelligence Architecture
@@ -123,7 +125,8 @@ const QUEUE_KEY = 'pulse_signal_queue';
 
 export function calculateSIS(
     signal: Pick<PulseSignal, 'domain' | 'priority' | 'relevanceScore' | 'publishedAt'>,
-    behavior: UserBehaviorData | null
+    behavior: UserBehaviorData | null,
+    now: number = Date.now()
 ): number {
     // 1. Base Relevance Score (35%)
     const domainBase = DOMAIN_BASE_RELEVANCE[signal.domain];
@@ -134,7 +137,7 @@ export function calculateSIS(
     const priorityScore = PRIORITY_SCORES[signal.priority];
 
     // 3. Recency Score (15%) - Exponential decay
-    const ageMs = Date.now() - new Date(signal.publishedAt).getTime();
+    const ageMs = now - new Date(signal.publishedAt).getTime();
     const ageHours = ageMs / (1000 * 60 * 60);
     const halfLife = 24; // Score halves every 24 hours
     const recencyScore = 100 * Math.pow(0.5, ageHours / halfLife);
@@ -589,8 +592,15 @@ export function processSignal(signal: PulseSignal): IntelligentSignal | null {
         // Calculate Signal Intelligence Score
         const sis = calculateSIS(signal, behavior);
 
+        // Custom alert rules can set urgency and break through quiet hours
+        const matchedRules = matchAlertRules(signal);
+        const ruleAction = (type: RuleActionType) =>
+            matchedRules.flatMap(rule => rule.actions).find(action => action.type === type)?.value;
+        recordAlertRuleTriggers(matchedRules.map(rule => rule.id));
+
         // Determine urgency
-        const urgency = determineUrgency(sis, signal.priority, behavior);
+        const urgency = (ruleAction('urgency') as UrgencyLevel | undefined) ?? determineUrgency(sis, signal.priority, behavior);
+        const breaksQuietHours = ruleAction('overrideQuietHours') === true;
 
         // Check fatigue limits
         const fatigueCheck = checkFatigueLimits(urgency);
@@ -605,13 +615,15 @@ export function processSignal(signal: PulseSignal): IntelligentSignal | null {
             priority: signal.priority,
             sis,
             urgency,
-            overridesQuietHours: signal.priority === 'critical' && sis >= 90,
+            overridesQuietHours: (signal.priority === 'critical' && sis >= 90) || breaksQuietHours,
             createdAt: new Date(),
             sourceUrl: signal.url,
         };
 
-        // If not allowed due to fatigue, add to queue instead of immediate delivery
-        if (!fatigueCheck.allowed) {
+        // Held by quiet hours, focus or snooze, or over the fatigue budget: queue it
+        const attention = evaluateAttention({ source: 'pulse', priority: signal.priority });
+        const held = !attention.deliver && !(attention.reason === 'quiet-hours' && breaksQuietHours);
+        if (held || !fatigueCheck.allowed) {
             addToQueue(intelligentSignal);
             return null;
         }
@@ -671,6 +683,10 @@ export function processQueue(): IntelligentSignal[] {
     queue.sort((a, b) => b.sis - a.sis);
 
     for (const signal of queue) {
+        if (!evaluateAttention({ source: 'pulse', priority: signal.priority }).deliver) {
+            remaining.push(signal);
+            continue;
+        }
         const fatigueCheck = checkFatigueLimits(signal.urgency);
         if (fatigueCheck.allowed) {
             recordDelivery();
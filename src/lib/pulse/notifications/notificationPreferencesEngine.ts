@@ -3,7 +3,24 @@
 // Deep customization with Personas, Focus Zones, and Visual Rules
 // ═══════════════════════════════════════════════════════════════════════════
 
-import type { SignalDomain, SignalPriority } from '../types';
+import type { PulseSignal, SignalDomain, SignalPriority, SourceTier } from '../types';
+import type { ImpactLevel } from '../regulatoryData';
+import { matchCompetitorIds } from '../signalArchive';
+import { resolveRegulatoryContext } from '../regulatoryCalendar';
+import {
+    calculateSIS,
+    determineUrgency,
+    getUserBehavior,
+    type UrgencyLevel,
+    type UserBehaviorData,
+} from './intelligentNotificationEngine';
+import {
+    evaluateAttention,
+    isQuietHoursNow,
+    snoozeAll,
+    endSnooze,
+    getSnoozeEnd,
+} from '../../attention/attentionPolicy';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // NOTIFICATION PERSONAS — Pre-built profiles for different work modes
@@ -147,7 +164,15 @@ export type RuleConditionType =
     | 'priority'
     | 'competitor'
     | 'topic'
-    | 'signalType';
+    | 'signalType'
+    | 'keyword'            // Any of the comma-separated words in title/summary
+    | 'regex'              // Case-insensitive pattern over title/summary
+    | 'relevanceScore'     // 0-1
+    | 'importanceScore'    // 0-1
+    | 'sourceTier'         // 1 (official) … 4 (social)
+    | 'impactLevel';       // Regulatory impact, see calculateImpactLevel
+
+export type RuleOperator = 'equals' | 'contains' | 'notEquals' | 'matches' | 'gte' | 'lte';
 
 export type RuleActionType =
     | 'urgency'
@@ -157,8 +182,8 @@ export type RuleActionType =
 
 export interface RuleCondition {
     type: RuleConditionType;
-    operator: 'equals' | 'contains' | 'notEquals';
-    value: string | string[];
+    operator: RuleOperator;
+    value: string | string[] | number;
 }
 
 export interface RuleAction {
@@ -179,16 +204,18 @@ export interface CustomAlertRule {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// QUIET HOURS — Enhanced with urgency override
+// DIGEST SCHEDULE — When the exportable Pulse digest comes due
 // ─────────────────────────────────────────────────────────────────────────────
 
-export interface QuietHoursConfig {
+export interface DigestSchedule {
     enabled: boolean;
-    start: string;           // "22:00"
-    end: string;             // "08:00"
-    timezone: string;
-    allowCriticalOverride: boolean;
-    weekendsOnly: boolean;
+    time: string;            // "09:00"
+    frequency: 'daily' | 'weekdays' | 'weekly';
+    dayOfWeek: number;       // 0 = Sunday, used when weekly
+    personaId: string;       // Persona whose filters shape the digest
+    lastDeliveredAt?: string;
+    lastDeliveredRange?: { start: string; end: string };
+    lastOpenedAt?: string;   // When the delivered digest was last opened on the dashboard
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -207,21 +234,11 @@ export interface IntelligentPreferences {
     // Custom rules
     alertRules: CustomAlertRule[];
 
-    // Quiet hours
-    quietHours: QuietHoursConfig;
-
-    // Global snooze
-    snoozedUntil: Date | null;
-
     // Learning preferences
     learningEnabled: boolean;
 
     // Digest settings
-    digestSchedule: {
-        enabled: boolean;
-        time: string;        // "09:00"
-        frequency: 'daily' | 'weekdays' | 'weekly';
-    };
+    digestSchedule: DigestSchedule;
 
     // UI preferences
     showBadgeCount: boolean;
@@ -239,20 +256,13 @@ export const DEFAULT_PREFERENCES: IntelligentPreferences = {
     focusZones: [],
     activeFocus: null,
     alertRules: [],
-    quietHours: {
-        enabled: true,
-        start: '22:00',
-        end: '08:00',
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        allowCriticalOverride: true,
-        weekendsOnly: false,
-    },
-    snoozedUntil: null,
     learningEnabled: true,
     digestSchedule: {
         enabled: true,
         time: '09:00',
         frequency: 'daily',
+        dayOfWeek: 1,
+        personaId: 'executive',
     },
     showBadgeCount: true,
     animationsEnabled: true,
@@ -276,7 +286,6 @@ export function getPreferences(): IntelligentPreferences {
         return {
             ...DEFAULT_PREFERENCES,
             ...parsed,
-            snoozedUntil: parsed.snoozedUntil ? new Date(parsed.snoozedUntil) : null,
             focusZones: (parsed.focusZones || []).map((z: FocusZone) => ({
                 ...z,
                 createdAt: new Date(z.createdAt),
@@ -291,6 +300,7 @@ export function getPreferences(): IntelligentPreferences {
                 createdAt: new Date(r.createdAt),
                 lastTriggeredAt: r.lastTriggeredAt ? new Date(r.lastTriggeredAt) : undefined,
             })),
+            digestSchedule: { ...DEFAULT_PREFERENCES.digestSchedule, ...parsed.digestSchedule },
         };
     } catch {
         return DEFAULT_PREFERENCES;
@@ -505,79 +515,350 @@ export function toggleAlertRule(ruleId: string): void {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// QUIET HOURS
+// RULE EVALUATION — Shared by live delivery and backtesting
 // ─────────────────────────────────────────────────────────────────────────────
 
-export function isQuietHoursActive(): boolean {
-    const prefs = getPreferences();
+/** What a rule is evaluated against; fields a caller can't supply never match */
+export interface RuleSubject {
+    domain: SignalDomain;
+    priority: SignalPriority;
+    competitors: string[];
+    topics: string[];
+    signalType?: string;
+    title?: string;
+    summary?: string;
+    relevanceScore?: number;
+    importanceScore?: number;
+    sourceTier?: SourceTier;
+    impactLevel?: ImpactLevel;
+}
+
+/** Operators and input kind offered per condition type in the rule builder */
+export const RULE_CONDITION_FIELDS: Record<RuleConditionType, { label: string; operators: RuleOperator[]; input: 'select' | 'text' | 'number'; options?: string[]; placeholder?: string }> = {
+    domain: { label: 'Domain', operators: ['equals', 'notEquals'], input: 'select', options: ['COMPETITIVE', 'REGULATORY', 'TECHNOLOGY', 'MARKET', 'NEWS'] },
+    priority: { label: 'Priority', operators: ['equals', 'notEquals', 'gte'], input: 'select', options: ['critical', 'high', 'medium', 'low'] },
+    competitor: { label: 'Competitor', operators: ['equals', 'contains', 'notEquals'], input: 'text', placeholder: 'e.g. Waystar' },
+    topic: { label: 'Topic', operators: ['equals', 'contains', 'notEquals'], input: 'text', placeholder: 'e.g. prior authorization' },
+    signalType: { label: 'Signal type', operators: ['equals', 'notEquals'], input: 'select', options: ['PRODUCT_LAUNCH', 'M_AND_A', 'FUNDING', 'PARTNERSHIP', 'LEADERSHIP', 'HIRING', 'CUSTOMER_WIN', 'PROPOSED_RULE', 'FINAL_RULE', 'GUIDANCE', 'ENFORCEMENT', 'DEADLINE', 'EARNINGS', 'MARKET_REPORT', 'NEWS', 'EVENT'] },
+    keyword: { label: 'Keyword', operators: ['contains', 'notEquals'], input: 'text', placeholder: 'comma-separated, e.g. breach, outage' },
+    regex: { label: 'Pattern', operators: ['matches'], input: 'text', placeholder: 'e.g. series [c-f]' },
+    relevanceScore: { label: 'Relevance score', operators: ['gte', 'lte'], input: 'number', placeholder: '0–1' },
+    importanceScore: { label: 'Importance score', operators: ['gte', 'lte'], input: 'number', placeholder: '0–1' },
+    sourceTier: { label: 'Source tier', operators: ['equals', 'lte'], input: 'select', options: ['1', '2', '3', '4'] },
+    impactLevel: { label: 'Regulatory impact', operators: ['equals', 'gte'], input: 'select', options: ['critical', 'high', 'moderate', 'low'] },
+};
 
-    if (!prefs.quietHours.enabled) return false;
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+    equals: 'is',
+    contains: 'contains',
+    notEquals: 'is not',
+    matches: 'matches',
+    gte: 'at least',
+    lte: 'at most',
+};
 
-    const now = new Date();
+const PRIORITY_RANK: Record<SignalPriority, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+const IMPACT_RANK: Record<ImpactLevel, number> = { critical: 4, high: 3, moderate: 2, low: 1 };
+
+export function ruleSubjectFromSignal(signal: PulseSignal): RuleSubject {
+    const regulatory = signal.domain === 'REGULATORY' || signal.regulatory ? resolveRegulatoryContext(signal) : null;
+    return {
+        domain: signal.domain,
+        priority: signal.priority,
+        competitors: [...matchCompetitorIds(signal), ...signal.entities.companies],
+        topics: [...signal.entities.topics, ...(regulatory?.topic ? [regulatory.topic] : [])],
+        signalType: signal.signalType,
+        title: signal.title,
+        summary: signal.summary,
+        relevanceScore: signal.relevanceScore,
+        importanceScore: signal.importanceScore,
+        sourceTier: signal.source.tier,
+        impactLevel: regulatory?.impactLevel,
+    };
+}
 
-    // Check weekends only
-    if (prefs.quietHours.weekendsOnly) {
-        const day = now.getDay();
-        if (day !== 0 && day !== 6) return false;
-    }
+const toList = (value: RuleCondition['value']): string[] =>
+    (Array.isArray(value) ? value : String(value).split(','))
+        .map(v => v.trim().toLowerCase())
+        .filter(Boolean);
 
-    const currentTime = now.getHours() * 60 + now.getMinutes();
-
-    // Safe time parsing with fallbacks
-    const parseTime = (timeStr: string): number => {
-        if (!timeStr || typeof timeStr !== 'string') return 0;
-        const parts = timeStr.split(':');
-        if (parts.length < 2) return 0;
-        const hours = parseInt(parts[0], 10);
-        const minutes = parseInt(parts[1], 10);
-        if (isNaN(hours) || isNaN(minutes)) return 0;
-        return hours * 60 + minutes;
-    };
+function compareNumbers(actual: number | undefined, operator: RuleOperator, expected: number): boolean {
+    if (actual === undefined || Number.isNaN(expected)) return false;
+    if (operator === 'gte') return actual >= expected;
+    if (operator === 'lte') return actual <= expected;
+    if (operator === 'notEquals') return actual !== expected;
+    return actual === expected;
+}
+
+function compareList(actual: string[], operator: RuleOperator, value: RuleCondition['value']): boolean {
+    const wanted = toList(value);
+    const have = actual.map(a => a.toLowerCase());
+    const hit = operator === 'contains'
+        ? have.some(h => wanted.some(w => h.includes(w)))
+        : have.some(h => wanted.includes(h));
+    return operator === 'notEquals' ? !hit : hit;
+}
 
-    const start = parseTime(prefs.quietHours.start);
-    const end = parseTime(prefs.quietHours.end);
+const regexCache = new Map<string, RegExp | null>();
 
-    // Handle overnight quiet hours (e.g., 22:00 - 08:00)
-    if (start > end) {
-        return currentTime >= start || currentTime < end;
+function compileRulePattern(pattern: string): RegExp | null {
+    if (!regexCache.has(pattern)) {
+        try {
+            regexCache.set(pattern, new RegExp(pattern, 'i'));
+        } catch {
+            regexCache.set(pattern, null);
+        }
+    }
+    return regexCache.get(pattern)!;
+}
+
+/** Form-level check for a condition before it's saved; null when valid */
+export function validateRuleCondition(condition: RuleCondition): string | null {
+    const field = RULE_CONDITION_FIELDS[condition.type];
+    if (!field.operators.includes(condition.operator)) return `"${RULE_OPERATOR_LABELS[condition.operator]}" doesn't apply to ${field.label.toLowerCase()}`;
+    if (toList(condition.value).length === 0) return `${field.label} needs a value`;
+    if (condition.type === 'regex' && !compileRulePattern(String(condition.value))) return 'Invalid pattern';
+    if (condition.type === 'relevanceScore' || condition.type === 'importanceScore') {
+        const n = Number(condition.value);
+        if (Number.isNaN(n) || n < 0 || n > 1) return `${field.label} must be between 0 and 1`;
+    }
+    return null;
+}
+
+export function evaluateRuleCondition(condition: RuleCondition, subject: RuleSubject): boolean {
+    const { operator, value } = condition;
+    const text = `${subject.title ?? ''} ${subject.summary ?? ''}`.toLowerCase();
+
+    switch (condition.type) {
+        case 'domain':
+            return compareList([subject.domain], operator, value);
+        case 'priority':
+            return operator === 'gte'
+                ? PRIORITY_RANK[subject.priority] >= (PRIORITY_RANK[String(value) as SignalPriority] ?? Infinity)
+                : compareList([subject.priority], operator, value);
+        case 'competitor':
+            return compareList(subject.competitors, operator, value);
+        case 'topic':
+            return compareList(subject.topics, operator, value);
+        case 'signalType':
+            return subject.signalType !== undefined && compareList([subject.signalType], operator, value);
+        case 'keyword': {
+            if (subject.title === undefined && subject.summary === undefined) return false;
+            const hit = toList(value).some(k => text.includes(k));
+            return operator === 'notEquals' ? !hit : hit;
+        }
+        case 'regex': {
+            if (subject.title === undefined && subject.summary === undefined) return false;
+            const pattern = compileRulePattern(String(value));
+            return !!pattern && pattern.test(`${subject.title ?? ''} ${subject.summary ?? ''}`);
+        }
+        case 'relevanceScore':
+            return compareNumbers(subject.relevanceScore, operator, Number(value));
+        case 'importanceScore':
+            return compareNumbers(subject.importanceScore, operator, Number(value));
+        case 'sourceTier':
+            return compareNumbers(subject.sourceTier, operator, Number(value));
+        case 'impactLevel':
+            if (!subject.impactLevel) return false;
+            return operator === 'gte'
+                ? IMPACT_RANK[subject.impactLevel] >= (IMPACT_RANK[String(value) as ImpactLevel] ?? Infinity)
+                : compareList([subject.impactLevel], operator, value);
+        default:
+            return false;
     }
+}
 
-    return currentTime >= start && currentTime < end;
+export function matchesAlertRule(rule: Pick<CustomAlertRule, 'conditions' | 'conditionLogic'>, subject: RuleSubject): boolean {
+    if (rule.conditions.length === 0) return false;
+    const results = rule.conditions.map(cond => evaluateRuleCondition(cond, subject));
+    return rule.conditionLogic === 'AND' ? results.every(Boolean) : results.some(Boolean);
 }
 
-export function setQuietHours(config: Partial<QuietHoursConfig>): void {
+/** Enabled rules that fire for a signal on arrival */
+export function matchAlertRules(signal: PulseSignal, rules = getPreferences().alertRules): CustomAlertRule[] {
+    const subject = ruleSubjectFromSignal(signal);
+    return rules.filter(rule => rule.enabled && matchesAlertRule(rule, subject));
+}
+
+export function recordAlertRuleTriggers(ruleIds: string[], at = new Date()): void {
+    if (ruleIds.length === 0) return;
     const prefs = getPreferences();
-    prefs.quietHours = { ...prefs.quietHours, ...config };
-    savePreferences(prefs);
+    savePreferences({
+        ...prefs,
+        alertRules: prefs.alertRules.map(rule =>
+            ruleIds.includes(rule.id) ? { ...rule, triggerCount: rule.triggerCount + 1, lastTriggeredAt: at } : rule
+        ),
+    });
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// SNOOZE
+// RULE BACKTESTING — Replay a rule over stored signals before enabling it
 // ─────────────────────────────────────────────────────────────────────────────
 
+export interface RuleSimulationResult {
+    evaluated: number;
+    fired: number;
+    byUrgency: Record<UrgencyLevel, number>;
+    perWeek: number;                        // Average fires per week across the replayed span
+    span: { start: string; end: string } | null;
+    samples: Array<{ signalId: string; title: string; publishedAt: string; urgency: UrgencyLevel }>;
+}
+
+const MAX_SIMULATION_SAMPLES = 5;
+
+/**
+ * Replay a rule against historical signals. Each match is routed the way it
+ * would have been on arrival: the rule's urgency action when it has one,
+ * otherwise the engine's own SIS-based urgency scored at publish time.
+ * Quiet hours, snooze and fatigue budgets are deliberately ignored — the
+ * question is how noisy the rule is, not what today's settings let through.
+ */
+export function simulateAlertRule(
+    rule: Pick<CustomAlertRule, 'conditions' | 'conditionLogic' | 'actions'>,
+    signals: PulseSignal[],
+    behavior: UserBehaviorData | null = getUserBehavior()
+): RuleSimulationResult {
+    const byUrgency: Record<UrgencyLevel, number> = { immediate: 0, timely: 0, batched: 0, digest: 0 };
+    const urgencyAction = rule.actions.find(a => a.type === 'urgency')?.value as UrgencyLevel | undefined;
+
+    const unique = [...new Map(signals.map(s => [s.id, s])).values()];
+    const times = unique.map(s => new Date(s.publishedAt).getTime()).filter(t => !Number.isNaN(t));
+    const matches = unique
+        .filter(s => matchesAlertRule(rule, ruleSubjectFromSignal(s)))
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+
+    const samples: RuleSimulationResult['samples'] = [];
+    for (const signal of matches) {
+        const urgency = urgencyAction ?? determineUrgency(
+            calculateSIS(signal, behavior, new Date(signal.publishedAt).getTime()),
+            signal.priority,
+            behavior
+        );
+        byUrgency[urgency]++;
+        if (samples.length < MAX_SIMULATION_SAMPLES) {
+            samples.push({ signalId: signal.id, title: signal.title, publishedAt: signal.publishedAt, urgency });
+        }
+    }
+
+    const start = times.length ? Math.min(...times) : null;
+    const end = times.length ? Math.max(...times) : null;
+    const weeks = start !== null && end !== null ? Math.max(1, (end - start) / (7 * 24 * 60 * 60 * 1000)) : 1;
+
+    return {
+        evaluated: unique.length,
+        fired: matches.length,
+        byUrgency,
+        perWeek: Math.round((matches.length / weeks) * 10) / 10,
+        span: start !== null && end !== null ? { start: new Date(start).toISOString(), end: new Date(end).toISOString() } : null,
+        samples,
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// QUIET HOURS & SNOOZE — Owned by the shared attention policy
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function isQuietHoursActive(): boolean {
+    return isQuietHoursNow();
+}
+
 export function snoozeNotifications(durationMinutes: number): Date {
-    const prefs = getPreferences();
-    const snoozedUntil = new Date(Date.now() + durationMinutes * 60 * 1000);
-    prefs.snoozedUntil = snoozedUntil;
-    savePreferences(prefs);
-    return snoozedUntil;
+    return new Date(snoozeAll(durationMinutes));
 }
 
 export function unsnooze(): void {
-    const prefs = getPreferences();
-    prefs.snoozedUntil = null;
-    savePreferences(prefs);
+    endSnooze();
 }
 
 export function isSnoozed(): boolean {
-    const prefs = getPreferences();
-    return prefs.snoozedUntil !== null && new Date() < prefs.snoozedUntil;
+    return getSnoozeEnd() !== null;
 }
 
 export function getSnoozeEndTime(): Date | null {
+    const end = getSnoozeEnd();
+    return end === null ? null : new Date(end);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DIGEST SCHEDULE
+// ─────────────────────────────────────────────────────────────────────────────
+
+const isDigestDay = (schedule: DigestSchedule, date: Date) => {
+    const day = date.getDay();
+    if (schedule.frequency === 'weekly') return day === schedule.dayOfWeek;
+    if (schedule.frequency === 'weekdays') return day >= 1 && day <= 5;
+    return true;
+};
+
+function digestSlot(schedule: DigestSchedule, date: Date): Date {
+    const [hours, minutes] = schedule.time.split(':').map(Number);
+    const slot = new Date(date);
+    slot.setHours(hours, minutes, 0, 0);
+    return slot;
+}
+
+/** Most recent scheduled delivery at or before `now` */
+export function getPreviousDigestTime(schedule: DigestSchedule, now = new Date()): Date | null {
+    for (let offset = 0; offset <= 7; offset++) {
+        const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset);
+        const slot = digestSlot(schedule, day);
+        if (isDigestDay(schedule, day) && slot <= now) return slot;
+    }
+    return null;
+}
+
+export function getNextDigestTime(schedule: DigestSchedule, now = new Date()): Date | null {
+    if (!schedule.enabled) return null;
+    for (let offset = 0; offset <= 7; offset++) {
+        const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+        const slot = digestSlot(schedule, day);
+        if (isDigestDay(schedule, day) && slot > now) return slot;
+    }
+    return null;
+}
+
+/** A scheduled slot has passed since the last digest went out */
+export function isDigestDue(schedule: DigestSchedule, now = new Date()): boolean {
+    if (!schedule.enabled) return false;
+    const previous = getPreviousDigestTime(schedule, now);
+    if (!previous) return false;
+    return !schedule.lastDeliveredAt || new Date(schedule.lastDeliveredAt) < previous;
+}
+
+/**
+ * Window the next digest covers: everything since the last delivery, capped
+ * at one period (a week for weekly, otherwise a day — three on a Monday of a
+ * weekdays schedule so the weekend isn't skipped).
+ */
+export function getDigestRange(schedule: DigestSchedule, now = new Date()): { start: string; end: string } {
+    const periodDays = schedule.frequency === 'weekly' ? 7
+        : schedule.frequency === 'weekdays' && now.getDay() === 1 ? 3
+            : 1;
+    const periodStart = now.getTime() - periodDays * 24 * 60 * 60 * 1000;
+    const lastDelivered = schedule.lastDeliveredAt ? new Date(schedule.lastDeliveredAt).getTime() : 0;
+    return {
+        start: new Date(Math.max(periodStart, lastDelivered)).toISOString(),
+        end: now.toISOString(),
+    };
+}
+
+export function markDigestDelivered(range: { start: string; end: string }, at = new Date()): void {
+    const prefs = getPreferences();
+    savePreferences({
+        ...prefs,
+        digestSchedule: { ...prefs.digestSchedule, lastDeliveredAt: at.toISOString(), lastDeliveredRange: range },
+    });
+}
+
+/** A digest went out that hasn't been opened since */
+export function isDigestUnread(schedule: DigestSchedule): boolean {
+    if (!schedule.lastDeliveredAt || !schedule.lastDeliveredRange) return false;
+    return !schedule.lastOpenedAt || new Date(schedule.lastOpenedAt) < new Date(schedule.lastDeliveredAt);
+}
+
+export function markDigestOpened(at = new Date()): void {
     const prefs = getPreferences();
-    if (!prefs.snoozedUntil || new Date() >= prefs.snoozedUntil) return null;
-    return prefs.snoozedUntil;
+    savePreferences({ ...prefs, digestSchedule: { ...prefs.digestSchedule, lastOpenedAt: at.toISOString() } });
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -594,22 +875,16 @@ export interface NotifyDecision {
 export function shouldNotify(
     domain: SignalDomain,
     priority: SignalPriority,
-    _entityMatches?: { competitors?: string[]; topics?: string[] }
+    entityMatches?: { competitors?: string[]; topics?: string[] },
+    signal?: PulseSignal
 ): NotifyDecision {
     const prefs = getPreferences();
     const persona = getActivePersona();
 
-    // Check snooze first
-    if (isSnoozed() && priority !== 'critical') {
-        return { allowed: false, reason: 'Notifications snoozed' };
-    }
-
-    // Check quiet hours
-    if (isQuietHoursActive()) {
-        const canOverride = prefs.quietHours.allowCriticalOverride && priority === 'critical';
-        if (!canOverride) {
-            return { allowed: false, reason: 'Quiet hours active' };
-        }
+    // Snooze, quiet hours and source overrides
+    const attention = evaluateAttention({ source: 'pulse', priority });
+    if (!attention.deliver) {
+        return { allowed: false, reason: attention.label };
     }
 
     // Check active focus zone
@@ -646,28 +921,11 @@ export function shouldNotify(
     }
 
     // Check custom alert rules (they can override settings)
-    const matchedRules = prefs.alertRules.filter(rule => {
-        if (!rule.enabled) return false;
-
-        const conditionsMet = rule.conditions.map(cond => {
-            switch (cond.type) {
-                case 'domain':
-                    return cond.operator === 'equals'
-                        ? domain === cond.value
-                        : domain !== cond.value;
-                case 'priority':
-                    return cond.operator === 'equals'
-                        ? priority === cond.value
-                        : priority !== cond.value;
-                default:
-                    return false;
-            }
-        });
-
-        return rule.conditionLogic === 'AND'
-            ? conditionsMet.every(Boolean)
-            : conditionsMet.some(Boolean);
-    });
+    const matchedRules = signal
+        ? matchAlertRules(signal, prefs.alertRules)
+        : prefs.alertRules.filter(rule => rule.enabled && matchesAlertRule(rule, {
+            domain, priority, competitors: entityMatches?.competitors ?? [], topics: entityMatches?.topics ?? [],
+        }));
 
     if (matchedRules.length > 0) {
         // Custom rules can escalate urgency
@@ -0,0 +1,397 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Provider Registry
+// Shared API budget, throttling and health tracking for every external source
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// Each provider declares its limits once and implements `execute`; the
+// registry decides whether a call may go out, records how it went and keeps
+// a per-day usage history that survives reloads.
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES & CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ProviderKind = 'news' | 'search';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type ProviderBlockReason = 'quota' | 'throttled' | 'backoff' | 'circuit-open';
+
+export interface ProviderConfig {
+    id: string;
+    name: string;
+    kind: ProviderKind;
+    dailyQuota: number;
+    /** Usage at which callers should start leaning on caches */
+    conserveAt?: number;
+    /** Token bucket: burst size and steady-state rate */
+    bucket: { capacity: number; refillPerMinute: number };
+    /** Delay after a failure doubles from `baseMs` up to `maxMs` */
+    backoff: { baseMs: number; maxMs: number };
+    /** Consecutive failures that open the circuit, and how long it stays open */
+    circuit: { failureThreshold: number; cooldownMs: number };
+}
+
+/** The one thing a new source has to implement */
+export interface PulseProvider<TQuery = string, TResult = unknown> {
+    config: ProviderConfig;
+    execute(query: TQuery): Promise<TResult>;
+}
+
+export interface DailyProviderUsage {
+    date: string;               // YYYY-MM-DD
+    requests: number;
+    failures: number;
+    throttled: number;
+}
+
+interface ProviderUsageState {
+    date: string;
+    used: number;
+    tokens: number;
+    tokensUpdatedAt: number;
+    consecutiveFailures: number;
+    retryAt: number;
+    circuitOpenedAt: number | null;
+    lastError?: string;
+    lastErrorAt?: number;
+    history: DailyProviderUsage[];
+}
+
+export interface ProviderCheck {
+    allowed: boolean;
+    reason?: ProviderBlockReason;
+    message?: string;
+    retryInMs: number;
+    remaining: number;
+}
+
+export type ProviderCallResult<TResult> =
+    | { ok: true; providerId: string; value: TResult }
+    | { ok: false; providerId: string | null; reason: ProviderBlockReason | 'error' | 'unavailable'; error: string };
+
+export interface ProviderHealth {
+    id: string;
+    name: string;
+    kind: ProviderKind;
+    used: number;
+    dailyQuota: number;
+    remaining: number;
+    conserveMode: boolean;
+    circuit: CircuitState;
+    status: 'healthy' | 'degraded' | 'down' | 'exhausted';
+    retryInMs: number;
+    lastError?: string;
+    lastErrorAt?: string;
+    /** Share of successful requests over the history window, null when idle */
+    uptime: number | null;
+    history: DailyProviderUsage[];
+}
+
+export const PROVIDER_HISTORY_DAYS = 30;
+
+const STORAGE_KEY = 'pulse_provider_usage';
+
+const providers = new Map<string, PulseProvider<never, unknown>>();
+
+// Round-robin position per kind so failover spreads load
+const rotation: Partial<Record<ProviderKind, number>> = {};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PERSISTENCE
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toDateKey(ms: number): string {
+    const d = new Date(ms);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function loadAll(): Record<string, ProviderUsageState> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) return JSON.parse(stored) as Record<string, ProviderUsageState>;
+    } catch {
+        // Ignore parse errors
+    }
+    return {};
+}
+
+function saveAll(all: Record<string, ProviderUsageState>): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    } catch {
+        // Ignore quota errors
+    }
+}
+
+/** Current state with the daily counter rolled over and tokens refilled */
+function readState(config: ProviderConfig, now: number): ProviderUsageState {
+    const today = toDateKey(now);
+    const stored = loadAll()[config.id];
+    const state: ProviderUsageState = stored ?? {
+        date: today,
+        used: 0,
+        tokens: config.bucket.capacity,
+        tokensUpdatedAt: now,
+        consecutiveFailures: 0,
+        retryAt: 0,
+        circuitOpenedAt: null,
+        history: [],
+    };
+
+    if (state.date !== today) {
+        state.date = today;
+        state.used = 0;
+    }
+
+    const elapsedMinutes = Math.max(0, now - state.tokensUpdatedAt) / 60000;
+    state.tokens = Math.min(config.bucket.capacity, state.tokens + elapsedMinutes * config.bucket.refillPerMinute);
+    state.tokensUpdatedAt = now;
+    return state;
+}
+
+function writeState(id: string, state: ProviderUsageState): void {
+    const all = loadAll();
+    all[id] = state;
+    saveAll(all);
+}
+
+function todayUsage(state: ProviderUsageState): DailyProviderUsage {
+    let entry = state.history.find(h => h.date === state.date);
+    if (!entry) {
+        entry = { date: state.date, requests: 0, failures: 0, throttled: 0 };
+        state.history = [...state.history, entry].slice(-PROVIDER_HISTORY_DAYS);
+    }
+    return entry;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REGISTRATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function registerProvider<TQuery, TResult>(provider: PulseProvider<TQuery, TResult>): void {
+    providers.set(provider.config.id, provider as PulseProvider<never, unknown>);
+}
+
+export function getRegisteredProviders(kind?: ProviderKind): ProviderConfig[] {
+    return [...providers.values()]
+        .map(p => p.config)
+        .filter(c => !kind || c.kind === kind);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CIRCUIT BREAKER & THROTTLING
+// ─────────────────────────────────────────────────────────────────────────────
+
+function circuitState(config: ProviderConfig, state: ProviderUsageState, now: number): CircuitState {
+    if (state.circuitOpenedAt === null) return 'closed';
+    return now - state.circuitOpenedAt < config.circuit.cooldownMs ? 'open' : 'half-open';
+}
+
+function evaluate(config: ProviderConfig, state: ProviderUsageState, now: number): ProviderCheck {
+    const remaining = Math.max(0, config.dailyQuota - state.used);
+
+    if (remaining === 0) {
+        const midnight = new Date(now);
+        midnight.setHours(24, 0, 0, 0);
+        return {
+            allowed: false,
+            reason: 'quota',
+            message: `Daily limit reached (${config.dailyQuota}). Resets at midnight.`,
+            retryInMs: midnight.getTime() - now,
+            remaining,
+        };
+    }
+
+    if (circuitState(config, state, now) === 'open') {
+        const retryInMs = (state.circuitOpenedAt ?? now) + config.circuit.cooldownMs - now;
+        return {
+            allowed: false,
+            reason: 'circuit-open',
+            message: `${config.name} is failing — paused for ${Math.ceil(retryInMs / 60000)} min.`,
+            retryInMs,
+            remaining,
+        };
+    }
+
+    if (state.retryAt > now) {
+        const retryInMs = state.retryAt - now;
+        return {
+            allowed: false,
+            reason: 'backoff',
+            message: `Retrying ${config.name} in ${Math.ceil(retryInMs / 1000)} seconds.`,
+            retryInMs,
+            remaining,
+        };
+    }
+
+    if (state.tokens < 1) {
+        const retryInMs = Math.ceil(((1 - state.tokens) / config.bucket.refillPerMinute) * 60000);
+        return {
+            allowed: false,
+            reason: 'throttled',
+            message: `Please wait ${Math.ceil(retryInMs / 1000)} seconds before the next request.`,
+            retryInMs,
+            remaining,
+        };
+    }
+
+    return { allowed: true, retryInMs: 0, remaining };
+}
+
+export function checkProvider(id: string, now = Date.now()): ProviderCheck {
+    const provider = providers.get(id);
+    if (!provider) {
+        return { allowed: false, message: `Unknown provider "${id}"`, retryInMs: 0, remaining: 0 };
+    }
+    return evaluate(provider.config, readState(provider.config, now), now);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CALLING PROVIDERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Run one provider if its budget allows. Never throws; failures come back as results. */
+export async function callProvider<TQuery, TResult>(id: string, query: TQuery): Promise<ProviderCallResult<TResult>> {
+    const provider = providers.get(id) as PulseProvider<TQuery, TResult> | undefined;
+    if (!provider) {
+        return { ok: false, providerId: null, reason: 'unavailable', error: `Unknown provider "${id}"` };
+    }
+
+    const { config } = provider;
+    const startedAt = Date.now();
+    const state = readState(config, startedAt);
+    const check = evaluate(config, state, startedAt);
+
+    if (!check.allowed) {
+        todayUsage(state).throttled++;
+        writeState(id, state);
+        return { ok: false, providerId: id, reason: check.reason ?? 'unavailable', error: check.message ?? 'Unavailable' };
+    }
+
+    // Every request that goes out counts against the quota, whatever comes back
+    state.used++;
+    state.tokens -= 1;
+    todayUsage(state).requests++;
+    writeState(id, state);
+
+    try {
+        const value = await provider.execute(query);
+        const after = readState(config, Date.now());
+        after.consecutiveFailures = 0;
+        after.retryAt = 0;
+        after.circuitOpenedAt = null;
+        writeState(id, after);
+        return { ok: true, providerId: id, value };
+    } catch (error) {
+        const now = Date.now();
+        const after = readState(config, now);
+        const wasHalfOpen = circuitState(config, after, now) === 'half-open';
+        after.consecutiveFailures++;
+        after.lastError = error instanceof Error ? error.message : String(error);
+        after.lastErrorAt = now;
+        after.retryAt = now + Math.min(
+            config.backoff.maxMs,
+            config.backoff.baseMs * 2 ** (after.consecutiveFailures - 1)
+        );
+        // A failed trial call re-opens the circuit straight away
+        if (wasHalfOpen || after.consecutiveFailures >= config.circuit.failureThreshold) {
+            after.circuitOpenedAt = now;
+        }
+        todayUsage(after).failures++;
+        writeState(id, after);
+        return { ok: false, providerId: id, reason: 'error', error: after.lastError };
+    }
+}
+
+/** Try each provider of a kind in rotation until one succeeds */
+export async function callWithFailover<TQuery, TResult>(kind: ProviderKind, query: TQuery): Promise<ProviderCallResult<TResult>> {
+    const candidates = getRegisteredProviders(kind);
+    if (candidates.length === 0) {
+        return { ok: false, providerId: null, reason: 'unavailable', error: `No ${kind} providers registered` };
+    }
+
+    const start = (rotation[kind] ?? 0) % candidates.length;
+    let lastFailure: ProviderCallResult<TResult> | null = null;
+
+    for (let i = 0; i < candidates.length; i++) {
+        const index = (start + i) % candidates.length;
+        const config = candidates[index];
+        if (!checkProvider(config.id).allowed) continue;
+
+        rotation[kind] = index + 1;
+        const result = await callProvider<TQuery, TResult>(config.id, query);
+        if (result.ok) return result;
+        console.warn(`[Providers] ${config.name} failed, trying next provider...`);
+        lastFailure = result;
+    }
+
+    return lastFailure ?? {
+        ok: false,
+        providerId: null,
+        reason: 'unavailable',
+        error: `All ${kind} providers exhausted or cooling down`,
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HEALTH & BUDGET
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getProviderHealth(kind?: ProviderKind, now = Date.now()): ProviderHealth[] {
+    return getRegisteredProviders(kind).map(config => {
+        const state = readState(config, now);
+        const check = evaluate(config, state, now);
+        const circuit = circuitState(config, state, now);
+        const totals = state.history.reduce(
+            (acc, h) => ({ requests: acc.requests + h.requests, failures: acc.failures + h.failures }),
+            { requests: 0, failures: 0 }
+        );
+
+        const status: ProviderHealth['status'] =
+            check.reason === 'quota' ? 'exhausted'
+                : circuit === 'open' ? 'down'
+                    : circuit === 'half-open' || state.consecutiveFailures > 0 ? 'degraded'
+                        : 'healthy';
+
+        return {
+            id: config.id,
+            name: config.name,
+            kind: config.kind,
+            used: state.used,
+            dailyQuota: config.dailyQuota,
+            remaining: check.remaining,
+            conserveMode: config.conserveAt !== undefined && state.used >= config.conserveAt,
+            circuit,
+            status,
+            retryInMs: check.retryInMs,
+            lastError: state.lastError,
+            lastErrorAt: state.lastErrorAt ? new Date(state.lastErrorAt).toISOString() : undefined,
+            uptime: totals.requests > 0 ? (totals.requests - totals.failures) / totals.requests : null,
+            history: state.history,
+        };
+    });
+}
+
+/** Combined daily budget for a kind, e.g. all news APIs together */
+export function getBudgetSummary(kind: ProviderKind, now = Date.now()): { used: number; remaining: number; quota: number; nextAvailableInMs: number } {
+    const health = getProviderHealth(kind, now);
+    const available = health.filter(h => h.retryInMs === 0);
+    return {
+        used: health.reduce((sum, h) => sum + h.used, 0),
+        remaining: health.reduce((sum, h) => sum + h.remaining, 0),
+        quota: health.reduce((sum, h) => sum + h.dailyQuota, 0),
+        nextAvailableInMs: available.length > 0 || health.length === 0 ? 0 : Math.min(...health.map(h => h.retryInMs)),
+    };
+}
+
+/** Clear usage, failures and history (for testing, or one provider from the admin panel) */
+export function resetProviderUsage(id?: string): void {
+    if (!id) {
+        localStorage.removeItem(STORAGE_KEY);
+        return;
+    }
+    const all = loadAll();
+    delete all[id];
+    saveAll(all);
+}
@@ -0,0 +1,319 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Regulatory Calendar
+// Effective dates & comment deadlines as calendar events, exported to .ics
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// Ingested signals rarely carry RegulatoryMetadata, so agency, topic and
+// dates fall back to what can be read from the headline and summary.
+
+import type { PulseSignal } from './types';
+import {
+    AGENCY_BY_ID,
+    TOPIC_BY_ID,
+    calculateImpactLevel,
+    detectAgency,
+    detectTopic,
+    type ImpactLevel,
+    type RegulatoryAgency,
+    type RegulatoryTopic,
+} from './regulatoryData';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES & CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type RegulatoryEventKind = 'effective' | 'comment';
+
+export interface RegulatoryEvent {
+    id: string;                     // `${signalId}-${kind}`, stable across exports
+    signalId: string;
+    kind: RegulatoryEventKind;
+    date: string;                   // YYYY-MM-DD
+    title: string;
+    summary: string;
+    url: string;
+    agency: RegulatoryAgency | null;
+    topic: RegulatoryTopic | null;
+    impactLevel: ImpactLevel;
+    docketNumber?: string;
+    inferred: boolean;              // Date was read from the text rather than metadata
+}
+
+export interface RegulatoryEventFilter {
+    agency?: RegulatoryAgency;
+    topic?: RegulatoryTopic;
+    range?: { start: string; end: string };   // YYYY-MM-DD, inclusive
+}
+
+export const EVENT_KIND_LABELS: Record<RegulatoryEventKind, string> = {
+    effective: 'Effective date',
+    comment: 'Comment deadline',
+};
+
+/** Days before the event to raise a calendar reminder, by impact */
+export const REMINDER_DAYS: Record<ImpactLevel, number[]> = {
+    critical: [30, 7, 1],
+    high: [14, 2],
+    moderate: [7],
+    low: [1],
+};
+
+const EFFECTIVE_CUES = ['effective', 'complian', 'implement', 'takes effect', 'go live', 'enforce'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE_PATTERNS: Array<{ regex: RegExp; parse: (m: RegExpExecArray, publishedAt: Date) => Date | null }> = [
+    // January 1, 2026
+    {
+        regex: new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+        parse: m => utcDate(Number(m[3]), monthIndex(m[1]), Number(m[2])),
+    },
+    // 2026-01-01
+    {
+        regex: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+        parse: m => utcDate(Number(m[1]), Number(m[2]) - 1, Number(m[3])),
+    },
+    // 1/1/2026
+    {
+        regex: /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g,
+        parse: m => utcDate(Number(m[3]), Number(m[1]) - 1, Number(m[2])),
+    },
+    // January 2026 → first of the month
+    {
+        regex: new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{4})\\b`, 'gi'),
+        parse: m => utcDate(Number(m[2]), monthIndex(m[1]), 1),
+    },
+    // 180-day implementation timeline / 60-day comment period
+    {
+        regex: /\b(\d{1,3})[- ]day\b/gi,
+        parse: (m, publishedAt) => new Date(publishedAt.getTime() + Number(m[1]) * 24 * 60 * 60 * 1000),
+    },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DATE EXTRACTION
+// ─────────────────────────────────────────────────────────────────────────────
+
+function monthIndex(name: string): number {
+    return MONTHS.findIndex(m => m.startsWith(name.toLowerCase().replace('.', '').slice(0, 3)));
+}
+
+function utcDate(year: number, month: number, day: number): Date | null {
+    if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+    return new Date(Date.UTC(year, month, day));
+}
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Whichever cue sits closest before the date decides what kind it is; with
+ * no cue before, a trailing "comment" ("60-day comment period") still counts.
+ */
+function classifyDate(text: string, start: number, end: number): RegulatoryEventKind {
+    const preceding = text.slice(Math.max(0, start - 50), start).toLowerCase();
+    const commentAt = preceding.lastIndexOf('comment');
+    const effectiveAt = Math.max(...EFFECTIVE_CUES.map(cue => preceding.lastIndexOf(cue)));
+    if (commentAt === -1 && effectiveAt === -1) {
+        return text.slice(end, end + 25).toLowerCase().includes('comment') ? 'comment' : 'effective';
+    }
+    return commentAt > effectiveAt ? 'comment' : 'effective';
+}
+
+/**
+ * Pull an effective date and a comment deadline out of free text. Dates
+ * without a comment cue are taken as the effective/compliance date. Patterns
+ * run most specific first, and a span already claimed isn't re-read by a
+ * looser one.
+ */
+export function extractRegulatoryDates(text: string, publishedAt: string): { effectiveDate?: string; commentDeadline?: string } {
+    const published = new Date(publishedAt);
+    const base = Number.isNaN(published.getTime()) ? new Date() : published;
+    const claimed: Array<[number, number]> = [];
+    const found: Array<{ index: number; kind: RegulatoryEventKind; date: string }> = [];
+
+    for (const { regex, parse } of DATE_PATTERNS) {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(text))) {
+            const start = match.index;
+            const end = start + match[0].length;
+            if (claimed.some(([s, e]) => start < e && end > s)) continue;
+
+            const date = parse(match, base);
+            if (!date || Number.isNaN(date.getTime())) continue;
+            claimed.push([start, end]);
+
+            found.push({ index: start, kind: classifyDate(text, start, end), date: toDateKey(date) });
+        }
+    }
+
+    found.sort((a, b) => a.index - b.index);
+    return {
+        effectiveDate: found.find(f => f.kind === 'effective')?.date,
+        commentDeadline: found.find(f => f.kind === 'comment')?.date,
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EVENTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const normalizeDate = (value: string) => (value.length === 10 ? value : toDateKey(new Date(value)));
+
+/** Agency, topic and impact from metadata when present, else from the text */
+export function resolveRegulatoryContext(signal: PulseSignal): { agency: RegulatoryAgency | null; topic: RegulatoryTopic | null; impactLevel: ImpactLevel } {
+    const text = `${signal.title}. ${signal.summary}`;
+    const reg = signal.regulatory;
+    const agency = reg?.agency ?? detectAgency(text);
+    const topic = reg?.topic ?? detectTopic(text);
+    const impactLevel = reg?.impactLevel
+        ?? (agency && topic ? calculateImpactLevel(agency, topic, signal.signalType) : 'moderate');
+    return { agency, topic, impactLevel };
+}
+
+/** Calendar events for one regulatory signal — up to one per kind */
+export function signalToRegulatoryEvents(signal: PulseSignal): RegulatoryEvent[] {
+    const text = `${signal.title}. ${signal.summary}`;
+    const reg = signal.regulatory;
+    const { agency, topic, impactLevel } = resolveRegulatoryContext(signal);
+
+    const extracted = reg?.effectiveDate && reg?.commentDeadline ? {} : extractRegulatoryDates(text, signal.publishedAt);
+    const dates: Array<{ kind: RegulatoryEventKind; value?: string | null; inferred: boolean }> = [
+        { kind: 'effective', value: reg?.effectiveDate ?? extracted.effectiveDate, inferred: !reg?.effectiveDate },
+        { kind: 'comment', value: reg?.commentDeadline ?? extracted.commentDeadline, inferred: !reg?.commentDeadline },
+    ];
+
+    return dates
+        .filter(d => d.value && !Number.isNaN(new Date(d.value).getTime()))
+        .map(d => ({
+            id: `${signal.id}-${d.kind}`,
+            signalId: signal.id,
+            kind: d.kind,
+            date: normalizeDate(d.value!),
+            title: signal.title,
+            summary: signal.summary,
+            url: reg?.federalRegisterUrl ?? signal.url,
+            agency,
+            topic,
+            impactLevel,
+            docketNumber: reg?.docketNumber,
+            inferred: d.inferred,
+        }));
+}
+
+/** Every dated event across the regulatory signals, earliest first */
+export function buildRegulatoryEvents(signals: PulseSignal[]): RegulatoryEvent[] {
+    const seen = new Set<string>();
+    return signals
+        .filter(s => s.domain === 'REGULATORY' && !seen.has(s.id) && seen.add(s.id))
+        .flatMap(signalToRegulatoryEvents)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+}
+
+export function filterRegulatoryEvents(events: RegulatoryEvent[], filter: RegulatoryEventFilter): RegulatoryEvent[] {
+    return events.filter(e => {
+        if (filter.agency && e.agency !== filter.agency) return false;
+        if (filter.topic && e.topic !== filter.topic) return false;
+        if (filter.range && (e.date < filter.range.start || e.date > filter.range.end)) return false;
+        return true;
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ICALENDAR (RFC 5545)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const escapeText = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Lines longer than 75 octets continue on the next line after a space */
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+const compactDate = (dateKey: string) => dateKey.replace(/-/g, '');
+
+const compactTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+function nextDay(dateKey: string): string {
+    const date = new Date(`${dateKey}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return toDateKey(date);
+}
+
+function eventLines(event: RegulatoryEvent, stamp: string): string[] {
+    const agency = event.agency ? AGENCY_BY_ID.get(event.agency)?.name ?? event.agency : null;
+    const topic = event.topic ? TOPIC_BY_ID.get(event.topic)?.name : null;
+    const label = EVENT_KIND_LABELS[event.kind];
+
+    const description = [
+        event.summary,
+        '',
+        `${label}${event.inferred ? ' (read from the announcement text)' : ''}`,
+        `Impact: ${event.impactLevel}`,
+        agency && `Agency: ${agency}`,
+        topic && `Topic: ${topic}`,
+        event.docketNumber && `Docket: ${event.docketNumber}`,
+        event.url !== '#' && event.url,
+    ].filter(line => line !== null && line !== undefined && line !== false).join('\n');
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.id}@cafe-pulse`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${compactDate(event.date)}`,
+        `DTEND;VALUE=DATE:${compactDate(nextDay(event.date))}`,
+        `SUMMARY:${escapeText(`${agency ? `${agency} ` : ''}${label}: ${event.title}`)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        // Each category is escaped on its own; the separating commas are not
+        `CATEGORIES:${['Regulatory', agency, topic].filter((c): c is string => !!c).map(escapeText).join(',')}`,
+        'TRANSP:TRANSPARENT',
+    ];
+    if (event.url !== '#') lines.push(`URL:${event.url}`);
+
+    for (const days of REMINDER_DAYS[event.impactLevel]) {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `TRIGGER:-P${days}D`,
+            `DESCRIPTION:${escapeText(`${label} in ${days} day${days === 1 ? '' : 's'}: ${event.title}`)}`,
+            'END:VALARM'
+        );
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+export function toICalendar(events: RegulatoryEvent[], now = new Date()): string {
+    const stamp = compactTimestamp(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Cafe//Pulse Regulatory Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:Regulatory Deadlines',
+        ...events.flatMap(e => eventLines(e, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function icsFileName(events: RegulatoryEvent[]): string {
+    if (events.length === 1) return `${events[0].agency?.toLowerCase() ?? 'regulatory'}-${events[0].kind}-${events[0].date}.ics`;
+    return `regulatory-calendar-${toDateKey(new Date())}.ics`;
+}
@@ -0,0 +1,302 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Signal Archive
+// Every processed signal, kept locally in IndexedDB for time-range history
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// Falls back to an in-memory map where IndexedDB is unavailable (private
+// browsing, tests), which still works for the current session.
+
+import type { PulseFilter, PulseSignal, SignalDomain } from './types';
+import { COMPETITOR_PATTERNS } from './competitorData';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES & CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ArchivedSignal extends PulseSignal {
+    archivedAt: string;
+    competitorIds: string[];
+}
+
+export interface ArchiveQuery {
+    dateRange?: PulseFilter['dateRange'];
+    competitorId?: string;
+    domain?: SignalDomain;
+    limit?: number;
+}
+
+export interface ArchiveRetentionPolicy {
+    maxAgeDays: number;
+    maxSignals: number;
+    keepBookmarked: boolean;   // Bookmarked or annotated signals outlive maxAgeDays
+}
+
+export const DEFAULT_ARCHIVE_RETENTION: ArchiveRetentionPolicy = {
+    maxAgeDays: 730,
+    maxSignals: 10000,
+    keepBookmarked: true,
+};
+
+type ArchiveStatePatch = Partial<Pick<PulseSignal, 'isRead' | 'isBookmarked' | 'notes'>>;
+
+const DB_NAME = 'cafe-pulse-archive';
+const DB_VERSION = 1;
+const STORE_NAME = 'signals';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<string, ArchivedSignal>();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// INDEXEDDB PLUMBING
+// ─────────────────────────────────────────────────────────────────────────────
+
+function openDb(): Promise<IDBDatabase | null> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(null);
+            return;
+        }
+
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                    store.createIndex('publishedAt', 'publishedAt');
+                    store.createIndex('competitorIds', 'competitorIds', { multiEntry: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('[PulseArchive] IndexedDB unavailable, using memory:', request.error);
+                resolve(null);
+            };
+        } catch (error) {
+            console.warn('[PulseArchive] IndexedDB unavailable, using memory:', error);
+            resolve(null);
+        }
+    });
+
+    return dbPromise;
+}
+
+function runRequest<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, mode);
+        const request = makeRequest(tx.objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** Apply many puts/deletes in a single transaction */
+function runBatch(db: IDBDatabase, apply: (store: IDBObjectStore) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        apply(tx.objectStore(STORE_NAME));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+async function loadByIds(db: IDBDatabase | null, ids: string[]): Promise<Map<string, ArchivedSignal>> {
+    if (!db) {
+        return new Map(ids.flatMap(id => (memoryStore.has(id) ? [[id, memoryStore.get(id)!] as const] : [])));
+    }
+    const records = await Promise.all(
+        ids.map(id => runRequest<ArchivedSignal | undefined>(db, 'readonly', store => store.get(id)))
+    );
+    return new Map(records.flatMap(r => (r ? [[r.id, r] as const] : [])));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Demo signals are regenerated on every load and trend alerts are derived, so neither enters history */
+const isArchivable = (signal: PulseSignal) => !signal.id.startsWith('demo-') && !signal.id.startsWith('trend-');
+
+export function matchCompetitorIds(signal: PulseSignal): string[] {
+    const haystack = `${signal.title} ${signal.entities.companies.join(' ')}`.toLowerCase();
+    return [...new Set(COMPETITOR_PATTERNS.filter(p => haystack.includes(p.pattern)).map(p => p.competitorId))];
+}
+
+/** Calendar quarter as a PulseFilter date range, e.g. Q2 2026 → Apr 1 – Jun 30 */
+export function quarterDateRange(year: number, quarter: 1 | 2 | 3 | 4): NonNullable<PulseFilter['dateRange']> {
+    const start = new Date(Date.UTC(year, (quarter - 1) * 3, 1));
+    const end = new Date(Date.UTC(year, quarter * 3, 1) - 1);
+    return { start: start.toISOString(), end: end.toISOString() };
+}
+
+/** ISO timestamps sort lexically, which is what the publishedAt index relies on */
+function toIsoTimestamp(value: string): string {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/** Bare dates (YYYY-MM-DD) cover the whole day */
+function normalizeRange(range: ArchiveQuery['dateRange']): { start?: string; end?: string } {
+    if (!range) return {};
+    return {
+        start: range.start ? toIsoTimestamp(range.start) : undefined,
+        end: range.end
+            ? range.end.length === 10 ? `${range.end}T23:59:59.999Z` : toIsoTimestamp(range.end)
+            : undefined,
+    };
+}
+
+function toArchived(signal: PulseSignal, existing: ArchivedSignal | undefined, now: string): ArchivedSignal {
+    return {
+        ...signal,
+        publishedAt: toIsoTimestamp(signal.publishedAt),
+        // User state recorded in the archive survives re-ingestion of a fresh copy
+        isRead: signal.isRead || !!existing?.isRead,
+        isBookmarked: !!signal.isBookmarked || !!existing?.isBookmarked,
+        notes: signal.notes ?? existing?.notes,
+        archivedAt: existing?.archivedAt ?? now,
+        competitorIds: matchCompetitorIds(signal),
+    };
+}
+
+function matchesQuery(signal: ArchivedSignal, query: ArchiveQuery): boolean {
+    const { start, end } = normalizeRange(query.dateRange);
+    if (query.domain && signal.domain !== query.domain) return false;
+    if (query.competitorId && !signal.competitorIds.includes(query.competitorId)) return false;
+    if (start && signal.publishedAt < start) return false;
+    if (end && signal.publishedAt > end) return false;
+    return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PUBLIC API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Insert or refresh processed signals, keeping any archived read/bookmark/notes state */
+export async function archiveSignals(signals: PulseSignal[]): Promise<void> {
+    const archivable = signals.filter(isArchivable);
+    if (archivable.length === 0) return;
+
+    const db = await openDb();
+    const now = new Date().toISOString();
+
+    try {
+        const existing = await loadByIds(db, archivable.map(s => s.id));
+        const records = archivable.map(s => toArchived(s, existing.get(s.id), now));
+
+        if (!db) {
+            records.forEach(r => memoryStore.set(r.id, r));
+            return;
+        }
+        await runBatch(db, store => records.forEach(r => store.put(r)));
+    } catch (error) {
+        console.warn('[PulseArchive] Failed to archive signals:', error);
+    }
+}
+
+/** Record a user state change (read, bookmark, notes) on archived signals */
+export async function updateArchivedSignals(ids: string[], patch: ArchiveStatePatch): Promise<void> {
+    const db = await openDb();
+
+    try {
+        const existing = await loadByIds(db, ids);
+        const records = [...existing.values()].map(r => ({ ...r, ...patch }));
+
+        if (!db) {
+            records.forEach(r => memoryStore.set(r.id, r));
+            return;
+        }
+        await runBatch(db, store => records.forEach(r => store.put(r)));
+    } catch (error) {
+        console.warn('[PulseArchive] Failed to update signals:', error);
+    }
+}
+
+/** Archived copies of specific signals, e.g. triaged ones no longer in the live feed */
+export async function getArchivedSignals(ids: string[]): Promise<ArchivedSignal[]> {
+    if (ids.length === 0) return [];
+    const db = await openDb();
+
+    try {
+        return [...(await loadByIds(db, ids)).values()];
+    } catch (error) {
+        console.warn('[PulseArchive] Lookup failed:', error);
+        return [];
+    }
+}
+
+/**
+ * Range query over the archive, newest first. The date range is served by
+ * the publishedAt index and a competitor by the multi-entry competitorIds
+ * index; remaining criteria are filtered in memory.
+ */
+export async function queryArchive(query: ArchiveQuery = {}): Promise<ArchivedSignal[]> {
+    const db = await openDb();
+    let candidates: ArchivedSignal[];
+
+    try {
+        if (!db) {
+            candidates = [...memoryStore.values()];
+        } else if (query.competitorId) {
+            candidates = await runRequest<ArchivedSignal[]>(db, 'readonly', store =>
+                store.index('competitorIds').getAll(query.competitorId)
+            );
+        } else {
+            const { start, end } = normalizeRange(query.dateRange);
+            const range = start && end
+                ? IDBKeyRange.bound(start, end)
+                : start ? IDBKeyRange.lowerBound(start)
+                : end ? IDBKeyRange.upperBound(end)
+                : undefined;
+            candidates = await runRequest<ArchivedSignal[]>(db, 'readonly', store =>
+                store.index('publishedAt').getAll(range)
+            );
+        }
+    } catch (error) {
+        console.warn('[PulseArchive] Query failed:', error);
+        return [];
+    }
+
+    const results = candidates
+        .filter(s => matchesQuery(s, query))
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+
+    return query.limit ? results.slice(0, query.limit) : results;
+}
+
+/** Drop signals past the retention window, then trim the oldest beyond maxSignals */
+export async function applyArchiveRetention(policy: ArchiveRetentionPolicy = DEFAULT_ARCHIVE_RETENTION): Promise<number> {
+    const all = await queryArchive();
+    const cutoff = new Date(Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    const isKept = (s: ArchivedSignal) => policy.keepBookmarked && (s.isBookmarked || !!s.notes);
+
+    const expired = all.filter(s => s.publishedAt < cutoff && !isKept(s));
+    const remaining = all.filter(s => !expired.includes(s));
+    const overflow = remaining.length > policy.maxSignals
+        ? remaining.filter(s => !isKept(s)).slice(policy.maxSignals - remaining.length)
+        : [];
+
+    const toDelete = [...expired, ...overflow].map(s => s.id);
+    if (toDelete.length === 0) return 0;
+
+    const db = await openDb();
+    try {
+        if (!db) {
+            toDelete.forEach(id => memoryStore.delete(id));
+        } else {
+            await runBatch(db, store => toDelete.forEach(id => store.delete(id)));
+        }
+        console.log(`[PulseArchive] Retention removed ${toDelete.length} signals`);
+        return toDelete.length;
+    } catch (error) {
+        console.warn('[PulseArchive] Retention failed:', error);
+        return 0;
+    }
+}
@@ -0,0 +1,196 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Story Clustering
+// Groups near-duplicate signals (same story, different outlets) via MinHash
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { PulseSignal, SignalStory, StorySource } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+const NUM_HASHES = 64;
+/** Estimated Jaccard similarity of title shingles needed to call two signals one story */
+export const STORY_SIMILARITY_THRESHOLD = 0.5;
+/** Coverage of the same story rarely spans more than a few days */
+const STORY_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+const TITLE_STOP_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by',
+    'from', 'as', 'is', 'are', 'was', 'were', 'be', 'its', 'it', 'this', 'that', 'what',
+    'how', 'why', 'new', 'says', 'report', 'reports', 'update', 'news', 'after', 'over',
+]);
+
+const PRIORITY_RANK = { critical: 0, high: 1, medium: 2, low: 3 } as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SHINGLING & FINGERPRINTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function stem(token: string): string {
+    if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+    if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+    if (token.length > 4 && token.endsWith('es')) return token.slice(0, -2);
+    if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+    return token;
+}
+
+/** Normalized word shingles of a headline — case, punctuation and inflection insensitive */
+export function titleShingles(title: string): Set<string> {
+    const tokens = title
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(t => t.length > 1 && !TITLE_STOP_WORDS.has(t))
+        .map(stem);
+    return new Set(tokens);
+}
+
+function fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/** Murmur3 finalizer — cheap, well-mixed 32-bit permutation */
+function fmix32(h: number): number {
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return h >>> 0;
+}
+
+const HASH_SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fmix32(0x9e3779b9 + i));
+
+export function minHashSignature(shingles: Set<string>): Uint32Array {
+    const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+    for (const shingle of shingles) {
+        const base = fnv1a(shingle);
+        for (let i = 0; i < NUM_HASHES; i++) {
+            const h = fmix32(base ^ HASH_SEEDS[i]);
+            if (h < signature[i]) signature[i] = h;
+        }
+    }
+    return signature;
+}
+
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+    let matches = 0;
+    for (let i = 0; i < NUM_HASHES; i++) {
+        if (a[i] === b[i]) matches++;
+    }
+    return matches / NUM_HASHES;
+}
+
+/** Stable content fingerprint — identical for headlines that normalize the same */
+export function contentHash(title: string): string {
+    return fnv1a([...titleShingles(title)].sort().join(' ')).toString(36);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CLUSTERING
+// ─────────────────────────────────────────────────────────────────────────────
+
+function publishedTime(signal: PulseSignal): number {
+    const time = new Date(signal.publishedAt).getTime();
+    return Number.isNaN(time) ? 0 : time;
+}
+
+/** Prefer the most authoritative source, then the most urgent, then the first to report */
+function compareCanonical(a: PulseSignal, b: PulseSignal): number {
+    return (
+        a.source.tier - b.source.tier ||
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        publishedTime(a) - publishedTime(b)
+    );
+}
+
+function groupIndices(signals: PulseSignal[]): number[][] {
+    const signatures = signals.map(s => minHashSignature(titleShingles(s.title)));
+    const hashes = signals.map(s => s.hash ?? contentHash(s.title));
+    const parent = signals.map((_, i) => i);
+
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    for (let i = 0; i < signals.length; i++) {
+        for (let j = i + 1; j < signals.length; j++) {
+            if (Math.abs(publishedTime(signals[i]) - publishedTime(signals[j])) > STORY_WINDOW_MS) continue;
+            if (hashes[i] === hashes[j] || estimateSimilarity(signatures[i], signatures[j]) >= STORY_SIMILARITY_THRESHOLD) {
+                parent[find(j)] = find(i);
+            }
+        }
+    }
+
+    const groups = new Map<number, number[]>();
+    signals.forEach((_, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) ?? []), i]);
+    });
+    return [...groups.values()];
+}
+
+/**
+ * Group signals into stories. Order follows the first appearance of each
+ * story in the input, so callers' sorting is preserved.
+ */
+export function clusterStories(signals: PulseSignal[]): SignalStory[] {
+    return groupIndices(signals).map(indices => {
+        const members = indices.map(i => signals[i]);
+        const canonical = [...members].sort(compareCanonical)[0];
+        const firstPublishedAt = members.reduce(
+            (earliest, s) => (publishedTime(s) < publishedTime(earliest) ? s : earliest),
+            members[0]
+        ).publishedAt;
+
+        const sources: StorySource[] = [...members]
+            .sort((a, b) => publishedTime(a) - publishedTime(b))
+            .map(s => ({
+                signalId: s.id,
+                name: s.source.name,
+                tier: s.source.tier,
+                title: s.title,
+                url: s.url,
+                publishedAt: s.publishedAt,
+            }));
+
+        return {
+            id: `story-${canonical.id}`,
+            headline: canonical.title,
+            canonical,
+            signals: members,
+            sources,
+            firstPublishedAt,
+        };
+    });
+}
+
+/** Fill `hash` and `relatedSignals` so downstream consumers can see story membership */
+export function annotateStories(signals: PulseSignal[]): PulseSignal[] {
+    const hashed = signals.map(s => (s.hash ? s : { ...s, hash: contentHash(s.title) }));
+    const related = new Map<string, string[]>();
+
+    for (const story of clusterStories(hashed)) {
+        if (story.signals.length < 2) continue;
+        story.signals.forEach(s => {
+            related.set(s.id, story.signals.filter(other => other.id !== s.id).map(other => other.id));
+        });
+    }
+
+    return hashed.map(s => {
+        const relatedSignals = related.get(s.id);
+        return relatedSignals || s.relatedSignals ? { ...s, relatedSignals } : s;
+    });
+}
@@ -0,0 +1,262 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Trend & Anomaly Detection
+// Weekly signal volume / sentiment per competitor and topic, with spike alerts
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { PulseSignal, SignalDomain, SignalType } from './types';
+import { COMPETITOR_BY_ID } from './competitorData';
+import { matchCompetitorIds } from './signalArchive';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TREND_WEEKS = 12;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+/** Recent vs. prior window (weeks) for the up/down badge */
+const MOMENTUM_WINDOW = 4;
+const MOMENTUM_RATIO = 1.25;
+/** A week is a spike when it sits this many standard deviations above its baseline */
+export const ANOMALY_Z_THRESHOLD = 2.5;
+const CRITICAL_Z_THRESHOLD = 4;
+const MIN_SPIKE_COUNT = 3;
+/** Without this much history every first burst would look like a spike */
+const MIN_BASELINE_WEEKS = 4;
+
+export const TREND_TOPICS: Array<{ id: string; label: string; domain: SignalDomain; keywords: string[]; signalTypes: SignalType[] }> = [
+    { id: 'funding', label: 'Funding', domain: 'MARKET', keywords: ['raises', 'funding', 'series a', 'series b', 'series c', 'investment', 'venture'], signalTypes: ['FUNDING'] },
+    { id: 'm-and-a', label: 'M&A', domain: 'MARKET', keywords: ['acquire', 'acquisition', 'merger', 'merges', 'buyout', 'takeover'], signalTypes: ['M_AND_A'] },
+    { id: 'partnerships', label: 'Partnerships', domain: 'COMPETITIVE', keywords: ['partner', 'partnership', 'alliance', 'collaboration'], signalTypes: ['PARTNERSHIP'] },
+    { id: 'product', label: 'Product launches', domain: 'COMPETITIVE', keywords: ['launch', 'unveil', 'introduces', 'releases', 'rolls out'], signalTypes: ['PRODUCT_LAUNCH'] },
+    { id: 'ai', label: 'AI', domain: 'TECHNOLOGY', keywords: [' ai ', 'ai-powered', 'generative', 'machine learning', 'artificial intelligence', 'llm'], signalTypes: [] },
+    { id: 'prior-auth', label: 'Prior authorization', domain: 'REGULATORY', keywords: ['prior auth', 'prior authorization'], signalTypes: [] },
+    { id: 'workforce', label: 'Layoffs & hiring', domain: 'MARKET', keywords: ['layoff', 'job cuts', 'restructuring', 'hiring'], signalTypes: ['HIRING'] },
+];
+
+const POSITIVE_WORDS = [
+    'raises', 'launch', 'expands', 'expansion', 'partner', 'wins', 'award', 'growth', 'grows',
+    'record', 'exceeds', 'surge', 'improve', 'success', 'milestone', 'leader', 'breakthrough',
+];
+const NEGATIVE_WORDS = [
+    'breach', 'lawsuit', 'sued', 'layoff', 'cuts', 'outage', 'fine', 'penalty', 'decline',
+    'loss', 'cyberattack', 'ransomware', 'investigation', 'fraud', 'delay', 'misses', 'downgrade',
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TrendDirection = 'up' | 'down' | 'flat';
+
+export interface WeeklyPoint {
+    weekStart: string;  // Monday, YYYY-MM-DD (UTC)
+    count: number;
+    sentiment: number;  // Mean of -1..1, 0 when the week is empty
+}
+
+export interface TrendAnomaly {
+    weekStart: string;
+    count: number;
+    baseline: number;
+    zScore: number;
+}
+
+export interface TrendSeries {
+    key: string;
+    label: string;
+    kind: 'competitor' | 'topic';
+    domain: SignalDomain;
+    points: WeeklyPoint[];
+    total: number;
+    direction: TrendDirection;
+    changePct: number;
+    anomaly: TrendAnomaly | null;
+}
+
+export interface TrendReport {
+    competitors: Record<string, TrendSeries>;
+    topics: TrendSeries[];
+    anomalies: TrendSeries[];
+    computedAt: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SIGNAL FEATURES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Lexicon sentiment of a signal's headline and summary, -1 (negative) to 1 */
+export function scoreSentiment(signal: Pick<PulseSignal, 'title' | 'summary'>): number {
+    const text = ` ${signal.title} ${signal.summary} `.toLowerCase();
+    const positive = POSITIVE_WORDS.filter(w => text.includes(w)).length;
+    const negative = NEGATIVE_WORDS.filter(w => text.includes(w)).length;
+    if (positive + negative === 0) return 0;
+    return (positive - negative) / (positive + negative);
+}
+
+export function matchTopicIds(signal: PulseSignal): string[] {
+    const text = ` ${signal.title} ${signal.summary} `.toLowerCase();
+    return TREND_TOPICS
+        .filter(t => t.signalTypes.includes(signal.signalType) || t.keywords.some(k => text.includes(k)))
+        .map(t => t.id);
+}
+
+/**
+ * Live signals and their archived copies overlap, and older archive records
+ * may carry a different id for the same article, so each story counts once.
+ */
+function storyKey(signal: PulseSignal): string {
+    return signal.url && signal.url !== '#' ? signal.url : signal.title.toLowerCase();
+}
+
+function weekStart(time: number): string {
+    const date = new Date(time);
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday))
+        .toISOString()
+        .slice(0, 10);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SERIES STATISTICS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function mean(values: number[]): number {
+    return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function stdDev(values: number[]): number {
+    const m = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+}
+
+function momentum(points: WeeklyPoint[]): { direction: TrendDirection; changePct: number } {
+    const recent = points.slice(-MOMENTUM_WINDOW).reduce((sum, p) => sum + p.count, 0);
+    const prior = points.slice(-2 * MOMENTUM_WINDOW, -MOMENTUM_WINDOW).reduce((sum, p) => sum + p.count, 0);
+    const changePct = prior === 0 ? (recent > 0 ? 100 : 0) : Math.round(((recent - prior) / prior) * 100);
+
+    if (recent - prior >= 2 && recent >= prior * MOMENTUM_RATIO) return { direction: 'up', changePct };
+    if (prior - recent >= 2 && recent * MOMENTUM_RATIO <= prior) return { direction: 'down', changePct };
+    return { direction: 'flat', changePct };
+}
+
+/**
+ * Flag the latest week when it is a statistical outlier against the weeks
+ * before it. The deviation floor of 1 keeps a quiet series (all zeros) from
+ * turning a couple of articles into an "infinite" spike.
+ */
+function detectAnomaly(points: WeeklyPoint[]): TrendAnomaly | null {
+    const latest = points[points.length - 1];
+    const history = points.slice(0, -1).map(p => p.count);
+    if (!latest || latest.count < MIN_SPIKE_COUNT || history.length === 0) return null;
+
+    const baseline = mean(history);
+    const zScore = (latest.count - baseline) / Math.max(stdDev(history), 1);
+    if (zScore < ANOMALY_Z_THRESHOLD) return null;
+
+    return { weekStart: latest.weekStart, count: latest.count, baseline: Math.round(baseline * 10) / 10, zScore: Math.round(zScore * 10) / 10 };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REPORT
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Weekly series for every competitor and topic seen in the last TREND_WEEKS weeks */
+export function computeTrends(signals: PulseSignal[], now = Date.now()): TrendReport {
+    const weeks = Array.from({ length: TREND_WEEKS }, (_, i) => weekStart(now - (TREND_WEEKS - 1 - i) * WEEK_MS));
+    const weekIndex = new Map(weeks.map((w, i) => [w, i]));
+
+    const buckets = new Map<string, Array<{ count: number; sentimentSum: number }>>();
+    const bump = (key: string, week: number, sentiment: number) => {
+        if (!buckets.has(key)) buckets.set(key, weeks.map(() => ({ count: 0, sentimentSum: 0 })));
+        const bucket = buckets.get(key)![week];
+        bucket.count++;
+        bucket.sentimentSum += sentiment;
+    };
+
+    const seen = new Set<string>();
+    let earliest = now;
+    for (const signal of signals) {
+        const key = storyKey(signal);
+        if (seen.has(key) || signal.id.startsWith('trend-')) continue;
+        seen.add(key);
+
+        const time = new Date(signal.publishedAt).getTime();
+        const week = Number.isNaN(time) ? undefined : weekIndex.get(weekStart(time));
+        if (week === undefined) continue;
+        earliest = Math.min(earliest, time);
+
+        const sentiment = scoreSentiment(signal);
+        matchCompetitorIds(signal).forEach(id => bump(`competitor:${id}`, week, sentiment));
+        matchTopicIds(signal).forEach(id => bump(`topic:${id}`, week, sentiment));
+    }
+
+    const hasBaseline = now - earliest >= MIN_BASELINE_WEEKS * WEEK_MS;
+
+    const toSeries = (bucketKey: string, series: Pick<TrendSeries, 'key' | 'label' | 'kind' | 'domain'>): TrendSeries => {
+        const points = (buckets.get(bucketKey) ?? weeks.map(() => ({ count: 0, sentimentSum: 0 }))).map((b, i) => ({
+            weekStart: weeks[i],
+            count: b.count,
+            sentiment: b.count ? Math.round((b.sentimentSum / b.count) * 100) / 100 : 0,
+        }));
+        return {
+            ...series,
+            points,
+            total: points.reduce((sum, p) => sum + p.count, 0),
+            ...momentum(points),
+            anomaly: hasBaseline ? detectAnomaly(points) : null,
+        };
+    };
+
+    const competitors: Record<string, TrendSeries> = {};
+    for (const key of buckets.keys()) {
+        if (!key.startsWith('competitor:')) continue;
+        const id = key.slice('competitor:'.length);
+        competitors[id] = toSeries(key, {
+            key: id,
+            label: COMPETITOR_BY_ID.get(id)?.name ?? id,
+            kind: 'competitor',
+            domain: 'COMPETITIVE',
+        });
+    }
+
+    const topics = TREND_TOPICS.map(t => toSeries(`topic:${t.id}`, { key: t.id, label: t.label, kind: 'topic', domain: t.domain }));
+    const anomalies = [...Object.values(competitors), ...topics].filter(s => s.anomaly);
+
+    return { competitors, topics, anomalies, computedAt: new Date(now).toISOString() };
+}
+
+/**
+ * Turn spikes into synthetic high-priority signals. IDs are keyed by series
+ * and week so the same spike is raised (and notified) only once.
+ */
+export function anomalySignals(report: TrendReport): PulseSignal[] {
+    return report.anomalies.map(series => {
+        const anomaly = series.anomaly!;
+        const subject = series.kind === 'competitor' ? series.label : `${series.label} activity`;
+        const noun = series.kind === 'competitor' ? 'mentions' : 'signals';
+
+        return {
+            id: `trend-${series.kind}-${series.key}-${anomaly.weekStart}`,
+            title: `Unusual spike: ${subject} — ${anomaly.count} ${noun} this week`,
+            summary: `${anomaly.count} ${noun} in the week of ${anomaly.weekStart} vs. a ${TREND_WEEKS - 1}-week baseline of ${anomaly.baseline}/week (${anomaly.zScore}σ above normal).`,
+            url: '#',
+            domain: series.domain,
+            signalType: 'EVENT',
+            priority: anomaly.zScore >= CRITICAL_Z_THRESHOLD ? 'critical' : 'high',
+            relevanceScore: 0.9,
+            importanceScore: Math.min(1, 0.6 + anomaly.zScore / 10),
+            source: { id: 'src-pulse-trends', name: 'Pulse Trend Detection', tier: 1, type: 'manual' },
+            publishedAt: report.computedAt,
+            processedAt: report.computedAt,
+            entities: {
+                companies: series.kind === 'competitor' ? [series.label] : [],
+                people: [],
+                topics: series.kind === 'topic' ? [series.label] : [],
+                products: [],
+                regulations: [],
+            },
+            isRead: false,
+            isBookmarked: false,
+        };
+    });
+}
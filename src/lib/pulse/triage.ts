@@ -0,0 +1,201 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ PULSE — Signal Triage
+// Lifecycle, ownership and threaded team comments for competitive responses
+// ═══════════════════════════════════════════════════════════════════════════
+//
+// Triage state is keyed by signal id and kept apart from the signals
+// themselves, which are refetched (and demo ones regenerated) on every load.
+
+import type { PulseSignal, SignalPriority } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES & CONFIGURATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TriageStatus = 'new' | 'triaged' | 'assigned' | 'actioned' | 'archived';
+
+export interface SignalComment {
+    id: string;
+    authorId: string;
+    body: string;
+    mentions: string[];          // Person ids from the people directory
+    parentId?: string;           // Set on replies; threads are one level deep
+    createdAt: string;
+}
+
+export interface TriageHistoryEntry {
+    status: TriageStatus;
+    by: string;
+    at: string;
+}
+
+export interface SignalTriage {
+    status: TriageStatus;
+    ownerId?: string;
+    comments: SignalComment[];
+    history: TriageHistoryEntry[];
+    updatedAt: string;
+}
+
+export interface CommentThread {
+    comment: SignalComment;
+    replies: SignalComment[];
+}
+
+/** A queue entry; `signal` is missing when it has aged out of both the live feed and the archive */
+export interface ResponseQueueItem {
+    signalId: string;
+    signal?: PulseSignal;
+    entry: SignalTriage;
+}
+
+/** Mock - in real app from auth context */
+export const CURRENT_USER_ID = 'current-user';
+
+export const TRIAGE_STATUSES: TriageStatus[] = ['new', 'triaged', 'assigned', 'actioned', 'archived'];
+
+export const TRIAGE_STATUS_CONFIG: Record<TriageStatus, { label: string; color: string; bgColor: string }> = {
+    new: { label: 'New', color: 'text-gray-600', bgColor: 'bg-gray-100' },
+    triaged: { label: 'Triaged', color: 'text-blue-700', bgColor: 'bg-blue-50' },
+    assigned: { label: 'Assigned', color: 'text-amber-700', bgColor: 'bg-amber-50' },
+    actioned: { label: 'Actioned', color: 'text-emerald-700', bgColor: 'bg-emerald-50' },
+    archived: { label: 'Archived', color: 'text-gray-500', bgColor: 'bg-gray-50' },
+};
+
+/** Forward through the lifecycle, archive from anywhere, reopen finished work */
+export const TRIAGE_TRANSITIONS: Record<TriageStatus, TriageStatus[]> = {
+    new: ['triaged', 'assigned', 'actioned', 'archived'],
+    triaged: ['assigned', 'actioned', 'archived'],
+    assigned: ['triaged', 'actioned', 'archived'],
+    actioned: ['triaged', 'archived'],
+    archived: ['triaged'],
+};
+
+const OPEN_STATUSES: TriageStatus[] = ['triaged', 'assigned'];
+
+const PRIORITY_RANK: Record<SignalPriority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LIFECYCLE
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getTriage(triage: Record<string, SignalTriage>, signalId: string): SignalTriage {
+    return triage[signalId] ?? { status: 'new', comments: [], history: [], updatedAt: '' };
+}
+
+export function canTransition(from: TriageStatus, to: TriageStatus): boolean {
+    return TRIAGE_TRANSITIONS[from].includes(to);
+}
+
+/** Returns the entry unchanged when the move isn't allowed */
+export function transitionTriage(entry: SignalTriage, status: TriageStatus, by = CURRENT_USER_ID, now = new Date()): SignalTriage {
+    if (!canTransition(entry.status, status)) return entry;
+    const at = now.toISOString();
+    return {
+        ...entry,
+        status,
+        // Going back to triage hands the signal back to the pool
+        ownerId: status === 'triaged' ? undefined : entry.ownerId,
+        history: [...entry.history, { status, by, at }],
+        updatedAt: at,
+    };
+}
+
+/** Assigning moves early-stage signals to `assigned`; unassigning sends them back to triage */
+export function assignTriageOwner(entry: SignalTriage, ownerId: string | null, by = CURRENT_USER_ID, now = new Date()): SignalTriage {
+    const at = now.toISOString();
+    if (!ownerId) {
+        const base = { ...entry, ownerId: undefined, updatedAt: at };
+        return entry.status === 'assigned' ? transitionTriage(base, 'triaged', by, now) : base;
+    }
+    const base = { ...entry, ownerId, updatedAt: at };
+    return entry.status === 'new' || entry.status === 'triaged' ? transitionTriage(base, 'assigned', by, now) : base;
+}
+
+export function addTriageComment(
+    entry: SignalTriage,
+    body: string,
+    mentions: string[],
+    parentId?: string,
+    by = CURRENT_USER_ID,
+    now = new Date()
+): SignalTriage {
+    const at = now.toISOString();
+    // Replies attach to the thread root so threads stay one level deep
+    const parent = parentId ? entry.comments.find(c => c.id === parentId) : undefined;
+    const comment: SignalComment = {
+        id: `comment-${now.getTime()}-${Math.random().toString(36).slice(2, 7)}`,
+        authorId: by,
+        body: body.trim(),
+        mentions,
+        parentId: parent ? parent.parentId ?? parent.id : undefined,
+        createdAt: at,
+    };
+    return { ...entry, comments: [...entry.comments, comment], updatedAt: at };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// COMMENTS & MENTIONS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Person ids mentioned in a comment. Mentions are written as `@First` (what the
+ * mentions input inserts) or `@FirstLast`; unknown handles are ignored.
+ */
+export function extractMentions(body: string, people: Array<{ id: string; displayName: string }>): string[] {
+    const handles = [...body.matchAll(/(?:^|\s)@([\p{L}][\p{L}'-]*)/gu)].map(m => m[1].toLowerCase());
+    const ids = handles.flatMap(handle => {
+        const person = people.find(p => {
+            const name = p.displayName.toLowerCase();
+            return name.split(' ')[0] === handle || name.replace(/\s+/g, '') === handle;
+        });
+        return person ? [person.id] : [];
+    });
+    return [...new Set(ids)];
+}
+
+export function threadComments(comments: SignalComment[]): CommentThread[] {
+    const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return sorted
+        .filter(c => !c.parentId)
+        .map(comment => ({ comment, replies: sorted.filter(c => c.parentId === comment.id) }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RESPONSE QUEUE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Triaged or assigned work, plus critical signals nobody has looked at yet */
+export function needsResponse(signal: PulseSignal, entry: SignalTriage): boolean {
+    return OPEN_STATUSES.includes(entry.status) || (entry.status === 'new' && signal.priority === 'critical');
+}
+
+/**
+ * Open triage entries, whether or not their signal is still loaded, plus
+ * untouched critical signals. Signals resolve from the live list first and
+ * then from archived copies; entries with neither stay in the queue as
+ * orphans so assigned work never silently drops out.
+ *
+ * Most urgent first, then whatever has waited longest; orphans go last.
+ */
+export function buildResponseQueue(
+    triage: Record<string, SignalTriage>,
+    signals: PulseSignal[],
+    archived: PulseSignal[] = []
+): ResponseQueueItem[] {
+    const byId = new Map([...archived, ...signals].map(s => [s.id, s]));
+
+    const tracked = Object.entries(triage)
+        .filter(([, entry]) => OPEN_STATUSES.includes(entry.status))
+        .map(([signalId, entry]) => ({ signalId, signal: byId.get(signalId), entry }));
+    const untouched = signals
+        .map(s => ({ signalId: s.id, signal: s, entry: getTriage(triage, s.id) }))
+        .filter(item => item.entry.status === 'new' && needsResponse(item.signal, item.entry));
+
+    const rank = (item: ResponseQueueItem) => (item.signal ? PRIORITY_RANK[item.signal.priority] : Infinity);
+    const waitingSince = (item: ResponseQueueItem) => item.signal?.publishedAt ?? item.entry.updatedAt;
+
+    return [...tracked, ...untouched].sort((a, b) =>
+        rank(a) - rank(b) || waitingSince(a).localeCompare(waitingSince(b))
+    );
+}
@@ -77,6 +77,31 @@ export interface SignalSource {
     url?: string;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// FEED SUBSCRIPTIONS (RSS 2.0 / Atom / JSON Feed)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const SOURCE_TIER_LABELS: Record<SourceTier, string> = {
+    1: 'Tier 1 · Official',
+    2: 'Tier 2 · Trade press',
+    3: 'Tier 3 · Company blog',
+    4: 'Tier 4 · Unverified',
+};
+
+export interface FeedSubscription {
+    id: string;
+    name: string;
+    url: string;
+    tier: SourceTier;
+    pollIntervalMinutes: number;
+    enabled: boolean;
+    lastFetchedAt: string | null;
+    lastError: string | null;
+    lastItemCount: number;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // ENTITIES (from PRD §3.3)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -139,6 +164,28 @@ export interface PulseSignal {
     market?: import('./marketData').MarketMetadata;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// STORIES (near-duplicate signals grouped across sources)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface StorySource {
+    signalId: string;
+    name: string;
+    tier: SourceTier;
+    title: string;
+    url: string;
+    publishedAt: string;
+}
+
+export interface SignalStory {
+    id: string;
+    headline: string;
+    canonical: PulseSignal;
+    signals: PulseSignal[];
+    sources: StorySource[];      // Earliest first
+    firstPublishedAt: string;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // COMPETITORS (from PRD §2.2)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -188,6 +235,11 @@ export interface PulseState {
     // Data
     signals: PulseSignal[];
     competitors: Competitor[];
+    feeds: FeedSubscription[];
+    trends: import('./trendAnalysis').TrendReport | null;
+    battlecardSnapshots: Record<string, import('./battlecard').BattlecardSnapshot>;  // Last export per competitor
+    triage: Record<string, import('./triage').SignalTriage>;  // Workflow state per signal id
+    notifiedTrendIds: string[];  // Trend alerts already notified, so a reload doesn't raise them again
 
     // UI State
     isLoading: boolean;
@@ -1,9 +1,15 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { PulseState, PulseSignal, SignalDomain, PulseFilter, SignalPriority } from './types';
+import type { PulseState, PulseSignal, SignalDomain, PulseFilter, SignalPriority, FeedSubscription } from './types';
 import { fetchNewsSignals, getLastFetchTimestamp, canRefresh, getRateLimitStatus } from './newsService';
+import { fetchFeedSignals, createFeedSubscription, clearFeedCache, type FeedFetchResult, type NewFeedInput } from './feedService';
 import { ALL_COMPETITORS, type CompetitorProfile } from './competitorData';
 import { processSignal } from './notifications';
+import { annotateStories } from './storyClustering';
+import { archiveSignals, updateArchivedSignals, queryArchive } from './signalArchive';
+import { computeTrends, anomalySignals, TREND_WEEKS } from './trendAnalysis';
+import { snapshotBattlecard, type Battlecard } from './battlecard';
+import { addTriageComment, assignTriageOwner, getTriage, transitionTriage, type TriageStatus } from './triage';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CAFÉ PULSE — Zustand Store
@@ -19,6 +25,23 @@ interface PulseActions {
     markAllAsRead: () => void;
     toggleBookmark: (signalId: string) => void;
 
+    // Feed subscriptions
+    addFeed: (input: NewFeedInput) => FeedSubscription;
+    updateFeed: (feedId: string, updates: Partial<Pick<FeedSubscription, 'name' | 'tier' | 'pollIntervalMinutes' | 'enabled'>>) => void;
+    removeFeed: (feedId: string) => void;
+    pollFeeds: (force?: boolean) => Promise<void>;
+
+    // Trends
+    refreshTrends: () => Promise<void>;
+
+    // Battlecards
+    recordBattlecardExport: (card: Battlecard) => void;
+
+    // Triage
+    setTriageStatus: (signalId: string, status: TriageStatus) => void;
+    assignSignalOwner: (signalId: string, ownerId: string | null) => void;
+    addSignalComment: (signalId: string, body: string, mentions: string[], parentId?: string) => void;
+
     // Filtering
     setFilter: (filter: Partial<PulseFilter>) => void;
     setActiveDomain: (domain: SignalDomain | 'ALL') => void;
@@ -96,6 +119,11 @@ const generateDemoSignals = (): PulseSignal[] => {
 const initialState: PulseState = {
     signals: generateDemoSignals(), // Pre-populate with demo signals
     competitors: initializeCompetitors(),
+    feeds: [],
+    trends: null,
+    battlecardSnapshots: {},
+    triage: {},
+    notifiedTrendIds: [],
     selectedCompetitorId: null,
     isLoading: false,
     error: null,
@@ -124,6 +152,28 @@ function calculateStats(signals: PulseSignal[]): PulseState['stats'] {
     return { total: signals.length, unread, byDomain, byPriority };
 }
 
+const isFeedSignal = (signal: PulseSignal) => signal.id.startsWith('feed-');
+const isTrendSignal = (signal: PulseSignal) => signal.id.startsWith('trend-');
+
+/** Trend ids are keyed by week, so only the recent ones can ever recur */
+const MAX_NOTIFIED_TRENDS = 200;
+
+function applyFeedResults(feeds: FeedSubscription[], results: FeedFetchResult[]): FeedSubscription[] {
+    if (results.length === 0) return feeds;
+    const byId = new Map(results.map(r => [r.feedId, r]));
+
+    return feeds.map(feed => {
+        const result = byId.get(feed.id);
+        if (!result) return feed;
+        return {
+            ...feed,
+            lastFetchedAt: result.fetchedAt,
+            lastError: result.error,
+            lastItemCount: result.error ? feed.lastItemCount : result.itemCount,
+        };
+    });
+}
+
 export const usePulseStore = create<PulseStore>()(
     persist(
         (set, get) => ({
@@ -137,9 +187,13 @@ export const usePulseStore = create<PulseStore>()(
                 set({ isLoading: true, error: null });
 
                 try {
-                    const apiSignals = await fetchNewsSignals(force);
+                    const newsSignals = await fetchNewsSignals(force);
                     const lastFetchedAt = getLastFetchTimestamp();
 
+                    // Feed subscriptions don't count against the API quota
+                    const feed = await fetchFeedSignals(get().feeds, force);
+                    const apiSignals = [...newsSignals, ...feed.signals];
+
                     // Preserve read state from existing signals
                     const existingSignals = get().signals;
                     const readSignalIds = new Set(existingSignals.filter(s => s.isRead).map(s => s.id));
@@ -161,13 +215,15 @@ export const usePulseStore = create<PulseStore>()(
                     );
 
                     // Combine: real API signals + demo signals for full experience
-                    const allSignals = [...apiSignals, ...uniqueDemoSignals];
+                    // (trend alerts are derived, so they carry over until the next refreshTrends)
+                    const allSignals = [...apiSignals, ...uniqueDemoSignals, ...existingSignals.filter(isTrendSignal)];
 
-                    const mergedSignals = allSignals.map((s: PulseSignal) => ({
+                    // Group near-duplicate coverage of the same story across sources
+                    const mergedSignals = annotateStories(allSignals.map((s: PulseSignal) => ({
                         ...s,
                         isRead: readSignalIds.has(s.id) ? true : s.isRead,
                         isBookmarked: bookmarkedIds.has(s.id) ? true : s.isBookmarked,
-                    }));
+                    })));
 
                     // ═══════════════════════════════════════════════════════════
                     // INTELLIGENT NOTIFICATION INTEGRATION
@@ -181,12 +237,16 @@ export const usePulseStore = create<PulseStore>()(
                         processSignal(signal);
                     });
 
-                    set({
+                    set(state => ({
                         signals: mergedSignals,
+                        feeds: applyFeedResults(state.feeds, feed.results),
                         isLoading: false,
                         lastFetchedAt,
                         stats: calculateStats(mergedSignals),
-                    });
+                    }));
+
+                    // Keep history beyond the in-memory window, then recompute momentum over it
+                    void archiveSignals(mergedSignals).then(() => get().refreshTrends());
                 } catch (error) {
                     set({
                         isLoading: false,
@@ -206,21 +266,153 @@ export const usePulseStore = create<PulseStore>()(
                     );
                     return { signals, stats: calculateStats(signals) };
                 });
+                void updateArchivedSignals([signalId], { isRead: true });
             },
 
             markAllAsRead: () => {
+                const unreadIds = get().signals.filter(s => !s.isRead).map(s => s.id);
                 set(state => {
                     const signals = state.signals.map(s => ({ ...s, isRead: true }));
                     return { signals, stats: calculateStats(signals) };
                 });
+                void updateArchivedSignals(unreadIds, { isRead: true });
             },
 
             toggleBookmark: (signalId: string) => {
+                const isBookmarked = !get().signals.find(s => s.id === signalId)?.isBookmarked;
                 set(state => ({
                     signals: state.signals.map(s =>
-                        s.id === signalId ? { ...s, isBookmarked: !s.isBookmarked } : s
+                        s.id === signalId ? { ...s, isBookmarked } : s
                     ),
                 }));
+                void updateArchivedSignals([signalId], { isBookmarked });
+            },
+
+            // ─────────────────────────────────────────────────────────────────────
+            // Feed Subscriptions
+            // ─────────────────────────────────────────────────────────────────────
+
+            addFeed: (input: NewFeedInput) => {
+                const feed = createFeedSubscription(input);
+                if (get().feeds.some(f => f.url === feed.url)) {
+                    throw new Error('That feed is already subscribed');
+                }
+                set(state => ({ feeds: [...state.feeds, feed] }));
+                void get().pollFeeds();
+                return feed;
+            },
+
+            updateFeed: (feedId, updates) => {
+                set(state => ({
+                    feeds: state.feeds.map(f => (f.id === feedId ? { ...f, ...updates } : f)),
+                }));
+                if (updates.enabled !== undefined || updates.tier !== undefined || updates.name !== undefined) {
+                    // Re-tag (or drop) this feed's signals on the next poll
+                    clearFeedCache(feedId);
+                    void get().pollFeeds();
+                }
+            },
+
+            removeFeed: (feedId: string) => {
+                clearFeedCache(feedId);
+                set(state => {
+                    const signals = state.signals.filter(s => !s.id.startsWith(`${feedId}-`));
+                    return {
+                        feeds: state.feeds.filter(f => f.id !== feedId),
+                        signals,
+                        stats: calculateStats(signals),
+                    };
+                });
+            },
+
+            pollFeeds: async (force = false) => {
+                const { signals: feedSignals, results } = await fetchFeedSignals(get().feeds, force);
+                const existing = new Map(get().signals.filter(isFeedSignal).map(s => [s.id, s]));
+                if (results.length === 0 && existing.size === feedSignals.length) return;
+
+                // Preserve read state and notify only on items we haven't seen
+                const incoming = feedSignals.map(s => {
+                    const previous = existing.get(s.id);
+                    return previous ? { ...s, isRead: previous.isRead, isBookmarked: previous.isBookmarked } : s;
+                });
+                incoming.filter(s => !existing.has(s.id)).forEach(signal => processSignal(signal));
+
+                set(state => {
+                    const signals = annotateStories([...incoming, ...state.signals.filter(s => !isFeedSignal(s))]);
+                    return {
+                        signals,
+                        feeds: applyFeedResults(state.feeds, results),
+                        stats: calculateStats(signals),
+                    };
+                });
+                void archiveSignals(incoming).then(() => get().refreshTrends());
+            },
+
+            // ─────────────────────────────────────────────────────────────────────
+            // Trends
+            // ─────────────────────────────────────────────────────────────────────
+
+            refreshTrends: async () => {
+                const now = Date.now();
+                const archived = await queryArchive({
+                    dateRange: {
+                        start: new Date(now - TREND_WEEKS * 7 * 24 * 60 * 60 * 1000).toISOString(),
+                        end: new Date(now).toISOString(),
+                    },
+                });
+
+                // Demo signals are synthetic, so they'd only distort the baseline
+                const live = get().signals.filter(s => !s.id.startsWith('demo-'));
+                const report = computeTrends([...live, ...archived], now);
+
+                const existing = new Map(get().signals.filter(isTrendSignal).map(s => [s.id, s]));
+                const alerts = anomalySignals(report).map(s => existing.get(s.id) ?? s);
+
+                // Alerts are rebuilt after every reload, so notification history is what's persisted
+                const notified = new Set(get().notifiedTrendIds);
+                const fresh = alerts.filter(s => !existing.has(s.id) && !notified.has(s.id));
+                fresh.forEach(signal => processSignal(signal));
+
+                set(state => {
+                    const signals = [...alerts, ...state.signals.filter(s => !isTrendSignal(s))];
+                    const notifiedTrendIds = fresh.length > 0
+                        ? [...state.notifiedTrendIds, ...fresh.map(s => s.id)].slice(-MAX_NOTIFIED_TRENDS)
+                        : state.notifiedTrendIds;
+                    return { trends: report, signals, notifiedTrendIds, stats: calculateStats(signals) };
+                });
+            },
+
+            // ─────────────────────────────────────────────────────────────────────
+            // Battlecards
+            // ─────────────────────────────────────────────────────────────────────
+
+            recordBattlecardExport: (card: Battlecard) => {
+                set(state => ({
+                    battlecardSnapshots: { ...state.battlecardSnapshots, [card.competitorId]: snapshotBattlecard(card) },
+                }));
+            },
+
+            // ─────────────────────────────────────────────────────────────────────
+            // Triage
+            // ─────────────────────────────────────────────────────────────────────
+
+            setTriageStatus: (signalId, status) => {
+                set(state => ({
+                    triage: { ...state.triage, [signalId]: transitionTriage(getTriage(state.triage, signalId), status) },
+                }));
+            },
+
+            assignSignalOwner: (signalId, ownerId) => {
+                set(state => ({
+                    triage: { ...state.triage, [signalId]: assignTriageOwner(getTriage(state.triage, signalId), ownerId) },
+                }));
+            },
+
+            addSignalComment: (signalId, body, mentions, parentId) => {
+                if (!body.trim()) return;
+                set(state => ({
+                    triage: { ...state.triage, [signalId]: addTriageComment(getTriage(state.triage, signalId), body, mentions, parentId) },
+                }));
             },
 
             // ─────────────────────────────────────────────────────────────────────
@@ -376,6 +568,10 @@ export const usePulseStore = create<PulseStore>()(
             partialize: (state) => ({
                 activeDomain: state.activeDomain,
                 filter: state.filter,
+                feeds: state.feeds,
+                battlecardSnapshots: state.battlecardSnapshots,
+                triage: state.triage,
+                notifiedTrendIds: state.notifiedTrendIds,
                 // Persist only watchlist state for competitors (not signal counts)
                 competitorWatchlist: state.competitors
                     .filter(c => c.watchlisted)
@@ -396,6 +592,10 @@ export const usePulseStore = create<PulseStore>()(
                     // Apply only non-signal persisted state (activeDomain, filter)
                     activeDomain: persistedState.activeDomain ?? current.activeDomain,
                     filter: persistedState.filter ?? current.filter,
+                    feeds: persistedState.feeds ?? current.feeds,
+                    battlecardSnapshots: persistedState.battlecardSnapshots ?? current.battlecardSnapshots,
+                    triage: persistedState.triage ?? current.triage,
+                    notifiedTrendIds: persistedState.notifiedTrendIds ?? current.notifiedTrendIds,
                     // ALWAYS use demo signals, never overwrite with empty/undefined
                     signals,
                     stats: calculateStats(signals),
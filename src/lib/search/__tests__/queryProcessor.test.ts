@@ -0,0 +1,87 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ FINDER — Query Operator Tests
+// Run with: npx tsx src/lib/search/__tests__/queryProcessor.test.ts
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { extractQueryOperators, extractQuotedPhrases, removeQueryFilter } from '../queryProcessor';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+const log = (test: string, passed: boolean, details?: string) => {
+    const icon = passed ? '✅' : '❌';
+    console.log(`${icon} ${test}${details ? ` — ${details}` : ''}`);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Suite
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function runTests() {
+    console.log('\n═══════════════════════════════════════════════════════════');
+    console.log(' CAFÉ FINDER — Query Operator Tests');
+    console.log('═══════════════════════════════════════════════════════════\n');
+
+    let passed = 0;
+    let failed = 0;
+
+    const check = (test: string, ok: boolean, details?: string) => {
+        log(test, ok, details);
+        if (ok) passed++; else failed++;
+    };
+
+    // ── Test 1: Operators are cut where they matched ───────────────────────
+    console.log('▶ extractQueryOperators');
+
+    const launch = extractQueryOperators('pre-launch -launch');
+    check('Exclusion leaves the earlier "pre-launch" intact',
+        launch.remainder === 'pre-launch' && launch.filters.length === 1 && launch.filters[0].value === 'launch',
+        `remainder "${launch.remainder}"`);
+
+    const subtype = extractQueryOperators('subtype:faq type:faq');
+    check('type: leaves "subtype:faq" intact',
+        subtype.remainder === 'subtype:faq' && subtype.filters.length === 1 && subtype.filters[0].kind === 'type',
+        `remainder "${subtype.remainder}"`);
+
+    const mixed = extractQueryOperators('claims author:"Jane Doe" edi -legacy tag:x12');
+    check('Mixed operators leave only the free text',
+        mixed.remainder === 'claims edi' && mixed.filters.length === 3,
+        `remainder "${mixed.remainder}", ${mixed.filters.length} filters`);
+
+    const plain = extractQueryOperators('e-commerce roadmap');
+    check('Hyphenated words are not exclusions',
+        plain.remainder === 'e-commerce roadmap' && plain.filters.length === 0,
+        `remainder "${plain.remainder}"`);
+
+    // ── Test 2: Removing a chip ────────────────────────────────────────────
+    console.log('\n▶ removeQueryFilter');
+
+    const typeFilter = extractQueryOperators('subtype:faq type:faq').filters[0];
+    const removed = removeQueryFilter('subtype:faq type:faq', typeFilter);
+    check('Removing type:faq keeps subtype:faq', removed === 'subtype:faq', `"${removed}"`);
+
+    const excludeFilter = extractQueryOperators('pre-launch -launch').filters[0];
+    const unexcluded = removeQueryFilter('pre-launch -launch', excludeFilter);
+    check('Removing -launch keeps pre-launch', unexcluded === 'pre-launch', `"${unexcluded}"`);
+
+    // ── Test 3: Quoted phrases ─────────────────────────────────────────────
+    console.log('\n▶ extractQuotedPhrases');
+
+    const quoted = extractQuotedPhrases('prior auth "prior auth" rules');
+    check('Quoted phrase is cut where it matched',
+        quoted.remainder === 'prior auth rules' && quoted.phrases[0] === 'prior auth',
+        `remainder "${quoted.remainder}"`);
+
+    // ── Summary ────────────────────────────────────────────────────────────
+    console.log('\n═══════════════════════════════════════════════════════════');
+    console.log(` Test Results: ${passed} passed, ${failed} failed`);
+    console.log('═══════════════════════════════════════════════════════════\n');
+
+    return failed === 0;
+}
+
+// Run tests
+runTests().then(success => {
+    process.exit(success ? 0 : 1);
+});
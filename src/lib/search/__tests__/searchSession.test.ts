@@ -0,0 +1,132 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CAFÉ FINDER — Follow-up Resolution Tests
+// Run with: npx tsx src/lib/search/__tests__/searchSession.test.ts
+// ═══════════════════════════════════════════════════════════════════════════
+
+import { resolveFollowUp, SearchSession, type SearchTurn } from '../searchSession';
+import type { AnySearchResult } from '../searchIndex';
+import type { SearchResponse, SearchResultGroups } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+const emptyGroups = (): SearchResultGroups => ({
+    people: [], tools: [], faqs: [], resources: [],
+    discussions: [], lopSessions: [], pulseSignals: [], competitors: [], toasts: [],
+});
+
+const mockTurn = (query: string, top: AnySearchResult): SearchTurn => {
+    const results = emptyGroups();
+    if (top.type === 'tool') results.tools.push(top);
+    if (top.type === 'person') results.people.push(top);
+    return {
+        id: `turn_${query}`,
+        kind: 'new',
+        query,
+        label: query,
+        input: query,
+        response: { query: { entities: [] }, results } as unknown as SearchResponse,
+    };
+};
+
+const jira = {
+    id: 'tool_jira', type: 'tool', score: 0.9, matchedTerms: ['jira'],
+    name: 'Jira', description: 'Issue tracking', category: 'delivery', accessUrl: '#', status: 'available',
+} as AnySearchResult;
+
+const priya = {
+    id: 'person_priya', type: 'person', score: 0.9, matchedTerms: ['edi'],
+    name: 'Priya Shah',
+} as unknown as AnySearchResult;
+
+const log = (test: string, passed: boolean, details?: string) => {
+    const icon = passed ? '✅' : '❌';
+    console.log(`${icon} ${test}${details ? ` — ${details}` : ''}`);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test Suite
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function runTests() {
+    console.log('\n═══════════════════════════════════════════════════════════');
+    console.log(' CAFÉ FINDER — Follow-up Resolution Tests');
+    console.log('═══════════════════════════════════════════════════════════\n');
+
+    let passed = 0;
+    let failed = 0;
+
+    const check = (test: string, ok: boolean, details?: string) => {
+        log(test, ok, details);
+        if (ok) passed++; else failed++;
+    };
+
+    const history = [mockTurn('jira', jira)];
+
+    // ── Test 1: Not a reference ────────────────────────────────────────────
+    console.log('▶ Plain queries stay new');
+
+    const itTeam = resolveFollowUp('IT support contacts', history);
+    check('"IT" is not the pronoun "it"', itTeam.kind === 'new' && itTeam.query === 'IT support contacts',
+        `${itTeam.kind}: ${itTeam.query}`);
+
+    const quarter = resolveFollowUp('roadmap for this quarter', history);
+    check('"this quarter" is a time phrase', quarter.kind === 'new' && quarter.query === 'roadmap for this quarter',
+        `${quarter.kind}: ${quarter.query}`);
+
+    const thisWeek = resolveFollowUp('show me this week', history);
+    check('"show me this week" is a time phrase', thisWeek.kind === 'new', `${thisWeek.kind}: ${thisWeek.query}`);
+
+    const bare = resolveFollowUp('is it down', history);
+    check('A pronoun without a follow-up verb is left alone', bare.kind === 'new', `${bare.kind}: ${bare.query}`);
+
+    // ── Test 2: References ─────────────────────────────────────────────────
+    console.log('\n▶ Follow-up references');
+
+    const more = resolveFollowUp('tell me more about that', history);
+    check('"tell me more about that" points at the top result',
+        more.kind === 'reference' && more.query === 'tell me more about Jira' && more.label === 'tell me more about "Jira"',
+        `${more.kind}: ${more.query}`);
+
+    const explain = resolveFollowUp('explain it', history);
+    check('"explain it" points at the top result', explain.kind === 'reference' && explain.query === 'explain Jira',
+        `${explain.kind}: ${explain.query}`);
+
+    const shouting = resolveFollowUp('explain IT', history);
+    check('"explain IT" keeps IT', shouting.kind === 'new', `${shouting.kind}: ${shouting.query}`);
+
+    // ── Test 3: Ownership ──────────────────────────────────────────────────
+    console.log('\n▶ Ownership questions');
+
+    const owner = resolveFollowUp('who owns it?', [mockTurn('edi expert', priya)]);
+    check('"who owns it" looks up the person', owner.kind === 'reference' && owner.query === 'type:person Priya Shah',
+        `${owner.kind}: ${owner.query}`);
+
+    const ownerTeam = resolveFollowUp('who owns IT support', [mockTurn('edi expert', priya)]);
+    check('"who owns IT support" is a new query', ownerTeam.kind === 'new', `${ownerTeam.kind}: ${ownerTeam.query}`);
+
+    // ── Test 4: Session refinements ───────────────────────────────────────
+    console.log('\n▶ Session refinements');
+
+    const session = new SearchSession(query => mockTurn(query, jira).response);
+    session.ask('jira type:tool');
+    const chip = session.refine('jira', 'without Type: Tools');
+    check('refine() appends a refine turn', session.turns.length === 2 && chip.kind === 'refine' && chip.query === 'jira',
+        `${session.turns.length} turns, ${chip.kind}: ${chip.query}`);
+
+    const back = session.undo();
+    check('A removed filter can be undone', back?.query === 'jira type:tool', `${back?.query}`);
+
+    // ── Summary ────────────────────────────────────────────────────────────
+    console.log('\n═══════════════════════════════════════════════════════════');
+    console.log(` Test Results: ${passed} passed, ${failed} failed`);
+    console.log('═══════════════════════════════════════════════════════════\n');
+
+    return failed === 0;
+}
+
+// Run tests
+runTests().then(success => {
+    process.exit(success ? 0 : 1);
+});
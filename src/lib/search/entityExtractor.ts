@@ -8,6 +8,7 @@ import {
     TOOL_SYNONYMS,
     TOPIC_SYNONYMS,
     TEAM_SYNONYMS,
+    onSynonymsChange,
     // getCanonical,
 } from './synonyms';
 import { normalizeToken } from './queryProcessor';
@@ -20,34 +21,37 @@ import { normalizeToken } from './queryProcessor';
  * Known tool names and aliases
  */
 const TOOL_ENTITIES: Record<string, string> = {};
-Object.keys(TOOL_SYNONYMS).forEach(tool => {
-    TOOL_ENTITIES[tool] = tool;
-    TOOL_SYNONYMS[tool].forEach(alias => {
-        TOOL_ENTITIES[alias.toLowerCase()] = tool;
-    });
-});
 
 /**
  * Known topic names and aliases
  */
 const TOPIC_ENTITIES: Record<string, string> = {};
-Object.keys(TOPIC_SYNONYMS).forEach(topic => {
-    TOPIC_ENTITIES[topic] = topic;
-    TOPIC_SYNONYMS[topic].forEach(alias => {
-        TOPIC_ENTITIES[alias.toLowerCase()] = topic;
-    });
-});
 
 /**
  * Known team names and aliases
  */
 const TEAM_ENTITIES: Record<string, string> = {};
-Object.keys(TEAM_SYNONYMS).forEach(team => {
-    TEAM_ENTITIES[team] = team;
-    TEAM_SYNONYMS[team].forEach(alias => {
-        TEAM_ENTITIES[alias.toLowerCase()] = team;
+
+function fillEntities(target: Record<string, string>, synonyms: Record<string, string[]>): void {
+    Object.keys(target).forEach(key => delete target[key]);
+    Object.keys(synonyms).forEach(term => {
+        target[term] = term;
+        synonyms[term].forEach(alias => {
+            target[alias.toLowerCase()] = term;
+        });
     });
-});
+}
+
+function buildEntityDictionaries(): void {
+    fillEntities(TOOL_ENTITIES, TOOL_SYNONYMS);
+    fillEntities(TOPIC_ENTITIES, TOPIC_SYNONYMS);
+    fillEntities(TEAM_ENTITIES, TEAM_SYNONYMS);
+}
+
+buildEntityDictionaries();
+
+// Keep entity lookups in step with dictionary edits
+onSynonymsChange(buildEntityDictionaries);
 
 /**
  * Resource type keywords
@@ -0,0 +1,140 @@
+/**
+ * Café Finder: Offline Ranking Evaluation
+ * Scores a ranking function against a labeled query set with NDCG@k and MRR,
+ * so a weight change can be compared to the current weights before shipping
+ */
+
+import type { BaseSearchResult, SearchResponse, SearchResultGroups } from './types';
+import { documentKey } from './rankingFeedback';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A query with graded relevance judgments.
+ * Grades: 3 = perfect, 2 = good, 1 = fair; unlisted documents are 0.
+ */
+export interface LabeledQuery {
+    query: string;
+    /** documentKey(type, id) -> grade */
+    judgments: Record<string, number>;
+}
+
+export interface QueryEvaluation {
+    query: string;
+    ndcg: number;
+    reciprocalRank: number;
+    /** Top-k document keys as ranked */
+    ranked: string[];
+}
+
+export interface EvaluationReport {
+    k: number;
+    ndcg: number;
+    mrr: number;
+    queries: QueryEvaluation[];
+}
+
+export interface WeightComparison {
+    baseline: EvaluationReport;
+    candidate: EvaluationReport;
+    ndcgDelta: number;
+    mrrDelta: number;
+    /** Queries whose NDCG moved, largest change first */
+    changed: Array<{ query: string; baseline: number; candidate: number }>;
+}
+
+// ============================================
+// METRICS
+// ============================================
+
+const discountedGain = (grades: number[]) =>
+    grades.reduce((sum, grade, i) => sum + (Math.pow(2, grade) - 1) / Math.log2(i + 2), 0);
+
+/**
+ * NDCG@k of a ranked list against graded judgments
+ */
+export function ndcgAtK(ranked: string[], judgments: Record<string, number>, k: number): number {
+    const ideal = Object.values(judgments).filter(g => g > 0).sort((a, b) => b - a).slice(0, k);
+    const idealGain = discountedGain(ideal);
+    if (idealGain === 0) return 0;
+    return discountedGain(ranked.slice(0, k).map(key => judgments[key] ?? 0)) / idealGain;
+}
+
+/**
+ * 1 / rank of the first relevant document, 0 if none
+ */
+export function reciprocalRank(ranked: string[], judgments: Record<string, number>, k: number): number {
+    const index = ranked.slice(0, k).findIndex(key => (judgments[key] ?? 0) > 0);
+    return index === -1 ? 0 : 1 / (index + 1);
+}
+
+// ============================================
+// HARNESS
+// ============================================
+
+/**
+ * Rank every result across groups the way a flat results list shows them
+ */
+export function rankedKeys(results: SearchResultGroups): string[] {
+    const all: BaseSearchResult[] = Object.values(results).flat();
+    return all
+        .sort((a, b) => b.score - a.score)
+        .map(result => documentKey(result.type, result.id));
+}
+
+/**
+ * Evaluate a search function over a labeled query set
+ */
+export function evaluateRanking(
+    search: (query: string) => SearchResponse,
+    labeledQueries: LabeledQuery[],
+    k = 10
+): EvaluationReport {
+    const queries = labeledQueries.map(({ query, judgments }) => {
+        const ranked = rankedKeys(search(query).results).slice(0, k);
+        return {
+            query,
+            ndcg: ndcgAtK(ranked, judgments, k),
+            reciprocalRank: reciprocalRank(ranked, judgments, k),
+            ranked,
+        };
+    });
+
+    const mean = (values: number[]) =>
+        values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+    return {
+        k,
+        ndcg: mean(queries.map(q => q.ndcg)),
+        mrr: mean(queries.map(q => q.reciprocalRank)),
+        queries,
+    };
+}
+
+/**
+ * Compare two ranking configurations on the same labeled set
+ */
+export function compareRankings(
+    baselineSearch: (query: string) => SearchResponse,
+    candidateSearch: (query: string) => SearchResponse,
+    labeledQueries: LabeledQuery[],
+    k = 10
+): WeightComparison {
+    const baseline = evaluateRanking(baselineSearch, labeledQueries, k);
+    const candidate = evaluateRanking(candidateSearch, labeledQueries, k);
+
+    const changed = baseline.queries
+        .map((q, i) => ({ query: q.query, baseline: q.ndcg, candidate: candidate.queries[i].ndcg }))
+        .filter(q => Math.abs(q.candidate - q.baseline) > 1e-6)
+        .sort((a, b) => Math.abs(b.candidate - b.baseline) - Math.abs(a.candidate - a.baseline));
+
+    return {
+        baseline,
+        candidate,
+        ndcgDelta: candidate.ndcg - baseline.ndcg,
+        mrrDelta: candidate.mrr - baseline.mrr,
+        changed,
+    };
+}
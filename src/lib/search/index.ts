@@ -3,36 +3,25 @@
  * Orchestrates query processing, intent classification, search, and ranking
  */
 
-import type {
-    SearchQuery,
-    SearchResponse,
-    SearchContext,
-    SearchConfig,
-    SearchMetrics,
+import {
+    DEFAULT_SEARCH_CONFIG,
+    type RankingWeights,
+    type SearchQuery,
+    type SearchResponse,
+    type SearchContext,
+    type SearchConfig,
+    type SearchMetrics,
+    type SearchResultGroups,
 } from './types';
-import { processQuery } from './queryProcessor';
+import { processQuery, removeQueryFilter } from './queryProcessor';
 import { classifyIntent } from './intentClassifier';
 import { extractEntities } from './entityExtractor';
 import { searchIndex, countResults } from './searchIndex';
 import { synthesizeAnswer } from './answerSynthesizer';
-
-// Default config (inline to avoid import issues)
-const DEFAULT_CONFIG: SearchConfig = {
-    maxResultsPerType: 10,
-    minScoreThreshold: 0.1,
-    fuzzyMatching: true,
-    fuzzyThreshold: 0.4,
-    synonymExpansion: true,
-    answerSynthesis: true,
-    weights: {
-        intentMatch: 0.35,
-        semanticScore: 0.25,
-        keywordScore: 0.15,
-        freshness: 0.10,
-        popularity: 0.10,
-        contextBoost: 0.05,
-    },
-};
+import { connectLiveIndexing } from './liveIndexing';
+import { applyLearnedRanking } from './ranking';
+import { useRankingFeedback } from './rankingFeedback';
+import { SearchSession } from './searchSession';
 
 // ============================================
 // SEARCH ENGINE CLASS
@@ -43,7 +32,7 @@ class CafeFinderEngine {
     private initialized = false;
 
     constructor(config: Partial<SearchConfig> = {}) {
-        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.config = { ...DEFAULT_SEARCH_CONFIG, ...config };
     }
 
     /**
@@ -54,14 +43,29 @@ class CafeFinderEngine {
 
         console.log('[CafeFinder] Initializing search engine...');
         searchIndex.initialize();
+        connectLiveIndexing();
         this.initialized = true;
         console.log('[CafeFinder] Search engine ready');
     }
 
     /**
-     * Perform a search
+     * Ranking weights in effect: admin-tuned weights if set, else the config
+     */
+    getWeights(): RankingWeights {
+        return useRankingFeedback.getState().weights ?? this.config.weights;
+    }
+
+    /**
+     * Perform a search. `options.weights` overrides the ranking weights
+     * for this call only (used by the evaluation harness). `options.previous`
+     * is the query of the turn this one follows up on; its intent and
+     * entities carry over where the new query has none of its own.
      */
-    search(rawQuery: string, context?: SearchContext): SearchResponse {
+    search(
+        rawQuery: string,
+        context?: SearchContext,
+        options: { weights?: RankingWeights; previous?: SearchQuery } = {}
+    ): SearchResponse {
         const startTime = performance.now();
 
         // Ensure initialized
@@ -93,21 +97,23 @@ class CafeFinderEngine {
             const processedQuery = processQuery(rawQuery, context);
 
             // If query processing failed (empty result), return early
-            if (!processedQuery.normalized && !processedQuery.tokens.length) {
+            if (!processedQuery.normalized && !processedQuery.tokens.length && !processedQuery.filters.length) {
                 return this.createEmptyResponse(rawQuery, startTime);
             }
 
+            // Entities and intent come from the free text, not the operators
+            const freeText = processedQuery.filters.reduce(removeQueryFilter, rawQuery);
+
             // Extract entities
-            const entities = extractEntities(rawQuery, processedQuery.tokens);
+            const entities = extractEntities(freeText, processedQuery.tokens);
 
             // Classify intent
-            const intent = classifyIntent(rawQuery, processedQuery.tokens);
+            const intent = classifyIntent(freeText, processedQuery.tokens);
 
-            const query: SearchQuery = {
-                ...processedQuery,
-                entities,
-                intent,
-            };
+            const query: SearchQuery = this.carryOverContext(
+                { ...processedQuery, entities, intent },
+                options.previous
+            );
 
             metrics.queryProcessingMs = performance.now() - queryProcessingStart;
 
@@ -121,16 +127,19 @@ class CafeFinderEngine {
                 ? query.expandedTokens.join(' ')
                 : query.normalized;
 
-            // Guard against empty search terms
-            if (!searchTerms.trim()) {
+            // Guard against empty search terms (operators alone are a valid query)
+            if (!searchTerms.trim() && !query.filters.length) {
                 return this.createEmptyResponse(rawQuery, startTime);
             }
 
-            // Execute searches across all indexes
+            // Execute searches across all indexes. Fuse gets the expanded
+            // terms; the semantic vectors do their own synonym mapping.
             const rawResults = searchIndex.searchAll(
                 searchTerms,
                 entities,
-                this.config.maxResultsPerType
+                this.config.maxResultsPerType,
+                query.filters,
+                freeText
             );
 
             metrics.searchExecutionMs = performance.now() - searchExecutionStart;
@@ -138,7 +147,12 @@ class CafeFinderEngine {
             // ============================================
             // STEP 3: Re-ranking (boost by intent)
             // ============================================
-            const rerankResults = this.rerankByIntent(rawResults, query);
+            const boostedResults = this.rerankByIntent(rawResults, query);
+
+            // ============================================
+            // STEP 3b: Learned ranking (feedback signals)
+            // ============================================
+            const rerankResults = applyLearnedRanking(boostedResults, query, options.weights ?? this.getWeights());
 
             // ============================================
             // STEP 4: Answer Synthesis (placeholder for now)
@@ -178,6 +192,21 @@ class CafeFinderEngine {
         }
     }
 
+    /**
+     * Fill gaps in a follow-up query from the turn before it: a generic
+     * intent inherits the previous one, and entity types the follow-up
+     * doesn't mention are kept
+     */
+    private carryOverContext(query: SearchQuery, previous?: SearchQuery): SearchQuery {
+        if (!previous) return query;
+
+        const intent = query.intent.primary === 'GENERAL_SEARCH' ? previous.intent : query.intent;
+        const presentTypes = new Set(query.entities.map(e => e.type));
+        const carried = previous.entities.filter(e => !presentTypes.has(e.type));
+
+        return { ...query, intent, entities: [...query.entities, ...carried] };
+    }
+
     /**
      * Create an empty response (for errors or empty queries)
      */
@@ -186,13 +215,16 @@ class CafeFinderEngine {
         startTime: number,
         errorMessage?: string
     ): SearchResponse {
-        const emptyResults = {
+        const emptyResults: SearchResultGroups = {
             people: [],
             tools: [],
             faqs: [],
             resources: [],
             discussions: [],
             lopSessions: [],
+            pulseSignals: [],
+            competitors: [],
+            toasts: [],
         };
 
         return {
@@ -201,6 +233,7 @@ class CafeFinderEngine {
                 normalized: rawQuery?.toLowerCase?.()?.trim?.() || '',
                 tokens: [],
                 expandedTokens: [],
+                filters: [],
                 entities: [],
                 intent: {
                     primary: 'GENERAL_SEARCH',
@@ -223,7 +256,7 @@ class CafeFinderEngine {
             suggestions: errorMessage
                 ? ['Try a different search', 'Browse all resources']
                 : this.generateSuggestions(
-                    { raw: rawQuery, normalized: '', tokens: [], expandedTokens: [], entities: [], intent: { primary: 'GENERAL_SEARCH', confidence: 0, secondary: [], queryType: 'KEYWORD', expectedResult: 'MIXED' } },
+                    { raw: rawQuery, normalized: '', tokens: [], expandedTokens: [], filters: [], entities: [], intent: { primary: 'GENERAL_SEARCH', confidence: 0, secondary: [], queryType: 'KEYWORD', expectedResult: 'MIXED' } },
                     emptyResults
                 ),
         };
@@ -233,9 +266,9 @@ class CafeFinderEngine {
      * Re-rank results based on detected intent
      */
     private rerankByIntent(
-        results: ReturnType<typeof searchIndex.searchAll>,
+        results: SearchResultGroups,
         query: SearchQuery
-    ): ReturnType<typeof searchIndex.searchAll> {
+    ): SearchResultGroups {
         const { intent, entities } = query;
 
         // Apply intent-based boosts
@@ -324,7 +357,7 @@ class CafeFinderEngine {
      */
     private generateSuggestions(
         query: SearchQuery,
-        results: ReturnType<typeof searchIndex.searchAll>
+        results: SearchResultGroups
     ): string[] {
         const suggestions: string[] = [];
 
@@ -372,13 +405,35 @@ class CafeFinderEngine {
 
 export const cafeFinder = new CafeFinderEngine();
 
+/**
+ * Start a conversational search session backed by the engine
+ */
+export function createSearchSession(): SearchSession {
+    return new SearchSession((query, context, previous) =>
+        cafeFinder.search(query, context, { previous: previous?.query })
+    );
+}
+
 // ============================================
 // CONVENIENCE EXPORTS
 // ============================================
 
-export { processQuery } from './queryProcessor';
-export { classifyIntent, isFindIntent, isActionIntent, isLearnIntent } from './intentClassifier';
+export { processQuery, extractQueryOperators, removeQueryFilter } from './queryProcessor';
+export { describeQueryFilter } from './queryFilters';
+export { classifyIntent, isFindIntent, isActionIntent, isLearnIntent, compileIntentPattern, INTENT_TYPES } from './intentClassifier';
 export { extractEntities, getEntitiesByType, hasEntityType, getBestEntity } from './entityExtractor';
 export { searchIndex, flattenResults, countResults, getTopResult } from './searchIndex';
-export { getSynonyms, getCanonical, areSynonyms } from './synonyms';
+export type { IndexCollection, IndexedDocuments, IndexChangeListener } from './searchIndex';
+export { connectLiveIndexing } from './liveIndexing';
+export { summarizeSearchLog, normalizeAnalyticsQuery, isReformulation } from './searchAnalytics';
+export { useRankingFeedback, documentKey, beginDwell, popularitySignal, queryAffinitySignal } from './rankingFeedback';
+export { applyLearnedRanking, computeScoreBreakdown, combineScore } from './ranking';
+export { SemanticVectorIndex, analyzeText, stemToken, MIN_SEMANTIC_SIMILARITY } from './semanticIndex';
+export type { SemanticHit, TermVector } from './semanticIndex';
+export { SearchSession, resolveFollowUp } from './searchSession';
+export type { SearchTurn, TurnKind, ResolvedFollowUp, SessionSearchFn } from './searchSession';
+export { evaluateRanking, compareRankings, ndcgAtK, reciprocalRank, rankedKeys } from './evaluation';
+export type { LabeledQuery, EvaluationReport, QueryEvaluation, WeightComparison } from './evaluation';
+export { getSynonyms, getCanonical, areSynonyms, getDefaultSynonymDictionary, SYNONYM_CATEGORIES } from './synonyms';
+export { useSynonymRegistry } from './synonymRegistry';
 export * from './types';
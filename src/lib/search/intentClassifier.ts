@@ -4,18 +4,29 @@
  */
 
 import type {
+    CustomIntentPattern,
     IntentType,
     IntentResult,
     QueryType,
     ExpectedResultType,
 } from './types';
 import { classifyTokens, normalizeQuery, matchesPattern } from './queryProcessor';
-import { TOOL_SYNONYMS, TEAM_SYNONYMS } from './synonyms';
+import { TOOL_SYNONYMS, TEAM_SYNONYMS, onSynonymsChange } from './synonyms';
 
 // ============================================
 // INTENT PATTERNS
 // ============================================
 
+/** Every intent the classifier can return */
+export const INTENT_TYPES: IntentType[] = [
+    'FIND_PERSON', 'FIND_TOOL', 'FIND_RESOURCE', 'FIND_FAQ', 'FIND_TEAM',
+    'TOOL_ACCESS', 'START_DISCUSSION', 'CONTACT_EXPERT', 'NAVIGATE',
+    'EXPLAIN_CONCEPT', 'LEARN_PROCESS', 'COMPARE',
+    'LOP_NEXT', 'LOP_FIND', 'LOP_SPEAKER',
+    'BROWSE', 'RECENT', 'POPULAR',
+    'GENERAL_SEARCH',
+];
+
 interface IntentPattern {
     intent: IntentType;
     patterns: RegExp[];
@@ -50,7 +61,7 @@ const INTENT_PATTERNS: IntentPattern[] = [
             /(?:url|address|site) (?:for|of)/i,
             /access \w+ tool/i,
         ],
-        keywords: Object.keys(TOOL_SYNONYMS),
+        keywords: [], // Tool names come from the synonym dictionary
         expectedResult: 'ENTITY_CARD',
         baseConfidence: 0.90,
     },
@@ -159,7 +170,7 @@ const INTENT_PATTERNS: IntentPattern[] = [
             /team (?:for|of|behind)\s+/i,
             /org chart/i,
         ],
-        keywords: [...Object.keys(TEAM_SYNONYMS), 'team', 'group', 'department', 'squad', 'pod'],
+        keywords: ['team', 'group', 'department', 'squad', 'pod'], // Plus team names from the dictionary
         expectedResult: 'ENTITY_CARD',
         baseConfidence: 0.80,
     },
@@ -328,6 +339,78 @@ function detectQueryType(query: string): QueryType {
     return 'PHRASE';
 }
 
+// ============================================
+// RUNTIME PATTERNS
+// ============================================
+
+/**
+ * Keywords an intent takes from the (editable) synonym dictionary
+ */
+function dictionaryKeywords(intent: IntentType): string[] {
+    switch (intent) {
+        case 'FIND_TOOL': return Object.keys(TOOL_SYNONYMS);
+        case 'FIND_TEAM': return Object.keys(TEAM_SYNONYMS);
+        default: return [];
+    }
+}
+
+/**
+ * Compile a custom pattern source, or null if it isn't a valid RegExp
+ */
+export function compileIntentPattern(source: string): RegExp | null {
+    if (!source.trim()) return null;
+    try {
+        return new RegExp(source, 'i');
+    } catch {
+        return null;
+    }
+}
+
+let customPatterns: CustomIntentPattern[] = [];
+let activePatterns: IntentPattern[] = [];
+
+// Built-in patterns merged with dictionary keywords and custom patterns
+function rebuildActivePatterns(): void {
+    const compiled = customPatterns.map(custom => ({ custom, regex: compileIntentPattern(custom.pattern) }));
+    compiled
+        .filter(c => !c.regex)
+        .forEach(c => console.warn(`[CafeFinder] Skipping invalid intent pattern: ${c.custom.pattern}`));
+
+    const extend = (base: IntentPattern): IntentPattern => {
+        const mine = compiled.filter(c => c.custom.intent === base.intent);
+        return {
+            ...base,
+            patterns: [...base.patterns, ...mine.flatMap(c => (c.regex ? [c.regex] : []))],
+            keywords: [...dictionaryKeywords(base.intent), ...base.keywords, ...mine.flatMap(c => c.custom.keywords)],
+        };
+    };
+
+    // Intents without a built-in entry get one from their custom patterns
+    const builtIn = new Set(INTENT_PATTERNS.map(p => p.intent));
+    const added = [...new Set(customPatterns.map(c => c.intent))]
+        .filter(intent => !builtIn.has(intent))
+        .map(intent => extend({
+            intent,
+            patterns: [],
+            keywords: [],
+            expectedResult: 'MIXED',
+            baseConfidence: 0.80,
+        }));
+
+    activePatterns = [...INTENT_PATTERNS.map(extend), ...added];
+}
+
+/**
+ * Replace the runtime intent patterns (built-in patterns always apply)
+ */
+export function setCustomIntentPatterns(patterns: CustomIntentPattern[]): void {
+    customPatterns = [...patterns];
+    rebuildActivePatterns();
+}
+
+rebuildActivePatterns();
+onSynonymsChange(rebuildActivePatterns);
+
 // ============================================
 // MAIN CLASSIFIER
 // ============================================
@@ -383,7 +466,7 @@ export function classifyIntent(
     // Score all intents
     const scores: Array<{ intent: IntentType; score: number; expectedResult: ExpectedResultType }> = [];
 
-    for (const pattern of INTENT_PATTERNS) {
+    for (const pattern of activePatterns) {
         const score = calculateIntentScore(normalized, classified.all, pattern);
         if (score > 0.3) { // Minimum threshold to even consider
             scores.push({
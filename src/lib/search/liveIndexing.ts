@@ -0,0 +1,82 @@
+/**
+ * Café Finder: Live Indexing
+ * Keeps the search index in step with the app's Zustand stores
+ */
+
+import { searchIndex, type IndexCollection, type IndexedDocuments } from './searchIndex';
+
+let connected = false;
+
+/**
+ * Apply the difference between two snapshots of a store collection.
+ * Unchanged documents keep their identity in Zustand, so a reference
+ * check is enough to find what was added or edited.
+ */
+function syncCollection<K extends IndexCollection>(
+    collection: K,
+    next: readonly IndexedDocuments[K][],
+    prev: readonly IndexedDocuments[K][]
+): void {
+    if (next === prev) return;
+
+    const prevById = new Map(prev.map(doc => [doc.id, doc]));
+    const nextIds = new Set(next.map(doc => doc.id));
+
+    prev.forEach(doc => {
+        if (!nextIds.has(doc.id)) searchIndex.remove(collection, doc.id);
+    });
+
+    searchIndex.upsertMany(collection, next.filter(doc => prevById.get(doc.id) !== doc));
+}
+
+/** A store that fails to load leaves its collection as it was; search still works */
+const reportLoadError = (store: string) => (error: unknown) => {
+    console.warn(`[LiveIndexing] Could not load ${store}:`, error);
+};
+
+/**
+ * Subscribe the search index to the discussion, Pulse and Toast-X stores.
+ * Safe to call more than once; only the first call subscribes.
+ */
+export function connectLiveIndexing(): void {
+    if (connected) return;
+    connected = true;
+
+    // Stores are imported lazily to avoid circular deps (stores → search)
+    import('../../stores/discussionStore').then(({ useDiscussionStore }) => {
+        // The store starts empty until loadDiscussions() runs, so the seed
+        // discussions stay indexed until it has real content.
+        let hasSynced = false;
+        const sync = (discussions: IndexedDocuments['discussions'][]) => {
+            if (!hasSynced && discussions.length === 0) return;
+            hasSynced = true;
+            searchIndex.replaceAll('discussions', discussions);
+        };
+
+        sync(useDiscussionStore.getState().discussions);
+
+        useDiscussionStore.subscribe((state, prevState) => {
+            if (!hasSynced) {
+                sync(state.discussions);
+                return;
+            }
+            syncCollection('discussions', state.discussions, prevState.discussions);
+        });
+    }).catch(reportLoadError('discussionStore'));
+
+    import('../pulse/usePulseStore').then(({ usePulseStore }) => {
+        searchIndex.replaceAll('pulseSignals', usePulseStore.getState().signals);
+
+        usePulseStore.subscribe((state, prevState) => {
+            syncCollection('pulseSignals', state.signals, prevState.signals);
+        });
+    }).catch(reportLoadError('usePulseStore'));
+
+    import('../../features/toast-x').then(({ useToastXStore }) => {
+        searchIndex.replaceAll('toasts', [...useToastXStore.getState().recognitions]);
+
+        useToastXStore.subscribe((state, prevState) => {
+            syncCollection('toasts', state.recognitions, prevState.recognitions);
+        });
+    }).catch(reportLoadError('toastXStore'));
+}
@@ -0,0 +1,190 @@
+/**
+ * Café Finder: Query Filters
+ * Applies parsed query operators (type:, team:, author:, tag:, dates, -term)
+ * to indexed documents before they are ranked
+ */
+
+import type { QueryFilter, QueryFilterTextField, SearchResultType } from './types';
+import type { IndexCollection, IndexedDocuments } from './searchIndex';
+
+// ============================================
+// FIELD ACCESSORS
+// ============================================
+
+/**
+ * How each filterable field is read from a document.
+ * A collection without an accessor can't satisfy a positive filter on that field.
+ */
+interface FilterFields<T> {
+    team?: (doc: T) => string[];
+    author?: (doc: T) => string[];
+    tag?: (doc: T) => string[];
+    date?: (doc: T) => string | undefined;
+    text: (doc: T) => string[];
+}
+
+const hashtags = (text: string): string[] =>
+    Array.from(text.matchAll(/#([\w/-]+)/g), m => m[1]);
+
+const FILTER_FIELDS: { [K in IndexCollection]: FilterFields<IndexedDocuments[K]> } = {
+    people: {
+        team: p => [p.team],
+        author: p => [p.displayName, p.email],
+        tag: p => [...p.expertiseAreas, ...p.canHelpWith],
+        text: p => [p.displayName, p.title, p.team, ...p.expertiseAreas],
+    },
+    resources: {
+        team: r => [r.owner],
+        author: r => [r.owner],
+        tag: r => r.tags,
+        date: r => r.updatedAt || r.createdAt,
+        text: r => [r.title, r.description, ...r.tags],
+    },
+    faqs: {
+        team: f => [f.owner],
+        author: f => [f.owner],
+        tag: f => f.tags,
+        date: f => f.updatedAt || f.createdAt,
+        text: f => [f.question, f.answerSummary, ...f.alternateQuestions, ...f.tags],
+    },
+    discussions: {
+        author: d => [d.authorName, d.authorEmail],
+        tag: d => hashtags(`${d.title} ${d.body}`),
+        date: d => d.createdAt,
+        text: d => [d.title, d.body],
+    },
+    lopSessions: {
+        tag: s => s.tags,
+        date: s => s.date,
+        text: s => [s.title, s.description, ...s.tags],
+    },
+    pulseSignals: {
+        author: s => [s.source.name],
+        tag: s => [...s.entities.topics, s.domain],
+        date: s => s.publishedAt,
+        text: s => [s.title, s.summary, ...s.entities.companies],
+    },
+    toasts: {
+        team: t => t.recipients.flatMap(r => (r.team ? [r.team] : [])),
+        author: t => [t.giverName],
+        tag: t => [...t.expertAreas, t.value],
+        date: t => t.createdAt,
+        text: t => [t.message, t.giverName, ...t.recipients.map(r => r.name)],
+    },
+};
+
+// ============================================
+// MATCHING
+// ============================================
+
+const includesValue = (values: string[], needle: string): boolean => {
+    const lower = needle.toLowerCase();
+    return values.some(v => v.toLowerCase().includes(lower));
+};
+
+function matchesTextField<T>(fields: FilterFields<T>, doc: T, field: QueryFilterTextField, value: string): boolean {
+    const accessor = fields[field];
+    return accessor ? includesValue(accessor(doc), value) : false;
+}
+
+/**
+ * Check a single document against every non-type filter
+ */
+export function matchesFilters<K extends IndexCollection>(
+    collection: K,
+    doc: IndexedDocuments[K],
+    filters: QueryFilter[]
+): boolean {
+    const fields = FILTER_FIELDS[collection] as FilterFields<IndexedDocuments[K]>;
+
+    return filters.every(filter => {
+        switch (filter.kind) {
+            case 'type':
+                return true; // Applied per result group in isTypeAllowed
+            case 'team':
+            case 'author':
+            case 'tag': {
+                const matched = matchesTextField(fields, doc, filter.kind, filter.value);
+                return filter.negated ? !matched : matched;
+            }
+            case 'after':
+            case 'before': {
+                const date = fields.date?.(doc);
+                if (!date) return false;
+                const time = new Date(date).getTime();
+                const bound = new Date(filter.value).getTime();
+                return filter.kind === 'after' ? time >= bound : time <= bound;
+            }
+            case 'exclude':
+                return !includesValue(fields.text(doc), filter.value);
+        }
+    });
+}
+
+/**
+ * Whether results of a given type may appear at all under the type: filters
+ */
+export function isTypeAllowed(type: SearchResultType, filters: QueryFilter[]): boolean {
+    const typeFilters = filters.filter(f => f.kind === 'type');
+    const included = typeFilters.filter(f => !f.negated);
+
+    if (typeFilters.some(f => f.negated && f.value === type)) return false;
+    return included.length === 0 || included.some(f => f.value === type);
+}
+
+/**
+ * Whether any filter requires a team/author/tag/date field to be present
+ */
+export function hasFieldConstraints(filters: QueryFilter[]): boolean {
+    return filters.some(f => {
+        switch (f.kind) {
+            case 'team':
+            case 'author':
+            case 'tag':
+                return !f.negated;
+            case 'after':
+            case 'before':
+                return true;
+            default:
+                return false;
+        }
+    });
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+const TYPE_LABELS: Record<SearchResultType, string> = {
+    person: 'People',
+    tool: 'Tools',
+    faq: 'FAQs',
+    resource: 'Resources',
+    discussion: 'Discussions',
+    lop_session: 'LOP Sessions',
+    pulse_signal: 'Pulse Signals',
+    competitor: 'Competitors',
+    toast: 'Toasts',
+};
+
+/**
+ * Human-readable label for a filter chip
+ */
+export function describeQueryFilter(filter: QueryFilter): string {
+    switch (filter.kind) {
+        case 'type':
+            return `${filter.negated ? 'Not ' : ''}${TYPE_LABELS[filter.value]}`;
+        case 'team':
+        case 'author':
+        case 'tag': {
+            const label = filter.kind.charAt(0).toUpperCase() + filter.kind.slice(1);
+            return `${filter.negated ? 'Not ' : ''}${label}: ${filter.value}`;
+        }
+        case 'after':
+            return `After ${filter.value}`;
+        case 'before':
+            return `Before ${filter.value}`;
+        case 'exclude':
+            return `Excluding "${filter.value}"`;
+    }
+}
@@ -4,7 +4,7 @@
  */
 
 import { getSynonyms, getCanonical } from './synonyms';
-import type { SearchQuery, SearchContext } from './types';
+import type { SearchQuery, SearchContext, SearchResultType, QueryFilter } from './types';
 
 // ============================================
 // TOKENIZATION
@@ -13,7 +13,7 @@ import type { SearchQuery, SearchContext } from './types';
 /**
  * Common stop words (but we keep them for intent detection)
  */
-const STOP_WORDS = new Set([
+export const STOP_WORDS = new Set([
     'a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
     'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
     'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would',
@@ -145,6 +145,137 @@ export function expandWithSynonyms(tokens: string[]): string[] {
     return Array.from(expanded);
 }
 
+// ============================================
+// QUERY OPERATORS
+// ============================================
+
+/**
+ * Accepted spellings for each `type:` value
+ */
+const TYPE_ALIASES: Record<string, SearchResultType> = {
+    person: 'person', people: 'person', expert: 'person',
+    tool: 'tool', tools: 'tool',
+    faq: 'faq', faqs: 'faq',
+    resource: 'resource', resources: 'resource', doc: 'resource', docs: 'resource',
+    discussion: 'discussion', discussions: 'discussion', thread: 'discussion',
+    lop: 'lop_session', session: 'lop_session', sessions: 'lop_session', lop_session: 'lop_session',
+    pulse: 'pulse_signal', signal: 'pulse_signal', signals: 'pulse_signal', pulse_signal: 'pulse_signal',
+    competitor: 'competitor', competitors: 'competitor',
+    toast: 'toast', toasts: 'toast', recognition: 'toast', recognitions: 'toast',
+};
+
+/**
+ * field:value operators, optionally negated and with a quoted value
+ */
+const FIELD_OPERATOR_REGEX = /(^|\s)(-?)(type|team|author|tag|after|before):(?:"([^"]*)"|'([^']*)'|(\S+))/gi;
+
+/**
+ * -term or -"quoted phrase" exclusions (a leading hyphen only, so "e-commerce" is untouched)
+ */
+const EXCLUDE_OPERATOR_REGEX = /(^|\s)-(?:"([^"]+)"|([^\s"':-][^\s"']*))/g;
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse one field:value operator. Returns null for values we can't use,
+ * which leaves the text in the query as ordinary keywords.
+ */
+function parseFieldOperator(field: string, value: string, negated: boolean, raw: string): QueryFilter | null {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    switch (field) {
+        case 'type': {
+            const type = TYPE_ALIASES[trimmed.toLowerCase()];
+            return type ? { kind: 'type', value: type, negated, raw } : null;
+        }
+        case 'team':
+        case 'author':
+        case 'tag':
+            return { kind: field, value: trimmed.replace(/^#/, ''), negated, raw };
+        case 'after':
+        case 'before':
+            // Negated dates are just the opposite bound
+            if (!ISO_DATE_REGEX.test(trimmed) || isNaN(Date.parse(trimmed))) return null;
+            return {
+                kind: negated ? (field === 'after' ? 'before' : 'after') : field,
+                value: trimmed,
+                raw,
+            };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Blank out the given [start, end) ranges. Cutting by position rather than
+ * by text keeps an identical substring elsewhere ("pre-launch -launch") intact.
+ */
+function cutRanges(text: string, ranges: Array<[number, number]>): string {
+    let result = '';
+    let cursor = 0;
+    for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+        if (start > cursor) result += text.slice(cursor, start);
+        result += ' ';
+        cursor = Math.max(cursor, end);
+    }
+    return result + text.slice(cursor);
+}
+
+/** Range of an operator match, without the whitespace captured before it */
+const operatorRange = (match: RegExpMatchArray): [number, number] => {
+    const start = (match.index ?? 0) + match[1].length;
+    return [start, (match.index ?? 0) + match[0].length];
+};
+
+/**
+ * Extract structured operators (type:faq, author:"Jane Doe", -term, ...)
+ * and the free text that remains
+ */
+export function extractQueryOperators(query: string): {
+    filters: QueryFilter[];
+    remainder: string;
+} {
+    const filters: QueryFilter[] = [];
+    const fieldRanges: Array<[number, number]> = [];
+
+    for (const match of query.matchAll(FIELD_OPERATOR_REGEX)) {
+        const raw = match[0].trim();
+        const value = match[4] ?? match[5] ?? match[6] ?? '';
+        const filter = parseFieldOperator(match[3].toLowerCase(), value, match[2] === '-', raw);
+        if (!filter) continue;
+
+        filters.push(filter);
+        fieldRanges.push(operatorRange(match));
+    }
+
+    const withoutFields = cutRanges(query, fieldRanges);
+    const excludeRanges: Array<[number, number]> = [];
+
+    for (const match of withoutFields.matchAll(EXCLUDE_OPERATOR_REGEX)) {
+        const raw = match[0].trim();
+        const value = (match[2] ?? match[3] ?? '').trim();
+        if (!value) continue;
+
+        filters.push({ kind: 'exclude', value, raw });
+        excludeRanges.push(operatorRange(match));
+    }
+
+    return {
+        filters,
+        remainder: cutRanges(withoutFields, excludeRanges).trim().replace(/\s+/g, ' '),
+    };
+}
+
+/**
+ * Remove one operator from a raw query string (e.g. when its chip is dismissed)
+ */
+export function removeQueryFilter(query: string, filter: QueryFilter): string {
+    // Whole tokens only, so removing type:faq leaves subtype:faq alone
+    const escaped = filter.raw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return query.replace(new RegExp(`(^|\\s)${escaped}(?=\\s|$)`), ' ').trim().replace(/\s+/g, ' ');
+}
+
 // ============================================
 // QUOTED PHRASE HANDLING
 // ============================================
@@ -157,7 +288,7 @@ export function extractQuotedPhrases(query: string): {
     remainder: string;
 } {
     const phrases: string[] = [];
-    let remainder = query;
+    const ranges: Array<[number, number]> = [];
 
     // Match double-quoted phrases
     const doubleQuoteRegex = /"([^"]+)"/g;
@@ -165,19 +296,19 @@ export function extractQuotedPhrases(query: string): {
 
     while ((match = doubleQuoteRegex.exec(query)) !== null) {
         phrases.push(match[1]);
-        remainder = remainder.replace(match[0], ' ');
+        ranges.push([match.index, doubleQuoteRegex.lastIndex]);
     }
 
     // Match single-quoted phrases
     const singleQuoteRegex = /'([^']+)'/g;
     while ((match = singleQuoteRegex.exec(query)) !== null) {
         phrases.push(match[1]);
-        remainder = remainder.replace(match[0], ' ');
+        ranges.push([match.index, singleQuoteRegex.lastIndex]);
     }
 
     return {
         phrases,
-        remainder: remainder.trim().replace(/\s+/g, ' '),
+        remainder: cutRanges(query, ranges).trim().replace(/\s+/g, ' '),
     };
 }
 
@@ -280,6 +411,7 @@ export function processQuery(
             normalized: '',
             tokens: [],
             expandedTokens: [],
+            filters: [],
             context,
         };
     }
@@ -287,11 +419,14 @@ export function processQuery(
     const sanitizedQuery = validation.sanitized;
 
     try {
-        // Normalize
-        const normalized = normalizeQuery(sanitizedQuery);
+        // Pull out operators first so their quoted values aren't read as phrases
+        const { filters, remainder: freeText } = extractQueryOperators(sanitizedQuery);
+
+        // Normalize (operators excluded, they are matched separately)
+        const normalized = normalizeQuery(freeText);
 
         // Extract quoted phrases
-        const { phrases, remainder } = extractQuotedPhrases(sanitizedQuery);
+        const { phrases, remainder } = extractQuotedPhrases(freeText);
 
         // Tokenize
         const tokens = tokenize(remainder);
@@ -308,6 +443,7 @@ export function processQuery(
             normalized,
             tokens: allTokens,
             expandedTokens,
+            filters,
             context,
         };
     } catch (error) {
@@ -318,6 +454,7 @@ export function processQuery(
             normalized: sanitizedQuery.toLowerCase().trim(),
             tokens: sanitizedQuery.toLowerCase().split(/\s+/).filter(Boolean),
             expandedTokens: [],
+            filters: [],
             context,
         };
     }
@@ -0,0 +1,148 @@
+/**
+ * Café Finder: Learned Ranking
+ * Scores every result on the ScoreBreakdown features and re-orders each
+ * result group with the configured weights
+ */
+
+import type {
+    BaseSearchResult,
+    IntentType,
+    RankingWeights,
+    ScoreBreakdown,
+    SearchQuery,
+    SearchResultGroups,
+    SearchResultType,
+} from './types';
+import {
+    documentKey,
+    popularitySignal,
+    queryAffinitySignal,
+    useRankingFeedback,
+} from './rankingFeedback';
+
+// ============================================
+// FEATURES
+// ============================================
+
+/** Freshness halves every this many days */
+const FRESHNESS_HALF_LIFE_DAYS = 90;
+
+/** Result types each intent is looking for */
+const INTENT_TARGETS: Partial<Record<IntentType, SearchResultType[]>> = {
+    FIND_PERSON: ['person'],
+    CONTACT_EXPERT: ['person'],
+    FIND_TEAM: ['person'],
+    LOP_SPEAKER: ['person', 'lop_session'],
+    FIND_TOOL: ['tool'],
+    TOOL_ACCESS: ['tool', 'faq'],
+    FIND_FAQ: ['faq'],
+    EXPLAIN_CONCEPT: ['faq', 'resource'],
+    LEARN_PROCESS: ['faq', 'resource'],
+    FIND_RESOURCE: ['resource'],
+    BROWSE: ['resource'],
+    START_DISCUSSION: ['discussion'],
+    LOP_NEXT: ['lop_session'],
+    LOP_FIND: ['lop_session'],
+    RECENT: ['pulse_signal', 'discussion', 'resource'],
+};
+
+/**
+ * Features the ranker adds on top of the text relevance score.
+ * keywordScore and intentMatch are already part of that score (index match
+ * plus intent/entity boosts), so they are reported but not added again.
+ */
+const ADDITIVE_FEATURES: Array<keyof ScoreBreakdown> = [
+    'semanticScore',
+    'freshness',
+    'popularity',
+    'contextBoost',
+    'queryAffinity',
+];
+
+function freshnessOf(result: BaseSearchResult): number {
+    const record = result as unknown as Record<string, unknown>;
+    const date = record.updatedAt ?? record.publishedAt ?? record.createdAt;
+    if (typeof date !== 'string') return 0;
+
+    const ageDays = (Date.now() - new Date(date).getTime()) / 86_400_000;
+    if (!Number.isFinite(ageDays)) return 0;
+    return Math.pow(0.5, Math.max(0, ageDays) / FRESHNESS_HALF_LIFE_DAYS);
+}
+
+function contextBoostOf(result: BaseSearchResult, query: SearchQuery): number {
+    const { context } = query;
+    if (!context) return 0;
+    if (context.currentResourceId === result.id) return 1;
+
+    const topics = context.currentTopics?.map(t => t.toLowerCase()) ?? [];
+    const tags = (result as unknown as { tags?: string[] }).tags ?? [];
+    return tags.some(tag => topics.includes(tag.toLowerCase())) ? 1 : 0;
+}
+
+function intentMatchOf(result: BaseSearchResult, query: SearchQuery): number {
+    const targets = INTENT_TARGETS[query.intent.primary];
+    if (!targets) return 0.5; // No preference (e.g. GENERAL_SEARCH)
+    return targets.includes(result.type) ? 1 : 0;
+}
+
+/**
+ * Score one result on every ranking feature
+ */
+export function computeScoreBreakdown(result: BaseSearchResult, query: SearchQuery): ScoreBreakdown {
+    const { documents, queries } = useRankingFeedback.getState();
+    const key = documentKey(result.type, result.id);
+
+    return {
+        intentMatch: intentMatchOf(result, query),
+        semanticScore: result.semanticScore ?? 0,
+        keywordScore: result.score,
+        freshness: freshnessOf(result),
+        popularity: popularitySignal(documents[key]),
+        contextBoost: contextBoostOf(result, query),
+        queryAffinity: queryAffinitySignal(queries, query.raw, key),
+    };
+}
+
+/**
+ * Final score: text relevance plus the weighted additive features
+ */
+export function combineScore(breakdown: ScoreBreakdown, weights: RankingWeights): number {
+    return ADDITIVE_FEATURES.reduce(
+        (score, feature) => score + weights[feature] * breakdown[feature],
+        breakdown.keywordScore
+    );
+}
+
+// ============================================
+// RANKER
+// ============================================
+
+function rankGroup<T extends BaseSearchResult>(results: T[], query: SearchQuery, weights: RankingWeights): T[] {
+    return results
+        .map(result => {
+            const scoreBreakdown = computeScoreBreakdown(result, query);
+            return { ...result, scoreBreakdown, score: combineScore(scoreBreakdown, weights) };
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Attach score breakdowns and re-order every result group
+ */
+export function applyLearnedRanking(
+    results: SearchResultGroups,
+    query: SearchQuery,
+    weights: RankingWeights
+): SearchResultGroups {
+    return {
+        people: rankGroup(results.people, query, weights),
+        tools: rankGroup(results.tools, query, weights),
+        faqs: rankGroup(results.faqs, query, weights),
+        resources: rankGroup(results.resources, query, weights),
+        discussions: rankGroup(results.discussions, query, weights),
+        lopSessions: rankGroup(results.lopSessions, query, weights),
+        pulseSignals: rankGroup(results.pulseSignals, query, weights),
+        competitors: rankGroup(results.competitors, query, weights),
+        toasts: rankGroup(results.toasts, query, weights),
+    };
+}
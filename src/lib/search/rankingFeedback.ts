@@ -0,0 +1,253 @@
+/**
+ * Café Finder: Ranking Feedback
+ * Stores click, dwell and helpful-vote signals per document and per query,
+ * and turns them into normalized ranking features
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { RankingWeights, SearchResultType } from './types';
+import { normalizeAnalyticsQuery } from './searchAnalytics';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Accumulated feedback for one document
+ */
+export interface DocumentFeedback {
+    /** Position-weighted clicks (a click further down counts for more) */
+    clicks: number;
+    dwellMs: number;
+    dwellCount: number;
+    helpful: number;
+    notHelpful: number;
+    lastInteractionAt: string;
+}
+
+interface RankingFeedbackState {
+    /** Keyed by documentKey(type, id) */
+    documents: Record<string, DocumentFeedback>;
+    /** normalized query -> documentKey -> position-weighted clicks */
+    queries: Record<string, Record<string, number>>;
+    /** normalized query -> last click (ms), for evicting the least recent */
+    queryLastClickedAt: Record<string, number>;
+    /** Weights applied by the ranker, or null for the engine defaults */
+    weights: RankingWeights | null;
+
+    // Actions
+    recordClick: (query: string, type: SearchResultType, id: string, position: number) => void;
+    recordDwell: (type: SearchResultType, id: string, dwellMs: number) => void;
+    recordVote: (type: SearchResultType, id: string, helpful: boolean) => void;
+    setWeights: (weights: RankingWeights | null) => void;
+    clearFeedback: () => void;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Dwell longer than this is treated as an abandoned tab */
+const MAX_DWELL_MS = 10 * 60 * 1000;
+
+/** Dwell at which a visit counts as fully satisfied */
+const SATISFIED_DWELL_MS = 30 * 1000;
+
+/** Clicks at which the click signal saturates */
+const CLICK_SATURATION = 20;
+
+const MAX_TRACKED_QUERIES = 500;
+
+// ============================================
+// HELPERS
+// ============================================
+
+export const documentKey = (type: SearchResultType, id: string) => `${type}:${id}`;
+
+const emptyFeedback = (): DocumentFeedback => ({
+    clicks: 0,
+    dwellMs: 0,
+    dwellCount: 0,
+    helpful: 0,
+    notHelpful: 0,
+    lastInteractionAt: new Date().toISOString(),
+});
+
+/**
+ * Users click the top result regardless of quality, so clicks lower
+ * down carry more evidence (inverse of a log position bias)
+ */
+const positionWeight = (position: number) => Math.log2(Math.max(1, position) + 1);
+
+const saturate = (value: number, at: number) =>
+    value <= 0 ? 0 : Math.log1p(value) / Math.log1p(at);
+
+/**
+ * Document-level popularity in [0, 1] from clicks, dwell and votes
+ */
+export function popularitySignal(feedback: DocumentFeedback | undefined): number {
+    if (!feedback) return 0;
+
+    const clickScore = Math.min(1, saturate(feedback.clicks, CLICK_SATURATION));
+    const dwellScore = feedback.dwellCount > 0
+        ? Math.min(1, feedback.dwellMs / feedback.dwellCount / SATISFIED_DWELL_MS)
+        : 0;
+
+    // Laplace-smoothed helpful ratio, centered so no votes is neutral
+    const votes = feedback.helpful + feedback.notHelpful;
+    const voteScore = votes > 0 ? (feedback.helpful + 1) / (votes + 2) : 0.5;
+
+    const signal = 0.5 * clickScore + 0.2 * dwellScore + 0.3 * (voteScore - 0.5) * 2;
+    return Math.max(0, Math.min(1, signal));
+}
+
+/**
+ * Query-level affinity in [0, 1]: share of this query's clicks that went to the document
+ */
+export function queryAffinitySignal(
+    queries: RankingFeedbackState['queries'],
+    query: string,
+    key: string
+): number {
+    const clicks = queries[normalizeAnalyticsQuery(query)];
+    if (!clicks || !clicks[key]) return 0;
+    const total = Object.values(clicks).reduce((sum, c) => sum + c, 0);
+    // Shrink towards 0 until the query has a few clicks behind it
+    return (clicks[key] / total) * Math.min(1, total / 3);
+}
+
+// ============================================
+// STORE IMPLEMENTATION
+// ============================================
+
+export const useRankingFeedback = create<RankingFeedbackState>()(
+    persist(
+        (set) => {
+            const updateDocument = (key: string, update: (fb: DocumentFeedback) => Partial<DocumentFeedback>) => {
+                set(state => {
+                    const current = state.documents[key] ?? emptyFeedback();
+                    return {
+                        documents: {
+                            ...state.documents,
+                            [key]: { ...current, ...update(current), lastInteractionAt: new Date().toISOString() },
+                        },
+                    };
+                });
+            };
+
+            return {
+                documents: {},
+                queries: {},
+                queryLastClickedAt: {},
+                weights: null,
+
+                recordClick: (query, type, id, position) => {
+                    const key = documentKey(type, id);
+                    const weight = positionWeight(position);
+                    updateDocument(key, fb => ({ clicks: fb.clicks + weight }));
+
+                    const normalized = normalizeAnalyticsQuery(query);
+                    if (!normalized) return;
+                    set(state => {
+                        const forQuery = state.queries[normalized] ?? {};
+                        const queries = {
+                            ...state.queries,
+                            [normalized]: { ...forQuery, [key]: (forQuery[key] ?? 0) + weight },
+                        };
+                        const queryLastClickedAt = { ...state.queryLastClickedAt, [normalized]: Date.now() };
+
+                        // Drop the least recently clicked queries once the map grows too large
+                        const names = Object.keys(queries);
+                        names
+                            .sort((a, b) => (queryLastClickedAt[a] ?? 0) - (queryLastClickedAt[b] ?? 0))
+                            .slice(0, Math.max(0, names.length - MAX_TRACKED_QUERIES))
+                            .forEach(q => {
+                                delete queries[q];
+                                delete queryLastClickedAt[q];
+                            });
+                        return { queries, queryLastClickedAt };
+                    });
+                },
+
+                recordDwell: (type, id, dwellMs) => {
+                    if (dwellMs <= 0 || dwellMs > MAX_DWELL_MS) return;
+                    updateDocument(documentKey(type, id), fb => ({
+                        dwellMs: fb.dwellMs + dwellMs,
+                        dwellCount: fb.dwellCount + 1,
+                    }));
+                },
+
+                recordVote: (type, id, helpful) => {
+                    updateDocument(documentKey(type, id), fb =>
+                        helpful ? { helpful: fb.helpful + 1 } : { notHelpful: fb.notHelpful + 1 }
+                    );
+                },
+
+                setWeights: (weights) => {
+                    set({ weights });
+                },
+
+                clearFeedback: () => {
+                    set({ documents: {}, queries: {}, queryLastClickedAt: {} });
+                },
+            };
+        },
+        {
+            name: 'cafe-search-feedback',
+        }
+    )
+);
+
+// ============================================
+// DWELL TRACKING
+// ============================================
+
+/** A result opened in a new tab hides this one almost at once */
+const NEW_TAB_WINDOW_MS = 2000;
+
+let openDocument: {
+    type: SearchResultType;
+    id: string;
+    openedAt: number;
+    /** Set when the result took the user away from this tab */
+    leftAt: number | null;
+} | null = null;
+let dwellListenerAttached = false;
+
+function endDwell(): void {
+    if (!openDocument) return;
+    const { type, id, openedAt, leftAt } = openDocument;
+    openDocument = null;
+    // Stayed in the app (in-app navigation, an expanded card): nothing to time
+    if (leftAt === null) return;
+    useRankingFeedback.getState().recordDwell(type, id, Date.now() - openedAt);
+}
+
+/**
+ * Start timing a result the user opened. Only results that open in a new
+ * tab are timed: the visit ends when they come back to this tab. Anything
+ * else (in-app navigation, closing a result) is dropped at the next open.
+ */
+export function beginDwell(type: SearchResultType, id: string): void {
+    endDwell();
+    openDocument = { type, id, openedAt: Date.now(), leftAt: null };
+
+    if (!dwellListenerAttached && typeof document !== 'undefined') {
+        dwellListenerAttached = true;
+        document.addEventListener('visibilitychange', () => {
+            if (!openDocument) return;
+            if (document.visibilityState === 'visible') {
+                endDwell();
+                return;
+            }
+            // Hidden long after the click: the user just switched away
+            if (openDocument.leftAt !== null) return;
+            if (Date.now() - openDocument.openedAt <= NEW_TAB_WINDOW_MS) {
+                openDocument.leftAt = Date.now();
+            } else {
+                openDocument = null;
+            }
+        });
+    }
+}
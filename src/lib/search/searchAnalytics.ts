@@ -0,0 +1,137 @@
+/**
+ * Café Finder: Search Analytics
+ * Aggregates the search log into top, zero-result and low-CTR queries
+ * so content owners can see which FAQs and resources are missing
+ */
+
+import type { IntentType, QueryStats, SearchAnalyticsSummary, SearchLogEntry } from './types';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** A new search this soon after an unclicked one counts as a rephrase */
+export const REFORMULATION_WINDOW_MS = 2 * 60 * 1000;
+
+/** Queries need this many searches before their CTR is judged */
+const MIN_SEARCHES_FOR_CTR = 2;
+
+/** CTR at or below this is reported as low */
+const LOW_CTR_THRESHOLD = 0.2;
+
+const DEFAULT_LIST_LIMIT = 10;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Group key for a query: lowercased, whitespace collapsed
+ */
+export function normalizeAnalyticsQuery(query: string): string {
+    return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Whether `next` rephrases `previous`: different text, soon after,
+ * and nothing from the previous results was opened
+ */
+export function isReformulation(previous: SearchLogEntry, nextQuery: string, at: Date = new Date()): boolean {
+    if (previous.clicks.length > 0) return false;
+    if (previous.normalizedQuery === normalizeAnalyticsQuery(nextQuery)) return false;
+    return at.getTime() - new Date(previous.timestamp).getTime() <= REFORMULATION_WINDOW_MS;
+}
+
+const average = (values: number[]): number | null =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+function buildQueryStats(query: string, entries: SearchLogEntry[]): QueryStats {
+    const clicked = entries.filter(e => e.clicks.length > 0);
+    // First click per search is the one that answers "how far down / how long"
+    const firstClicks = clicked.map(e => e.clicks[0]);
+
+    return {
+        query,
+        searches: entries.length,
+        clickedSearches: clicked.length,
+        ctr: clicked.length / entries.length,
+        avgResultCount: average(entries.map(e => e.resultCount)) ?? 0,
+        avgClickPosition: average(firstClicks.map(c => c.position)),
+        avgTimeToClickMs: average(firstClicks.map(c => c.timeToClickMs)),
+        lastSearchedAt: entries.reduce(
+            (latest, e) => (e.timestamp > latest ? e.timestamp : latest),
+            entries[0].timestamp
+        ),
+    };
+}
+
+// ============================================
+// SUMMARY
+// ============================================
+
+/**
+ * Summarize a search log for the admin dashboard
+ */
+export function summarizeSearchLog(
+    log: SearchLogEntry[],
+    limit: number = DEFAULT_LIST_LIMIT
+): SearchAnalyticsSummary {
+    const byQuery = new Map<string, SearchLogEntry[]>();
+    for (const entry of log) {
+        const group = byQuery.get(entry.normalizedQuery);
+        if (group) group.push(entry);
+        else byQuery.set(entry.normalizedQuery, [entry]);
+    }
+
+    const stats = Array.from(byQuery, ([query, entries]) => buildQueryStats(query, entries));
+    const byVolume = (a: QueryStats, b: QueryStats) =>
+        b.searches - a.searches || b.lastSearchedAt.localeCompare(a.lastSearchedAt);
+
+    // Intent distribution
+    const intentCounts = new Map<IntentType, number>();
+    for (const entry of log) {
+        intentCounts.set(entry.intent, (intentCounts.get(entry.intent) ?? 0) + 1);
+    }
+
+    // Reformulation pairs
+    const reformulationCounts = new Map<string, { from: string; to: string; count: number }>();
+    for (const entry of log) {
+        if (!entry.reformulatedFrom) continue;
+        const from = normalizeAnalyticsQuery(entry.reformulatedFrom);
+        const key = `${from}\u0000${entry.normalizedQuery}`;
+        const pair = reformulationCounts.get(key) ?? { from, to: entry.normalizedQuery, count: 0 };
+        pair.count++;
+        reformulationCounts.set(key, pair);
+    }
+
+    const total = log.length;
+    const clickedTotal = log.filter(e => e.clicks.length > 0).length;
+
+    return {
+        totalSearches: total,
+        uniqueQueries: byQuery.size,
+        zeroResultRate: total > 0 ? log.filter(e => e.resultCount === 0).length / total : 0,
+        ctr: total > 0 ? clickedTotal / total : 0,
+        avgTimeToClickMs: average(
+            log.filter(e => e.clicks.length > 0).map(e => e.clicks[0].timeToClickMs)
+        ),
+        reformulationRate: total > 0 ? log.filter(e => e.reformulatedFrom).length / total : 0,
+        topQueries: [...stats].sort(byVolume).slice(0, limit),
+        zeroResultQueries: stats
+            .filter(s => s.avgResultCount === 0)
+            .sort(byVolume)
+            .slice(0, limit),
+        lowCtrQueries: stats
+            .filter(s => s.avgResultCount > 0 && s.searches >= MIN_SEARCHES_FOR_CTR && s.ctr <= LOW_CTR_THRESHOLD)
+            .sort((a, b) => a.ctr - b.ctr || byVolume(a, b))
+            .slice(0, limit),
+        intentDistribution: Array.from(intentCounts, ([intent, count]) => ({
+            intent,
+            count,
+            share: count / total,
+        })).sort((a, b) => b.count - a.count),
+        reformulations: Array.from(reformulationCounts.values())
+            .sort((a, b) => b.count - a.count)
+            .slice(0, limit),
+    };
+}
@@ -1,6 +1,7 @@
 /**
  * Café Finder: Multi-Index Search Engine
- * Fuse.js-based fuzzy search with specialized indexes
+ * Fuse.js-based fuzzy search with specialized indexes, blended with
+ * local BM25 vectors for FAQs, resources, LOP sessions and discussions
  */
 
 import Fuse, { type IFuseOptions, type FuseResult } from 'fuse.js';
@@ -13,8 +14,13 @@ import type {
     LOPSessionResult,
     PulseSignalResult,
     CompetitorResult,
+    ToastResult,
     Entity,
+    QueryFilter,
+    SearchResultGroups,
 } from './types';
+import { matchesFilters, isTypeAllowed, hasFieldConstraints } from './queryFilters';
+import { SemanticVectorIndex } from './semanticIndex';
 
 // Import mock data
 import { mockPeople, mockResources, mockFAQs, mockLopSessions } from '../../data/mockData';
@@ -24,6 +30,7 @@ import type { Person, Resource, FAQ, LopSession } from '../../types';
 import type { Discussion } from '../../data/discussions';
 import { ALL_COMPETITORS, type CompetitorProfile } from '../pulse/competitorData';
 import type { PulseSignal } from '../pulse/types';
+import type { Recognition } from '../../features/toast-x/types/recognition';
 
 // ============================================
 // INDEX CONFIGURATION
@@ -110,6 +117,20 @@ const PULSE_FUSE_OPTIONS: IFuseOptions<PulseSignal> = {
     minMatchCharLength: 2,
 };
 
+const TOASTS_FUSE_OPTIONS: IFuseOptions<Recognition> = {
+    keys: [
+        { name: 'message', weight: 3 },
+        { name: 'recipients.name', weight: 2.5 },
+        { name: 'giverName', weight: 2 },
+        { name: 'expertAreas', weight: 2 },
+        { name: 'value', weight: 1 },
+    ],
+    threshold: 0.4,
+    includeScore: true,
+    includeMatches: true,
+    minMatchCharLength: 2,
+};
+
 const COMPETITOR_FUSE_OPTIONS: IFuseOptions<CompetitorProfile> = {
     keys: [
         { name: 'name', weight: 4 },
@@ -123,16 +144,188 @@ const COMPETITOR_FUSE_OPTIONS: IFuseOptions<CompetitorProfile> = {
     minMatchCharLength: 2,
 };
 
+// ============================================
+// SEMANTIC TEXT
+// ============================================
+
+/*
+ * Text embedded by the semantic index. Titles are repeated so they
+ * outweigh body text, mirroring the Fuse key weights.
+ */
+
+const faqSemanticText = (faq: FAQ) => [
+    faq.question, faq.question,
+    ...faq.alternateQuestions,
+    faq.answerSummary,
+    ...(faq.answerSteps?.map(step => step.instruction) ?? []),
+    faq.category,
+    ...faq.tags,
+].join(' ');
+
+const resourceSemanticText = (resource: Resource) => [
+    resource.title, resource.title,
+    resource.description,
+    resource.category,
+    ...(resource.tags ?? []),
+].join(' ');
+
+const discussionSemanticText = (discussion: Discussion) =>
+    [discussion.title, discussion.title, discussion.body].join(' ');
+
+const lopSemanticText = (session: LopSession) =>
+    [session.title, session.title, session.description, ...session.tags].join(' ');
+
 // ============================================
 // SEARCH INDEX CLASS
 // ============================================
 
+/**
+ * Documents held by each live index collection
+ */
+export interface IndexedDocuments {
+    people: Person;
+    resources: Resource;
+    faqs: FAQ;
+    discussions: Discussion;
+    lopSessions: LopSession;
+    pulseSignals: PulseSignal;
+    toasts: Recognition;
+}
+
+export type IndexCollection = keyof IndexedDocuments;
+
+/**
+ * Wrap documents as Fuse results with a neutral score (nothing to rank against)
+ */
+const asUnrankedResults = <T>(docs: T[], limit: number): FuseResult<T>[] =>
+    docs.slice(0, limit).map((item, refIndex) => ({ item, refIndex, score: 0.5, matches: [] }));
+
+/**
+ * A Fuse result, or a semantic-only hit shaped like one, with the
+ * document's vector similarity to the query
+ */
+type HybridResult<T> = FuseResult<T> & { semanticScore?: number };
+
+/**
+ * A single Fuse index plus the documents it was built from, keyed by id
+ */
+class IndexedCollection<T extends { id: string }> {
+    private docs = new Map<string, T>();
+    private fuse: Fuse<T>;
+    private options: IFuseOptions<T>;
+    private semantic: SemanticVectorIndex<T> | null;
+
+    constructor(options: IFuseOptions<T>, initial: T[] = [], semanticText?: (doc: T) => string) {
+        this.options = options;
+        initial.forEach(doc => this.docs.set(doc.id, doc));
+        this.fuse = new Fuse([...this.docs.values()], options);
+        this.semantic = semanticText ? new SemanticVectorIndex(semanticText, initial) : null;
+    }
+
+    get all(): T[] {
+        return [...this.docs.values()];
+    }
+
+    get size(): number {
+        return this.docs.size;
+    }
+
+    has(id: string): boolean {
+        return this.docs.has(id);
+    }
+
+    get(id: string): T | undefined {
+        return this.docs.get(id);
+    }
+
+    search(query: string, limit: number): FuseResult<T>[] {
+        return this.fuse.search(query, { limit });
+    }
+
+    /**
+     * Search a filtered subset of this collection. Filter-only queries
+     * (no free text) return the subset unranked.
+     */
+    searchWithin(docs: T[], query: string, limit: number): FuseResult<T>[] {
+        if (!query.trim()) return asUnrankedResults(docs, limit);
+        if (docs.length === this.docs.size) return this.search(query, limit);
+        return new Fuse(docs, this.options).search(query, { limit });
+    }
+
+    /**
+     * Fuse matches merged with semantic hits from the same subset.
+     * Each document keeps the better of its fuzzy and vector scores;
+     * documents only the vectors found are added with no matched terms.
+     */
+    hybridSearchWithin(docs: T[], query: string, semanticQuery: string, limit: number): HybridResult<T>[] {
+        const fuzzy: HybridResult<T>[] = this.searchWithin(docs, query, limit);
+        if (!this.semantic || !semanticQuery.trim()) return fuzzy;
+
+        const candidates = new Set(docs.map(doc => doc.id));
+        const hits = this.semantic.search(semanticQuery, limit, candidates);
+        if (hits.length === 0) return fuzzy;
+
+        const merged = new Map(fuzzy.map(result => [result.item.id, result]));
+        hits.forEach(({ id, similarity }) => {
+            const existing = merged.get(id);
+            if (existing) {
+                merged.set(id, { ...existing, semanticScore: similarity });
+                return;
+            }
+            const item = this.docs.get(id);
+            if (item) {
+                merged.set(id, { item, refIndex: 0, score: 1 - similarity, matches: [], semanticScore: similarity });
+            }
+        });
+
+        const relevance = (result: HybridResult<T>) =>
+            Math.max(1 - (result.score ?? 1), result.semanticScore ?? 0);
+        return [...merged.values()]
+            .sort((a, b) => relevance(b) - relevance(a))
+            .slice(0, limit);
+    }
+
+    upsert(doc: T): void {
+        if (this.docs.has(doc.id)) {
+            this.fuse.remove(d => d.id === doc.id);
+        }
+        this.docs.set(doc.id, doc);
+        this.fuse.add(doc);
+        this.semantic?.upsert(doc);
+    }
+
+    remove(id: string): boolean {
+        if (!this.docs.delete(id)) return false;
+        this.fuse.remove(d => d.id === id);
+        this.semantic?.remove(id);
+        return true;
+    }
+
+    replaceAll(docs: T[]): void {
+        this.docs = new Map(docs.map(doc => [doc.id, doc]));
+        this.fuse = new Fuse([...this.docs.values()], this.options);
+        this.semantic?.replaceAll([...this.docs.values()]);
+    }
+}
+
+type IndexCollections = { [K in IndexCollection]: IndexedCollection<IndexedDocuments[K]> };
+
+export type IndexChangeListener = (collection: IndexCollection, version: number) => void;
+
+/**
+ * Resources are indexed only while active; archiving one removes it.
+ * Private toasts are never indexed.
+ */
+const isIndexable = <K extends IndexCollection>(collection: K, doc: IndexedDocuments[K]): boolean => {
+    if (collection === 'resources') return !(doc as Resource).isArchived;
+    if (collection === 'toasts') return !(doc as Recognition).isPrivate;
+    return true;
+};
+
 class SearchIndex {
-    private peopleIndex: Fuse<Person> | null = null;
-    private resourcesIndex: Fuse<Resource> | null = null;
-    private faqsIndex: Fuse<FAQ> | null = null;
-    private discussionsIndex: Fuse<Discussion> | null = null;
-    private lopIndex: Fuse<LopSession> | null = null;
+    private collections: IndexCollections | null = null;
+    private listeners = new Set<IndexChangeListener>();
+    private version = 0;
 
     private initialized = false;
 
@@ -145,19 +338,6 @@ class SearchIndex {
         console.log('[SearchIndex] Initializing search indexes...');
         const start = performance.now();
 
-        // People index
-        this.peopleIndex = new Fuse(mockPeople, PEOPLE_FUSE_OPTIONS);
-
-        // Resources index (filter out archived)
-        const activeResources = mockResources.filter(r => !r.isArchived);
-        this.resourcesIndex = new Fuse(activeResources, RESOURCES_FUSE_OPTIONS);
-
-        // FAQs index
-        this.faqsIndex = new Fuse(mockFAQs, FAQS_FUSE_OPTIONS);
-
-        // Discussions index
-        this.discussionsIndex = new Fuse(mockDiscussions, DISCUSSIONS_FUSE_OPTIONS);
-
         // LOP index - combine mockLopSessions with LOP_SESSIONS from lib/lop/data.ts
         // Convert LOP_SESSIONS to LopSession format for unified search
         const lopSessionsConverted: LopSession[] = LOP_SESSIONS.map(s => ({
@@ -177,7 +357,23 @@ class SearchIndex {
             ...mockLopSessions,
             ...lopSessionsConverted.filter(s => !mockLopSessions.some(m => m.id === s.id)),
         ];
-        this.lopIndex = new Fuse(combinedLop, LOP_FUSE_OPTIONS);
+
+        this.collections = {
+            people: new IndexedCollection(PEOPLE_FUSE_OPTIONS, mockPeople),
+            // Resources index (filter out archived)
+            resources: new IndexedCollection(
+                RESOURCES_FUSE_OPTIONS,
+                mockResources.filter(r => !r.isArchived),
+                resourceSemanticText
+            ),
+            faqs: new IndexedCollection(FAQS_FUSE_OPTIONS, mockFAQs, faqSemanticText),
+            discussions: new IndexedCollection(DISCUSSIONS_FUSE_OPTIONS, mockDiscussions, discussionSemanticText),
+            lopSessions: new IndexedCollection(LOP_FUSE_OPTIONS, combinedLop, lopSemanticText),
+            // Pulse signals arrive at runtime through upsert/replaceAll
+            pulseSignals: new IndexedCollection(PULSE_FUSE_OPTIONS),
+            // Toasts come from the Toast-X store through live indexing
+            toasts: new IndexedCollection(TOASTS_FUSE_OPTIONS),
+        };
 
         this.initialized = true;
 
@@ -185,13 +381,103 @@ class SearchIndex {
         console.log(`[SearchIndex] Indexes initialized in ${elapsed.toFixed(2)}ms`);
     }
 
+    private collection<K extends IndexCollection>(name: K): IndexCollections[K] {
+        if (!this.collections) this.initialize();
+        return this.collections![name];
+    }
+
+    // ============================================
+    // LIVE UPDATES
+    // ============================================
+
+    /**
+     * Add a document, or replace the indexed copy with the same id
+     */
+    upsert<K extends IndexCollection>(collection: K, doc: IndexedDocuments[K]): void {
+        const target = this.collection(collection) as IndexedCollection<IndexedDocuments[K]>;
+        if (!isIndexable(collection, doc)) {
+            if (target.remove(doc.id)) this.notify(collection);
+            return;
+        }
+        target.upsert(doc);
+        this.notify(collection);
+    }
+
+    /**
+     * Add or replace several documents with a single change notification
+     */
+    upsertMany<K extends IndexCollection>(collection: K, docs: IndexedDocuments[K][]): void {
+        if (docs.length === 0) return;
+        const target = this.collection(collection) as IndexedCollection<IndexedDocuments[K]>;
+        docs.forEach(doc => {
+            if (isIndexable(collection, doc)) target.upsert(doc);
+            else target.remove(doc.id);
+        });
+        this.notify(collection);
+    }
+
+    /**
+     * Remove a document by id. Returns false if it was not indexed.
+     */
+    remove(collection: IndexCollection, id: string): boolean {
+        const removed = this.collection(collection).remove(id);
+        if (removed) this.notify(collection);
+        return removed;
+    }
+
+    /**
+     * Rebuild a collection from a full snapshot of its documents
+     */
+    replaceAll<K extends IndexCollection>(collection: K, docs: IndexedDocuments[K][]): void {
+        const target = this.collection(collection) as IndexedCollection<IndexedDocuments[K]>;
+        target.replaceAll(docs.filter(doc => isIndexable(collection, doc)));
+        this.notify(collection);
+    }
+
+    /**
+     * Look up an indexed document by id
+     */
+    getDocument<K extends IndexCollection>(collection: K, id: string): IndexedDocuments[K] | undefined {
+        return (this.collection(collection) as IndexedCollection<IndexedDocuments[K]>).get(id);
+    }
+
+    /**
+     * Number of documents currently indexed in a collection
+     */
+    size(collection: IndexCollection): number {
+        return this.collection(collection).size;
+    }
+
+    /**
+     * Monotonic counter bumped on every index change
+     */
+    getVersion(): number {
+        return this.version;
+    }
+
+    /**
+     * Listen for index changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: IndexChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private notify(collection: IndexCollection): void {
+        this.version++;
+        this.listeners.forEach(listener => listener(collection, this.version));
+    }
+
     /**
      * Search people
      */
-    searchPeople(query: string, entities: Entity[] = [], limit = 10): PersonResult[] {
-        if (!this.peopleIndex) this.initialize();
+    searchPeople(query: string, entities: Entity[] = [], limit = 10, filters: QueryFilter[] = []): PersonResult[] {
+        const index = this.collection('people');
 
-        let sourceData = mockPeople;
+        const allPeople = index.all;
+        let sourceData = allPeople.filter(p => matchesFilters('people', p, filters));
         const teamEntity = entities.find(e => e.type === 'TEAM');
 
         // Filter by team if present
@@ -203,11 +489,10 @@ class SearchIndex {
 
         // If filtering reduced data significantly, re-index or just search filtered
         let results: FuseResult<Person>[];
-        if (sourceData.length < mockPeople.length) {
-            const filteredIndex = new Fuse(sourceData, PEOPLE_FUSE_OPTIONS);
-            results = filteredIndex.search(query || teamEntity?.value || 'person', { limit });
+        if (teamEntity && sourceData.length < allPeople.length) {
+            results = index.searchWithin(sourceData, query || teamEntity.value, limit);
         } else {
-            results = this.peopleIndex!.search(query, { limit });
+            results = index.searchWithin(sourceData, query, limit);
         }
 
         return results.map(result => {
@@ -237,10 +522,17 @@ class SearchIndex {
     /**
      * Search resources
      */
-    searchResources(query: string, entities: Entity[] = [], limit = 10): ResourceResult[] {
-        if (!this.resourcesIndex) this.initialize();
-
-        let sourceData = mockResources.filter(r => !r.isArchived);
+    searchResources(
+        query: string,
+        entities: Entity[] = [],
+        limit = 10,
+        filters: QueryFilter[] = [],
+        semanticQuery = ''
+    ): ResourceResult[] {
+        const index = this.collection('resources');
+
+        const activeResources = index.all;
+        let sourceData = activeResources.filter(r => matchesFilters('resources', r, filters));
 
         // Filter by Pillar
         const pillarEntity = entities.find(e => e.type === 'PILLAR');
@@ -259,12 +551,11 @@ class SearchIndex {
             );
         }
 
-        let results: FuseResult<Resource>[];
-        if (sourceData.length < mockResources.length) { // Approximation
-            const filteredIndex = new Fuse(sourceData, RESOURCES_FUSE_OPTIONS);
-            results = filteredIndex.search(query || 'resource', { limit });
+        let results: HybridResult<Resource>[];
+        if ((pillarEntity || typeEntity) && sourceData.length < activeResources.length) {
+            results = index.hybridSearchWithin(sourceData, query || 'resource', semanticQuery, limit);
         } else {
-            results = this.resourcesIndex!.search(query, { limit });
+            results = index.hybridSearchWithin(sourceData, query, semanticQuery, limit);
         }
 
         return results.map(result => {
@@ -275,6 +566,7 @@ class SearchIndex {
                 id: resource.id,
                 type: 'resource' as const,
                 score: 1 - (result.score || 0),
+                semanticScore: result.semanticScore,
                 matchedTerms,
                 title: resource.title,
                 description: resource.description,
@@ -294,10 +586,10 @@ class SearchIndex {
     /**
      * Search FAQs
      */
-    searchFAQs(query: string, limit = 10): FAQResult[] {
-        if (!this.faqsIndex) this.initialize();
-
-        const results = this.faqsIndex!.search(query, { limit });
+    searchFAQs(query: string, limit = 10, filters: QueryFilter[] = [], semanticQuery = ''): FAQResult[] {
+        const index = this.collection('faqs');
+        const sourceData = index.all.filter(f => matchesFilters('faqs', f, filters));
+        const results = index.hybridSearchWithin(sourceData, query, semanticQuery, limit);
 
         return results.map(result => {
             const faq = result.item;
@@ -312,6 +604,7 @@ class SearchIndex {
                 id: faq.id,
                 type: 'faq' as const,
                 score: 1 - (result.score || 0),
+                semanticScore: result.semanticScore,
                 matchedTerms,
                 question: faq.question,
                 answer: answerText,
@@ -328,10 +621,10 @@ class SearchIndex {
     /**
      * Search discussions
      */
-    searchDiscussions(query: string, limit = 10): DiscussionResult[] {
-        if (!this.discussionsIndex) this.initialize();
-
-        const results = this.discussionsIndex!.search(query, { limit });
+    searchDiscussions(query: string, limit = 10, filters: QueryFilter[] = [], semanticQuery = ''): DiscussionResult[] {
+        const index = this.collection('discussions');
+        const sourceData = index.all.filter(d => matchesFilters('discussions', d, filters));
+        const results = index.hybridSearchWithin(sourceData, query, semanticQuery, limit);
 
         return results.map(result => {
             const discussion = result.item;
@@ -341,6 +634,7 @@ class SearchIndex {
                 id: discussion.id,
                 type: 'discussion' as const,
                 score: 1 - (result.score || 0),
+                semanticScore: result.semanticScore,
                 matchedTerms,
                 title: discussion.title,
                 bodyPreview: discussion.body.slice(0, 150) + (discussion.body.length > 150 ? '...' : ''),
@@ -362,10 +656,17 @@ class SearchIndex {
     /**
      * Search LOP sessions with entity filtering
      */
-    searchLopSessions(query: string, entities: Entity[] = [], limit = 5): LOPSessionResult[] {
-        if (!this.lopIndex) this.initialize();
-
-        let sourceData = mockLopSessions;
+    searchLopSessions(
+        query: string,
+        entities: Entity[] = [],
+        limit = 5,
+        filters: QueryFilter[] = [],
+        semanticQuery = ''
+    ): LOPSessionResult[] {
+        const index = this.collection('lopSessions');
+
+        const allSessions = index.all;
+        let sourceData = allSessions.filter(s => matchesFilters('lopSessions', s, filters));
         const now = new Date();
 
         // 1. Filter by temporal entities
@@ -401,7 +702,7 @@ class SearchIndex {
             }
         }
 
-        let results: FuseResult<LopSession>[];
+        let results: HybridResult<LopSession>[];
 
         // If temporal search dominated (e.g. "next lop"), we rely more on the filter
         // If we have a query string besides the temporal keywords, run Fuse
@@ -418,13 +719,12 @@ class SearchIndex {
                 matches: [],
                 refIndex: 0
             }));
-        } else if (sourceData.length < mockLopSessions.length) {
+        } else if (isTemporalSearch && sourceData.length < allSessions.length) {
             // Re-index filtered data (expensive but accurate) or just search if small
-            const filteredIndex = new Fuse(sourceData, LOP_FUSE_OPTIONS);
-            results = filteredIndex.search(query || 'session', { limit });
+            results = index.hybridSearchWithin(sourceData, query || 'session', semanticQuery, limit);
         } else {
-            // No filter applied or query dominant
-            results = this.lopIndex!.search(query, { limit });
+            // No temporal filter applied or query dominant
+            results = index.hybridSearchWithin(sourceData, query, semanticQuery, limit);
         }
 
         return results.map(result => {
@@ -432,12 +732,14 @@ class SearchIndex {
             const matchedTerms = result.matches?.map(m => m.value || '').filter(Boolean) || [];
 
             // Find speaker name if possible (naive lookup for now)
-            const speaker = mockPeople.find(p => session.speakerIds.includes(p.id));
+            const people = this.collection('people');
+            const speaker = session.speakerIds.map(id => people.get(id)).find(Boolean);
 
             return {
                 id: session.id,
                 type: 'lop_session' as const,
                 score: 1 - (result.score || 0),
+                semanticScore: result.semanticScore,
                 matchedTerms,
                 sessionNumber: 0, // Not in mock data yet
                 title: session.title,
@@ -456,13 +758,11 @@ class SearchIndex {
     /**
      * Search tools (from resources with tool contentType)
      */
-    searchTools(query: string, limit = 10): ToolResult[] {
-        if (!this.resourcesIndex) this.initialize();
-
+    searchTools(query: string, limit = 10, filters: QueryFilter[] = []): ToolResult[] {
         // Filter tools from resources - use contentType and pillar
-        const toolResources = mockResources.filter(r =>
-            r.contentType === 'tool' ||
-            r.pillar === 'tools-access'
+        const toolResources = this.collection('resources').all.filter(r =>
+            (r.contentType === 'tool' || r.pillar === 'tools-access') &&
+            matchesFilters('resources', r, filters)
         );
 
         const toolsIndex = new Fuse(toolResources, {
@@ -475,7 +775,9 @@ class SearchIndex {
             includeScore: true,
         });
 
-        const results = toolsIndex.search(query, { limit });
+        const results = query.trim()
+            ? toolsIndex.search(query, { limit })
+            : asUnrankedResults(toolResources, limit);
 
         return results.map(result => {
             const resource = result.item;
@@ -499,11 +801,12 @@ class SearchIndex {
     /**
      * Search Pulse signals (market intelligence)
      */
-    searchPulseSignals(query: string, signals: PulseSignal[], limit = 5): PulseSignalResult[] {
-        if (signals.length === 0) return [];
+    searchPulseSignals(query: string, limit = 5, filters: QueryFilter[] = []): PulseSignalResult[] {
+        const index = this.collection('pulseSignals');
+        if (index.size === 0) return [];
 
-        const pulseIndex = new Fuse(signals, PULSE_FUSE_OPTIONS);
-        const results = pulseIndex.search(query, { limit });
+        const sourceData = index.all.filter(s => matchesFilters('pulseSignals', s, filters));
+        const results = index.searchWithin(sourceData, query, limit);
 
         return results.map(result => {
             const signal = result.item;
@@ -524,12 +827,50 @@ class SearchIndex {
         });
     }
 
+    /**
+     * Search Toast-X recognitions
+     */
+    searchToasts(query: string, limit = 5, filters: QueryFilter[] = []): ToastResult[] {
+        const index = this.collection('toasts');
+        if (index.size === 0) return [];
+
+        const sourceData = index.all.filter(t => matchesFilters('toasts', t, filters));
+        const results = index.searchWithin(sourceData, query, limit);
+
+        return results.map(result => {
+            const toast = result.item;
+            const recipientNames = toast.recipients.map(r => r.name);
+            return {
+                id: toast.id,
+                type: 'toast' as const,
+                score: 1 - (result.score || 0),
+                matchedTerms: result.matches?.map(m => m.value || '').filter(Boolean) || [],
+                title: `${toast.giverName} → ${recipientNames.join(', ')}`,
+                message: toast.message,
+                giverName: toast.giverName,
+                recipientNames,
+                value: toast.value,
+                createdAt: toast.createdAt,
+            };
+        });
+    }
+
     /**
      * Search competitors
      */
-    searchCompetitors(query: string, limit = 5): CompetitorResult[] {
-        const competitorIndex = new Fuse(ALL_COMPETITORS, COMPETITOR_FUSE_OPTIONS);
-        const results = competitorIndex.search(query, { limit });
+    searchCompetitors(query: string, limit = 5, filters: QueryFilter[] = []): CompetitorResult[] {
+        // Competitor profiles have no team/author/tag/date fields to match against
+        if (hasFieldConstraints(filters)) return [];
+
+        const excluded = filters.flatMap(f => (f.kind === 'exclude' ? [f.value.toLowerCase()] : []));
+        const competitors = ALL_COMPETITORS.filter(c =>
+            !excluded.some(term => `${c.name} ${c.description || ''}`.toLowerCase().includes(term))
+        );
+
+        const competitorIndex = new Fuse(competitors, COMPETITOR_FUSE_OPTIONS);
+        const results = query.trim()
+            ? competitorIndex.search(query, { limit })
+            : asUnrankedResults(competitors, limit);
 
         return results.map(result => {
             const competitor = result.item;
@@ -550,27 +891,33 @@ class SearchIndex {
     }
 
     /**
-     * Search all indexes (full-app search)
+     * Search all indexes (full-app search).
+     * Query operators are applied to each index before ranking.
+     * `semanticQuery` is the unexpanded free text for the vector indexes.
      */
-    searchAll(query: string, entities: Entity[] = [], limitPerType = 5, pulseSignals: PulseSignal[] = []): {
-        people: PersonResult[];
-        tools: ToolResult[];
-        faqs: FAQResult[];
-        resources: ResourceResult[];
-        discussions: DiscussionResult[];
-        lopSessions: LOPSessionResult[];
-        pulseSignals: PulseSignalResult[];
-        competitors: CompetitorResult[];
-    } {
+    searchAll(
+        query: string,
+        entities: Entity[] = [],
+        limitPerType = 5,
+        filters: QueryFilter[] = [],
+        semanticQuery = ''
+    ): SearchResultGroups {
+        const allowed = (type: Parameters<typeof isTypeAllowed>[0]) => isTypeAllowed(type, filters);
+
         return {
-            people: this.searchPeople(query, entities, limitPerType),
-            tools: this.searchTools(query, limitPerType),
-            faqs: this.searchFAQs(query, limitPerType),
-            resources: this.searchResources(query, entities, limitPerType),
-            discussions: this.searchDiscussions(query, limitPerType),
-            lopSessions: this.searchLopSessions(query, entities, limitPerType),
-            pulseSignals: this.searchPulseSignals(query, pulseSignals, limitPerType),
-            competitors: this.searchCompetitors(query, limitPerType),
+            people: allowed('person') ? this.searchPeople(query, entities, limitPerType, filters) : [],
+            tools: allowed('tool') ? this.searchTools(query, limitPerType, filters) : [],
+            faqs: allowed('faq') ? this.searchFAQs(query, limitPerType, filters, semanticQuery) : [],
+            resources: allowed('resource')
+                ? this.searchResources(query, entities, limitPerType, filters, semanticQuery)
+                : [],
+            discussions: allowed('discussion') ? this.searchDiscussions(query, limitPerType, filters, semanticQuery) : [],
+            lopSessions: allowed('lop_session')
+                ? this.searchLopSessions(query, entities, limitPerType, filters, semanticQuery)
+                : [],
+            pulseSignals: allowed('pulse_signal') ? this.searchPulseSignals(query, limitPerType, filters) : [],
+            competitors: allowed('competitor') ? this.searchCompetitors(query, limitPerType, filters) : [],
+            toasts: allowed('toast') ? this.searchToasts(query, limitPerType, filters) : [],
         };
     }
 }
@@ -585,7 +932,7 @@ export const searchIndex = new SearchIndex();
 // RESULT TYPE
 // ============================================
 
-export type AnySearchResult = PersonResult | ToolResult | FAQResult | ResourceResult | DiscussionResult | LOPSessionResult | PulseSignalResult | CompetitorResult;
+export type AnySearchResult = PersonResult | ToolResult | FAQResult | ResourceResult | DiscussionResult | LOPSessionResult | PulseSignalResult | CompetitorResult | ToastResult;
 
 // ============================================
 // HELPER FUNCTIONS
@@ -594,7 +941,7 @@ export type AnySearchResult = PersonResult | ToolResult | FAQResult | ResourceRe
 /**
  * Count total results
  */
-export function countResults(results: ReturnType<typeof searchIndex.searchAll>): number {
+export function countResults(results: SearchResultGroups): number {
     return (
         results.people.length +
         results.tools.length +
@@ -603,14 +950,15 @@ export function countResults(results: ReturnType<typeof searchIndex.searchAll>):
         results.discussions.length +
         results.lopSessions.length +
         results.pulseSignals.length +
-        results.competitors.length
+        results.competitors.length +
+        results.toasts.length
     );
 }
 
 /**
  * Get all results as a flat array, sorted by score
  */
-export function flattenResults(results: ReturnType<typeof searchIndex.searchAll>): AnySearchResult[] {
+export function flattenResults(results: SearchResultGroups): AnySearchResult[] {
     const all: AnySearchResult[] = [
         ...results.people,
         ...results.tools,
@@ -620,6 +968,7 @@ export function flattenResults(results: ReturnType<typeof searchIndex.searchAll>
         ...results.lopSessions,
         ...results.pulseSignals,
         ...results.competitors,
+        ...results.toasts,
     ];
 
     return all.sort((a, b) => b.score - a.score);
@@ -628,7 +977,7 @@ export function flattenResults(results: ReturnType<typeof searchIndex.searchAll>
 /**
  * Get top result of any type
  */
-export function getTopResult(results: ReturnType<typeof searchIndex.searchAll>): AnySearchResult | null {
+export function getTopResult(results: SearchResultGroups): AnySearchResult | null {
     const flat = flattenResults(results);
     return flat.length > 0 ? flat[0] : null;
 }
@@ -0,0 +1,392 @@
+/**
+ * Café Finder: Conversational Search Session
+ * Keeps the turns of a search conversation and rewrites follow-ups
+ * ("only the ones from last quarter", "who owns that?", "what about
+ * confluence?") into standalone queries against the previous turn
+ */
+
+import type { SearchContext, SearchResponse, SearchResultType } from './types';
+import { extractQueryOperators } from './queryProcessor';
+import { flattenResults, searchIndex, type AnySearchResult } from './searchIndex';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * How a turn relates to the one before it
+ * - new: an unrelated query, starts a fresh conversation
+ * - refine: narrows the previous query (filters, dates, exclusions)
+ * - reference: points at a previous result ("who owns that?")
+ * - ellipsis: swaps the topic and keeps the rest ("what about confluence?")
+ */
+export type TurnKind = 'new' | 'refine' | 'reference' | 'ellipsis';
+
+export interface ResolvedFollowUp {
+    kind: TurnKind;
+    /** Standalone query, operators included */
+    query: string;
+    /** Short breadcrumb label */
+    label: string;
+}
+
+export interface SearchTurn extends ResolvedFollowUp {
+    id: string;
+    /** What the user typed */
+    input: string;
+    response: SearchResponse;
+}
+
+/** Runs one standalone query; the previous response carries intent and entities */
+export type SessionSearchFn = (
+    query: string,
+    context: SearchContext | undefined,
+    previous: SearchResponse | undefined
+) => SearchResponse;
+
+// ============================================
+// PATTERNS
+// ============================================
+
+/** Words a refinement starts with */
+const REFINEMENT_LEAD = /^(only|just|but|except|without|exclude|excluding|not|no|from|in|by|with|since|before|after|filter|narrow|limit|newer|older|recent|more recent|show only)\b/i;
+
+const OWNERSHIP_QUESTION = /\bwho\b.*\b(owns?|wrote|writes|authored|created|made|maintains?|runs?|presented|presents|spoke|leads?|posted|is behind|is the (owner|author|speaker|expert)|can help)\b/i;
+
+/**
+ * A pronoun that is the object of a follow-up verb ("tell me more about that",
+ * "who owns it"). "this/that quarter" is a time phrase, not a reference.
+ */
+const REFERENCE = /\b(?:tell me (?:more )?about|more (?:about|on)|more like|details (?:on|about|for)|expand on|explain|summari[sz]e|open|show(?: me)?|owns?|wrote|authored|created|made|maintains?|runs?|leads?|presented|posted|behind|(?:owner|author|speaker|expert) of|help with)\s+(that|this|those|these|them|it|the (?:first|top) one)\b(?!\s+(?:day|week|month|quarter|year)s?\b)/i;
+
+const ELLIPSIS = /^(?:what|how)\s+about\s+(.+)$|^(?:and|also)\s+(?:for\s+|about\s+)?(.+)$/i;
+
+/** Refinement words that carry no search meaning once translated */
+const REFINEMENT_FILLER = new Set([
+    'only', 'just', 'but', 'the', 'ones', 'one', 'those', 'them', 'these', 'results', 'result',
+    'show', 'me', 'please', 'which', 'that', 'are', 'were', 'is', 'items', 'filter', 'narrow',
+    'limit', 'to', 'from', 'in', 'with', 'by', 'of', 'a', 'an', 'and', 'stuff', 'things',
+]);
+
+/** Plural nouns that map to a type: operator */
+const TYPE_WORDS: Record<string, SearchResultType> = {
+    people: 'person', persons: 'person', experts: 'person', person: 'person',
+    tools: 'tool', tool: 'tool',
+    faqs: 'faq', faq: 'faq', questions: 'faq',
+    resources: 'resource', docs: 'resource', documents: 'resource', guides: 'resource', templates: 'resource',
+    discussions: 'discussion', threads: 'discussion', posts: 'discussion',
+    sessions: 'lop_session', talks: 'lop_session', lops: 'lop_session',
+    signals: 'pulse_signal', news: 'pulse_signal', articles: 'pulse_signal',
+    competitors: 'competitor',
+    toasts: 'toast', recognitions: 'toast',
+};
+
+const TYPE_OPERATOR_VALUE: Record<SearchResultType, string> = {
+    person: 'person',
+    tool: 'tool',
+    faq: 'faq',
+    resource: 'resource',
+    discussion: 'discussion',
+    lop_session: 'lop',
+    pulse_signal: 'pulse',
+    competitor: 'competitor',
+    toast: 'toast',
+};
+
+// ============================================
+// TIME PHRASES
+// ============================================
+
+const isoDate = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+/**
+ * Translate relative time phrases into after:/before: operators
+ */
+function translateTimePhrases(text: string, now: Date): { operators: string[]; rest: string } {
+    const operators: string[] = [];
+    let rest = text;
+
+    const take = (pattern: RegExp, toRange: (match: RegExpMatchArray) => [Date | null, Date | null]) => {
+        const match = rest.match(pattern);
+        if (!match) return;
+        const [after, before] = toRange(match);
+        if (after) operators.push(`after:${isoDate(after)}`);
+        if (before) operators.push(`before:${isoDate(before)}`);
+        rest = rest.replace(match[0], ' ');
+    };
+
+    const quarterStart = (offset: number) =>
+        new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3 + offset * 3, 1);
+
+    take(/\b(last|previous) quarter\b/i, () => [quarterStart(-1), new Date(quarterStart(0).getTime() - 86_400_000)]);
+    take(/\bthis quarter\b/i, () => [quarterStart(0), null]);
+    take(/\b(last|previous) month\b/i, () => [
+        new Date(now.getFullYear(), now.getMonth() - 1, 1),
+        new Date(now.getFullYear(), now.getMonth(), 0),
+    ]);
+    take(/\bthis month\b/i, () => [new Date(now.getFullYear(), now.getMonth(), 1), null]);
+    take(/\b(last|previous) year\b/i, () => [
+        new Date(now.getFullYear() - 1, 0, 1),
+        new Date(now.getFullYear() - 1, 11, 31),
+    ]);
+    take(/\bthis year\b/i, () => [new Date(now.getFullYear(), 0, 1), null]);
+    take(/\b(?:last|past) (\d+) (day|week|month|year)s?\b/i, m => [
+        new Date(now.getTime() - Number(m[1]) * UNIT_DAYS[m[2].toLowerCase()] * 86_400_000),
+        null,
+    ]);
+    take(/\b(?:last|past|this) (week)\b/i, () => [new Date(now.getTime() - 7 * 86_400_000), null]);
+    take(/\b(recent|recently|newer|latest)\b/i, () => [new Date(now.getTime() - 30 * 86_400_000), null]);
+    take(/\b(old|older)\b/i, () => [null, new Date(now.getTime() - 365 * 86_400_000)]);
+
+    return { operators, rest };
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Where the referring pronoun sits, if the turn is a reference. "it" only
+ * counts in lowercase so "IT" (the team) is left alone.
+ */
+function findReference(text: string): { start: number; end: number } | null {
+    const match = REFERENCE.exec(text);
+    if (!match) return null;
+    const pronoun = match[1];
+    if (pronoun.toLowerCase() === 'it' && pronoun !== 'it') return null;
+    const end = match.index + match[0].length;
+    return { start: end - pronoun.length, end };
+}
+
+const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+const titleOf = (result: AnySearchResult): string => {
+    const record = result as unknown as Record<string, unknown>;
+    return String(record.title ?? record.question ?? record.name ?? result.id);
+};
+
+/**
+ * Person behind a result: its expert, author, speaker or owner
+ */
+function ownerOf(result: AnySearchResult): string | null {
+    switch (result.type) {
+        case 'person':
+            return result.name;
+        case 'resource':
+        case 'tool': {
+            const resource = searchIndex.getDocument('resources', result.id);
+            const expert = resource?.expertIds.map(id => searchIndex.getDocument('people', id)).find(Boolean);
+            return expert?.displayName ?? null;
+        }
+        case 'faq': {
+            const faq = searchIndex.getDocument('faqs', result.id);
+            const expert = faq?.expertIds.map(id => searchIndex.getDocument('people', id)).find(Boolean);
+            return expert?.displayName ?? null;
+        }
+        case 'discussion':
+            return result.authorName;
+        case 'lop_session':
+            return result.speakerName !== 'Unknown Speaker' ? result.speakerName : null;
+        case 'toast':
+            return result.giverName;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Translate a refinement into operators and extra keywords
+ */
+function translateRefinement(input: string, now: Date): string[] {
+    const { filters, remainder } = extractQueryOperators(input);
+    const parts = filters.map(f => f.raw);
+
+    const time = translateTimePhrases(remainder, now);
+    parts.push(...time.operators);
+    let rest = time.rest;
+
+    // "but not X", "except X", "without X" -> -X
+    rest = rest.replace(/\b(?:but not|not|except|excluding|exclude|without|no)\s+(?:the\s+)?([\w-]+(?:\s+[\w-]+)?)/gi, (_, term: string) => {
+        const words = term.split(/\s+/).filter(w => !REFINEMENT_FILLER.has(w.toLowerCase()));
+        if (words.length > 0) parts.push(`-${quote(words.join(' '))}`);
+        return ' ';
+    });
+
+    // "from/in the X team" -> team:X
+    rest = rest.replace(/\b(?:from|in|on|by)\s+(?:the\s+)?([\w-]+(?:\s+[\w-]+)?)\s+team\b/gi, (_, team: string) => {
+        parts.push(`team:${quote(team)}`);
+        return ' ';
+    });
+
+    // "by Jane Doe" / "written by Jane" -> author:
+    rest = rest.replace(/\b(?:written by|posted by|by)\s+([A-Z][\w-]*(?:\s+[A-Z][\w-]*)?)/g, (_, author: string) => {
+        parts.push(`author:${quote(author)}`);
+        return ' ';
+    });
+
+    // "tagged X" -> tag:X
+    rest = rest.replace(/\btagged\s+#?([\w/-]+)/gi, (_, tag: string) => {
+        parts.push(`tag:${tag}`);
+        return ' ';
+    });
+
+    // Plural nouns narrow the type; anything else left over is a keyword
+    rest.split(/\s+/).filter(Boolean).forEach(word => {
+        const lower = word.toLowerCase().replace(/[^\w-]/g, '');
+        if (!lower || REFINEMENT_FILLER.has(lower)) return;
+        const type = TYPE_WORDS[lower];
+        parts.push(type ? `type:${TYPE_OPERATOR_VALUE[type]}` : lower);
+    });
+
+    return parts;
+}
+
+/**
+ * Rewrite what the user typed into a standalone query. Ellipsis and
+ * refinements build on the latest turn; pronouns point at the top result
+ * of the latest turn that had any.
+ */
+export function resolveFollowUp(input: string, history: SearchTurn[], now = new Date()): ResolvedFollowUp {
+    const trimmed = input.trim().replace(/[?.!]+$/, '');
+    const fresh: ResolvedFollowUp = { kind: 'new', query: trimmed, label: trimmed };
+    const previous = history[history.length - 1];
+    if (!previous || !trimmed) return fresh;
+
+    const top = [...history]
+        .reverse()
+        .map(turn => flattenResults(turn.response.results)[0])
+        .find(Boolean);
+
+    const reference = findReference(trimmed);
+
+    // "who owns that?" -> the person behind the previous top result
+    if (top && reference && OWNERSHIP_QUESTION.test(trimmed)) {
+        const owner = ownerOf(top);
+        if (owner) {
+            return { kind: 'reference', query: `type:person ${owner}`, label: `who owns "${titleOf(top)}"` };
+        }
+    }
+
+    // "tell me more about that" -> the previous top result by name
+    const words = trimmed.split(/\s+/);
+    if (top && reference && words.length <= 6 && !REFINEMENT_LEAD.test(trimmed)) {
+        const title = titleOf(top);
+        const before = trimmed.slice(0, reference.start);
+        const after = trimmed.slice(reference.end);
+        return {
+            kind: 'reference',
+            query: `${before}${title}${after}`,
+            label: `${before}"${title}"${after}`,
+        };
+    }
+
+    // "what about confluence?" -> previous query with the topic swapped
+    const ellipsis = trimmed.match(ELLIPSIS);
+    if (ellipsis) {
+        const topic = (ellipsis[1] ?? ellipsis[2]).trim();
+        const { filters, remainder } = extractQueryOperators(previous.query);
+        const swappable = previous.response.query.entities
+            .filter(e => ['TOOL', 'TOPIC', 'TEAM', 'PERSON', 'PILLAR'].includes(e.type))
+            .find(e => remainder.toLowerCase().includes(e.value.toLowerCase()));
+        const text = swappable
+            ? remainder.replace(new RegExp(swappable.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i'), topic)
+            : topic;
+        return {
+            kind: 'ellipsis',
+            query: [text, ...filters.map(f => f.raw)].join(' ').trim(),
+            label: `about ${topic}`,
+        };
+    }
+
+    // "only the ones from last quarter" -> previous query plus operators
+    const isOperatorsOnly = extractQueryOperators(trimmed).remainder === '';
+    if (REFINEMENT_LEAD.test(trimmed) || isOperatorsOnly) {
+        const parts = translateRefinement(trimmed, now);
+        if (parts.length > 0) {
+            return { kind: 'refine', query: `${previous.query} ${parts.join(' ')}`.trim(), label: trimmed };
+        }
+    }
+
+    return fresh;
+}
+
+// ============================================
+// SESSION
+// ============================================
+
+/**
+ * One search conversation. Follow-ups build on the latest turn, a new
+ * query starts over, and undo steps back one refinement at a time.
+ */
+export class SearchSession {
+    private history: SearchTurn[] = [];
+    private runSearch: SessionSearchFn;
+
+    constructor(runSearch: SessionSearchFn) {
+        this.runSearch = runSearch;
+    }
+
+    get turns(): SearchTurn[] {
+        return [...this.history];
+    }
+
+    get current(): SearchTurn | null {
+        return this.history[this.history.length - 1] ?? null;
+    }
+
+    /**
+     * Resolve and run a query in the context of the conversation so far
+     */
+    ask(input: string, context?: SearchContext): SearchTurn {
+        const previous = this.current;
+        const resolved = resolveFollowUp(input, this.history);
+        const response = this.runSearch(
+            resolved.query,
+            context,
+            resolved.kind === 'new' ? undefined : previous?.response
+        );
+
+        const turn: SearchTurn = { ...resolved, id: crypto.randomUUID(), input, response };
+        this.history = resolved.kind === 'new' ? [turn] : [...this.history, turn];
+        return turn;
+    }
+
+    /**
+     * Run an already standalone query as a refinement of the latest turn,
+     * e.g. after a filter chip is removed, so it stays undoable
+     */
+    refine(query: string, label: string, context?: SearchContext): SearchTurn {
+        const previous = this.current;
+        if (!previous) return this.ask(query, context);
+
+        const response = this.runSearch(query, context, previous.response);
+        const turn: SearchTurn = { kind: 'refine', query, label, id: crypto.randomUUID(), input: query, response };
+        this.history = [...this.history, turn];
+        return turn;
+    }
+
+    /**
+     * Drop the latest refinement and return the turn now in effect
+     */
+    undo(): SearchTurn | null {
+        if (this.history.length <= 1) return this.current;
+        this.history = this.history.slice(0, -1);
+        return this.current;
+    }
+
+    /**
+     * Step back to an earlier turn, dropping everything after it
+     */
+    rewindTo(turnId: string): SearchTurn | null {
+        const index = this.history.findIndex(t => t.id === turnId);
+        if (index !== -1) this.history = this.history.slice(0, index + 1);
+        return this.current;
+    }
+
+    reset(): void {
+        this.history = [];
+    }
+}
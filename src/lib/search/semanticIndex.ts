@@ -0,0 +1,254 @@
+/**
+ * Café Finder: Local Semantic Index
+ * BM25-weighted term vectors compared by cosine similarity. Terms are
+ * stemmed and mapped onto synonym concepts, so "budget approved" can match
+ * "Funding request process" without any network call.
+ */
+
+import { STOP_WORDS } from './queryProcessor';
+import { getSynonyms, onSynonymsChange } from './synonyms';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Sparse vector: feature -> weight */
+export type TermVector = Map<string, number>;
+
+export interface SemanticHit {
+    id: string;
+    /** Cosine similarity in [0, 1] */
+    similarity: number;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** BM25 term-frequency saturation */
+const BM25_K1 = 1.2;
+
+/** BM25 document-length normalization */
+const BM25_B = 0.75;
+
+/** A concept match counts for less than the same word stem */
+const CONCEPT_WEIGHT = 0.7;
+
+/** Hits below this similarity are noise */
+export const MIN_SEMANTIC_SIMILARITY = 0.12;
+
+/** Question words, pronouns and filler verbs carry no topic */
+const SEMANTIC_STOP_WORDS = new Set([
+    ...STOP_WORDS,
+    'i', 'me', 'my', 'we', 'our', 'you', 'your', 'it', 'its', 'this', 'that',
+    'how', 'what', 'who', 'where', 'when', 'why', 'which', 'there', 'about',
+    'into', 'so', 'if', 'not', 'no', 'any', 'some', 'up', 'out', 'get', 'need', 'want',
+]);
+
+const SUFFIXES = ['ations', 'ation', 'ments', 'ment', 'ings', 'ing', 'ies', 'ied', 'ed', 'es', 's', 'al'];
+
+// ============================================
+// TEXT ANALYSIS
+// ============================================
+
+/**
+ * Light suffix stripping so "approve", "approved" and "approval" meet
+ */
+export function stemToken(token: string): string {
+    let stem = token;
+    for (const suffix of SUFFIXES) {
+        if (!stem.endsWith(suffix) || stem.length - suffix.length < 3) continue;
+        if (suffix === 's' && stem.endsWith('ss')) continue;
+        stem = stem.slice(0, -suffix.length) + (suffix === 'ies' || suffix === 'ied' ? 'y' : '');
+        break;
+    }
+    return stem.length > 4 && stem.endsWith('e') ? stem.slice(0, -1) : stem;
+}
+
+/**
+ * Canonical synonym group of a word or phrase, if the dictionary knows it
+ */
+function conceptOf(term: string): string | null {
+    const group = getSynonyms(term);
+    return group.length > 1 ? group[0] : null;
+}
+
+/**
+ * Turn text into weighted features: word stems plus synonym concepts
+ * (for single words and two-word phrases like "sign off")
+ */
+export function analyzeText(text: string): TermVector {
+    const words = text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+
+    const features: TermVector = new Map();
+    const add = (feature: string, weight: number) =>
+        features.set(feature, (features.get(feature) ?? 0) + weight);
+
+    words.forEach((word, i) => {
+        const phraseConcept = i > 0 ? conceptOf(`${words[i - 1]} ${word}`) : null;
+        if (phraseConcept) add(`~${phraseConcept}`, CONCEPT_WEIGHT);
+
+        if (SEMANTIC_STOP_WORDS.has(word) || word.length < 2) return;
+        add(stemToken(word), 1);
+
+        const concept = conceptOf(word);
+        if (concept) add(`~${concept}`, CONCEPT_WEIGHT);
+    });
+
+    return features;
+}
+
+// ============================================
+// VECTOR INDEX
+// ============================================
+
+/**
+ * BM25 vector index over one document collection. Kept in step with its
+ * Fuse index by IndexedCollection; corpus statistics are recomputed
+ * lazily after a change.
+ */
+export class SemanticVectorIndex<T extends { id: string }> {
+    private texts = new Map<string, string>();
+    private terms = new Map<string, TermVector>();
+    private documentFrequency = new Map<string, number>();
+    private totalLength = 0;
+
+    /** Per-document BM25 vectors and their norms, rebuilt on demand */
+    private vectors: Map<string, { vector: TermVector; norm: number }> | null = null;
+
+    private extractText: (doc: T) => string;
+
+    constructor(extractText: (doc: T) => string, initial: T[] = []) {
+        this.extractText = extractText;
+        initial.forEach(doc => this.addTerms(doc.id, extractText(doc)));
+
+        // Concept features depend on the synonym dictionary
+        onSynonymsChange(() => this.reanalyze());
+    }
+
+    get size(): number {
+        return this.texts.size;
+    }
+
+    upsert(doc: T): void {
+        this.removeTerms(doc.id);
+        this.addTerms(doc.id, this.extractText(doc));
+    }
+
+    remove(id: string): void {
+        this.removeTerms(id);
+    }
+
+    replaceAll(docs: T[]): void {
+        this.clear();
+        docs.forEach(doc => this.addTerms(doc.id, this.extractText(doc)));
+    }
+
+    /**
+     * Rank documents by similarity to the query. `candidates` restricts
+     * the search to ids that passed the caller's filters.
+     */
+    search(query: string, limit: number, candidates?: Set<string>): SemanticHit[] {
+        const queryTerms = analyzeText(query);
+        if (queryTerms.size === 0 || this.texts.size === 0) return [];
+
+        const vectors = this.buildVectors();
+        const queryVector: TermVector = new Map();
+        queryTerms.forEach((weight, term) => {
+            const idf = this.idf(term);
+            if (idf > 0) queryVector.set(term, weight * idf);
+        });
+        const queryNorm = Math.hypot(...queryVector.values());
+        if (queryNorm === 0) return [];
+
+        const hits: SemanticHit[] = [];
+        vectors.forEach(({ vector, norm }, id) => {
+            if (norm === 0 || (candidates && !candidates.has(id))) return;
+
+            let dot = 0;
+            queryVector.forEach((weight, term) => {
+                dot += weight * (vector.get(term) ?? 0);
+            });
+            const similarity = dot / (queryNorm * norm);
+            if (similarity >= MIN_SEMANTIC_SIMILARITY) hits.push({ id, similarity });
+        });
+
+        return hits.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+    }
+
+    private idf(term: string): number {
+        const df = this.documentFrequency.get(term) ?? 0;
+        if (df === 0) return 0;
+        const n = this.texts.size;
+        return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    }
+
+    private buildVectors(): Map<string, { vector: TermVector; norm: number }> {
+        if (this.vectors) return this.vectors;
+
+        const averageLength = this.totalLength / Math.max(1, this.texts.size);
+        const vectors = new Map<string, { vector: TermVector; norm: number }>();
+
+        this.terms.forEach((terms, id) => {
+            const length = documentLength(terms);
+            const vector: TermVector = new Map();
+            terms.forEach((tf, term) => {
+                const saturation = (tf * (BM25_K1 + 1)) /
+                    (tf + BM25_K1 * (1 - BM25_B + BM25_B * (length / Math.max(1, averageLength))));
+                vector.set(term, this.idf(term) * saturation);
+            });
+            vectors.set(id, { vector, norm: Math.hypot(...vector.values()) });
+        });
+
+        this.vectors = vectors;
+        return vectors;
+    }
+
+    private addTerms(id: string, text: string): void {
+        const terms = analyzeText(text);
+        this.texts.set(id, text);
+        this.terms.set(id, terms);
+        this.totalLength += documentLength(terms);
+        terms.forEach((_, term) => {
+            this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+        });
+        this.vectors = null;
+    }
+
+    private removeTerms(id: string): void {
+        const terms = this.terms.get(id);
+        if (!terms) return;
+
+        this.texts.delete(id);
+        this.terms.delete(id);
+        this.totalLength -= documentLength(terms);
+        terms.forEach((_, term) => {
+            const df = (this.documentFrequency.get(term) ?? 1) - 1;
+            if (df > 0) this.documentFrequency.set(term, df);
+            else this.documentFrequency.delete(term);
+        });
+        this.vectors = null;
+    }
+
+    private clear(): void {
+        this.texts = new Map();
+        this.terms = new Map();
+        this.documentFrequency = new Map();
+        this.totalLength = 0;
+        this.vectors = null;
+    }
+
+    private reanalyze(): void {
+        const texts = [...this.texts];
+        this.clear();
+        texts.forEach(([id, text]) => this.addTerms(id, text));
+    }
+}
+
+const documentLength = (terms: TermVector) =>
+    [...terms.values()].reduce((sum, tf) => sum + tf, 0);
@@ -0,0 +1,256 @@
+/**
+ * Café Finder: Synonym & Pattern Registry
+ * Persisted, admin-editable overrides for the synonym dictionary and
+ * intent patterns. Every change is pushed into the live lookups.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type {
+    CustomIntentPattern,
+    IntentType,
+    SearchDictionaryExport,
+    SynonymCategory,
+    SynonymDictionary,
+} from './types';
+import {
+    SYNONYM_CATEGORIES,
+    getDefaultSynonymDictionary,
+    setSynonymDictionary,
+} from './synonyms';
+import { INTENT_TYPES, compileIntentPattern, setCustomIntentPatterns } from './intentClassifier';
+
+// ============================================
+// STORE TYPES
+// ============================================
+
+type EditResult = { ok: true; warning?: string } | { ok: false; error: string };
+
+interface SynonymRegistryState {
+    /** Edited dictionary, or null to use the built-in one */
+    synonyms: SynonymDictionary | null;
+    intentPatterns: CustomIntentPattern[];
+
+    // Synonym actions
+    addTerm: (category: SynonymCategory, term: string) => EditResult;
+    removeTerm: (category: SynonymCategory, term: string) => void;
+    addSynonym: (category: SynonymCategory, term: string, synonym: string) => EditResult;
+    removeSynonym: (category: SynonymCategory, term: string, synonym: string) => void;
+
+    // Pattern actions
+    addIntentPattern: (intent: IntentType, pattern: string, keywords?: string[]) => EditResult;
+    removeIntentPattern: (id: string) => void;
+
+    // Import / export
+    exportDictionary: () => SearchDictionaryExport;
+    importDictionary: (json: string) => EditResult;
+    resetToDefaults: () => void;
+
+    // Getters
+    getDictionary: () => SynonymDictionary;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const normalizeTerm = (term: string) => term.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const INTENT_TYPE_SET = new Set<string>(INTENT_TYPES);
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Validate an imported file. Returns the parsed export, plus any categories
+ * the file left out, or an error message.
+ */
+function parseDictionaryExport(
+    json: string
+): { parsed: SearchDictionaryExport; missingCategories: SynonymCategory[] } | string {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        return 'File is not valid JSON';
+    }
+
+    if (!data || typeof data !== 'object') return 'Expected a JSON object';
+    const record = data as Record<string, unknown>;
+    const synonyms = record.synonyms as Record<string, unknown> | undefined;
+    if (!synonyms || typeof synonyms !== 'object') return 'Missing "synonyms"';
+
+    const dictionary = {} as SynonymDictionary;
+    const missingCategories: SynonymCategory[] = [];
+    for (const category of SYNONYM_CATEGORIES) {
+        if (synonyms[category] === undefined) missingCategories.push(category);
+        const group = synonyms[category] ?? {};
+        if (typeof group !== 'object' || group === null) return `"synonyms.${category}" must be an object`;
+
+        dictionary[category] = {};
+        for (const [term, values] of Object.entries(group)) {
+            if (!isStringArray(values)) return `Synonyms for "${term}" must be a list of strings`;
+            dictionary[category][normalizeTerm(term)] = values.map(normalizeTerm).filter(Boolean);
+        }
+    }
+
+    const rawPatterns = record.intentPatterns ?? [];
+    if (!Array.isArray(rawPatterns)) return '"intentPatterns" must be a list';
+
+    const intentPatterns: CustomIntentPattern[] = [];
+    for (const raw of rawPatterns as Array<Record<string, unknown>>) {
+        if (typeof raw?.intent !== 'string' || typeof raw.pattern !== 'string') {
+            return 'Each intent pattern needs an "intent" and a "pattern"';
+        }
+        if (!INTENT_TYPE_SET.has(raw.intent)) return `Unknown intent: ${raw.intent}`;
+        if (!compileIntentPattern(raw.pattern)) return `Invalid pattern: ${raw.pattern}`;
+        intentPatterns.push({
+            id: typeof raw.id === 'string' ? raw.id : `ip-${Date.now()}-${intentPatterns.length}`,
+            intent: raw.intent as IntentType,
+            pattern: raw.pattern,
+            keywords: isStringArray(raw.keywords) ? raw.keywords.map(normalizeTerm).filter(Boolean) : [],
+        });
+    }
+
+    return {
+        parsed: {
+            version: 1,
+            exportedAt: typeof record.exportedAt === 'string' ? record.exportedAt : new Date().toISOString(),
+            synonyms: dictionary,
+            intentPatterns,
+        },
+        missingCategories,
+    };
+}
+
+// ============================================
+// STORE IMPLEMENTATION
+// ============================================
+
+export const useSynonymRegistry = create<SynonymRegistryState>()(
+    persist(
+        (set, get) => {
+            // Copy-on-write edit of one category
+            const editCategory = (
+                category: SynonymCategory,
+                edit: (terms: Record<string, string[]>) => Record<string, string[]>
+            ) => {
+                const dictionary = get().getDictionary();
+                set({ synonyms: { ...dictionary, [category]: edit(dictionary[category]) } });
+            };
+
+            return {
+                synonyms: null,
+                intentPatterns: [],
+
+                addTerm: (category, term) => {
+                    const normalized = normalizeTerm(term);
+                    if (!normalized) return { ok: false, error: 'Term is empty' };
+                    if (get().getDictionary()[category][normalized]) {
+                        return { ok: false, error: `"${normalized}" already exists` };
+                    }
+                    editCategory(category, terms => ({ ...terms, [normalized]: [] }));
+                    return { ok: true };
+                },
+
+                removeTerm: (category, term) => {
+                    editCategory(category, terms => {
+                        const next = { ...terms };
+                        delete next[term];
+                        return next;
+                    });
+                },
+
+                addSynonym: (category, term, synonym) => {
+                    const normalized = normalizeTerm(synonym);
+                    if (!normalized) return { ok: false, error: 'Synonym is empty' };
+
+                    const existing = get().getDictionary()[category][term];
+                    if (!existing) return { ok: false, error: `Unknown term "${term}"` };
+                    if (normalized === term || existing.includes(normalized)) {
+                        return { ok: false, error: `"${normalized}" is already a synonym of "${term}"` };
+                    }
+
+                    editCategory(category, terms => ({ ...terms, [term]: [...existing, normalized] }));
+                    return { ok: true };
+                },
+
+                removeSynonym: (category, term, synonym) => {
+                    editCategory(category, terms => ({
+                        ...terms,
+                        [term]: (terms[term] ?? []).filter(s => s !== synonym),
+                    }));
+                },
+
+                addIntentPattern: (intent, pattern, keywords = []) => {
+                    if (!compileIntentPattern(pattern)) {
+                        return { ok: false, error: 'Pattern is not a valid regular expression' };
+                    }
+                    const custom: CustomIntentPattern = {
+                        id: `ip-${Date.now()}`,
+                        intent,
+                        pattern,
+                        keywords: keywords.map(normalizeTerm).filter(Boolean),
+                    };
+                    set(state => ({ intentPatterns: [...state.intentPatterns, custom] }));
+                    return { ok: true };
+                },
+
+                removeIntentPattern: (id) => {
+                    set(state => ({ intentPatterns: state.intentPatterns.filter(p => p.id !== id) }));
+                },
+
+                exportDictionary: () => ({
+                    version: 1,
+                    exportedAt: new Date().toISOString(),
+                    synonyms: get().getDictionary(),
+                    intentPatterns: get().intentPatterns,
+                }),
+
+                importDictionary: (json) => {
+                    const result = parseDictionaryExport(json);
+                    if (typeof result === 'string') return { ok: false, error: result };
+                    const { parsed, missingCategories } = result;
+                    set({ synonyms: parsed.synonyms, intentPatterns: parsed.intentPatterns });
+
+                    if (missingCategories.length === 0) return { ok: true };
+                    const warning = `File has no ${missingCategories.join(', ')} synonyms; those categories are now empty`;
+                    console.warn(`[CafeFinder] ${warning}`);
+                    return { ok: true, warning };
+                },
+
+                resetToDefaults: () => {
+                    set({ synonyms: null, intentPatterns: [] });
+                },
+
+                getDictionary: () => get().synonyms ?? getDefaultSynonymDictionary(),
+            };
+        },
+        {
+            name: 'cafe-search-dictionary',
+            partialize: (state) => ({
+                synonyms: state.synonyms,
+                intentPatterns: state.intentPatterns,
+            }),
+        }
+    )
+);
+
+// ============================================
+// LIVE SYNC
+// ============================================
+
+function applyRegistry(state: Pick<SynonymRegistryState, 'synonyms' | 'intentPatterns'>): void {
+    setSynonymDictionary(state.synonyms ?? getDefaultSynonymDictionary());
+    setCustomIntentPatterns(state.intentPatterns);
+}
+
+// Apply persisted edits on load, then every change after that
+applyRegistry(useSynonymRegistry.getState());
+
+useSynonymRegistry.subscribe((state, prev) => {
+    if (state.synonyms !== prev.synonyms || state.intentPatterns !== prev.intentPatterns) {
+        applyRegistry(state);
+    }
+});
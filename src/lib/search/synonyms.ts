@@ -3,6 +3,8 @@
  * Maps terms to their synonyms for query expansion
  */
 
+import type { SynonymCategory, SynonymDictionary } from './types';
+
 // ============================================
 // TOOL SYNONYMS
 // ============================================
@@ -64,6 +66,9 @@ export const TOPIC_SYNONYMS: Record<string, string[]> = {
     lop: ['love of product', 'product talk', 'presentation', 'session', 'demo day', 'showcase'],
     agile: ['scrum', 'kanban', 'sprint', 'standup', 'retrospective'],
     cicd: ['continuous integration', 'deployment', 'pipeline', 'build', 'release'],
+
+    // Business
+    budget: ['funding', 'financing', 'spend', 'cost', 'investment', 'capex', 'opex'],
 };
 
 // ============================================
@@ -127,25 +132,91 @@ export const TEAM_SYNONYMS: Record<string, string[]> = {
 /**
  * All synonyms combined for quick lookup
  */
-export const ALL_SYNONYMS: Record<string, string[]> = {
-    ...TOOL_SYNONYMS,
-    ...TOPIC_SYNONYMS,
-    ...ACTION_SYNONYMS,
-    ...RESOURCE_TYPE_SYNONYMS,
-    ...TEAM_SYNONYMS,
-};
+export const ALL_SYNONYMS: Record<string, string[]> = {};
 
 /**
  * Reverse lookup: given a synonym, find the canonical term
  */
 export const REVERSE_SYNONYMS: Record<string, string> = {};
 
-// Build reverse lookup
-Object.entries(ALL_SYNONYMS).forEach(([canonical, synonyms]) => {
-    synonyms.forEach(synonym => {
-        REVERSE_SYNONYMS[synonym.toLowerCase()] = canonical;
+/**
+ * The category maps by name. The registry edits these objects in place so
+ * existing imports keep seeing the current dictionary.
+ */
+const CATEGORY_MAPS: Record<SynonymCategory, Record<string, string[]>> = {
+    tool: TOOL_SYNONYMS,
+    topic: TOPIC_SYNONYMS,
+    action: ACTION_SYNONYMS,
+    resourceType: RESOURCE_TYPE_SYNONYMS,
+    team: TEAM_SYNONYMS,
+};
+
+export const SYNONYM_CATEGORIES = Object.keys(CATEGORY_MAPS) as SynonymCategory[];
+
+const cloneDictionary = (source: Record<SynonymCategory, Record<string, string[]>>): SynonymDictionary =>
+    Object.fromEntries(
+        SYNONYM_CATEGORIES.map(category => [
+            category,
+            Object.fromEntries(Object.entries(source[category]).map(([term, synonyms]) => [term, [...synonyms]])),
+        ])
+    ) as SynonymDictionary;
+
+// Built-in dictionary, captured before any runtime edits
+const DEFAULT_DICTIONARY = cloneDictionary(CATEGORY_MAPS);
+
+const replaceContents = <T>(target: Record<string, T>, source: Record<string, T>) => {
+    Object.keys(target).forEach(key => delete target[key]);
+    Object.assign(target, source);
+};
+
+// Build combined and reverse lookups
+function rebuildLookups(): void {
+    replaceContents(ALL_SYNONYMS, Object.assign({}, ...SYNONYM_CATEGORIES.map(c => CATEGORY_MAPS[c])));
+
+    const reverse: Record<string, string> = {};
+    Object.entries(ALL_SYNONYMS).forEach(([canonical, synonyms]) => {
+        synonyms.forEach(synonym => {
+            reverse[synonym.toLowerCase()] = canonical;
+        });
     });
-});
+    replaceContents(REVERSE_SYNONYMS, reverse);
+}
+
+rebuildLookups();
+
+const changeListeners = new Set<() => void>();
+
+/**
+ * Built-in synonym dictionary (a copy)
+ */
+export function getDefaultSynonymDictionary(): SynonymDictionary {
+    return cloneDictionary(DEFAULT_DICTIONARY);
+}
+
+/**
+ * Current synonym dictionary (a copy)
+ */
+export function getSynonymDictionary(): SynonymDictionary {
+    return cloneDictionary(CATEGORY_MAPS);
+}
+
+/**
+ * Replace the active dictionary and rebuild every lookup derived from it
+ */
+export function setSynonymDictionary(dictionary: SynonymDictionary): void {
+    const next = cloneDictionary(dictionary);
+    SYNONYM_CATEGORIES.forEach(category => replaceContents(CATEGORY_MAPS[category], next[category]));
+    rebuildLookups();
+    changeListeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to dictionary replacements. Returns an unsubscribe function.
+ */
+export function onSynonymsChange(listener: () => void): () => void {
+    changeListeners.add(listener);
+    return () => changeListeners.delete(listener);
+}
 
 /**
  * Get synonyms for a term
@@ -160,7 +231,7 @@ export function getSynonyms(term: string): string[] {
 
     // Reverse lookup (term is itself a synonym)
     const canonical = REVERSE_SYNONYMS[normalized];
-    if (canonical) {
+    if (canonical && ALL_SYNONYMS[canonical]) {
         return [canonical, ...ALL_SYNONYMS[canonical]];
     }
 
@@ -19,6 +19,8 @@ export interface SearchQuery {
     tokens: string[];
     /** Expanded tokens with synonyms */
     expandedTokens: string[];
+    /** Structured operators parsed out of the query (type:, tag:, -term, ...) */
+    filters: QueryFilter[];
     /** Detected entities in the query */
     entities: Entity[];
     /** Classified intent */
@@ -36,6 +38,30 @@ export interface SearchContext {
     currentTopics?: string[];
 }
 
+// ============================================
+// FILTER TYPES
+// ============================================
+
+/**
+ * Operator fields that take a free-text value
+ */
+export type QueryFilterTextField = 'team' | 'author' | 'tag';
+
+/**
+ * Operator fields that take an ISO date (YYYY-MM-DD)
+ */
+export type QueryFilterDateField = 'after' | 'before';
+
+/**
+ * A structured operator parsed from the query.
+ * `raw` is the exact text the operator came from, so it can be removed again.
+ */
+export type QueryFilter =
+    | { kind: 'type'; value: SearchResultType; negated: boolean; raw: string }
+    | { kind: QueryFilterTextField; value: string; negated: boolean; raw: string }
+    | { kind: QueryFilterDateField; value: string; raw: string }
+    | { kind: 'exclude'; value: string; raw: string };
+
 // ============================================
 // INTENT TYPES
 // ============================================
@@ -158,6 +184,8 @@ export interface BaseSearchResult {
     score: number;
     /** Individual score components for debugging */
     scoreBreakdown?: ScoreBreakdown;
+    /** Cosine similarity from the local semantic index, when it scored this result */
+    semanticScore?: number;
     /** Matched terms for highlighting */
     matchedTerms: string[];
 }
@@ -170,7 +198,8 @@ export type SearchResultType =
     | 'discussion'
     | 'lop_session'
     | 'pulse_signal'
-    | 'competitor';
+    | 'competitor'
+    | 'toast';
 
 /**
  * Score breakdown for transparency
@@ -182,6 +211,8 @@ export interface ScoreBreakdown {
     freshness: number;
     popularity: number;
     contextBoost: number;
+    /** Share of this query's past clicks that went to the result */
+    queryAffinity: number;
 }
 
 /**
@@ -302,6 +333,20 @@ export interface PulseSignalResult extends BaseSearchResult {
     isRead: boolean;
 }
 
+/**
+ * Toast-X recognition search result
+ */
+export interface ToastResult extends BaseSearchResult {
+    type: 'toast';
+    /** "Sam → Priya, Lee" */
+    title: string;
+    message: string;
+    giverName: string;
+    recipientNames: string[];
+    value: string;
+    createdAt: string;
+}
+
 /**
  * Competitor search result
  */
@@ -329,6 +374,21 @@ export type SearchResult =
     | PulseSignalResult
     | CompetitorResult;
 
+/**
+ * Search results grouped by result type
+ */
+export interface SearchResultGroups {
+    people: PersonResult[];
+    tools: ToolResult[];
+    faqs: FAQResult[];
+    resources: ResourceResult[];
+    discussions: DiscussionResult[];
+    lopSessions: LOPSessionResult[];
+    pulseSignals: PulseSignalResult[];
+    competitors: CompetitorResult[];
+    toasts: ToastResult[];
+}
+
 // ============================================
 // ANSWER TYPES
 // ============================================
@@ -402,14 +462,7 @@ export interface SearchResponse {
     /** Synthesized answer (if applicable) */
     answer?: SynthesizedAnswer;
     /** All search results, grouped by type */
-    results: {
-        people: PersonResult[];
-        tools: ToolResult[];
-        faqs: FAQResult[];
-        resources: ResourceResult[];
-        discussions: DiscussionResult[];
-        lopSessions: LOPSessionResult[];
-    };
+    results: SearchResultGroups;
     /** Total result count */
     totalCount: number;
     /** Search performance metrics */
@@ -436,10 +489,137 @@ export interface SearchMetrics {
     timestamp: string;
 }
 
+// ============================================
+// SEARCH ANALYTICS
+// ============================================
+
+/**
+ * A result the user opened from a search
+ */
+export interface SearchClick {
+    resultId: string;
+    resultType: SearchResultType;
+    /** 1-based position in the rendered result list */
+    position: number;
+    /** Milliseconds between the search and the click */
+    timeToClickMs: number;
+}
+
+/**
+ * One submitted search, as recorded for analytics
+ */
+export interface SearchLogEntry {
+    id: string;
+    query: string;
+    /** Lowercased, whitespace-collapsed query used for grouping */
+    normalizedQuery: string;
+    resultCount: number;
+    intent: IntentType;
+    timestamp: string;
+    clicks: SearchClick[];
+    /** Previous query when this search rephrased an unclicked one */
+    reformulatedFrom?: string;
+}
+
+/**
+ * Aggregated stats for one normalized query
+ */
+export interface QueryStats {
+    query: string;
+    searches: number;
+    /** Searches with at least one click */
+    clickedSearches: number;
+    /** clickedSearches / searches */
+    ctr: number;
+    avgResultCount: number;
+    avgClickPosition: number | null;
+    avgTimeToClickMs: number | null;
+    lastSearchedAt: string;
+}
+
+/**
+ * Dashboard-ready summary of the search log
+ */
+export interface SearchAnalyticsSummary {
+    totalSearches: number;
+    uniqueQueries: number;
+    zeroResultRate: number;
+    ctr: number;
+    avgTimeToClickMs: number | null;
+    reformulationRate: number;
+    topQueries: QueryStats[];
+    zeroResultQueries: QueryStats[];
+    lowCtrQueries: QueryStats[];
+    intentDistribution: Array<{ intent: IntentType; count: number; share: number }>;
+    reformulations: Array<{ from: string; to: string; count: number }>;
+}
+
+// ============================================
+// SAVED SEARCH TYPES
+// ============================================
+
+/**
+ * A named query (operators included) that is re-run as the index changes
+ */
+export interface SavedSearch {
+    id: string;
+    name: string;
+    /** Raw query, including operators like type:pulse or tag:epic */
+    query: string;
+    alertsEnabled: boolean;
+    createdAt: string;
+    lastRunAt: string;
+    /** documentKey(type, id) of every result seen so far */
+    seenKeys: string[];
+    /** Keys that matched since the user last opened the search */
+    unseenKeys: string[];
+}
+
+// ============================================
+// DICTIONARY TYPES
+// ============================================
+
+/**
+ * Synonym groups the dictionary is split into
+ */
+export type SynonymCategory = 'tool' | 'topic' | 'action' | 'resourceType' | 'team';
+
+/**
+ * Canonical term -> synonyms, per category
+ */
+export type SynonymDictionary = Record<SynonymCategory, Record<string, string[]>>;
+
+/**
+ * An intent pattern added at runtime, on top of the built-in ones
+ */
+export interface CustomIntentPattern {
+    id: string;
+    intent: IntentType;
+    /** RegExp source, matched case-insensitively */
+    pattern: string;
+    /** Extra keywords that count towards the intent */
+    keywords: string[];
+}
+
+/**
+ * JSON shape used to import and export the search dictionary
+ */
+export interface SearchDictionaryExport {
+    version: 1;
+    exportedAt: string;
+    synonyms: SynonymDictionary;
+    intentPatterns: CustomIntentPattern[];
+}
+
 // ============================================
 // CONFIGURATION
 // ============================================
 
+/**
+ * Weight of each ScoreBreakdown feature in the final score
+ */
+export type RankingWeights = Record<keyof ScoreBreakdown, number>;
+
 /**
  * Search configuration
  */
@@ -457,14 +637,7 @@ export interface SearchConfig {
     /** Enable answer synthesis */
     answerSynthesis: boolean;
     /** Score weights */
-    weights: {
-        intentMatch: number;
-        semanticScore: number;
-        keywordScore: number;
-        freshness: number;
-        popularity: number;
-        contextBoost: number;
-    };
+    weights: RankingWeights;
 }
 
 /**
@@ -484,5 +657,6 @@ export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
         freshness: 0.10,
         popularity: 0.10,
         contextBoost: 0.05,
+        queryAffinity: 0.15,
     },
 };
@@ -1,75 +1,124 @@
 import type { Resource, FAQ, Person } from '../types';
-import { mockResources, mockFAQs, mockPeople, searchResources, searchFAQs, searchPeople } from '../data/mockData';
+import {
+    getDataSource,
+    type DataResult,
+    type EntityKind,
+    type EntityMap,
+    type FeedbackEvent,
+    type ListQuery,
+    type Page,
+} from './dataSource';
+import { useOutboxStore } from '../stores/outboxStore';
+import { useRankingFeedback } from '../lib/search/rankingFeedback';
 
 /**
  * API Service Layer
  * 
  * This module provides a unified interface for data fetching.
- * Currently uses mock data but designed for easy swap to:
- * - SharePoint Lists via Microsoft Graph API
- * - tRPC API
- * - REST API
+ * Every call goes through the active DataSource adapter (see ./dataSource):
+ * - Mock data (default)
+ * - Any REST/JSON backend (VITE_DATA_SOURCE=rest)
+ * - SharePoint / tRPC by adding an adapter
  * 
- * All methods return Promises to simulate async behavior.
+ * Failed requests are logged and resolve to an empty value so the UI keeps
+ * rendering. Use getDataSource() directly for the typed error result.
  */
 
-// Simulated network delay
+// Simulated delay for the local (localStorage-backed) APIs below
 const MOCK_DELAY = 100;
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Safety cap when collecting every page of a list
+const MAX_PAGES = 20;
+
+function unwrap<T>(result: DataResult<T>, fallback: T, label: string): T {
+    if (result.ok) return result.data;
+    console.warn(`[API] ${label} failed (${result.error.code}): ${result.error.message}`);
+    return fallback;
+}
+
+async function listAll<K extends EntityKind>(kind: K, query: ListQuery = {}): Promise<EntityMap[K][]> {
+    const items: EntityMap[K][] = [];
+    for (let page = 1; page <= MAX_PAGES; page++) {
+        const result = await getDataSource().list(kind, { ...query, page });
+        const data = unwrap<Page<EntityMap[K]> | null>(result, null, `list ${kind}`);
+        if (!data) break;
+        items.push(...data.items);
+        if (!data.hasMore) break;
+    }
+    return items;
+}
+
+async function searchAllOf<K extends EntityKind>(kind: K, query: string): Promise<EntityMap[K][]> {
+    const result = await getDataSource().search(kind, query);
+    return unwrap(result, null, `search ${kind}`)?.items ?? [];
+}
+
+const RESULT_TYPES = { resources: 'resource', faqs: 'faq', people: 'person' } as const;
+
+// Feedback goes through the outbox so it survives being offline
+function queueFeedback(event: FeedbackEvent): void {
+    if (event.type === 'helpful') {
+        // Votes also feed search ranking locally
+        useRankingFeedback.getState().recordVote(RESULT_TYPES[event.kind], event.id, event.helpful);
+    }
+    useOutboxStore.getState().enqueue({
+        type: event.type === 'view' ? 'feedback.view' : 'feedback.helpful',
+        entityType: event.kind,
+        entityId: event.id,
+        payload: event,
+    });
+}
+
+async function getOne<K extends EntityKind>(kind: K, id: string): Promise<EntityMap[K] | null> {
+    return unwrap(await getDataSource().get(kind, id), null, `get ${kind}/${id}`);
+}
+
 // ========================================
 // RESOURCES API
 // ========================================
 
 export const resourcesApi = {
     getAll: async (): Promise<Resource[]> => {
-        await delay(MOCK_DELAY);
-        return mockResources.filter(r => !r.isArchived);
+        return listAll('resources', { filter: { isArchived: false } });
     },
 
     getById: async (id: string): Promise<Resource | null> => {
-        await delay(MOCK_DELAY);
-        return mockResources.find(r => r.id === id) ?? null;
+        return getOne('resources', id);
     },
 
     getByCategory: async (category: string): Promise<Resource[]> => {
-        await delay(MOCK_DELAY);
-        return mockResources.filter(r => r.category === category && !r.isArchived);
+        return listAll('resources', { filter: { category, isArchived: false } });
     },
 
     getByPillar: async (pillar: string): Promise<Resource[]> => {
-        await delay(MOCK_DELAY);
-        return mockResources.filter(r => r.pillar === pillar && !r.isArchived);
+        return listAll('resources', { filter: { pillar, isArchived: false } });
     },
 
     getFeatured: async (): Promise<Resource[]> => {
-        await delay(MOCK_DELAY);
-        return mockResources.filter(r => r.isFeatured && !r.isArchived);
+        return listAll('resources', { filter: { isFeatured: true, isArchived: false } });
     },
 
     getRecent: async (limit: number = 10): Promise<Resource[]> => {
-        await delay(MOCK_DELAY);
-        return mockResources
-            .filter(r => !r.isArchived)
-            .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
-            .slice(0, limit);
+        const result = await getDataSource().list('resources', {
+            filter: { isArchived: false },
+            sort: { field: 'updatedAt', direction: 'desc' },
+            pageSize: limit,
+        });
+        return unwrap(result, null, 'recent resources')?.items ?? [];
     },
 
     search: async (query: string): Promise<Resource[]> => {
-        await delay(MOCK_DELAY);
-        return searchResources(query);
+        return searchAllOf('resources', query);
     },
 
     trackView: async (id: string): Promise<void> => {
-        await delay(MOCK_DELAY / 2);
-        // In production: POST to analytics endpoint
-        console.log(`[Analytics] Resource viewed: ${id}`);
+        queueFeedback({ type: 'view', kind: 'resources', id });
     },
 
     markHelpful: async (id: string, helpful: boolean): Promise<void> => {
-        await delay(MOCK_DELAY / 2);
-        console.log(`[Analytics] Resource ${id} marked ${helpful ? 'helpful' : 'not helpful'}`);
+        queueFeedback({ type: 'helpful', kind: 'resources', id, helpful });
     },
 };
 
@@ -79,28 +128,23 @@ export const resourcesApi = {
 
 export const faqsApi = {
     getAll: async (): Promise<FAQ[]> => {
-        await delay(MOCK_DELAY);
-        return mockFAQs;
+        return listAll('faqs');
     },
 
     getById: async (id: string): Promise<FAQ | null> => {
-        await delay(MOCK_DELAY);
-        return mockFAQs.find(f => f.id === id) ?? null;
+        return getOne('faqs', id);
     },
 
     getByCategory: async (category: string): Promise<FAQ[]> => {
-        await delay(MOCK_DELAY);
-        return mockFAQs.filter(f => f.category === category);
+        return listAll('faqs', { filter: { category } });
     },
 
     search: async (query: string): Promise<FAQ[]> => {
-        await delay(MOCK_DELAY);
-        return searchFAQs(query);
+        return searchAllOf('faqs', query);
     },
 
     markHelpful: async (id: string, helpful: boolean): Promise<void> => {
-        await delay(MOCK_DELAY / 2);
-        console.log(`[Analytics] FAQ ${id} marked ${helpful ? 'helpful' : 'not helpful'}`);
+        queueFeedback({ type: 'helpful', kind: 'faqs', id, helpful });
     },
 };
 
@@ -110,26 +154,19 @@ export const faqsApi = {
 
 export const peopleApi = {
     getAll: async (): Promise<Person[]> => {
-        await delay(MOCK_DELAY);
-        return mockPeople.filter(p => p.isActive);
+        return listAll('people', { filter: { isActive: true } });
     },
 
     getById: async (id: string): Promise<Person | null> => {
-        await delay(MOCK_DELAY);
-        return mockPeople.find(p => p.id === id) ?? null;
+        return getOne('people', id);
     },
 
     getByExpertise: async (expertise: string): Promise<Person[]> => {
-        await delay(MOCK_DELAY);
-        const term = expertise.toLowerCase();
-        return mockPeople.filter(p =>
-            p.isActive && p.expertiseAreas.some(area => area.toLowerCase().includes(term))
-        );
+        return listAll('people', { filter: { isActive: true, expertiseAreas: expertise } });
     },
 
     search: async (query: string): Promise<Person[]> => {
-        await delay(MOCK_DELAY);
-        return searchPeople(query);
+        return searchAllOf('people', query);
     },
 };
 
@@ -148,11 +185,11 @@ export interface UniversalSearchResult {
 
 export const searchApi = {
     universalSearch: async (query: string): Promise<UniversalSearchResult> => {
-        await delay(MOCK_DELAY);
-
-        const resources = searchResources(query);
-        const faqs = searchFAQs(query);
-        const people = searchPeople(query);
+        const [resources, faqs, people] = await Promise.all([
+            searchAllOf('resources', query),
+            searchAllOf('faqs', query),
+            searchAllOf('people', query),
+        ]);
 
         return {
             resources,
@@ -169,12 +206,17 @@ export const searchApi = {
         faqs: FAQ[];
         people: Person[];
     }> => {
-        await delay(MOCK_DELAY / 2);
+        const source = getDataSource();
+        const [resources, faqs, people] = await Promise.all([
+            source.search('resources', query, { pageSize: limit }),
+            source.search('faqs', query, { pageSize: limit }),
+            source.search('people', query, { pageSize: limit }),
+        ]);
 
         return {
-            resources: searchResources(query).slice(0, limit),
-            faqs: searchFAQs(query).slice(0, limit),
-            people: searchPeople(query).slice(0, limit),
+            resources: unwrap(resources, null, 'quick search resources')?.items ?? [],
+            faqs: unwrap(faqs, null, 'quick search faqs')?.items ?? [],
+            people: unwrap(people, null, 'quick search people')?.items ?? [],
         };
     },
 };
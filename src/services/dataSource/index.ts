@@ -0,0 +1,58 @@
+import { createMockDataSource } from './mockDataSource';
+import { createRestDataSource } from './restDataSource';
+import type { DataSource, DataSourceConfig } from './types';
+
+/**
+ * Data Source Selection
+ *
+ * The active adapter is chosen once at startup from Vite env:
+ *   VITE_DATA_SOURCE=rest
+ *   VITE_API_BASE_URL=https://cafe-api.example.com/v1
+ *   VITE_API_TOKEN=...            (optional, sent as a Bearer token)
+ *
+ * Anything else (or a missing base URL) falls back to mock data.
+ * Call configureDataSource() before the first request to override.
+ */
+
+export function createDataSource(config: DataSourceConfig): DataSource {
+    switch (config.type) {
+        case 'rest':
+            return createRestDataSource(config);
+        case 'mock':
+        default:
+            return createMockDataSource(config.delayMs);
+    }
+}
+
+export function configFromEnv(env: Record<string, string | undefined> = import.meta.env): DataSourceConfig {
+    const baseUrl = env.VITE_API_BASE_URL;
+    if (env.VITE_DATA_SOURCE === 'rest' && baseUrl) {
+        return {
+            type: 'rest',
+            baseUrl,
+            headers: env.VITE_API_TOKEN ? { Authorization: `Bearer ${env.VITE_API_TOKEN}` } : undefined,
+        };
+    }
+    if (env.VITE_DATA_SOURCE === 'rest') {
+        console.warn('[DataSource] VITE_DATA_SOURCE=rest needs VITE_API_BASE_URL. Using mock data.');
+    }
+    return { type: 'mock' };
+}
+
+let activeSource: DataSource | null = null;
+
+export function configureDataSource(config: DataSourceConfig): DataSource {
+    activeSource = createDataSource(config);
+    return activeSource;
+}
+
+export function getDataSource(): DataSource {
+    if (!activeSource) {
+        activeSource = createDataSource(configFromEnv());
+    }
+    return activeSource;
+}
+
+export { createMockDataSource } from './mockDataSource';
+export { createRestDataSource } from './restDataSource';
+export * from './types';
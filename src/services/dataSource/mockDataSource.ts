@@ -0,0 +1,111 @@
+import { mockResources, mockFAQs, mockPeople, searchResources, searchFAQs, searchPeople } from '../../data/mockData';
+import {
+    DEFAULT_PAGE_SIZE,
+    type DataSource,
+    type EntityKind,
+    type EntityMap,
+    type FilterValue,
+    type ListQuery,
+    type Page,
+    type PageRequest,
+} from './types';
+
+/**
+ * Mock Data Source
+ *
+ * Serves the bundled mock data with a simulated network delay.
+ * Never fails, so the app behaves exactly as before adapters existed.
+ */
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const COLLECTIONS: { [K in EntityKind]: () => EntityMap[K][] } = {
+    resources: () => mockResources,
+    faqs: () => mockFAQs,
+    people: () => mockPeople,
+};
+
+const SEARCHERS: { [K in EntityKind]: (text: string) => EntityMap[K][] } = {
+    resources: searchResources,
+    faqs: searchFAQs,
+    people: searchPeople,
+};
+
+export function matchesFilter(item: object, filter: Record<string, FilterValue> = {}): boolean {
+    const record = item as Record<string, unknown>;
+    return Object.entries(filter).every(([field, expected]) => {
+        const actual = record[field];
+        if (Array.isArray(actual)) {
+            const needle = String(expected).toLowerCase();
+            return actual.some(v => String(v).toLowerCase().includes(needle));
+        }
+        return actual === expected;
+    });
+}
+
+function compareBy(field: string, direction: 'asc' | 'desc') {
+    const sign = direction === 'asc' ? 1 : -1;
+    return (a: object, b: object): number => {
+        const av = (a as Record<string, unknown>)[field];
+        const bv = (b as Record<string, unknown>)[field];
+        if (av === bv) return 0;
+        if (av === undefined) return 1;
+        if (bv === undefined) return -1;
+        return (String(av) < String(bv) ? -1 : 1) * sign;
+    };
+}
+
+export function paginate<T>(items: T[], paging: PageRequest = {}): Page<T> {
+    const page = Math.max(1, paging.page ?? 1);
+    const pageSize = Math.max(1, paging.pageSize ?? DEFAULT_PAGE_SIZE);
+    const start = (page - 1) * pageSize;
+    return {
+        items: items.slice(start, start + pageSize),
+        page,
+        pageSize,
+        total: items.length,
+        hasMore: start + pageSize < items.length,
+    };
+}
+
+export function createMockDataSource(delayMs = 100): DataSource {
+    return {
+        name: 'mock',
+
+        async list<K extends EntityKind>(kind: K, query: ListQuery = {}) {
+            await delay(delayMs);
+            let items = COLLECTIONS[kind]().filter(item => matchesFilter(item, query.filter));
+            if (query.sort) {
+                items = [...items].sort(compareBy(query.sort.field, query.sort.direction));
+            }
+            return { ok: true as const, data: paginate(items, query) };
+        },
+
+        async get<K extends EntityKind>(kind: K, id: string) {
+            await delay(delayMs);
+            const item = COLLECTIONS[kind]().find(i => i.id === id) ?? null;
+            return { ok: true as const, data: item };
+        },
+
+        async search<K extends EntityKind>(kind: K, text: string, paging?: PageRequest) {
+            await delay(delayMs);
+            return { ok: true as const, data: paginate(SEARCHERS[kind](text), paging) };
+        },
+
+        async sendFeedback(event) {
+            await delay(delayMs / 2);
+            if (event.type === 'view') {
+                console.log(`[Analytics] ${event.kind} viewed: ${event.id}`);
+            } else {
+                console.log(`[Analytics] ${event.kind} ${event.id} marked ${event.helpful ? 'helpful' : 'not helpful'}`);
+            }
+            return { ok: true as const, data: undefined };
+        },
+
+        async submitMutation(mutation) {
+            await delay(delayMs);
+            console.log(`[MockDataSource] Accepted ${mutation.type} for ${mutation.entityType}/${mutation.entityId}`);
+            return { ok: true as const, data: { idempotencyKey: mutation.idempotencyKey } };
+        },
+    };
+}
@@ -0,0 +1,216 @@
+import {
+    DEFAULT_PAGE_SIZE,
+    type DataResult,
+    type DataSource,
+    type DataSourceError,
+    type DataSourceErrorCode,
+    type EntityKind,
+    type EntityMap,
+    type ListQuery,
+    type MutationAck,
+    type Page,
+    type PageRequest,
+} from './types';
+
+/**
+ * REST/JSON Data Source
+ *
+ * Talks to any backend exposing:
+ *   GET  {baseUrl}/{kind}?page=&pageSize=&sort=field:asc&filter.{field}=value
+ *   GET  {baseUrl}/{kind}/{id}
+ *   GET  {baseUrl}/{kind}/search?q=&page=&pageSize=
+ *   POST {baseUrl}/feedback
+ *   POST {baseUrl}/mutations          (Idempotency-Key header; 409 body `{ current }`)
+ *
+ * List and search responses are `{ items, total, page?, pageSize? }`.
+ * GET responses are cached by URL and revalidated with If-None-Match.
+ */
+
+interface RestConfig {
+    baseUrl: string;
+    headers?: Record<string, string>;
+    timeoutMs?: number;
+    fetchImpl?: typeof fetch;
+}
+
+interface CachedResponse {
+    etag: string;
+    body: unknown;
+}
+
+interface PageBody<T> {
+    items: T[];
+    total?: number;
+    page?: number;
+    pageSize?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+function errorFor(code: DataSourceErrorCode, message: string, status?: number): DataSourceError {
+    const retryable = code === 'network' || code === 'timeout' || code === 'rate_limited' || code === 'server';
+    return { code, message, status, retryable };
+}
+
+function errorForStatus(status: number): DataSourceError {
+    if (status === 401 || status === 403) return errorFor('unauthorized', 'Not authorized', status);
+    if (status === 404) return errorFor('not_found', 'Not found', status);
+    if (status === 429) return errorFor('rate_limited', 'Rate limited', status);
+    if (status >= 500) return errorFor('server', `Server error (${status})`, status);
+    return errorFor('unknown', `Unexpected response (${status})`, status);
+}
+
+function isPageBody<T>(body: unknown): body is PageBody<T> {
+    return typeof body === 'object' && body !== null && Array.isArray((body as PageBody<T>).items);
+}
+
+function toPage<T>(body: PageBody<T>, paging: PageRequest): Page<T> {
+    const page = body.page ?? paging.page ?? 1;
+    const pageSize = body.pageSize ?? paging.pageSize ?? DEFAULT_PAGE_SIZE;
+    const total = body.total ?? body.items.length;
+    return {
+        items: body.items,
+        page,
+        pageSize,
+        total,
+        hasMore: page * pageSize < total,
+    };
+}
+
+function pagingParams(paging: PageRequest = {}): URLSearchParams {
+    const params = new URLSearchParams();
+    params.set('page', String(paging.page ?? 1));
+    params.set('pageSize', String(paging.pageSize ?? DEFAULT_PAGE_SIZE));
+    return params;
+}
+
+export function createRestDataSource(config: RestConfig): DataSource {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+    const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const doFetch = config.fetchImpl ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+    const cache = new Map<string, CachedResponse>();
+
+    async function request(url: string, init: RequestInit = {}): Promise<DataResult<unknown>> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        const isGet = !init.method || init.method === 'GET';
+        const cached = isGet ? cache.get(url) : undefined;
+
+        try {
+            const response = await doFetch(url, {
+                ...init,
+                signal: controller.signal,
+                headers: {
+                    Accept: 'application/json',
+                    ...config.headers,
+                    ...(cached ? { 'If-None-Match': cached.etag } : {}),
+                    ...(init.headers as Record<string, string> | undefined),
+                },
+            });
+
+            if (response.status === 304 && cached) {
+                return { ok: true, data: cached.body, fromCache: true };
+            }
+            if (response.status === 409) {
+                const conflict = errorFor('conflict', 'Server has a newer version', 409);
+                try {
+                    const body = await response.json() as { current?: unknown };
+                    conflict.serverVersion = body.current;
+                } catch {
+                    // Conflict without a body: the caller resolves without server data
+                }
+                return { ok: false, error: conflict };
+            }
+            if (!response.ok) {
+                return { ok: false, error: errorForStatus(response.status) };
+            }
+            if (response.status === 204) {
+                return { ok: true, data: undefined };
+            }
+
+            let body: unknown;
+            try {
+                body = await response.json();
+            } catch {
+                return { ok: false, error: errorFor('bad_response', 'Response was not valid JSON', response.status) };
+            }
+
+            const etag = response.headers.get('ETag');
+            if (isGet && etag) {
+                cache.set(url, { etag, body });
+            }
+            return { ok: true, data: body };
+        } catch (error) {
+            if (controller.signal.aborted) {
+                return { ok: false, error: errorFor('timeout', `Request timed out after ${timeoutMs}ms`) };
+            }
+            return {
+                ok: false,
+                error: errorFor('network', error instanceof Error ? error.message : 'Network request failed'),
+            };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    async function requestPage<T>(url: string, paging: PageRequest): Promise<DataResult<Page<T>>> {
+        const result = await request(url);
+        if (!result.ok) return result;
+        if (!isPageBody<T>(result.data)) {
+            return { ok: false, error: errorFor('bad_response', 'Expected a paged response with an items array') };
+        }
+        return { ok: true, data: toPage(result.data, paging), fromCache: result.fromCache };
+    }
+
+    return {
+        name: 'rest',
+
+        list<K extends EntityKind>(kind: K, query: ListQuery = {}) {
+            const params = pagingParams(query);
+            if (query.sort) {
+                params.set('sort', `${query.sort.field}:${query.sort.direction}`);
+            }
+            Object.entries(query.filter ?? {}).forEach(([field, value]) => {
+                params.set(`filter.${field}`, String(value));
+            });
+            return requestPage<EntityMap[K]>(`${baseUrl}/${kind}?${params}`, query);
+        },
+
+        async get<K extends EntityKind>(kind: K, id: string): Promise<DataResult<EntityMap[K] | null>> {
+            const result = await request(`${baseUrl}/${kind}/${encodeURIComponent(id)}`);
+            if (!result.ok) {
+                return result.error.code === 'not_found' ? { ok: true, data: null } : result;
+            }
+            return { ok: true, data: result.data as EntityMap[K], fromCache: result.fromCache };
+        },
+
+        search<K extends EntityKind>(kind: K, text: string, paging: PageRequest = {}) {
+            const params = pagingParams(paging);
+            params.set('q', text);
+            return requestPage<EntityMap[K]>(`${baseUrl}/${kind}/search?${params}`, paging);
+        },
+
+        async sendFeedback(event) {
+            const result = await request(`${baseUrl}/feedback`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...event, timestamp: new Date().toISOString() }),
+            });
+            return result.ok ? { ok: true, data: undefined } : result;
+        },
+
+        async submitMutation(mutation): Promise<DataResult<MutationAck>> {
+            const result = await request(`${baseUrl}/mutations`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Idempotency-Key': mutation.idempotencyKey,
+                },
+                body: JSON.stringify(mutation),
+            });
+            if (!result.ok) return result;
+            const body = (result.data ?? {}) as { entity?: unknown };
+            return { ok: true, data: { idempotencyKey: mutation.idempotencyKey, serverVersion: body.entity } };
+        },
+    };
+}
@@ -0,0 +1,137 @@
+import type { Resource, FAQ, Person } from '../../types';
+
+/**
+ * Data Source Types
+ *
+ * A DataSource is the single seam between the app and wherever content
+ * lives (mock data, our REST backend, SharePoint, ...). Every call resolves
+ * to a DataResult instead of throwing, so callers decide how to degrade.
+ */
+
+// ========================================
+// ENTITIES
+// ========================================
+
+export interface EntityMap {
+    resources: Resource;
+    faqs: FAQ;
+    people: Person;
+}
+
+export type EntityKind = keyof EntityMap;
+
+// ========================================
+// PAGING & QUERIES
+// ========================================
+
+export interface PageRequest {
+    /** 1-based page number */
+    page?: number;
+    pageSize?: number;
+}
+
+export interface Page<T> {
+    items: T[];
+    page: number;
+    pageSize: number;
+    total: number;
+    hasMore: boolean;
+}
+
+export type FilterValue = string | number | boolean;
+
+export interface ListQuery extends PageRequest {
+    /**
+     * Field equality filters. Array fields match when any element
+     * contains the value (case-insensitive).
+     */
+    filter?: Record<string, FilterValue>;
+    sort?: { field: string; direction: 'asc' | 'desc' };
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+// ========================================
+// FEEDBACK
+// ========================================
+
+export type FeedbackEvent =
+    | { type: 'view'; kind: EntityKind; id: string }
+    | { type: 'helpful'; kind: EntityKind; id: string; helpful: boolean };
+
+// ========================================
+// MUTATIONS
+// ========================================
+
+/**
+ * A user change replayed to the backend from the offline outbox.
+ * The idempotency key lets the server drop duplicate deliveries.
+ */
+export interface MutationRequest {
+    idempotencyKey: string;
+    type: string;
+    entityType: string;
+    entityId: string;
+    payload: unknown;
+    /** When the user made the change (ISO) */
+    createdAt: string;
+}
+
+export interface MutationAck {
+    idempotencyKey: string;
+    /** The entity as stored by the server, if it returned one */
+    serverVersion?: unknown;
+}
+
+// ========================================
+// RESULTS
+// ========================================
+
+export type DataSourceErrorCode =
+    | 'network'       // fetch failed or was aborted
+    | 'timeout'
+    | 'unauthorized'  // 401 / 403
+    | 'not_found'
+    | 'rate_limited'  // 429
+    | 'conflict'      // 409, serverVersion holds the current entity
+    | 'server'        // 5xx
+    | 'bad_response'  // unparseable or wrong shape
+    | 'unknown';
+
+export interface DataSourceError {
+    code: DataSourceErrorCode;
+    message: string;
+    status?: number;
+    retryable: boolean;
+    /** Server's copy of the entity, for conflict resolution */
+    serverVersion?: unknown;
+}
+
+export type DataResult<T> =
+    | { ok: true; data: T; fromCache?: boolean }
+    | { ok: false; error: DataSourceError };
+
+// ========================================
+// ADAPTER CONTRACT
+// ========================================
+
+export interface DataSource {
+    /** Adapter name, for logging */
+    readonly name: string;
+
+    list<K extends EntityKind>(kind: K, query?: ListQuery): Promise<DataResult<Page<EntityMap[K]>>>;
+    get<K extends EntityKind>(kind: K, id: string): Promise<DataResult<EntityMap[K] | null>>;
+    search<K extends EntityKind>(kind: K, text: string, paging?: PageRequest): Promise<DataResult<Page<EntityMap[K]>>>;
+    sendFeedback(event: FeedbackEvent): Promise<DataResult<void>>;
+    submitMutation(mutation: MutationRequest): Promise<DataResult<MutationAck>>;
+}
+
+export type DataSourceConfig =
+    | { type: 'mock'; delayMs?: number }
+    | {
+        type: 'rest';
+        baseUrl: string;
+        headers?: Record<string, string>;
+        timeoutMs?: number;
+        fetchImpl?: typeof fetch;
+    };
@@ -0,0 +1,79 @@
+import { collectStream, errorForException, errorForStatus, llmError } from './http';
+import type { LLMProvider, LLMRequest, LLMResult } from './types';
+
+/**
+ * Gemini Adapter
+ *
+ * Streams from Google's `streamGenerateContent` endpoint. System messages
+ * become the `systemInstruction`; assistant turns map to the `model` role.
+ */
+
+interface GeminiConfig {
+    apiKey: string;
+    model?: string;
+    fetchImpl?: typeof fetch;
+}
+
+interface GeminiChunk {
+    candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export function createGeminiProvider(config: GeminiConfig): LLMProvider {
+    const model = config.model || DEFAULT_GEMINI_MODEL;
+    const doFetch = config.fetchImpl ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+    return {
+        name: 'Gemini',
+        model,
+
+        isConfigured: () => config.apiKey.length > 0,
+
+        async complete(request: LLMRequest): Promise<LLMResult> {
+            if (!config.apiKey) {
+                return { ok: false, error: llmError('not_configured', 'Add a Gemini API key to use Gemini') };
+            }
+
+            const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+            const contents = request.messages
+                .filter(m => m.role !== 'system')
+                .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+            try {
+                const response = await doFetch(
+                    `${GEMINI_BASE_URL}/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`,
+                    {
+                        method: 'POST',
+                        signal: request.signal,
+                        headers: {
+                            'Content-Type': 'application/json',
+                            'x-goog-api-key': config.apiKey,
+                        },
+                        body: JSON.stringify({
+                            ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+                            contents,
+                            generationConfig: {
+                                temperature: request.temperature ?? 0.7,
+                                topK: 40,
+                                topP: 0.95,
+                                maxOutputTokens: request.maxTokens ?? 1024,
+                            },
+                        }),
+                    }
+                );
+                if (!response.ok) return { ok: false, error: errorForStatus(response.status) };
+
+                return await collectStream(
+                    response,
+                    (chunk) => (chunk as GeminiChunk).candidates?.[0]?.content?.parts?.map(p => p.text ?? '').join(''),
+                    request.onToken
+                );
+            } catch (error) {
+                return { ok: false, error: errorForException(error) };
+            }
+        },
+    };
+}
@@ -0,0 +1,73 @@
+import type { LLMError, LLMErrorCode, LLMResult } from './types';
+
+/**
+ * Shared HTTP helpers for the LLM adapters: status mapping and a reader for
+ * `text/event-stream` responses.
+ */
+
+export function llmError(code: LLMErrorCode, message: string, status?: number): LLMError {
+    return { code, message, status };
+}
+
+export function errorForStatus(status: number): LLMError {
+    if (status === 401 || status === 403) return llmError('unauthorized', 'Not authorized', status);
+    if (status === 429) return llmError('rate_limited', 'Rate limited', status);
+    return llmError('server', `Model server error (${status})`, status);
+}
+
+export function errorForException(error: unknown): LLMError {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+        return llmError('aborted', 'Request cancelled');
+    }
+    return llmError('network', error instanceof Error ? error.message : 'Request failed');
+}
+
+/**
+ * Yield the `data:` payload of each server-sent event until the stream ends
+ * or the server sends `[DONE]`.
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+
+        const lines = buffer.split(/\r?\n/);
+        buffer = done ? '' : lines.pop() ?? '';
+        for (const line of lines) {
+            if (!line.startsWith('data:')) continue;
+            const data = line.slice(5).trim();
+            if (data === '[DONE]') return;
+            if (data) yield data;
+        }
+        if (done) return;
+    }
+}
+
+/**
+ * Stream a response, pulling text out of each event with `extract`, and
+ * report every chunk to `onToken`.
+ */
+export async function collectStream(
+    response: Response,
+    extract: (event: unknown) => string | undefined,
+    onToken?: (token: string) => void
+): Promise<LLMResult> {
+    let text = '';
+    for await (const data of readEventStream(response)) {
+        let token: string | undefined;
+        try {
+            token = extract(JSON.parse(data));
+        } catch {
+            continue; // Keep-alives and partial frames
+        }
+        if (!token) continue;
+        text += token;
+        onToken?.(token);
+    }
+    return text ? { ok: true, text } : { ok: false, error: llmError('empty_response', 'Model returned no text') };
+}
@@ -0,0 +1,69 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createStubProvider } from './stubProvider';
+import type { LLMConfig, LLMProvider } from './types';
+
+/**
+ * LLM Provider Selection
+ *
+ * Build-time defaults come from Vite env:
+ *   VITE_LLM_PROVIDER=openai-compatible | gemini | stub
+ *   VITE_LLM_BASE_URL=http://localhost:11434   (openai-compatible only)
+ *   VITE_LLM_MODEL=llama3.1                    (optional)
+ *   VITE_LLM_API_KEY=...                       (optional for local servers)
+ *   VITE_GEMINI_API_KEY=...                    (implies gemini when no provider is set)
+ *
+ * Without any of these no model is configured and callers should use their
+ * deterministic fallback. Call configureLLMProvider() to switch at runtime.
+ */
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+    switch (config.type) {
+        case 'gemini':
+            return createGeminiProvider(config);
+        case 'openai-compatible':
+            return createOpenAICompatibleProvider(config);
+        case 'stub':
+        default:
+            return createStubProvider(config);
+    }
+}
+
+export function configFromEnv(env: Record<string, string | undefined> = import.meta.env): LLMConfig | null {
+    const provider = env.VITE_LLM_PROVIDER ?? (env.VITE_GEMINI_API_KEY ? 'gemini' : undefined);
+    const model = env.VITE_LLM_MODEL || undefined;
+
+    switch (provider) {
+        case 'gemini':
+            return { type: 'gemini', apiKey: env.VITE_LLM_API_KEY || env.VITE_GEMINI_API_KEY || '', model };
+        case 'openai-compatible':
+            if (!env.VITE_LLM_BASE_URL) {
+                console.warn('[LLM] VITE_LLM_PROVIDER=openai-compatible needs VITE_LLM_BASE_URL.');
+                return null;
+            }
+            return { type: 'openai-compatible', baseUrl: env.VITE_LLM_BASE_URL, apiKey: env.VITE_LLM_API_KEY, model };
+        case 'stub':
+            return { type: 'stub' };
+        default:
+            return null;
+    }
+}
+
+let activeProvider: LLMProvider | null | undefined;
+
+export function configureLLMProvider(config: LLMConfig | null): LLMProvider | null {
+    activeProvider = config ? createLLMProvider(config) : null;
+    return activeProvider;
+}
+
+export function getLLMProvider(): LLMProvider | null {
+    if (activeProvider === undefined) {
+        configureLLMProvider(configFromEnv());
+    }
+    return activeProvider ?? null;
+}
+
+export { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiProvider';
+export { createOpenAICompatibleProvider, chatCompletionsUrl, DEFAULT_LOCAL_MODEL } from './openAICompatibleProvider';
+export { createStubProvider } from './stubProvider';
+export * from './types';
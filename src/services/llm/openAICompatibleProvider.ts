@@ -0,0 +1,75 @@
+import { collectStream, errorForException, errorForStatus, llmError } from './http';
+import type { LLMProvider, LLMRequest, LLMResult } from './types';
+
+/**
+ * OpenAI-Compatible Adapter
+ *
+ * Works with anything serving `POST {baseUrl}/v1/chat/completions` with
+ * `stream: true`: llama.cpp's server, Ollama, vLLM, LM Studio or a company
+ * gateway. The base URL may include or omit the trailing `/v1`.
+ */
+
+interface OpenAICompatibleConfig {
+    baseUrl: string;
+    apiKey?: string;
+    model?: string;
+    fetchImpl?: typeof fetch;
+}
+
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string | null } }[];
+}
+
+/** llama.cpp ignores the model name; Ollama needs one it has pulled */
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+export function chatCompletionsUrl(baseUrl: string): string {
+    const root = baseUrl.trim().replace(/\/+$/, '');
+    return root.endsWith('/v1') ? `${root}/chat/completions` : `${root}/v1/chat/completions`;
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+    const model = config.model || DEFAULT_LOCAL_MODEL;
+    const doFetch = config.fetchImpl ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+    return {
+        name: 'OpenAI-compatible',
+        model,
+
+        isConfigured: () => config.baseUrl.trim().length > 0,
+
+        async complete(request: LLMRequest): Promise<LLMResult> {
+            if (!config.baseUrl.trim()) {
+                return { ok: false, error: llmError('not_configured', 'Set the model server URL') };
+            }
+
+            try {
+                const response = await doFetch(chatCompletionsUrl(config.baseUrl), {
+                    method: 'POST',
+                    signal: request.signal,
+                    headers: {
+                        'Content-Type': 'application/json',
+                        Accept: 'text/event-stream',
+                        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+                    },
+                    body: JSON.stringify({
+                        model,
+                        messages: request.messages,
+                        temperature: request.temperature ?? 0.7,
+                        max_tokens: request.maxTokens ?? 1024,
+                        stream: true,
+                    }),
+                });
+                if (!response.ok) return { ok: false, error: errorForStatus(response.status) };
+
+                return await collectStream(
+                    response,
+                    (chunk) => (chunk as ChatCompletionChunk).choices?.[0]?.delta?.content ?? undefined,
+                    request.onToken
+                );
+            } catch (error) {
+                return { ok: false, error: errorForException(error) };
+            }
+        },
+    };
+}
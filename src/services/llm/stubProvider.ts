@@ -0,0 +1,40 @@
+import { llmError } from './http';
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResult } from './types';
+
+/**
+ * Stub Adapter
+ *
+ * Deterministic, offline and instant, for tests and demos. The reply is
+ * streamed word by word so streaming UIs can be exercised without a model.
+ */
+
+interface StubConfig {
+    reply?: (messages: LLMMessage[]) => string;
+}
+
+const defaultReply = (messages: LLMMessage[]): string => {
+    const question = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    return `You asked: "${question.trim()}". I'm the offline stub, so I can't look anything up.`;
+};
+
+export function createStubProvider(config: StubConfig = {}): LLMProvider {
+    const reply = config.reply ?? defaultReply;
+
+    return {
+        name: 'Stub',
+        model: 'stub',
+
+        isConfigured: () => true,
+
+        async complete(request: LLMRequest): Promise<LLMResult> {
+            if (request.signal?.aborted) {
+                return { ok: false, error: llmError('aborted', 'Request cancelled') };
+            }
+            const text = reply(request.messages);
+            if (!text) return { ok: false, error: llmError('empty_response', 'Stub returned no text') };
+
+            (text.match(/\S+\s*|\s+/g) ?? []).forEach(token => request.onToken?.(token));
+            return { ok: true, text };
+        },
+    };
+}
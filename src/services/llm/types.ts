@@ -0,0 +1,79 @@
+/**
+ * LLM Provider Types
+ *
+ * An LLMProvider is the seam between Barista and whichever model answers
+ * (Gemini, a local OpenAI-compatible server, or the test stub). Every call
+ * resolves to an LLMResult instead of throwing, so callers decide how to
+ * degrade.
+ */
+
+// ========================================
+// REQUESTS
+// ========================================
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+    role: LLMRole;
+    content: string;
+}
+
+export interface LLMRequest {
+    messages: LLMMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    /** Called with each chunk of text as it streams in */
+    onToken?: (token: string) => void;
+    signal?: AbortSignal;
+}
+
+// ========================================
+// RESULTS
+// ========================================
+
+export type LLMErrorCode =
+    | 'not_configured' // missing key or endpoint
+    | 'network'        // fetch failed
+    | 'aborted'        // caller cancelled or timed out
+    | 'unauthorized'   // 401 / 403
+    | 'rate_limited'   // 429
+    | 'server'         // other non-2xx
+    | 'empty_response';
+
+export interface LLMError {
+    code: LLMErrorCode;
+    message: string;
+    status?: number;
+}
+
+export type LLMResult =
+    | { ok: true; text: string }
+    | { ok: false; error: LLMError };
+
+// ========================================
+// ADAPTER CONTRACT
+// ========================================
+
+export interface LLMProvider {
+    /** Adapter name, for logging and the settings UI */
+    readonly name: string;
+    /** Model id sent to the backend */
+    readonly model: string;
+
+    isConfigured(): boolean;
+    complete(request: LLMRequest): Promise<LLMResult>;
+}
+
+export type LLMProviderType = 'gemini' | 'openai-compatible' | 'stub';
+
+export type LLMConfig =
+    | { type: 'gemini'; apiKey: string; model?: string; fetchImpl?: typeof fetch }
+    | {
+        type: 'openai-compatible';
+        /** Server root, e.g. http://localhost:11434 (Ollama) or http://localhost:8080 (llama.cpp) */
+        baseUrl: string;
+        apiKey?: string;
+        model?: string;
+        fetchImpl?: typeof fetch;
+    }
+    | { type: 'stub'; reply?: (messages: LLMMessage[]) => string };
@@ -0,0 +1,2 @@
+export { loadOutboxEntries, saveOutboxEntry, deleteOutboxEntry } from './outboxDb';
+export * from './types';
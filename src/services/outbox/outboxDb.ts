@@ -0,0 +1,103 @@
+import type { OutboxEntry } from './types';
+
+/**
+ * Outbox Persistence
+ *
+ * Stores queued mutations in IndexedDB so they survive reloads and
+ * offline sessions. Falls back to an in-memory map where IndexedDB is
+ * unavailable (private browsing, tests), which still works for the
+ * current session.
+ */
+
+const DB_NAME = 'cafe-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<string, OutboxEntry>();
+
+function openDb(): Promise<IDBDatabase | null> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(null);
+            return;
+        }
+
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'idempotencyKey' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('[Outbox] IndexedDB unavailable, using memory:', request.error);
+                resolve(null);
+            };
+        } catch (error) {
+            console.warn('[Outbox] IndexedDB unavailable, using memory:', error);
+            resolve(null);
+        }
+    });
+
+    return dbPromise;
+}
+
+function runRequest<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, mode);
+        const request = makeRequest(tx.objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export async function loadOutboxEntries(): Promise<OutboxEntry[]> {
+    const db = await openDb();
+    if (!db) return [...memoryStore.values()];
+
+    try {
+        const entries = await runRequest<OutboxEntry[]>(db, 'readonly', store => store.getAll());
+        return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+        console.warn('[Outbox] Failed to load entries:', error);
+        return [];
+    }
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+    const db = await openDb();
+    if (!db) {
+        memoryStore.set(entry.idempotencyKey, entry);
+        return;
+    }
+
+    try {
+        await runRequest(db, 'readwrite', store => store.put(entry));
+    } catch (error) {
+        console.warn('[Outbox] Failed to save entry:', error);
+    }
+}
+
+export async function deleteOutboxEntry(idempotencyKey: string): Promise<void> {
+    const db = await openDb();
+    if (!db) {
+        memoryStore.delete(idempotencyKey);
+        return;
+    }
+
+    try {
+        await runRequest(db, 'readwrite', store => store.delete(idempotencyKey));
+    } catch (error) {
+        console.warn('[Outbox] Failed to delete entry:', error);
+    }
+}
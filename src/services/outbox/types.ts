@@ -0,0 +1,42 @@
+/**
+ * Outbox Types
+ *
+ * Every user mutation is recorded here before it is sent, so it can be
+ * replayed when connectivity returns.
+ */
+
+export type MutationType =
+    | 'discussion.create'
+    | 'discussion.delete'
+    | 'discussion.reply'
+    | 'toast.create'
+    | 'toast.retract'
+    | 'note.create'
+    | 'note.delete'
+    | 'feedback.view'
+    | 'feedback.helpful';
+
+export interface Mutation {
+    type: MutationType;
+    /** Kind of entity touched, e.g. 'discussion', 'recognition', 'note' */
+    entityType: string;
+    entityId: string;
+    payload: unknown;
+}
+
+export type OutboxStatus = 'pending' | 'syncing' | 'failed';
+
+export interface OutboxEntry extends Mutation {
+    idempotencyKey: string;
+    createdAt: string;
+    status: OutboxStatus;
+    attempts: number;
+    /** Earliest time (ms) the next retry may run */
+    nextAttemptAt: number;
+    lastError?: string;
+}
+
+/**
+ * Applies the server's copy of an entity after a conflict (server wins)
+ */
+export type ConflictResolver = (serverVersion: unknown, entry: OutboxEntry) => void;
@@ -1,9 +1,18 @@
 import { create } from 'zustand';
 import type { BrewItem, RoastProfile, BrewStats } from '../lib/daily-brew/types';
 import { calculateCaffeineScore, determineRoastProfile, getFreshnessDecay } from '../lib/daily-brew/barista-engine';
-import type { PulseSignal, SignalPriority } from '../lib/pulse/types';
-import type { Recognition } from '../features/toast-x/types/recognition';
-import type { LOPSession } from '../lib/lop/types';
+import { logBrewEvent } from '../lib/daily-brew/event-log';
+import { roastPriority } from '../lib/daily-brew/timing-engine';
+import { evaluateAttention } from '../lib/attention/attentionPolicy';
+import {
+    getBrewSources,
+    getBrewSource,
+    isBrewSourceEnabled,
+    setBrewSourceEnabled,
+    type BrewSourceAdapter,
+} from '../lib/daily-brew/source-registry';
+// Registers the built-in Toast, Pulse, LOP, Discussions, Library and Badges adapters
+import '../lib/daily-brew/source-adapters';
 
 interface BrewStoreState {
     menu: BrewItem[];
@@ -15,10 +24,12 @@ interface BrewStoreState {
     // Actions
     addBrew: (item: Omit<BrewItem, 'id' | 'roast' | 'caffeineScore' | 'servedAt' | 'isRead'> & { id?: string; scoreOverride?: number }) => void;
     sip: (id: string) => void; // Mark as read/peek
+    snooze: (id: string, minutes: number) => void; // Hide until later
     press: () => void; // Toggle UI
     setFilter: (filter: 'all' | RoastProfile) => void;
     refreshMenu: () => void; // Re-calculate freshness/decay
     initializeSourcing: () => void;
+    setSourceEnabled: (adapterId: string, enabled: boolean) => void;
 
     // Debug
     generateMockBrew: () => void;
@@ -259,6 +270,46 @@ const INITIAL_BREW_ITEMS: BrewItem[] = [
     },
 ];
 
+// ═══════════════════════════════════════════════════════════════════════════
+// SOURCE CONNECTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Every id that has reached the menu, so adapters dedup in O(1)
+const servedIds = new Set(INITIAL_BREW_ITEMS.map(i => i.id));
+
+const connections = new Map<string, Promise<() => void>>();
+
+const connectSource = (adapter: BrewSourceAdapter, addBrew: BrewStoreState['addBrew']) => {
+    if (connections.has(adapter.id)) return;
+    const connection: Promise<() => void> = adapter.subscribe((events) => {
+        // Unsubscribing is async; ignore anything reported after a disconnect
+        if (connections.get(adapter.id) !== connection) return;
+        const now = Date.now();
+        events.forEach(event => {
+            const id = adapter.dedupKey(event);
+            if (servedIds.has(id)) return;
+
+            const draft = adapter.toBrew(event, now);
+            if (!draft) return;
+            addBrew({
+                ...draft,
+                id,
+                source: adapter.source,
+                adapterId: adapter.id,
+                scoreOverride: draft.scoreOverride ?? adapter.defaultScore,
+            });
+        });
+    });
+    connections.set(adapter.id, connection);
+};
+
+const disconnectSource = (adapterId: string) => {
+    const connection = connections.get(adapterId);
+    if (!connection) return;
+    connections.delete(adapterId);
+    void connection.then(unsubscribe => unsubscribe());
+};
+
 export const useBrewStore = create<BrewStoreState>((set, get) => ({
     menu: INITIAL_BREW_ITEMS,
     isPressOpen: false,
@@ -275,129 +326,31 @@ export const useBrewStore = create<BrewStoreState>((set, get) => ({
         if (get()._hasInitialized) return;
         set({ _hasInitialized: true });
 
-        // 1. TOAST-X SOURCE
-        // We'll poll or subscribe. For simplicity in this architecture, we'll poll on mount 
-        // and then rely on store subscriptions if available, or just simple state selection.
-        // Ideally, we subscribe to state changes.
-
-        // Import stores dynamically to avoid circular deps if necessary, 
-        // but here we can rely on the module system.
-        import('../features/toast-x').then(({ useToastXStore }) => {
-            useToastXStore.subscribe((state) => {
-                state.recognitions.forEach((r: Recognition) => {
-                    const id = `toast:${r.id}`;
-                    const { menu } = get();
-                    if (menu.some(i => i.id === id)) return; // Dedup
-
-                    // It's a new toast!
-                    get().addBrew({
-                        id, // Deterministic ID
-                        title: `Toast from ${r.giverName}`,
-                        message: r.message,
-                        source: 'toast',
-                        flavorNotes: ['recognition', r.value, ...(r.expertAreas || [])],
-                        timestamp: new Date(r.createdAt).getTime(),
-                    });
-                });
-            });
-        });
+        getBrewSources()
+            .filter(adapter => isBrewSourceEnabled(adapter.id))
+            .forEach(adapter => connectSource(adapter, get().addBrew));
+    },
 
-        // 2. PULSE SOURCE
-        import('../lib/pulse/usePulseStore').then(({ usePulseStore }) => {
-            usePulseStore.subscribe((state) => {
-                state.signals.forEach((s: PulseSignal) => {
-                    const id = `pulse:${s.id}`;
-                    if (get().menu.some(i => i.id === id)) return;
-
-                    const priority = s.priority as SignalPriority;
-                    get().addBrew({
-                        id,
-                        title: s.title,
-                        message: s.summary,
-                        source: 'pulse',
-                        flavorNotes: ['market', s.domain.toLowerCase()],
-                        timestamp: new Date(s.publishedAt).getTime(),
-                        scoreOverride: priority === 'high' || priority === 'critical' ? 80 : 40
-                    });
-                });
-            });
-        });
+    setSourceEnabled: (adapterId, enabled) => {
+        setBrewSourceEnabled(adapterId, enabled);
+        const adapter = getBrewSource(adapterId);
+        if (!adapter) return;
 
-        // 3. LOP SOURCE (New Sessions)
-        import('../stores/lopStore').then(({ useLOPStore }) => {
-            useLOPStore.subscribe((state) => {
-                state.sessions.forEach((s: LOPSession) => {
-                    const id = `lop:${s.id}`;
-                    if (get().menu.some(i => i.id === id)) return;
-
-                    // Only show sessions from the last 7 days as "Fresh" brew
-                    const sessionTime = new Date(s.sessionDate || Date.now()).getTime();
-                    const isRecent = (Date.now() - sessionTime) < (7 * 24 * 60 * 60 * 1000);
-
-                    if (isRecent) {
-                        get().addBrew({
-                            id,
-                            title: `New LOP Session: ${s.title}`,
-                            message: s.subtitle || `With ${s.speaker.name}`,
-                            source: 'lop',
-                            flavorNotes: ['learning', 'session', ...s.topics],
-                            timestamp: sessionTime,
-                            scoreOverride: 60
-                        });
-                    }
-                });
-            });
-        });
+        if (enabled) {
+            if (get()._hasInitialized) connectSource(adapter, get().addBrew);
+            return;
+        }
 
-        // 4. DISCUSSION/CHAT SOURCE (Phase 2.50)
-        import('../stores/discussionStore').then(({ useDiscussionStore }) => {
-            useDiscussionStore.subscribe((state) => {
-                // Surface recent discussions
-                state.discussions.slice(0, 10).forEach((d) => {
-                    const id = `chat:disc:${d.id}`;
-                    if (get().menu.some(i => i.id === id)) return;
-
-                    const discussionTime = new Date(d.createdAt).getTime();
-                    const isRecent = (Date.now() - discussionTime) < (3 * 24 * 60 * 60 * 1000); // 3 days
-
-                    if (isRecent && d.status === 'open') {
-                        get().addBrew({
-                            id,
-                            title: d.title,
-                            message: `${d.authorName} started a discussion`,
-                            source: 'chat',
-                            flavorNotes: ['discussion', 'community', d.attachedToType],
-                            timestamp: discussionTime,
-                            link: `/community/discussions/${d.id}`,
-                            scoreOverride: d.upvoteCount > 5 ? 55 : 35,
-                            actors: [{ name: d.authorName }]
-                        });
-                    }
-                });
-
-                // Surface recent replies on user's discussions (would need user context)
-                state.replies.slice(0, 5).forEach((r) => {
-                    const id = `chat:reply:${r.id}`;
-                    if (get().menu.some(i => i.id === id)) return;
-
-                    const replyTime = new Date(r.createdAt).getTime();
-                    const isRecent = (Date.now() - replyTime) < (24 * 60 * 60 * 1000); // 1 day
-
-                    if (isRecent) {
-                        get().addBrew({
-                            id,
-                            title: `New reply from ${r.authorName}`,
-                            message: r.body.substring(0, 100) + (r.body.length > 100 ? '...' : ''),
-                            source: 'chat',
-                            flavorNotes: ['reply', 'discussion'],
-                            timestamp: replyTime,
-                            link: `/community/discussions/${r.discussionId}`,
-                            scoreOverride: r.isAcceptedAnswer ? 70 : 30,
-                            actors: [{ name: r.authorName }]
-                        });
-                    }
-                });
-            });
+        disconnectSource(adapterId);
+        const removed = get().menu.filter(i => i.adapterId === adapterId);
+        removed.forEach(i => servedIds.delete(i.id));
+        const menu = get().menu.filter(i => i.adapterId !== adapterId);
+        set({
+            menu,
+            stats: {
+                ...get().stats,
+                steamPressure: menu.filter(i => !i.isRead && !i.isHeld).length
+            }
         });
     },
 
@@ -413,10 +366,14 @@ export const useBrewStore = create<BrewStoreState>((set, get) => ({
         const roast = determineRoastProfile(rawScore);
 
         // Allow ID to be passed in, or generate one
-        const id = (input as any).id || crypto.randomUUID();
+        const id = input.id || crypto.randomUUID();
 
         // Dedup check again just in case
-        if (menu.some(i => i.id === id)) return;
+        if (servedIds.has(id)) return;
+        servedIds.add(id);
+
+        // Quiet hours, focus and snooze hold the item until refreshMenu releases it
+        const held = !evaluateAttention({ source: input.source, priority: roastPriority(roast) }).deliver;
 
         const newItem: BrewItem = {
             ...input,
@@ -425,21 +382,25 @@ export const useBrewStore = create<BrewStoreState>((set, get) => ({
             roast,
             servedAt: Date.now(),
             isRead: false,
+            ...(held && { isHeld: true }),
         };
 
         const newMenu = [newItem, ...menu].sort((a, b) => b.caffeineScore - a.caffeineScore);
+        if (!held) logBrewEvent(newItem, 'served');
 
         set({
             menu: newMenu,
             stats: {
                 ...get().stats,
-                steamPressure: newMenu.filter(i => !i.isRead).length
+                steamPressure: newMenu.filter(i => !i.isRead && !i.isHeld).length
             }
         });
     },
 
     sip: (id) => {
         const { menu, stats } = get();
+        const item = menu.find(i => i.id === id);
+        if (item && !item.isRead) logBrewEvent(item, 'sipped');
         const newMenu = menu.map(item =>
             item.id === id ? { ...item, isRead: true } : item
         );
@@ -448,12 +409,20 @@ export const useBrewStore = create<BrewStoreState>((set, get) => ({
             menu: newMenu,
             stats: {
                 ...stats,
-                steamPressure: newMenu.filter(i => !i.isRead).length,
+                steamPressure: newMenu.filter(i => !i.isRead && !i.isHeld).length,
                 dailyIntake: stats.dailyIntake + 1
             }
         });
     },
 
+    snooze: (id, minutes) => {
+        const item = get().menu.find(i => i.id === id);
+        if (!item) return;
+        logBrewEvent(item, 'snoozed');
+        const snoozedUntil = Date.now() + minutes * 60 * 1000;
+        set({ menu: get().menu.map(i => i.id === id ? { ...i, snoozedUntil } : i) });
+    },
+
     press: () => set(state => ({ isPressOpen: !state.isPressOpen })),
 
     setFilter: (filter) => set({ activeFilter: filter }),
@@ -462,11 +431,23 @@ export const useBrewStore = create<BrewStoreState>((set, get) => ({
         const { menu } = get();
         const now = Date.now();
 
+        // Release held items the attention policy now lets through
+        const released = menu.map(item => {
+            if (!item.isHeld || !evaluateAttention({ source: item.source, priority: roastPriority(item.roast) }).deliver) {
+                return item;
+            }
+            const served = { ...item, isHeld: false, servedAt: now };
+            logBrewEvent(served, 'served', now);
+            return served;
+        });
+
         // Apply Freshness Curve (Decay)
-        const refreshedMenu = menu.map(item => {
+        const refreshedMenu = released.map(item => {
             const decayedScore = getFreshnessDecay(item, now);
             return {
                 ...item,
+                // Snoozed items come back once their time is up
+                snoozedUntil: item.snoozedUntil && item.snoozedUntil > now ? item.snoozedUntil : undefined,
                 caffeineScore: decayedScore,
                 // Re-evaluate roast profile based on decayed score? 
                 // Strategy: Maybe items drop from Shot to Blend as they cool down.
@@ -474,7 +455,13 @@ export const useBrewStore = create<BrewStoreState>((set, get) => ({
             };
         }).sort((a, b) => b.caffeineScore - a.caffeineScore); // Keep sorted by heat
 
-        set({ menu: refreshedMenu });
+        set({
+            menu: refreshedMenu,
+            stats: {
+                ...get().stats,
+                steamPressure: refreshedMenu.filter(i => !i.isRead && !i.isHeld).length
+            }
+        });
     },
 
     generateMockBrew: () => {
@@ -3,6 +3,7 @@ import { persist } from 'zustand/middleware';
 import { mockDiscussions, mockReplies, type Discussion, type Reply } from '../data/discussions';
 import type { ReactionType } from '../types/gamification';
 import { useBadgeStore, type UserStats } from './badgeStore';
+import { useOutboxStore, registerConflictResolver } from './outboxStore';
 
 /**
  * Discussion Store - Zustand store for managing discussions and replies
@@ -118,6 +119,12 @@ export const useDiscussionStore = create<DiscussionState>()(
                     checkBadges(discussion.authorId, nextDiscussions, state.replies);
                     return { discussions: nextDiscussions };
                 });
+                useOutboxStore.getState().enqueue({
+                    type: 'discussion.create',
+                    entityType: 'discussion',
+                    entityId: newDiscussion.id,
+                    payload: newDiscussion,
+                });
                 return newDiscussion;
             },
 
@@ -149,6 +156,12 @@ export const useDiscussionStore = create<DiscussionState>()(
                         replies: nextReplies,
                     };
                 });
+                useOutboxStore.getState().enqueue({
+                    type: 'discussion.reply',
+                    entityType: 'reply',
+                    entityId: newReply.id,
+                    payload: newReply,
+                });
                 return newReply;
             },
 
@@ -363,6 +376,12 @@ export const useDiscussionStore = create<DiscussionState>()(
                     discussions: state.discussions.filter(d => d.id !== id),
                     replies: state.replies.filter(r => r.discussionId !== id),
                 }));
+                useOutboxStore.getState().enqueue({
+                    type: 'discussion.delete',
+                    entityType: 'discussion',
+                    entityId: id,
+                    payload: { id },
+                });
             },
 
             // Getters
@@ -397,3 +416,20 @@ export const useDiscussionStore = create<DiscussionState>()(
         }
     )
 );
+
+// Server wins on conflict: replace the local copy with the server's version
+registerConflictResolver('discussion', (serverVersion) => {
+    const server = serverVersion as Discussion | undefined;
+    if (!server?.id) return;
+    useDiscussionStore.setState(state => ({
+        discussions: state.discussions.map(d => (d.id === server.id ? withDefaults(server) : d)),
+    }));
+});
+
+registerConflictResolver('reply', (serverVersion) => {
+    const server = serverVersion as Reply | undefined;
+    if (!server?.id) return;
+    useDiscussionStore.setState(state => ({
+        replies: state.replies.map(r => (r.id === server.id ? withDefaults(server) : r)),
+    }));
+});
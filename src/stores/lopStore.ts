@@ -28,6 +28,8 @@ interface LOPState {
 
     // User progress
     progress: Record<string, LOPUserProgress>;
+    /** Learning path id → ISO time the user enrolled */
+    pathEnrollments: Record<string, string>;
 
     // Filters
     filters: {
@@ -49,6 +51,10 @@ interface LOPState {
     markSessionCompleted: (sessionId: string) => void;
     toggleSessionLike: (sessionId: string) => void;
 
+    // Learning path actions
+    enrollInPath: (pathId: string) => void;
+    unenrollFromPath: (pathId: string) => void;
+
     // Topic actions
     submitTopic: (title: string, description?: string) => void;
     upvoteTopic: (topicId: string) => void;
@@ -63,6 +69,7 @@ interface LOPState {
     getPathProgress: (pathId: string) => { completed: number; total: number; percent: number };
     isSessionCompleted: (sessionId: string) => boolean;
     isSessionLiked: (sessionId: string) => boolean;
+    isEnrolledInPath: (pathId: string) => boolean;
 }
 
 const DEFAULT_FILTERS = {
@@ -81,6 +88,7 @@ export const useLOPStore = create<LOPState>()(
             learningPaths: LOP_LEARNING_PATHS,
             topicSuggestions: LOP_TOPIC_SUGGESTIONS,
             progress: {},
+            pathEnrollments: {},
             filters: DEFAULT_FILTERS,
             sortBy: 'newest',
 
@@ -145,6 +153,19 @@ export const useLOPStore = create<LOPState>()(
                     };
                 }),
 
+            // Learning path actions
+            enrollInPath: (pathId) =>
+                set(state => state.pathEnrollments[pathId] ? state : {
+                    pathEnrollments: { ...state.pathEnrollments, [pathId]: new Date().toISOString() }
+                }),
+
+            unenrollFromPath: (pathId) =>
+                set(state => {
+                    const pathEnrollments = { ...state.pathEnrollments };
+                    delete pathEnrollments[pathId];
+                    return { pathEnrollments };
+                }),
+
             // Topic actions
             submitTopic: (title, description) =>
                 set(state => ({
@@ -246,10 +267,11 @@ export const useLOPStore = create<LOPState>()(
 
             isSessionCompleted: (sessionId) => !!get().progress[sessionId]?.completed,
             isSessionLiked: (sessionId) => !!get().progress[sessionId]?.likedAt,
+            isEnrolledInPath: (pathId) => !!get().pathEnrollments[pathId],
         }),
         {
             name: 'lop-storage',
-            partialize: (state) => ({ progress: state.progress }),
+            partialize: (state) => ({ progress: state.progress, pathEnrollments: state.pathEnrollments }),
         }
     )
 );
@@ -0,0 +1,255 @@
+import { create } from 'zustand';
+import { getDataSource, type DataResult, type FeedbackEvent } from '../services/dataSource';
+import {
+    loadOutboxEntries,
+    saveOutboxEntry,
+    deleteOutboxEntry,
+    type ConflictResolver,
+    type Mutation,
+    type OutboxEntry,
+    type OutboxStatus,
+} from '../services/outbox';
+
+/**
+ * Outbox Store - Offline-capable queue of user mutations
+ *
+ * Features:
+ * - Record every mutation with a timestamp and idempotency key (IndexedDB)
+ * - Replay queued mutations in order when connectivity returns
+ * - Exponential backoff for retryable errors, 'failed' after MAX_ATTEMPTS
+ * - Conflicts resolve to the server version via registered resolvers
+ * - Per-entity pending/failed status for UI badges
+ */
+
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+interface OutboxState {
+    entries: OutboxEntry[];
+    isOnline: boolean;
+    isFlushing: boolean;
+    hasHydrated: boolean;
+
+    // Actions
+    hydrate: () => Promise<void>;
+    enqueue: (mutation: Mutation) => OutboxEntry;
+    flush: () => Promise<void>;
+    retry: (idempotencyKey: string) => void;
+    discard: (idempotencyKey: string) => void;
+    setOnline: (isOnline: boolean) => void;
+
+    // Getters
+    getEntityStatus: (entityType: string, entityId: string) => OutboxStatus | null;
+    getPendingCount: () => number;
+    getFailedCount: () => number;
+}
+
+const conflictResolvers = new Map<string, ConflictResolver>();
+
+/**
+ * Register how an entity type adopts the server's copy after a conflict
+ */
+export function registerConflictResolver(entityType: string, resolver: ConflictResolver): void {
+    conflictResolvers.set(entityType, resolver);
+}
+
+const backoffFor = (attempts: number) =>
+    Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+const entityKey = (entry: Pick<OutboxEntry, 'entityType' | 'entityId'>) =>
+    `${entry.entityType}:${entry.entityId}`;
+
+function send(entry: OutboxEntry): Promise<DataResult<unknown>> {
+    const source = getDataSource();
+
+    // Feedback is fire-and-forget analytics with its own endpoint
+    if (entry.type === 'feedback.view' || entry.type === 'feedback.helpful') {
+        return source.sendFeedback(entry.payload as FeedbackEvent);
+    }
+
+    return source.submitMutation({
+        idempotencyKey: entry.idempotencyKey,
+        type: entry.type,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        payload: entry.payload,
+        createdAt: entry.createdAt,
+    });
+}
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const useOutboxStore = create<OutboxState>()((set, get) => {
+    const updateEntry = (idempotencyKey: string, updates: Partial<OutboxEntry>) => {
+        let updated: OutboxEntry | undefined;
+        set(state => ({
+            entries: state.entries.map(e => {
+                if (e.idempotencyKey !== idempotencyKey) return e;
+                updated = { ...e, ...updates };
+                return updated;
+            }),
+        }));
+        if (updated) void saveOutboxEntry(updated);
+    };
+
+    const removeEntry = (idempotencyKey: string) => {
+        set(state => ({
+            entries: state.entries.filter(e => e.idempotencyKey !== idempotencyKey),
+        }));
+        void deleteOutboxEntry(idempotencyKey);
+    };
+
+    const scheduleRetry = () => {
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+
+        // Entries stuck behind a failed change wait for retry() or discard()
+        const failed = new Set(get().entries.filter(e => e.status === 'failed').map(entityKey));
+        const waiting = get().entries.filter(e => e.status === 'pending' && !failed.has(entityKey(e)));
+        if (waiting.length === 0) return;
+
+        const nextAt = Math.min(...waiting.map(e => e.nextAttemptAt));
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            void get().flush();
+        }, Math.max(0, nextAt - Date.now()));
+    };
+
+    return {
+        entries: [],
+        isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+        isFlushing: false,
+        hasHydrated: false,
+
+        hydrate: async () => {
+            if (get().hasHydrated) return;
+            const stored = await loadOutboxEntries();
+
+            set(state => {
+                // Keep anything enqueued while loading; an interrupted sync is pending again
+                const known = new Set(state.entries.map(e => e.idempotencyKey));
+                const restored = stored
+                    .filter(e => !known.has(e.idempotencyKey))
+                    .map(e => (e.status === 'syncing' ? { ...e, status: 'pending' as const } : e));
+                return {
+                    entries: [...restored, ...state.entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+                    hasHydrated: true,
+                };
+            });
+        },
+
+        enqueue: (mutation) => {
+            const entry: OutboxEntry = {
+                ...mutation,
+                idempotencyKey: crypto.randomUUID(),
+                createdAt: new Date().toISOString(),
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: Date.now(),
+            };
+
+            set(state => ({ entries: [...state.entries, entry] }));
+            void saveOutboxEntry(entry);
+            void get().flush();
+
+            return entry;
+        },
+
+        flush: async () => {
+            const { isFlushing, isOnline } = get();
+            if (isFlushing || !isOnline) return;
+
+            set({ isFlushing: true });
+            // A failed change holds back the rest of that entity until retried or discarded
+            const blocked = new Set(get().entries.filter(e => e.status === 'failed').map(entityKey));
+
+            try {
+                const queue = get().entries.filter(e => e.status !== 'failed');
+
+                for (const entry of queue) {
+                    const key = entityKey(entry);
+
+                    // Preserve per-entity ordering: wait behind an earlier unsent change
+                    if (blocked.has(key) || entry.nextAttemptAt > Date.now()) {
+                        blocked.add(key);
+                        continue;
+                    }
+                    if (!get().isOnline) break;
+
+                    updateEntry(entry.idempotencyKey, { status: 'syncing' });
+                    const result = await send(entry);
+
+                    if (result.ok) {
+                        removeEntry(entry.idempotencyKey);
+                        continue;
+                    }
+
+                    const { error } = result;
+
+                    if (error.code === 'conflict') {
+                        // Server wins: adopt its copy and drop the local change
+                        conflictResolvers.get(entry.entityType)?.(error.serverVersion, entry);
+                        console.warn(`[Outbox] Conflict on ${key}, kept server version`);
+                        removeEntry(entry.idempotencyKey);
+                        continue;
+                    }
+
+                    const attempts = entry.attempts + 1;
+                    const giveUp = !error.retryable || attempts >= MAX_ATTEMPTS;
+                    updateEntry(entry.idempotencyKey, {
+                        status: giveUp ? 'failed' : 'pending',
+                        attempts,
+                        nextAttemptAt: Date.now() + backoffFor(attempts),
+                        lastError: error.message,
+                    });
+                    blocked.add(key);
+
+                    if (error.code === 'network') {
+                        // Likely offline; the 'online' event or retry timer resumes
+                        break;
+                    }
+                }
+            } finally {
+                set({ isFlushing: false });
+                scheduleRetry();
+            }
+        },
+
+        retry: (idempotencyKey) => {
+            updateEntry(idempotencyKey, {
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: Date.now(),
+                lastError: undefined,
+            });
+            void get().flush();
+        },
+
+        discard: (idempotencyKey) => {
+            removeEntry(idempotencyKey);
+            // Later changes to the same entity may have been waiting on it
+            void get().flush();
+        },
+
+        setOnline: (isOnline) => {
+            set({ isOnline });
+            if (isOnline) void get().flush();
+        },
+
+        // Getters
+        getEntityStatus: (entityType, entityId) => {
+            const statuses = get().entries
+                .filter(e => e.entityType === entityType && e.entityId === entityId)
+                .map(e => e.status);
+            if (statuses.includes('failed')) return 'failed';
+            if (statuses.includes('syncing')) return 'syncing';
+            if (statuses.includes('pending')) return 'pending';
+            return null;
+        },
+
+        getPendingCount: () => get().entries.filter(e => e.status !== 'failed').length,
+
+        getFailedCount: () => get().entries.filter(e => e.status === 'failed').length,
+    };
+});
@@ -0,0 +1,182 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { cafeFinder, documentKey, flattenResults } from '../lib/search';
+import type { SavedSearch, SearchResultType } from '../lib/search/types';
+import { useBrewStore } from './brewStore';
+
+/**
+ * Saved Search Store - Zustand store for named, re-runnable searches
+ *
+ * Features:
+ * - Save a query (with its operators) under a name
+ * - Re-run alerting searches when the search index changes
+ * - Notify through the Daily Brew bell when new results appear
+ * - Track unseen matches until the user opens the search again
+ */
+
+const MAX_SAVED_SEARCHES = 25;
+
+/** Remembered keys per search, so the list does not grow forever */
+const MAX_SEEN_KEYS = 200;
+
+const TYPE_NOUNS: Record<SearchResultType, [string, string]> = {
+    person: ['person', 'people'],
+    tool: ['tool', 'tools'],
+    faq: ['FAQ', 'FAQs'],
+    resource: ['resource', 'resources'],
+    discussion: ['discussion', 'discussions'],
+    lop_session: ['LOP session', 'LOP sessions'],
+    pulse_signal: ['Pulse signal', 'Pulse signals'],
+    competitor: ['competitor', 'competitors'],
+    toast: ['toast', 'toasts'],
+};
+
+const typeOfKey = (key: string) => key.slice(0, key.indexOf(':')) as SearchResultType;
+
+/**
+ * "3 new Pulse signals" or "5 new results" when the types are mixed
+ */
+export function describeNewMatches(keys: string[]): string {
+    const types = new Set(keys.map(typeOfKey));
+    const [singular, plural] = types.size === 1 ? TYPE_NOUNS[[...types][0]] : ['result', 'results'];
+    return `${keys.length} new ${keys.length === 1 ? singular : plural}`;
+}
+
+/** What the search results page renders, so "View results" shows every match an alert counted */
+const ALERT_RESULT_TYPES = new Set<SearchResultType>(['resource', 'faq', 'person', 'toast']);
+
+/**
+ * Result keys a query currently returns
+ */
+function currentMatches(query: string): string[] {
+    const response = cafeFinder.search(query);
+    return flattenResults(response.results)
+        .filter(result => ALERT_RESULT_TYPES.has(result.type))
+        .map(result => documentKey(result.type, result.id));
+}
+
+interface SavedSearchState {
+    savedSearches: SavedSearch[];
+
+    // Actions
+    saveSearch: (name: string, query: string) => SavedSearch | null;
+    renameSavedSearch: (id: string, name: string) => void;
+    removeSavedSearch: (id: string) => void;
+    toggleAlerts: (id: string) => void;
+    markSeen: (id: string) => void;
+    /** Re-run alerting searches; returns how many found something new */
+    runSavedSearches: () => number;
+
+    // Getters
+    isSaved: (query: string) => boolean;
+    getUnseenCount: () => number;
+}
+
+export const useSavedSearchStore = create<SavedSearchState>()(
+    persist(
+        (set, get) => ({
+            savedSearches: [],
+
+            saveSearch: (name, query) => {
+                const trimmedQuery = query.trim();
+                if (!trimmedQuery || get().isSaved(trimmedQuery)) return null;
+
+                const now = new Date().toISOString();
+                const savedSearch: SavedSearch = {
+                    id: crypto.randomUUID(),
+                    name: name.trim() || trimmedQuery,
+                    query: trimmedQuery,
+                    alertsEnabled: true,
+                    createdAt: now,
+                    lastRunAt: now,
+                    // What matches today is the baseline; only later matches alert
+                    seenKeys: currentMatches(trimmedQuery).slice(0, MAX_SEEN_KEYS),
+                    unseenKeys: [],
+                };
+
+                set(state => ({
+                    savedSearches: [savedSearch, ...state.savedSearches].slice(0, MAX_SAVED_SEARCHES),
+                }));
+                return savedSearch;
+            },
+
+            renameSavedSearch: (id, name) => {
+                const trimmed = name.trim();
+                if (!trimmed) return;
+                set(state => ({
+                    savedSearches: state.savedSearches.map(s => (s.id === id ? { ...s, name: trimmed } : s)),
+                }));
+            },
+
+            removeSavedSearch: (id) => {
+                set(state => ({
+                    savedSearches: state.savedSearches.filter(s => s.id !== id),
+                }));
+            },
+
+            toggleAlerts: (id) => {
+                set(state => ({
+                    savedSearches: state.savedSearches.map(s =>
+                        s.id === id ? { ...s, alertsEnabled: !s.alertsEnabled } : s
+                    ),
+                }));
+            },
+
+            markSeen: (id) => {
+                set(state => ({
+                    savedSearches: state.savedSearches.map(s => (s.id === id ? { ...s, unseenKeys: [] } : s)),
+                }));
+            },
+
+            runSavedSearches: () => {
+                const now = new Date().toISOString();
+                const alerts: Array<{ search: SavedSearch; newKeys: string[] }> = [];
+
+                const savedSearches = get().savedSearches.map(search => {
+                    if (!search.alertsEnabled) return search;
+
+                    const seen = new Set(search.seenKeys);
+                    const newKeys = currentMatches(search.query).filter(key => !seen.has(key));
+                    if (newKeys.length === 0) return { ...search, lastRunAt: now };
+
+                    alerts.push({ search, newKeys });
+                    return {
+                        ...search,
+                        lastRunAt: now,
+                        seenKeys: [...newKeys, ...search.seenKeys].slice(0, MAX_SEEN_KEYS),
+                        unseenKeys: [...new Set([...newKeys, ...search.unseenKeys])],
+                    };
+                });
+
+                set({ savedSearches });
+
+                alerts.forEach(({ search, newKeys }) => {
+                    const title = `${describeNewMatches(newKeys)} match '${search.name}'`;
+                    useBrewStore.getState().addBrew({
+                        id: `search:${search.id}:${now}`,
+                        title,
+                        message: `Saved search: ${search.query}`,
+                        source: 'system',
+                        flavorNotes: ['saved-search', ...new Set(newKeys.map(typeOfKey))],
+                        timestamp: Date.now(),
+                        link: `/search?q=${encodeURIComponent(search.query)}`,
+                        scoreOverride: 65,
+                    });
+                });
+
+                return alerts.length;
+            },
+
+            isSaved: (query) => {
+                const normalized = query.trim().toLowerCase();
+                return get().savedSearches.some(s => s.query.toLowerCase() === normalized);
+            },
+
+            getUnseenCount: () =>
+                get().savedSearches.reduce((sum, s) => sum + s.unseenKeys.length, 0),
+        }),
+        {
+            name: 'cafe-saved-searches',
+        }
+    )
+);
@@ -0,0 +1,93 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { IntentType, SearchLogEntry, SearchResultType } from '../lib/search/types';
+import { isReformulation, normalizeAnalyticsQuery } from '../lib/search/searchAnalytics';
+
+/**
+ * Search Analytics Store - Zustand store for the search log
+ *
+ * Features:
+ * - Record each submitted search with its real result count and intent
+ * - Record clicked results with position and time-to-click
+ * - Link rephrased queries to the search they replaced
+ * - Feed the admin search analytics dashboard
+ */
+
+const MAX_LOG_ENTRIES = 1000;
+
+interface SearchAnalyticsState {
+    log: SearchLogEntry[];
+    /** Search that result clicks are attributed to */
+    activeSearchId: string | null;
+
+    // Actions
+    recordSearch: (search: { query: string; resultCount: number; intent: IntentType }) => SearchLogEntry | null;
+    recordClick: (click: { resultId: string; resultType: SearchResultType; position: number }) => void;
+    clearLog: () => void;
+}
+
+export const useSearchAnalyticsStore = create<SearchAnalyticsState>()(
+    persist(
+        (set, get) => ({
+            log: [],
+            activeSearchId: null,
+
+            recordSearch: ({ query, resultCount, intent }) => {
+                const normalizedQuery = normalizeAnalyticsQuery(query);
+                if (!normalizedQuery) return null;
+
+                const now = new Date();
+                const previous = get().log.find(e => e.id === get().activeSearchId);
+
+                const entry: SearchLogEntry = {
+                    id: `s${now.getTime()}-${Math.random().toString(36).slice(2, 7)}`,
+                    query: query.trim(),
+                    normalizedQuery,
+                    resultCount,
+                    intent,
+                    timestamp: now.toISOString(),
+                    clicks: [],
+                    reformulatedFrom: previous && isReformulation(previous, query, now)
+                        ? previous.query
+                        : undefined,
+                };
+
+                set(state => ({
+                    log: [entry, ...state.log].slice(0, MAX_LOG_ENTRIES),
+                    activeSearchId: entry.id,
+                }));
+                return entry;
+            },
+
+            recordClick: ({ resultId, resultType, position }) => {
+                const { activeSearchId } = get();
+                if (!activeSearchId) return;
+
+                set(state => ({
+                    log: state.log.map(entry => {
+                        if (entry.id !== activeSearchId) return entry;
+                        // Only the first open of a result counts
+                        if (entry.clicks.some(c => c.resultId === resultId)) return entry;
+                        return {
+                            ...entry,
+                            clicks: [...entry.clicks, {
+                                resultId,
+                                resultType,
+                                position,
+                                timeToClickMs: Date.now() - new Date(entry.timestamp).getTime(),
+                            }],
+                        };
+                    }),
+                }));
+            },
+
+            clearLog: () => {
+                set({ log: [], activeSearchId: null });
+            },
+        }),
+        {
+            name: 'cafe-search-analytics',
+            partialize: (state) => ({ log: state.log }),
+        }
+    )
+);
@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { createSearchSession, type SearchContext, type SearchTurn } from '../lib/search';
+
+/**
+ * Search Session Store - Zustand store for the conversational search session
+ *
+ * Features:
+ * - Resolve follow-up queries against the previous turn
+ * - Record edits to the current query (removing a filter) as refinements
+ * - Expose the turns as a refinement breadcrumb
+ * - Undo refinements one step at a time, or jump back to an earlier step
+ */
+
+const session = createSearchSession();
+
+interface SearchSessionState {
+    turns: SearchTurn[];
+
+    // Actions
+    ask: (input: string, context?: SearchContext) => SearchTurn;
+    refine: (query: string, label: string, context?: SearchContext) => SearchTurn;
+    undo: () => SearchTurn | null;
+    rewindTo: (turnId: string) => SearchTurn | null;
+    reset: () => void;
+}
+
+export const useSearchSessionStore = create<SearchSessionState>()((set) => ({
+    turns: [],
+
+    ask: (input, context) => {
+        const turn = session.ask(input, context);
+        set({ turns: session.turns });
+        return turn;
+    },
+
+    refine: (query, label, context) => {
+        const turn = session.refine(query, label, context);
+        set({ turns: session.turns });
+        return turn;
+    },
+
+    undo: () => {
+        const turn = session.undo();
+        set({ turns: session.turns });
+        return turn;
+    },
+
+    rewindTo: (turnId) => {
+        const turn = session.rewindTo(turnId);
+        set({ turns: session.turns });
+        return turn;
+    },
+
+    reset: () => {
+        session.reset();
+        set({ turns: [] });
+    },
+}));